@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { createUser, getUserCredentials, recordUserLogin } from '@/lib/db';
+import { setSessionCookie } from '@/lib/auth';
+import { hashPassword, verifyPassword } from '@/lib/passwords';
+import { isOidcEnabled } from '@/lib/oidc';
+import { normalizeUsername } from '@/lib/users';
+import { AppUser, SessionUser } from '@/lib/types';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+// Checked when a username doesn't exist, so a wrong username takes as long as a wrong password
+const UNKNOWN_USER_HASH = 'scrypt$16384$8$1$AAAAAAAAAAAAAAAAAAAAAA==$AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==';
+
+/**
+ * The first admin, from AUTH_ADMIN_USERNAME / AUTH_ADMIN_PASSWORD
+ * Only used to create that user on their first sign-in; after that the stored password applies
+ */
+async function createBootstrapAdmin(username: string, password: string): Promise<AppUser | null> {
+  const adminUsername = process.env.AUTH_ADMIN_USERNAME;
+  const adminPassword = process.env.AUTH_ADMIN_PASSWORD;
+  if (!adminUsername || !adminPassword) return null;
+  if (username !== normalizeUsername(adminUsername) || password !== adminPassword) return null;
+
+  return createUser({
+    username,
+    displayName: null,
+    role: 'admin',
+    provider: 'local',
+    passwordHash: await hashPassword(password),
+  });
+}
+
+/**
+ * POST - Sign in with a username and password
+ * Body: { username: string, password: string }
+ * Sets the session cookie and returns { user }
+ */
+export async function POST(request: Request) {
+  try {
+    if (isOidcEnabled()) {
+      return NextResponse.json({ error: 'Sign in through your identity provider' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.username !== 'string' || typeof body?.password !== 'string') {
+      return NextResponse.json({ error: 'username and password are required' }, { status: 400 });
+    }
+    const username = normalizeUsername(body.username);
+
+    const credentials = await getUserCredentials(username);
+    const passwordMatches = await verifyPassword(body.password, credentials?.passwordHash || UNKNOWN_USER_HASH);
+    const user = credentials
+      ? (passwordMatches ? credentials.user : null)
+      : await createBootstrapAdmin(username, body.password);
+    if (!user || user.disabled) {
+      return NextResponse.json({ error: 'Incorrect username or password' }, { status: 401 });
+    }
+
+    await recordUserLogin(user.id);
+    const sessionUser: SessionUser = {
+      username: user.username,
+      displayName: user.displayName,
+      role: user.role,
+      provider: 'local',
+    };
+    const response = NextResponse.json({ user: sessionUser });
+    await setSessionCookie(response, sessionUser);
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
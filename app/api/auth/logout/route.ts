@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST - Sign out
+ */
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { saveOidcUser } from '@/lib/db';
+import { setSessionCookie } from '@/lib/auth';
+import { isUserRole } from '@/lib/roles';
+import { normalizeUsername } from '@/lib/users';
+import { completeOidcSignIn, getAppOrigin, getOidcRedirectUri, isOidcEnabled, OIDC_STATE_COOKIE } from '@/lib/oidc';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Where the OIDC provider sends the user back after signing in
+ * Creates the user on first sign-in (AUTH_ADMIN_USERNAME becomes an admin, others OIDC_DEFAULT_ROLE)
+ * Refuses usernames that belong to password users
+ */
+export async function GET(request: NextRequest) {
+  const loginUrl = (error: string) => `${getAppOrigin(request)}/login?error=${encodeURIComponent(error)}`;
+  try {
+    if (!isOidcEnabled()) {
+      return NextResponse.json({ error: 'OIDC sign-in is not enabled' }, { status: 400 });
+    }
+
+    const url = new URL(request.url);
+    const code = url.searchParams.get('code');
+    const stored = JSON.parse(request.cookies.get(OIDC_STATE_COOKIE)?.value || 'null');
+    if (!code || !stored || url.searchParams.get('state') !== stored.state) {
+      return NextResponse.redirect(loginUrl(url.searchParams.get('error_description') || 'Sign-in expired, please try again'));
+    }
+
+    const identity = await completeOidcSignIn(code, getOidcRedirectUri(request), stored.verifier);
+    const adminUsername = process.env.AUTH_ADMIN_USERNAME;
+    const defaultRole = process.env.OIDC_DEFAULT_ROLE;
+    const user = await saveOidcUser({
+      username: identity.username,
+      displayName: identity.displayName,
+      role: identity.role,
+      defaultRole: adminUsername && normalizeUsername(adminUsername) === identity.username
+        ? 'admin'
+        : isUserRole(defaultRole) ? defaultRole : 'viewer',
+    });
+    if (!user) {
+      return NextResponse.redirect(loginUrl('This username belongs to a password account, so it can\'t sign in through the identity provider'));
+    }
+    if (user.disabled) {
+      return NextResponse.redirect(loginUrl('This account has been disabled'));
+    }
+
+    const response = NextResponse.redirect(`${getAppOrigin(request)}${stored.next || '/'}`);
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+    await setSessionCookie(response, {
+      username: user.username,
+      displayName: user.displayName,
+      role: user.role,
+      provider: 'oidc',
+    });
+    return response;
+  } catch (error) {
+    console.error('Error completing OIDC sign-in:', error);
+    return NextResponse.redirect(loginUrl('Sign-in failed, please try again'));
+  }
+}
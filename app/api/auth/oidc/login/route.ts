@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getOidcRedirectUri, isOidcEnabled, OIDC_STATE_COOKIE, startOidcSignIn } from '@/lib/oidc';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Only same-site paths, so the redirect after sign-in can't be pointed elsewhere
+ * Resolved like the browser would, so tricks such as `/\evil.com` (read as `//evil.com`) are caught
+ */
+function safeNext(value: string | null): string {
+  if (!value || !value.startsWith('/')) return '/';
+  const base = 'http://app.invalid';
+  const url = new URL(value, base);
+  return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : '/';
+}
+
+/**
+ * GET - Send the user to the OIDC provider to sign in
+ * ?next= is the page to return to afterwards
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isOidcEnabled()) {
+      return NextResponse.json({ error: 'OIDC sign-in is not enabled' }, { status: 400 });
+    }
+
+    const next = new URL(request.url).searchParams.get('next');
+    const signIn = await startOidcSignIn(getOidcRedirectUri(request));
+
+    const response = NextResponse.redirect(signIn.url);
+    response.cookies.set(OIDC_STATE_COOKIE, JSON.stringify({
+      state: signIn.state,
+      verifier: signIn.verifier,
+      next: safeNext(next),
+    }), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth/oidc',
+      maxAge: 10 * 60,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error starting OIDC sign-in:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start sign-in',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
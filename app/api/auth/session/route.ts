@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getSession, SESSION_COOKIE, setSessionCookie } from '@/lib/auth';
+import { isOidcEnabled } from '@/lib/oidc';
+import { loadSessionUser } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Who is signed in, and how the login page should offer sign-in
+ * Returns { user: SessionUser | null, provider: 'local' | 'oidc' }
+ * The session cookie is re-signed if the user's role or name has changed since they signed in,
+ * and dropped if they have been disabled
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getSession(request);
+    const user = await loadSessionUser(request);
+    const response = NextResponse.json({ user, provider: isOidcEnabled() ? 'oidc' : 'local' });
+    if (session && session.provider !== 'token') {
+      if (!user) {
+        response.cookies.delete(SESSION_COOKIE);
+      } else if (user.role !== session.role || user.displayName !== session.displayName) {
+        await setSessionCookie(response, user);
+      }
+    }
+    return response;
+  } catch (error) {
+    console.error('Error getting session:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to get session',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getPrintBatch } from '@/lib/db';
+import { requireRole } from '@/lib/session';
+import { hasRole } from '@/lib/roles';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Get a print batch with the orders it contained
+ * The order snapshot is only included for leads, since it's what reprints are made from
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const id = parseInt(params.id);
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Invalid batch id' },
+        { status: 400 }
+      );
+    }
+
+    const batch = await getPrintBatch(id);
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!hasRole(user, 'lead')) {
+      return NextResponse.json({ batch: { ...batch, snapshot: null } });
+    }
+    return NextResponse.json({ batch });
+  } catch (error) {
+    console.error('Error getting print batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to get print batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { createPrintBatch, getOrderStatuses, getPrintBatches } from '@/lib/db';
+import { queuePrintedWriteBack } from '@/lib/netsuiteWriteBack';
+import { parsePrintAuditContext } from '@/lib/printAudit';
+import { getOrderStatus, isPrintedStatus } from '@/lib/orderStatus';
+import { requireRole } from '@/lib/session';
+import { hasRole } from '@/lib/roles';
+import { OutputFormat, PageProfile, PrintDocumentType } from '@/lib/types';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const DOCUMENT_TYPES: PrintDocumentType[] = ['packing-slips', 'picklist-and-packing-slips'];
+const PAGE_PROFILES: PageProfile[] = ['letter', 'letter-2up', 'thermal-4x6'];
+const OUTPUT_FORMATS: OutputFormat[] = ['pdf', 'zpl-file', 'zpl-printer'];
+
+/**
+ * GET - List recent print batches
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '') || 50;
+
+    const batches = await getPrintBatches(Math.min(limit, 500));
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('Error getting print batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to get print batches' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Record a print batch and mark its orders as printed, as the signed-in user
+ * Batches with orders that were already printed are reprints, which need a lead
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'packer');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+    const { documentType, filters, pageProfile, packSizeVersion, outputFormat, orders, snapshot } = body;
+
+    if (!DOCUMENT_TYPES.includes(documentType)) {
+      return NextResponse.json(
+        { error: `documentType must be one of: ${DOCUMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(orders) || orders.some(o => !o || typeof o.tranid !== 'string')) {
+      return NextResponse.json(
+        { error: 'orders must be an array of { tranid, orderNumber }' },
+        { status: 400 }
+      );
+    }
+
+    if (!hasRole(user, 'lead')) {
+      const statuses = await getOrderStatuses({ tranids: orders.map((o: { tranid: string }) => o.tranid) });
+      if (orders.some((o: { tranid: string }) => isPrintedStatus(getOrderStatus(statuses, o.tranid)))) {
+        return NextResponse.json({ error: 'Reprinting orders needs the Lead role' }, { status: 403 });
+      }
+    }
+
+    const audit = parsePrintAuditContext(user.username, body.source, 'orders');
+    const batch = await createPrintBatch({
+      documentType,
+      printedBy: audit.actor,
+      filters: filters || null,
+      pageProfile: PAGE_PROFILES.includes(pageProfile) ? pageProfile : null,
+      packSizeVersion: Number.isInteger(packSizeVersion) ? packSizeVersion : null,
+      outputFormat: OUTPUT_FORMATS.includes(outputFormat) ? outputFormat : null,
+      orders: orders.map((o: { tranid: string; orderNumber?: string }) => ({
+        tranid: o.tranid,
+        orderNumber: o.orderNumber || null,
+      })),
+      snapshot: Array.isArray(snapshot) ? snapshot : null,
+    }, audit.source);
+    await queuePrintedWriteBack(orders.map((o: { tranid: string }) => o.tranid), {
+      batchId: batch.id,
+      printedAt: new Date(batch.createdAt),
+    });
+    return NextResponse.json({ batch });
+  } catch (error) {
+    console.error('Error creating print batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to create print batch' },
+      { status: 500 }
+    );
+  }
+}
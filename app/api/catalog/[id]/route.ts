@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { deleteCatalogEntry, updateCatalogEntry } from '@/lib/db';
+import { parseCatalogEntry } from '@/lib/skuCatalog';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT - Replace a SKU catalog entry
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    const id = parseInt(params.id);
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Invalid catalog entry id' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const entry = parseCatalogEntry(body);
+    if (typeof entry === 'string') {
+      return NextResponse.json({ error: entry }, { status: 400 });
+    }
+
+    const updated = await updateCatalogEntry(id, entry);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Catalog entry not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ entry: updated });
+  } catch (error) {
+    console.error('Error updating SKU catalog entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to update SKU catalog entry' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a SKU catalog entry
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    const id = parseInt(params.id);
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Invalid catalog entry id' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deleteCatalogEntry(id))) {
+      return NextResponse.json(
+        { error: 'Catalog entry not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting SKU catalog entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete SKU catalog entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createCatalogEntry, getCatalogEntries } from '@/lib/db';
+import { parseCatalogEntry } from '@/lib/skuCatalog';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - List the SKU catalog
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const entries = await getCatalogEntries();
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error getting SKU catalog:', error);
+    return NextResponse.json(
+      { error: 'Failed to get SKU catalog' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Add a SKU catalog entry
+ * Body: { prefix, pattern?, family, size?, slotWeight, personalized? }
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    const entry = parseCatalogEntry(body);
+    if (typeof entry === 'string') {
+      return NextResponse.json({ error: entry }, { status: 400 });
+    }
+
+    const created = await createCatalogEntry(entry);
+    return NextResponse.json({ entry: created });
+  } catch (error) {
+    console.error('Error creating SKU catalog entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to create SKU catalog entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getImage, isProxyableImageUrl } from '@/lib/imageCache';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Serve a product or artwork image from the image cache, fetching it on a miss
+ * Query: url (image URL), size (longest side in px, rounded up to a cache size; default 300)
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const { searchParams } = new URL(request.url);
+    const url = searchParams.get('url') || '';
+    if (!isProxyableImageUrl(url)) {
+      return NextResponse.json(
+        { error: 'url must be an http(s) image URL on an allowed host' },
+        { status: 400 }
+      );
+    }
+
+    const size = searchParams.has('size') ? parseInt(searchParams.get('size')!) : 300;
+    if (!size || size < 1) {
+      return NextResponse.json({ error: 'size must be a positive number' }, { status: 400 });
+    }
+
+    const image = await getImage(url, size);
+    if (!image) {
+      return NextResponse.json({ error: 'Image could not be fetched' }, { status: 502 });
+    }
+
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        'Content-Type': image.contentType,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Image-Cache': image.cache,
+      },
+    });
+  } catch (error) {
+    console.error('Error serving cached image:', error);
+    return NextResponse.json(
+      { error: 'Failed to load image' },
+      { status: 500 }
+    );
+  }
+}
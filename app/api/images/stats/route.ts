@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getImageCacheStats } from '@/lib/db';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Image cache hit rate, size, and the images currently failing to fetch
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const stats = await getImageCacheStats();
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error('Error getting image cache stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to get image cache stats' },
+      { status: 500 }
+    );
+  }
+}
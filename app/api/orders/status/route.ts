@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { getOrderStatuses, getOrderStatusHistory, setOrderStatus } from '@/lib/db';
+import { isPrintedStatus, parseOrderStatusChange, parseOrderStatusScope } from '@/lib/orderStatus';
+import { queuePrintedWriteBack } from '@/lib/netsuiteWriteBack';
+import { parsePrintAuditContext } from '@/lib/printAudit';
+import { requireRole } from '@/lib/session';
+import { hasRole } from '@/lib/roles';
+import { OrderStatus } from '@/lib/types';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Status of each order in the current backlog (the order cache) that has left 'new', keyed by tranid
+ * ?tranids=[...] or ?since=<ISO time> reads those orders, or the ones changed since then.
+ * ?tranid=... returns that order's status history instead
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const params = new URL(request.url).searchParams;
+    const tranid = params.get('tranid');
+    if (tranid) {
+      const history = await getOrderStatusHistory(tranid);
+      return NextResponse.json({ history });
+    }
+    const scope = parseOrderStatusScope(params);
+    if (typeof scope === 'string') {
+      return NextResponse.json({ error: scope }, { status: 400 });
+    }
+    const statuses = await getOrderStatuses(scope);
+    return NextResponse.json({ statuses });
+  } catch (error) {
+    console.error('Error getting order statuses:', error);
+    return NextResponse.json(
+      { error: 'Failed to get order statuses' },
+      { status: 500 }
+    );
+  }
+}
+
+// Packers can record picking and packing, one step at a time; any other move needs a lead
+const PACKER_MOVES: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  picked: ['printed'],
+  packed: ['picked'],
+};
+
+/**
+ * POST - Move orders to a status, as the signed-in user
+ * Body: { tranids: string[], status: OrderStatus, from?: OrderStatus[], note?: string, source?: string }
+ * Returns the orders that moved; orders already in that status (or not in `from`) are left out.
+ * Packers only move printed orders to picked and picked orders to packed, whatever `from` says
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'packer');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    const change = parseOrderStatusChange(body);
+    if (typeof change === 'string') {
+      return NextResponse.json({ error: change }, { status: 400 });
+    }
+    let from = change.from ?? undefined;
+    if (!hasRole(user, 'lead')) {
+      const packerFrom = PACKER_MOVES[change.status];
+      if (!packerFrom) {
+        return NextResponse.json({ error: 'Moving orders to this status needs the Lead role' }, { status: 403 });
+      }
+      from = from ? from.filter(status => packerFrom.includes(status)) : packerFrom;
+    }
+
+    const changes = await setOrderStatus(change.tranids, change.status, {
+      from,
+      note: change.note,
+    }, parsePrintAuditContext(user.username, body.source));
+
+    // NetSuite only tracks printed: write back when a new order is moved past printed, or a printed one back to new
+    const printed = changes.filter(c => c.fromStatus === 'new' && isPrintedStatus(c.status)).map(c => c.tranid);
+    const cleared = changes.filter(c => isPrintedStatus(c.fromStatus) && c.status === 'new').map(c => c.tranid);
+    await queuePrintedWriteBack(printed, { batchId: null, printedAt: new Date() });
+    await queuePrintedWriteBack(cleared, { batchId: null, printedAt: null });
+
+    return NextResponse.json({ changes });
+  } catch (error) {
+    console.error('Error setting order status:', error);
+    return NextResponse.json(
+      { error: 'Failed to set order status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { getSyncProgress, syncOrders } from '@/lib/orderSync';
+import { getOrderSyncState } from '@/lib/db';
+import { describeNetSuiteError, NetSuiteError } from '@/lib/netsuite';
+import { OrderSyncEvent } from '@/lib/types';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Progress of the running sync (polled by the UI while syncing)
+ * Returns { inProgress, lastEvent: OrderSyncEvent | null, sync: OrderSyncState }
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const state = await getOrderSyncState();
+    return NextResponse.json({ ...getSyncProgress(), sync: state });
+  } catch (error) {
+    console.error('Error getting sync progress:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to get sync progress',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Pull changes from NetSuite into the order cache
+ * Body (optional): { full?: boolean } to re-pull everything instead of changes since the last sync
+ * With Accept: application/x-ndjson, streams OrderSyncEvents (progress, retry, then done or error)
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'packer');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => ({}));
+    const full = body?.full === true;
+
+    if (request.headers.get('accept')?.includes('application/x-ndjson')) {
+      return streamSync(full);
+    }
+
+    const result = await syncOrders({ full });
+    const state = await getOrderSyncState();
+    return NextResponse.json({ success: true, ...result, sync: state });
+  } catch (error) {
+    console.error('Error syncing orders:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to sync orders from NetSuite',
+        message: describeNetSuiteError(error),
+        kind: error instanceof NetSuiteError ? error.kind : null,
+      },
+      { status: error instanceof NetSuiteError && error.kind === 'rate-limited' ? 429 : 502 }
+    );
+  }
+}
+
+/**
+ * Run a sync, writing each event as a line of JSON as it happens
+ * If the client disconnects, events stop but the sync runs to the end
+ */
+function streamSync(full: boolean): Response {
+  const encoder = new TextEncoder();
+  const disconnected = new AbortController();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: OrderSyncEvent) => {
+        if (disconnected.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // The stream closed under us; treat it as a disconnect
+          disconnected.abort();
+        }
+      };
+      try {
+        const result = await syncOrders({ full, onEvent: send, signal: disconnected.signal });
+        send({ type: 'done', ...result });
+      } catch (error) {
+        console.error('Error syncing orders:', error);
+        send({ type: 'error', message: describeNetSuiteError(error) });
+      } finally {
+        if (!disconnected.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      disconnected.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { createPackSizeVersion, getCatalogEntries } from '@/lib/db';
+import { getActivePackSizes, getPackSizes, parsePackSizeConfig } from '@/lib/packSizes';
+import { validateOrderConfig } from '@/lib/boxRules';
+import { getSlotWeights } from '@/lib/skuCatalog';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Get the active pack size config, or a specific version with ?version=N
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const url = new URL(request.url);
+    const versionParam = url.searchParams.get('version');
+
+    if (versionParam !== null) {
+      const version = parseInt(versionParam);
+      const packSizes = Number.isInteger(version) ? await getPackSizes(version) : null;
+      if (!packSizes) {
+        return NextResponse.json(
+          { error: `Pack size version ${versionParam} not found` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ packSizes });
+    }
+
+    return NextResponse.json({ packSizes: await getActivePackSizes() });
+  } catch (error) {
+    console.error('Error getting pack sizes:', error);
+    return NextResponse.json(
+      { error: 'Failed to get pack sizes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Save a pack size config as a new version, as the signed-in admin
+ * Body: { config: { packSizes }, note?: string }
+ * Rejected with the validator's issues if any are errors (warnings are returned but allowed)
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'admin');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    const config = parsePackSizeConfig(body?.config);
+    if (typeof config === 'string') {
+      return NextResponse.json({ error: config, issues: [] }, { status: 400 });
+    }
+
+    const issues = validateOrderConfig(config, getSlotWeights(await getCatalogEntries()));
+    if (issues.some(issue => issue.severity === 'error')) {
+      return NextResponse.json(
+        { error: 'Pack sizes have boxes or rules that accept no cups', issues },
+        { status: 400 }
+      );
+    }
+
+    const packSizes = await createPackSizeVersion(config, {
+      createdBy: user.username,
+      note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null,
+    });
+    return NextResponse.json({ packSizes, issues });
+  } catch (error) {
+    console.error('Error saving pack sizes:', error);
+    return NextResponse.json(
+      { error: 'Failed to save pack sizes' },
+      { status: 500 }
+    );
+  }
+}
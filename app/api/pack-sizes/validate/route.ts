@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { getCatalogEntries } from '@/lib/db';
+import { validateOrderConfig } from '@/lib/boxRules';
+import { getSlotWeights } from '@/lib/skuCatalog';
+import { getActivePackSizes, parsePackSizeConfig } from '@/lib/packSizes';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Check the active pack size config for overlapping or unreachable rules
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const { config } = await getActivePackSizes();
+    const issues = validateOrderConfig(config, getSlotWeights(await getCatalogEntries()));
+    return NextResponse.json({ valid: !issues.some(i => i.severity === 'error'), issues });
+  } catch (error) {
+    console.error('Error validating pack sizes:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate pack sizes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Check a proposed pack size config before it is saved
+ * Body: { packSizes: { [key]: BoxSizeConfig } }
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'lead');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    const config = parsePackSizeConfig(body);
+    if (typeof config === 'string') {
+      return NextResponse.json({ error: config }, { status: 400 });
+    }
+
+    const issues = validateOrderConfig(config, getSlotWeights(await getCatalogEntries()));
+    return NextResponse.json({ valid: !issues.some(i => i.severity === 'error'), issues });
+  } catch (error) {
+    console.error('Error validating pack sizes:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate pack sizes' },
+      { status: 500 }
+    );
+  }
+}
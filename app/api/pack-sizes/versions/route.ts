@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getPackSizeVersions } from '@/lib/db';
+import { BUILT_IN_PACK_SIZES } from '@/lib/packSizes';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - List saved pack size versions (newest first), ending with the built-in version 0
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const versions = await getPackSizeVersions();
+    versions.push({
+      version: BUILT_IN_PACK_SIZES.version,
+      createdAt: BUILT_IN_PACK_SIZES.createdAt,
+      createdBy: BUILT_IN_PACK_SIZES.createdBy,
+      note: BUILT_IN_PACK_SIZES.note,
+    });
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error getting pack size versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to get pack size versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { buildPackingSlipsDocument, buildCombinedDocument, PAGE_PROFILES, setServerImageSource } from '@/lib/pdfGenerator';
+import { getImageDataUrl } from '@/lib/imageCache';
+import { describeBlockedOrders, getBlockedOrders } from '@/lib/orderValidation';
+import { loadSelectedOrders, OrdersNotFoundError, parseOrderSelection, toBatchFilters } from '@/lib/orderSelection';
+import { createPrintBatch, getOrderStatuses } from '@/lib/db';
+import { queuePrintedWriteBack } from '@/lib/netsuiteWriteBack';
+import { serializeOrders } from '@/lib/dataProcessing';
+import { getActivePackSizes } from '@/lib/packSizes';
+import { PageProfile } from '@/lib/types';
+import { getOrderStatus, isPrintedStatus } from '@/lib/orderStatus';
+import { requireRole } from '@/lib/session';
+import { hasRole } from '@/lib/roles';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+// Draw slip images from the image cache rather than fetching each one per run
+setServerImageSource(getImageDataUrl);
+
+/**
+ * POST - Render packing slips as a PDF
+ * Body: { tranids?: string[], filters?: {...}, profile?: PageProfile, includePicklist?: boolean, markPrinted?: boolean, allowErrors?: boolean }
+ * Slips for orders that were already printed are reprints, which need a lead
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'packer');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    const selection = parseOrderSelection(body);
+    if (typeof selection === 'string') {
+      return NextResponse.json({ error: selection }, { status: 400 });
+    }
+
+    const packSizes = await getActivePackSizes();
+    const orders = await loadSelectedOrders(selection, packSizes.config);
+    if (orders.length === 0) {
+      return NextResponse.json({ error: 'No orders matched' }, { status: 404 });
+    }
+
+    // Orders with validation errors need an explicit override, like the confirmation in the UI
+    if (body.allowErrors !== true && getBlockedOrders(orders).length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Some orders have validation errors; fix them or pass allowErrors: true',
+          message: describeBlockedOrders(orders),
+        },
+        { status: 422 }
+      );
+    }
+
+    if (body.profile !== undefined && !PAGE_PROFILES.some(p => p.key === body.profile)) {
+      return NextResponse.json(
+        { error: `profile must be one of: ${PAGE_PROFILES.map(p => p.key).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const profile: PageProfile = body.profile || 'letter-2up';
+
+    if (!hasRole(user, 'lead')) {
+      const statuses = await getOrderStatuses({ tranids: orders.map(o => o.tranid) });
+      if (orders.some(o => isPrintedStatus(getOrderStatus(statuses, o.tranid)))) {
+        return NextResponse.json({ error: 'Reprinting orders needs the Lead role' }, { status: 403 });
+      }
+    }
+
+    const includePicklist = body.includePicklist === true;
+    const doc = includePicklist
+      ? await buildCombinedDocument(orders, profile)
+      : await buildPackingSlipsDocument(orders, profile);
+    const pdf = doc.output('arraybuffer');
+
+    // Scripted runs can record themselves as a batch, like printing from the UI
+    let batchId: number | null = null;
+    if (body.markPrinted === true) {
+      const batch = await createPrintBatch({
+        documentType: includePicklist ? 'picklist-and-packing-slips' : 'packing-slips',
+        printedBy: user.username,
+        filters: toBatchFilters(selection),
+        pageProfile: profile,
+        packSizeVersion: packSizes.version,
+        outputFormat: 'pdf',
+        orders: orders.map(o => ({ tranid: o.tranid, orderNumber: o.orderNumber })),
+        snapshot: serializeOrders(orders),
+      }, 'api');
+      batchId = batch.id;
+      await queuePrintedWriteBack(orders.map(o => o.tranid), {
+        batchId: batch.id,
+        printedAt: new Date(batch.createdAt),
+      });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="packing-slips-${new Date().toISOString().slice(0, 10)}.pdf"`,
+      'X-Order-Count': orders.length.toString(),
+    };
+    if (batchId !== null) {
+      headers['X-Print-Batch-Id'] = batchId.toString();
+    }
+
+    return new NextResponse(pdf, { headers });
+  } catch (error) {
+    if (error instanceof OrdersNotFoundError) {
+      return NextResponse.json({ error: error.message, missing: error.missing }, { status: 404 });
+    }
+    console.error('Error rendering packing slips PDF:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render packing slips',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
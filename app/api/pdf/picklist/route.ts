@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { buildPicklistDocument } from '@/lib/pdfGenerator';
+import { loadSelectedOrders, OrdersNotFoundError, parseOrderSelection } from '@/lib/orderSelection';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST - Render a picklist as a PDF
+ * Body: { tranids?: string[], filters?: {...} }
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'packer');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    const selection = parseOrderSelection(body);
+    if (typeof selection === 'string') {
+      return NextResponse.json({ error: selection }, { status: 400 });
+    }
+
+    const orders = await loadSelectedOrders(selection);
+    if (orders.length === 0) {
+      return NextResponse.json({ error: 'No orders matched' }, { status: 404 });
+    }
+
+    const doc = await buildPicklistDocument(orders);
+    return new NextResponse(doc.output('arraybuffer'), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="picklist-${new Date().toISOString().slice(0, 10)}.pdf"`,
+        'X-Order-Count': orders.length.toString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof OrdersNotFoundError) {
+      return NextResponse.json({ error: error.message, missing: error.missing }, { status: 404 });
+    }
+    console.error('Error rendering picklist PDF:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render picklist',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getPrintAuditLog } from '@/lib/db';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Print audit log, newest first
+ * ?tranid= only entries that touched that order, ?actor= only entries by that user, ?limit= (default 200)
+ * Returns { entries, actors, undoableClear }
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '') || 200;
+
+    const log = await getPrintAuditLog(
+      {
+        tranid: url.searchParams.get('tranid')?.trim() || null,
+        actor: url.searchParams.get('actor')?.trim() || null,
+      },
+      Math.min(limit, 1000)
+    );
+    return NextResponse.json(log);
+  } catch (error) {
+    console.error('Error getting print audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to get print audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,16 +5,28 @@ import {
   clearPrintedOrders,
   unmarkOrdersAsPrinted 
 } from '@/lib/db';
+import { queuePrintedWriteBack } from '@/lib/netsuiteWriteBack';
+import { parseOrderStatusScope, parseTranidsParam } from '@/lib/orderStatus';
+import { parsePrintAuditContext } from '@/lib/printAudit';
+import { requireRole } from '@/lib/session';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 
 /**
- * GET - Get all printed order IDs
+ * GET - Printed order IDs, most recent first: by default the orders in the current backlog (the order cache)
+ * ?tranids=[...] checks those orders instead; ?since=<ISO time> returns orders printed (or moved on) since then
  */
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const printedOrders = await getPrintedOrders();
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    const scope = parseOrderStatusScope(new URL(request.url).searchParams);
+    if (typeof scope === 'string') {
+      return NextResponse.json({ error: scope }, { status: 400 });
+    }
+    const printedOrders = await getPrintedOrders(scope);
     return NextResponse.json({ printedOrders });
   } catch (error) {
     console.error('Error getting printed orders:', error);
@@ -27,20 +39,25 @@ export async function GET() {
 
 /**
  * POST - Mark orders as printed
+ * Body: { tranids: string[], source?: string } - the signed-in user and source are recorded in the audit log
  */
 export async function POST(request: Request) {
   try {
+    const user = await requireRole(request, 'packer');
+    if (user instanceof NextResponse) return user;
+
     const body = await request.json();
     const { tranids } = body;
     
-    if (!Array.isArray(tranids)) {
+    if (!Array.isArray(tranids) || tranids.some(t => typeof t !== 'string' || !t)) {
       return NextResponse.json(
-        { error: 'tranids must be an array' },
+        { error: 'tranids must be an array of strings' },
         { status: 400 }
       );
     }
     
-    await markOrdersAsPrinted(tranids);
+    await markOrdersAsPrinted(tranids, parsePrintAuditContext(user.username, body.source));
+    await queuePrintedWriteBack(tranids, { batchId: null, printedAt: new Date() });
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error marking orders as printed:', error);
@@ -52,26 +69,36 @@ export async function POST(request: Request) {
 }
 
 /**
- * DELETE - Clear all printed orders or unmark specific ones
+ * DELETE - Unmark specific orders (?tranids=[...]) or clear all printed orders (?all=true)
+ * Leads only. The signed-in user and ?source= are recorded in the audit log; a clear can be undone from there
  */
 export async function DELETE(request: Request) {
   try {
+    const user = await requireRole(request, 'lead');
+    if (user instanceof NextResponse) return user;
+
     const url = new URL(request.url);
     const tranidsParam = url.searchParams.get('tranids');
+    const audit = parsePrintAuditContext(user.username, url.searchParams.get('source'));
     
     if (tranidsParam) {
       // Unmark specific orders
-      const tranids = JSON.parse(tranidsParam);
-      if (!Array.isArray(tranids)) {
-        return NextResponse.json(
-          { error: 'tranids must be an array' },
-          { status: 400 }
-        );
+      const tranids = parseTranidsParam(tranidsParam);
+      if (typeof tranids === 'string') {
+        return NextResponse.json({ error: tranids }, { status: 400 });
       }
-      await unmarkOrdersAsPrinted(tranids);
+      await unmarkOrdersAsPrinted(tranids, audit);
+      await queuePrintedWriteBack(tranids, { batchId: null, printedAt: null });
+    } else if (url.searchParams.get('all') === 'true') {
+      // Move printed orders back to new (and clear their printed fields in NetSuite)
+      const cleared = await clearPrintedOrders(audit);
+      await queuePrintedWriteBack(cleared, { batchId: null, printedAt: null });
     } else {
-      // Clear all printed orders
-      await clearPrintedOrders();
+      // A bare DELETE used to wipe everything; clearing all now has to be asked for
+      return NextResponse.json(
+        { error: 'Pass tranids to unmark specific orders, or all=true to clear every printed order' },
+        { status: 400 }
+      );
     }
     
     return NextResponse.json({ success: true });
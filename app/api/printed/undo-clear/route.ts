@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { undoLastClear } from '@/lib/db';
+import { queuePrintedWriteBack } from '@/lib/netsuiteWriteBack';
+import { parsePrintAuditContext } from '@/lib/printAudit';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST - Undo the most recent clear of all printed orders
+ * Leads only. Body: { source?: string }
+ * Orders that have moved on since the clear are left alone and returned as skipped
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'lead');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => ({}));
+    const result = await undoLastClear(parsePrintAuditContext(user.username, body?.source));
+    if (!result) {
+      return NextResponse.json({ error: 'There is no clear to undo' }, { status: 404 });
+    }
+
+    // Write the original printed times back, one call per time since a clear usually covers a few batches
+    const byPrintedAt = new Map<string, string[]>();
+    for (const { tranid, printedAt } of result.restored) {
+      byPrintedAt.set(printedAt, [...(byPrintedAt.get(printedAt) || []), tranid]);
+    }
+    for (const [printedAt, tranids] of Array.from(byPrintedAt)) {
+      await queuePrintedWriteBack(tranids, { batchId: null, printedAt: new Date(printedAt) });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error undoing clear:', error);
+    return NextResponse.json(
+      { error: 'Failed to undo clear' },
+      { status: 500 }
+    );
+  }
+}
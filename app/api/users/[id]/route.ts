@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getUsers, updateUser } from '@/lib/db';
+import { hashPassword } from '@/lib/passwords';
+import { parseUserUpdate } from '@/lib/users';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT - Change a user's name, role or password, or disable them
+ * Body: { displayName?: string, role?: UserRole, password?: string, disabled?: boolean }
+ * Users aren't deleted, so the audit log's names keep pointing at someone
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireRole(request, 'admin');
+    if (admin instanceof NextResponse) return admin;
+
+    const id = parseInt(params.id);
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Invalid user id' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const changes = parseUserUpdate(body);
+    if (typeof changes === 'string') {
+      return NextResponse.json({ error: changes }, { status: 400 });
+    }
+
+    // Keep at least one admin who can sign in
+    if ((changes.role && changes.role !== 'admin') || changes.disabled === true) {
+      const admins = (await getUsers()).filter(u => u.role === 'admin' && !u.disabled);
+      if (admins.length === 1 && admins[0].id === id) {
+        return NextResponse.json({ error: 'This is the only active admin' }, { status: 409 });
+      }
+    }
+
+    const updated = await updateUser(id, {
+      displayName: changes.displayName,
+      role: changes.role,
+      passwordHash: changes.password ? await hashPassword(changes.password) : undefined,
+      disabled: changes.disabled,
+    });
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { createUser, getUsers } from '@/lib/db';
+import { hashPassword } from '@/lib/passwords';
+import { isOidcEnabled } from '@/lib/oidc';
+import { parseNewUser } from '@/lib/users';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - List users (admins only)
+ */
+export async function GET(request: Request) {
+  try {
+    const admin = await requireRole(request, 'admin');
+    if (admin instanceof NextResponse) return admin;
+
+    const users = await getUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error getting users:', error);
+    return NextResponse.json(
+      { error: 'Failed to get users' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Add a user
+ * Body: { username: string, displayName?: string, role: UserRole, password?: string }
+ * A password is required unless users sign in through OIDC
+ */
+export async function POST(request: Request) {
+  try {
+    const admin = await requireRole(request, 'admin');
+    if (admin instanceof NextResponse) return admin;
+
+    const body = await request.json().catch(() => null);
+    const user = parseNewUser(body);
+    if (typeof user === 'string') {
+      return NextResponse.json({ error: user }, { status: 400 });
+    }
+    if (!user.password && !isOidcEnabled()) {
+      return NextResponse.json({ error: 'password is required' }, { status: 400 });
+    }
+
+    const created = await createUser({
+      username: user.username,
+      displayName: user.displayName,
+      role: user.role,
+      provider: isOidcEnabled() ? 'oidc' : 'local',
+      passwordHash: user.password ? await hashPassword(user.password) : null,
+    });
+    if (!created) {
+      return NextResponse.json({ error: `User ${user.username} already exists` }, { status: 409 });
+    }
+
+    return NextResponse.json({ user: created });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getWriteBackStatuses, retryFailedWriteBacks } from '@/lib/db';
+import { isWriteBackEnabled, processWriteBackQueue } from '@/lib/netsuiteWriteBack';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - NetSuite write-back status per order, for orders in the backlog or not yet written (newest 2000)
+ * Returns { enabled, statuses: { [tranid]: WriteBackStatus } }
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireRole(request, 'viewer');
+    if (user instanceof NextResponse) return user;
+
+    if (!isWriteBackEnabled()) {
+      return NextResponse.json({ enabled: false, statuses: {} });
+    }
+    const statuses = await getWriteBackStatuses();
+    return NextResponse.json({ enabled: true, statuses });
+  } catch (error) {
+    console.error('Error getting write-back statuses:', error);
+    return NextResponse.json(
+      { error: 'Failed to get write-back statuses' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Attempt due write-backs now (also suitable for a cron job)
+ * Body (optional): { retryFailed?: boolean } to re-queue write-backs that gave up
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'lead');
+    if (user instanceof NextResponse) return user;
+
+    if (!isWriteBackEnabled()) {
+      return NextResponse.json({ error: 'NetSuite write-back is not enabled' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body?.retryFailed === true) {
+      await retryFailedWriteBacks();
+    }
+
+    const result = await processWriteBackQueue();
+    const statuses = await getWriteBackStatuses();
+    return NextResponse.json({ success: true, ...result, statuses });
+  } catch (error) {
+    console.error('Error processing write-back queue:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process write-back queue',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { generatePackingSlipsZPL, generateCombinedZPL } from '@/lib/zplGenerator';
+import { describeBlockedOrders, getBlockedOrders } from '@/lib/orderValidation';
+import { loadSelectedOrders, OrdersNotFoundError, parseOrderSelection } from '@/lib/orderSelection';
+import { sendToZebraPrinter } from '@/lib/zebraPrinter';
+import { getOrderStatuses } from '@/lib/db';
+import { getOrderStatus, isPrintedStatus } from '@/lib/orderStatus';
+import { requireRole } from '@/lib/session';
+import { hasRole } from '@/lib/roles';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST - Render packing slips as ZPL (text-only, since artwork needs a browser canvas)
+ * Body: { tranids?: string[], filters?: {...}, includePicklist?: boolean, dpi?: 203 | 300, send?: boolean, allowErrors?: boolean }
+ * Returns the ZPL, or sends it straight to the Zebra printer when send is true
+ * Slips for orders that were already printed are reprints, which need a lead
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'packer');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    const selection = parseOrderSelection(body);
+    if (typeof selection === 'string') {
+      return NextResponse.json({ error: selection }, { status: 400 });
+    }
+
+    if (body.dpi !== undefined && body.dpi !== 203 && body.dpi !== 300) {
+      return NextResponse.json({ error: 'dpi must be 203 or 300' }, { status: 400 });
+    }
+
+    const orders = await loadSelectedOrders(selection);
+    if (orders.length === 0) {
+      return NextResponse.json({ error: 'No orders matched' }, { status: 404 });
+    }
+
+    // Orders with validation errors need an explicit override, like the confirmation in the UI
+    if (body.allowErrors !== true && getBlockedOrders(orders).length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Some orders have validation errors; fix them or pass allowErrors: true',
+          message: describeBlockedOrders(orders),
+        },
+        { status: 422 }
+      );
+    }
+
+    if (!hasRole(user, 'lead')) {
+      const statuses = await getOrderStatuses({ tranids: orders.map(o => o.tranid) });
+      if (orders.some(o => isPrintedStatus(getOrderStatus(statuses, o.tranid)))) {
+        return NextResponse.json({ error: 'Reprinting orders needs the Lead role' }, { status: 403 });
+      }
+    }
+
+    const options = { textOnly: true, dpi: body.dpi };
+    const zpl = body.includePicklist === true
+      ? await generateCombinedZPL(orders, options)
+      : await generatePackingSlipsZPL(orders, options);
+
+    if (body.send === true) {
+      await sendToZebraPrinter(zpl);
+      return NextResponse.json({ success: true, orderCount: orders.length });
+    }
+
+    return new NextResponse(zpl, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `inline; filename="packing-slips-${new Date().toISOString().slice(0, 10)}.zpl"`,
+        'X-Order-Count': orders.length.toString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof OrdersNotFoundError) {
+      return NextResponse.json({ error: error.message, missing: error.missing }, { status: 404 });
+    }
+    console.error('Error rendering packing slips ZPL:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render packing slips',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
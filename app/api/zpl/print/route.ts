@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { sendToZebraPrinter } from '@/lib/zebraPrinter';
+import { requireRole } from '@/lib/session';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST - Send a ZPL job generated in the browser to the configured Zebra printer
+ * Body: { zpl: string }
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireRole(request, 'packer');
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.zpl !== 'string' || !body.zpl.includes('^XA')) {
+      return NextResponse.json({ error: 'zpl must be a ZPL document' }, { status: 400 });
+    }
+
+    await sendToZebraPrinter(body.zpl);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error sending ZPL to printer:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to send to printer',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { PrintAuditEntry, PrintAuditLog } from '@/lib/types';
+import { getPrintAuditLog, undoLastClear } from '@/lib/storage';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { PRINT_AUDIT_ACTION_LABELS } from '@/lib/printAudit';
+
+// How many order IDs to list inline before summarizing the rest
+const TRANIDS_SHOWN = 5;
+
+/**
+ * Describe what an entry did beyond its action, e.g. "to Packed" or "batch #12"
+ */
+function describeDetails(entry: PrintAuditEntry): string {
+  const details = entry.details;
+  if (!details) return '';
+
+  const parts: string[] = [];
+  if (details.status) parts.push(`to ${ORDER_STATUS_LABELS[details.status]}`);
+  if (details.batchId !== undefined) parts.push(`batch #${details.batchId}`);
+  if (details.undoes !== undefined) parts.push(`clear #${details.undoes}`);
+  if (details.skipped && details.skipped.length > 0) parts.push(`${details.skipped.length} skipped (moved since)`);
+  return parts.join(' · ');
+}
+
+export default function AuditLogPanel({
+  canUndo,
+  onChange,
+  onClose,
+}: {
+  canUndo: boolean; // Undoing a clear needs a lead
+  onChange: () => void; // Called after an undo changes order statuses
+  onClose: () => void;
+}) {
+  const [log, setLog] = useState<PrintAuditLog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tranidInput, setTranidInput] = useState('');
+  const [tranidFilter, setTranidFilter] = useState('');
+  const [actorFilter, setActorFilter] = useState('');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [undoing, setUndoing] = useState(false);
+
+  const loadLog = useCallback(async () => {
+    setLoading(true);
+    setLog(await getPrintAuditLog({
+      tranid: tranidFilter || undefined,
+      actor: actorFilter || undefined,
+    }));
+    setLoading(false);
+  }, [tranidFilter, actorFilter]);
+
+  useEffect(() => {
+    loadLog();
+  }, [loadLog]);
+
+  const handleToggleExpanded = (id: number) => {
+    setExpanded(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(id)) {
+        newSet.delete(id);
+      } else {
+        newSet.add(id);
+      }
+      return newSet;
+    });
+  };
+
+  const handleUndoClear = async () => {
+    const clear = log?.undoableClear;
+    if (!clear) return;
+    const count = clear.tranids.length;
+    if (!window.confirm(
+      `Restore the printed status of ${count} order${count !== 1 ? 's' : ''} cleared ${new Date(clear.createdAt).toLocaleString()}` +
+      `${clear.actor ? ` by ${clear.actor}` : ''}? Orders that have moved since will be left alone.`
+    )) {
+      return;
+    }
+
+    setUndoing(true);
+    const result = await undoLastClear('orders');
+    setUndoing(false);
+    if (!result) {
+      alert('Failed to undo the clear. It may already have been undone.');
+      await loadLog();
+      return;
+    }
+
+    alert(
+      `Restored ${result.restored.length} order${result.restored.length !== 1 ? 's' : ''} to printed` +
+      (result.skipped.length > 0 ? `; ${result.skipped.length} had moved since and were left alone` : '')
+    );
+    onChange();
+    await loadLog();
+  };
+
+  const undoableClear = log?.undoableClear;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-900">Print Audit Log</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap items-center gap-2 bg-gray-50">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setTranidFilter(tranidInput.trim());
+            }}
+            className="flex items-center gap-2"
+          >
+            <label className="text-sm font-medium text-gray-700">Order</label>
+            <input
+              type="text"
+              value={tranidInput}
+              onChange={(e) => setTranidInput(e.target.value)}
+              placeholder="Fulfillment ID"
+              className="w-40 px-2 py-1 text-sm border border-gray-300 rounded-md"
+            />
+            <button
+              type="submit"
+              className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Filter
+            </button>
+          </form>
+          <label className="text-sm font-medium text-gray-700 ml-2">User</label>
+          <select
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">Everyone</option>
+            {log?.actors.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          {(tranidFilter || actorFilter) && (
+            <button
+              onClick={() => {
+                setTranidInput('');
+                setTranidFilter('');
+                setActorFilter('');
+              }}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="p-6 text-sm text-gray-500">Loading audit log...</div>
+          ) : !log ? (
+            <div className="p-6 text-sm text-red-600">Failed to load the audit log</div>
+          ) : log.entries.length === 0 ? (
+            <div className="p-6 text-sm text-gray-500">No matching changes have been recorded</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">When</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Screen</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Orders</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {log.entries.map(entry => {
+                  const showAll = expanded.has(entry.id) || entry.tranids.length <= TRANIDS_SHOWN;
+                  const details = describeDetails(entry);
+                  return (
+                    <tr key={entry.id} className="align-top">
+                      <td className="px-4 py-2 text-sm text-gray-500">{entry.id}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        <div className="font-medium">{PRINT_AUDIT_ACTION_LABELS[entry.action] || entry.action}</div>
+                        {details && <div className="text-xs text-gray-500">{details}</div>}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">{entry.actor || 'Unknown'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{entry.source}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {entry.tranids.length === 0 ? (
+                          'None'
+                        ) : (
+                          <>
+                            {(showAll ? entry.tranids : entry.tranids.slice(0, TRANIDS_SHOWN)).join(', ')}
+                            {entry.tranids.length > TRANIDS_SHOWN && (
+                              <button
+                                onClick={() => handleToggleExpanded(entry.id)}
+                                className="ml-1 text-blue-600 hover:text-blue-800"
+                              >
+                                {showAll ? 'show less' : `+${entry.tranids.length - TRANIDS_SHOWN} more`}
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center gap-4">
+          <div className="text-sm text-gray-500">
+            {undoableClear
+              ? `Last clear: ${undoableClear.tranids.length} order${undoableClear.tranids.length !== 1 ? 's' : ''}, ${new Date(undoableClear.createdAt).toLocaleString()}${undoableClear.actor ? ` by ${undoableClear.actor}` : ''}`
+              : 'No clear to undo'}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleUndoClear}
+              disabled={!undoableClear || undoing || !canUndo}
+              title={canUndo ? undefined : 'Undoing a clear needs the Lead role'}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {undoing ? 'Undoing…' : 'Undo Last Clear'}
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
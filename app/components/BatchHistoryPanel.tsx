@@ -0,0 +1,320 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PrintBatch, PrintBatchDetail, PrintBatchFilters, ProcessedOrder } from '@/lib/types';
+import { getPrintBatches, getPrintBatch } from '@/lib/storage';
+import { deserializeOrders } from '@/lib/dataProcessing';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { generatePackingSlipsPDF, generateCombinedPDF, PAGE_PROFILES, PdfFile, releasePdfFiles } from '@/lib/pdfGenerator';
+import { generatePackingSlipsZPL, generateCombinedZPL, downloadZpl, sendZplToPrinter } from '@/lib/zplGenerator';
+import PdfFilesPanel from './PdfFilesPanel';
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  'packing-slips': 'Packing Slips',
+  'picklist-and-packing-slips': 'Picklist + Packing Slips',
+};
+
+/**
+ * Describe the filters a batch was printed with, e.g. "Personalized · 16oz · Zone 005"
+ */
+function describeFilters(filters: PrintBatchFilters | null): string {
+  if (!filters) return 'N/A';
+
+  const parts: string[] = [];
+  if (filters.personalized === true) parts.push('Personalized');
+  if (filters.personalized === false) parts.push('Non-Personalized');
+  if (filters.cupSizes.length > 0) parts.push(filters.cupSizes.join('+'));
+  if (filters.boxSize) parts.push(filters.boxSize);
+  if (filters.dateFrom || filters.dateTo) parts.push(`${filters.dateFrom || '…'} to ${filters.dateTo || '…'}`);
+  if (filters.statuses && filters.statuses.length > 0) parts.push(filters.statuses.map(s => ORDER_STATUS_LABELS[s]).join('+'));
+  if (filters.printed === true) parts.push('Printed');
+  if (filters.printed === false) parts.push('Not Printed');
+  if (filters.shippingZones.length > 0) parts.push(filters.shippingZones.map(z => `Zone ${z}`).join(', '));
+  if (filters.selection === 'selected') parts.push('hand-selected');
+
+  return parts.length > 0 ? parts.join(' · ') : 'All orders';
+}
+
+export default function BatchHistoryPanel({
+  currentOrders,
+  canReprint,
+  onClose,
+}: {
+  currentOrders: ProcessedOrder[];
+  canReprint: boolean; // Reprinting needs a lead; batches only include their snapshot for leads
+  onClose: () => void;
+}) {
+  const [batches, setBatches] = useState<PrintBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedBatch, setSelectedBatch] = useState<PrintBatchDetail | null>(null);
+  const [loadingBatch, setLoadingBatch] = useState(false);
+  const [reprintTranids, setReprintTranids] = useState<Set<string>>(new Set());
+  const [pageFrom, setPageFrom] = useState<string>('');
+  const [pageTo, setPageTo] = useState<string>('');
+  const [reprinting, setReprinting] = useState(false);
+  const [pdfFiles, setPdfFiles] = useState<PdfFile[]>([]);
+
+  useEffect(() => {
+    getPrintBatches().then(result => {
+      setBatches(result);
+      setLoading(false);
+    });
+  }, []);
+
+  const handleOpenBatch = async (id: number) => {
+    setLoadingBatch(true);
+    const batch = await getPrintBatch(id);
+    setSelectedBatch(batch);
+    setReprintTranids(new Set(batch?.orders.map(o => o.tranid) || []));
+    setPageFrom('');
+    setPageTo('');
+    setLoadingBatch(false);
+  };
+
+  const handleToggleReprintOrder = (tranid: string) => {
+    setReprintTranids(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(tranid)) {
+        newSet.delete(tranid);
+      } else {
+        newSet.add(tranid);
+      }
+      return newSet;
+    });
+  };
+
+  // Regenerate the batch from its snapshot in the format it was printed in, optionally limited to some orders or pages
+  const handleReprint = async () => {
+    if (!selectedBatch) return;
+
+    if (!selectedBatch.snapshot) {
+      alert('This batch was printed before order snapshots were stored and cannot be reprinted exactly.');
+      return;
+    }
+
+    const ordersToReprint = deserializeOrders(selectedBatch.snapshot)
+      .filter(order => reprintTranids.has(order.tranid));
+    if (ordersToReprint.length === 0) {
+      alert('No orders selected to reprint');
+      return;
+    }
+
+    const pageRange = pageFrom || pageTo
+      ? { from: parseInt(pageFrom) || 1, to: parseInt(pageTo) || Number.MAX_SAFE_INTEGER }
+      : undefined;
+
+    try {
+      setReprinting(true);
+      if (selectedBatch.outputFormat === 'zpl-file' || selectedBatch.outputFormat === 'zpl-printer') {
+        const zpl = selectedBatch.documentType === 'picklist-and-packing-slips'
+          ? await generateCombinedZPL(ordersToReprint, { pageRange })
+          : await generatePackingSlipsZPL(ordersToReprint, { pageRange });
+        if (selectedBatch.outputFormat === 'zpl-printer') {
+          await sendZplToPrinter(zpl);
+        } else {
+          downloadZpl(zpl, `${selectedBatch.documentType}-batch-${selectedBatch.id}.zpl`);
+        }
+        return;
+      }
+
+      // Batches from before page profiles were all letter-2up
+      const profile = selectedBatch.pageProfile || 'letter-2up';
+      const files = selectedBatch.documentType === 'picklist-and-packing-slips'
+        ? await generateCombinedPDF(ordersToReprint, { profile, pageRange })
+        : await generatePackingSlipsPDF(ordersToReprint, { profile, pageRange });
+      if (files.length > 0) setPdfFiles(files);
+    } catch (error) {
+      console.error('Error reprinting batch:', error);
+      alert(error instanceof Error ? error.message : 'Error reprinting batch. Please try again.');
+    } finally {
+      setReprinting(false);
+    }
+  };
+
+  const backlogTranids = new Set(currentOrders.map(o => o.tranid));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-900">Batch History</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-2">
+          {/* Batch List */}
+          <div className="overflow-y-auto border-r border-gray-200">
+            {loading ? (
+              <div className="p-6 text-sm text-gray-500">Loading batches...</div>
+            ) : batches.length === 0 ? (
+              <div className="p-6 text-sm text-gray-500">No batches have been printed yet</div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {batches.map(batch => (
+                  <li key={batch.id}>
+                    <button
+                      onClick={() => handleOpenBatch(batch.id)}
+                      className={`w-full text-left px-6 py-3 hover:bg-gray-50 ${
+                        selectedBatch?.id === batch.id ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <div className="flex justify-between text-sm">
+                        <span className="font-semibold text-gray-900">Batch #{batch.id}</span>
+                        <span className="text-gray-500">{new Date(batch.createdAt).toLocaleString()}</span>
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        {DOCUMENT_TYPE_LABELS[batch.documentType] || batch.documentType} · {batch.orderCount} order{batch.orderCount !== 1 ? 's' : ''}
+                        {batch.printedBy ? ` · ${batch.printedBy}` : ''}
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">{describeFilters(batch.filters)}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Batch Detail */}
+          <div className="overflow-y-auto px-6 py-4">
+            {loadingBatch ? (
+              <div className="text-sm text-gray-500">Loading batch...</div>
+            ) : !selectedBatch ? (
+              <div className="text-sm text-gray-500">Select a batch to see what was in it</div>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-1 text-sm">
+                  <div>
+                    <span className="font-medium">Printed:</span> {new Date(selectedBatch.createdAt).toLocaleString()}
+                  </div>
+                  <div>
+                    <span className="font-medium">Document:</span>{' '}
+                    {DOCUMENT_TYPE_LABELS[selectedBatch.documentType] || selectedBatch.documentType}
+                  </div>
+                  <div>
+                    <span className="font-medium">Printed By:</span> {selectedBatch.printedBy || 'N/A'}
+                  </div>
+                  <div>
+                    <span className="font-medium">Layout:</span>{' '}
+                    {PAGE_PROFILES.find(p => p.key === (selectedBatch.pageProfile || 'letter-2up'))?.name}
+                  </div>
+                  <div>
+                    <span className="font-medium">Pack Sizes:</span>{' '}
+                    {selectedBatch.packSizeVersion !== null ? `Version ${selectedBatch.packSizeVersion}` : 'N/A'}
+                  </div>
+                  <div>
+                    <span className="font-medium">Filters:</span> {describeFilters(selectedBatch.filters)}
+                  </div>
+                </div>
+
+                {/* Reprint Controls */}
+                <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 rounded-md">
+                  <label className="text-sm font-medium text-gray-700">Pages</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={pageFrom}
+                    onChange={(e) => setPageFrom(e.target.value)}
+                    placeholder="From"
+                    className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={pageTo}
+                    onChange={(e) => setPageTo(e.target.value)}
+                    placeholder="To"
+                    className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  />
+                  <button
+                    onClick={handleReprint}
+                    disabled={reprinting || reprintTranids.size === 0 || !selectedBatch.snapshot}
+                    className="ml-auto px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    title={
+                      !canReprint ? 'Reprinting needs the Lead role'
+                        : selectedBatch.snapshot ? 'Regenerate this batch from its snapshot'
+                        : 'No snapshot stored for this batch'
+                    }
+                  >
+                    {reprinting ? 'Reprinting…' : `Reprint (${reprintTranids.size})`}
+                  </button>
+                </div>
+
+                <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        <input
+                          type="checkbox"
+                          checked={reprintTranids.size === selectedBatch.orders.length}
+                          onChange={() => setReprintTranids(
+                            reprintTranids.size === selectedBatch.orders.length
+                              ? new Set()
+                              : new Set(selectedBatch.orders.map(o => o.tranid))
+                          )}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order #</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fulfillment ID</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">In Backlog</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {selectedBatch.orders.map(order => (
+                      <tr key={order.tranid}>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={reprintTranids.has(order.tranid)}
+                            onChange={() => handleToggleReprintOrder(order.tranid)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">{order.position}</td>
+                        <td className="px-4 py-2 text-sm font-medium text-gray-900">{order.orderNumber || 'N/A'}</td>
+                        <td className="px-4 py-2 text-sm text-gray-500">{order.tranid}</td>
+                        <td className="px-4 py-2 text-sm text-gray-500">
+                          {backlogTranids.has(order.tranid) ? 'Yes' : 'No'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {pdfFiles.length > 0 && (
+        <PdfFilesPanel
+          files={pdfFiles}
+          onClose={() => {
+            releasePdfFiles(pdfFiles);
+            setPdfFiles([]);
+          }}
+        />
+      )}
+    </div>
+  );
+}
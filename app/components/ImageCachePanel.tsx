@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ImageCacheStats } from '@/lib/types';
+import { getImageCacheStats } from '@/lib/storage';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function ImageCachePanel({ onClose }: { onClose: () => void }) {
+  const [stats, setStats] = useState<ImageCacheStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = async () => {
+    setLoading(true);
+    setStats(await getImageCacheStats());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-900">Image Cache</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {loading && !stats ? (
+            <div className="text-sm text-gray-500">Loading image cache stats...</div>
+          ) : !stats ? (
+            <div className="text-sm text-red-700">Could not load image cache stats</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase">Hit Rate</div>
+                  <div className="text-2xl font-semibold text-gray-900">
+                    {stats.hitRate !== null ? `${Math.round(stats.hitRate * 100)}%` : 'N/A'}
+                  </div>
+                  <div className="text-xs text-gray-500">{stats.hits} hits · {stats.fetches} fetches</div>
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase">Cached Images</div>
+                  <div className="text-2xl font-semibold text-gray-900">{stats.imageCount}</div>
+                  <div className="text-xs text-gray-500">{formatBytes(stats.totalBytes)}</div>
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase">Failing</div>
+                  <div className={`text-2xl font-semibold ${stats.failingCount > 0 ? 'text-red-700' : 'text-gray-900'}`}>
+                    {stats.failingCount}
+                  </div>
+                </div>
+              </div>
+
+              {stats.failing.length > 0 && (
+                <table className="min-w-full divide-y divide-gray-200 border border-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Image</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Error</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Failures</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {stats.failing.map(failure => (
+                      <tr key={`${failure.size}:${failure.url}`}>
+                        <td className="px-4 py-1 max-w-xs">
+                          <a
+                            href={failure.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block truncate text-xs text-blue-600 hover:underline"
+                            title={failure.url}
+                          >
+                            {failure.url}
+                          </a>
+                          <span className="text-xs text-gray-400">
+                            {failure.size}px · {new Date(failure.lastAttemptAt).toLocaleString()}
+                            {failure.hasStaleCopy ? ' · serving older copy' : ''}
+                          </span>
+                        </td>
+                        <td className="px-4 py-1 text-xs text-gray-600">{failure.error}</td>
+                        <td className="px-4 py-1 text-right">{failure.failures}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
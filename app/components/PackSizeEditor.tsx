@@ -0,0 +1,527 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BoxSizeConfig, CatalogEntry, NetSuiteItem, OrderConfig, PackSizeVersion, ProcessedOrder } from '@/lib/types';
+import { BoxRuleIssue } from '@/lib/boxRules';
+import { processOrders } from '@/lib/dataProcessing';
+import { getPackSizes, getPackSizeVersions, savePackSizes, validatePackSizes } from '@/lib/storage';
+
+/**
+ * A box size as edited: numbers and lists stay as text until the draft is checked or saved
+ */
+interface BoxDraft {
+  key: string;
+  name: string;
+  maxItems: string;
+  cost: string;
+  retired: boolean;
+  combinations: string; // One combination per line, e.g. "DPT16, DPT16, DPT26"
+  rules: string; // JSON list of capacity rules
+}
+
+interface PackSizePreview {
+  rows: Array<{ label: string; current: number; proposed: number }>;
+  changes: Array<{ tranid: string; orderNumber: string; from: string; to: string }>;
+}
+
+function toDrafts(config: OrderConfig): BoxDraft[] {
+  return Object.entries(config.packSizes).map(([key, box]) => ({
+    key,
+    name: box.name,
+    maxItems: box.maxItems.toString(),
+    cost: box.cost !== undefined ? box.cost.toString() : '',
+    retired: box.retired === true,
+    combinations: (box.combinations || []).map(c => c.join(', ')).join('\n'),
+    rules: box.rules?.length ? JSON.stringify(box.rules, null, 2) : '',
+  }));
+}
+
+/**
+ * Turn the drafts back into a config, or an error message naming the box that is wrong
+ */
+function fromDrafts(drafts: BoxDraft[]): OrderConfig | string {
+  const packSizes: OrderConfig['packSizes'] = {};
+  for (const draft of drafts) {
+    const box: BoxSizeConfig = {
+      name: draft.name.trim(),
+      maxItems: parseInt(draft.maxItems),
+    };
+    if (!box.name) return `${draft.key}: name is required`;
+    if (!Number.isInteger(box.maxItems) || box.maxItems < 1) return `${draft.key}: max items must be a positive number`;
+
+    if (draft.cost.trim()) {
+      box.cost = parseFloat(draft.cost);
+      if (isNaN(box.cost)) return `${draft.key}: cost must be a number`;
+    }
+    if (draft.retired) box.retired = true;
+
+    const combinations = draft.combinations
+      .split('\n')
+      .map(line => line.split(/[,\s]+/).map(p => p.trim().toUpperCase()).filter(Boolean))
+      .filter(combination => combination.length > 0);
+    if (combinations.length > 0) box.combinations = combinations;
+
+    if (draft.rules.trim()) {
+      try {
+        const rules = JSON.parse(draft.rules);
+        if (!Array.isArray(rules)) return `${draft.key}: rules must be a JSON list`;
+        if (rules.length > 0) box.rules = rules;
+      } catch {
+        return `${draft.key}: rules are not valid JSON`;
+      }
+    }
+
+    packSizes[draft.key] = box;
+  }
+  return { packSizes };
+}
+
+/**
+ * Box an order ships in, as a label for comparing configs
+ */
+function describeBoxes(order: ProcessedOrder): string {
+  if (order.boxSize) return order.boxes[0]?.name || order.boxSize;
+  if (order.boxes.length > 1) return order.boxes.map(box => box.name).join(' + ');
+  return 'No box';
+}
+
+/**
+ * Match the backlog with both configs and count where orders would go
+ */
+function previewPackSizes(
+  lines: NetSuiteItem[],
+  catalog: CatalogEntry[],
+  current: OrderConfig,
+  proposed: OrderConfig
+): PackSizePreview {
+  const currentOrders = processOrders(lines, current, catalog);
+  const proposedByTranid = new Map(processOrders(lines, proposed, catalog).map(order => [order.tranid, order]));
+
+  const bucket = (order: ProcessedOrder, config: OrderConfig) => {
+    if (order.boxSize) return config.packSizes[order.boxSize]?.name || order.boxSize;
+    return order.boxes.length > 1 ? 'Multi-box' : 'No box';
+  };
+
+  const counts = new Map<string, { current: number; proposed: number }>();
+  const count = (label: string, field: 'current' | 'proposed') => {
+    if (!counts.has(label)) counts.set(label, { current: 0, proposed: 0 });
+    counts.get(label)![field]++;
+  };
+
+  const changes: PackSizePreview['changes'] = [];
+  for (const order of currentOrders) {
+    const proposedOrder = proposedByTranid.get(order.tranid)!;
+    count(bucket(order, current), 'current');
+    count(bucket(proposedOrder, proposed), 'proposed');
+
+    const from = describeBoxes(order);
+    const to = describeBoxes(proposedOrder);
+    if (from !== to) {
+      changes.push({ tranid: order.tranid, orderNumber: order.orderNumber, from, to });
+    }
+  }
+
+  return {
+    rows: Array.from(counts.entries()).map(([label, c]) => ({ label, ...c })),
+    changes,
+  };
+}
+
+export default function PackSizeEditor({
+  packSizes,
+  orderLines,
+  catalog,
+  onSaved,
+  onClose,
+}: {
+  packSizes: PackSizeVersion;
+  orderLines: NetSuiteItem[];
+  catalog: CatalogEntry[];
+  onSaved: (packSizes: PackSizeVersion) => void;
+  onClose: () => void;
+}) {
+  const [drafts, setDrafts] = useState<BoxDraft[]>(() => toDrafts(packSizes.config));
+  const [selectedKey, setSelectedKey] = useState<string | null>(drafts[0]?.key || null);
+  const [newKey, setNewKey] = useState('');
+  const [note, setNote] = useState('');
+  const [loadedVersion, setLoadedVersion] = useState(packSizes.version);
+  const [versions, setVersions] = useState<Omit<PackSizeVersion, 'config'>[]>([]);
+  const [issues, setIssues] = useState<BoxRuleIssue[] | null>(null);
+  const [preview, setPreview] = useState<PackSizePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    getPackSizeVersions().then(setVersions);
+  }, [packSizes.version]);
+
+  const selected = drafts.find(d => d.key === selectedKey) || null;
+
+  // Any edit makes the last check and preview out of date
+  const updateDrafts = (next: BoxDraft[]) => {
+    setDrafts(next);
+    setIssues(null);
+    setPreview(null);
+    setError(null);
+  };
+
+  const updateSelected = (changes: Partial<BoxDraft>) => {
+    updateDrafts(drafts.map(d => d.key === selectedKey ? { ...d, ...changes } : d));
+  };
+
+  // Boxes are matched in list order, so the first box that fits wins
+  const moveBox = (key: string, direction: -1 | 1) => {
+    const index = drafts.findIndex(d => d.key === key);
+    const target = index + direction;
+    if (target < 0 || target >= drafts.length) return;
+    const next = [...drafts];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateDrafts(next);
+  };
+
+  const handleAddBox = () => {
+    const key = newKey.trim();
+    if (!/^[a-z0-9-]+$/i.test(key)) {
+      setError('Box keys may only use letters, numbers and dashes');
+      return;
+    }
+    if (drafts.some(d => d.key === key)) {
+      setError(`There is already a box called ${key}`);
+      return;
+    }
+    updateDrafts([...drafts, { key, name: key, maxItems: '1', cost: '', retired: false, combinations: '', rules: '' }]);
+    setSelectedKey(key);
+    setNewKey('');
+  };
+
+  const handleLoadVersion = async (version: number) => {
+    setWorking(true);
+    const loaded = await getPackSizes(version);
+    setWorking(false);
+    if (!loaded) {
+      setError(`Could not load version ${version}`);
+      return;
+    }
+    const next = toDrafts(loaded.config);
+    updateDrafts(next);
+    setSelectedKey(next[0]?.key || null);
+    setLoadedVersion(version);
+  };
+
+  const handleCheck = async () => {
+    const config = fromDrafts(drafts);
+    if (typeof config === 'string') {
+      setError(config);
+      return;
+    }
+    setWorking(true);
+    const result = await validatePackSizes(config);
+    setWorking(false);
+    setIssues(result.issues);
+    setError(result.error);
+  };
+
+  const handlePreview = () => {
+    const config = fromDrafts(drafts);
+    if (typeof config === 'string') {
+      setError(config);
+      return;
+    }
+    setPreview(previewPackSizes(orderLines, catalog, packSizes.config, config));
+  };
+
+  const handleSave = async () => {
+    const config = fromDrafts(drafts);
+    if (typeof config === 'string') {
+      setError(config);
+      return;
+    }
+    setWorking(true);
+    const result = await savePackSizes(config, { note: note.trim() || null });
+    setWorking(false);
+    setIssues(result.issues);
+    setError(result.error);
+    if (result.packSizes) {
+      setLoadedVersion(result.packSizes.version);
+      setNote('');
+      onSaved(result.packSizes);
+    }
+  };
+
+  const nextVersion = Math.max(packSizes.version, ...versions.map(v => v.version)) + 1;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Pack Sizes</h2>
+            <p className="text-xs text-gray-500">
+              Active: version {packSizes.version}
+              {loadedVersion !== packSizes.version ? ` · editing a copy of version ${loadedVersion}` : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-3">
+          {/* Box List and History */}
+          <div className="overflow-y-auto border-r border-gray-200">
+            <ul className="divide-y divide-gray-200">
+              {drafts.map((draft, index) => (
+                <li key={draft.key} className={`flex items-center ${selectedKey === draft.key ? 'bg-blue-50' : ''}`}>
+                  <button
+                    onClick={() => setSelectedKey(draft.key)}
+                    className="flex-1 text-left px-4 py-2 hover:bg-gray-50"
+                  >
+                    <div className="text-sm font-medium text-gray-900">
+                      {draft.name || draft.key}
+                      {draft.retired && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-200 text-gray-600">Retired</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">{draft.key}</div>
+                  </button>
+                  <div className="flex flex-col pr-2">
+                    <button
+                      onClick={() => moveBox(draft.key, -1)}
+                      disabled={index === 0}
+                      className="text-xs text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      title="Match earlier"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      onClick={() => moveBox(draft.key, 1)}
+                      disabled={index === drafts.length - 1}
+                      className="text-xs text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      title="Match later"
+                    >
+                      ▼
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2 p-4 border-t border-gray-200">
+              <input
+                type="text"
+                value={newKey}
+                onChange={(e) => setNewKey(e.target.value)}
+                placeholder="New box key, e.g. 8pack"
+                className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md"
+              />
+              <button
+                onClick={handleAddBox}
+                disabled={!newKey.trim()}
+                className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+
+            <div className="px-4 py-3 border-t border-gray-200">
+              <h3 className="text-xs font-medium text-gray-500 uppercase mb-2">Versions</h3>
+              <ul className="space-y-1">
+                {versions.map(v => (
+                  <li key={v.version} className="flex items-center justify-between text-xs">
+                    <span className="text-gray-700">
+                      v{v.version}
+                      {v.version === packSizes.version ? ' (active)' : ''}
+                      {v.createdAt ? ` · ${new Date(v.createdAt).toLocaleDateString()}` : ''}
+                      {v.createdBy ? ` · ${v.createdBy}` : ''}
+                      {v.note ? ` · ${v.note}` : ''}
+                    </span>
+                    <button
+                      onClick={() => handleLoadVersion(v.version)}
+                      disabled={working}
+                      className="ml-2 text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      Load
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          {/* Selected Box */}
+          <div className="overflow-y-auto px-6 py-4 md:col-span-2 space-y-4">
+            {!selected ? (
+              <div className="text-sm text-gray-500">Select a box to edit it</div>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-3">
+                  <label className="block text-sm">
+                    <span className="font-medium text-gray-700">Name</span>
+                    <input
+                      type="text"
+                      value={selected.name}
+                      onChange={(e) => updateSelected({ name: e.target.value })}
+                      className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </label>
+                  <label className="block text-sm">
+                    <span className="font-medium text-gray-700">Max cups</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={selected.maxItems}
+                      onChange={(e) => updateSelected({ maxItems: e.target.value })}
+                      className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </label>
+                  <label className="block text-sm">
+                    <span className="font-medium text-gray-700">Cost (multi-box)</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={selected.cost}
+                      onChange={(e) => updateSelected({ cost: e.target.value })}
+                      placeholder="1"
+                      className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </label>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selected.retired}
+                    onChange={(e) => updateSelected({ retired: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Retired (kept for old batches, never matched)
+                </label>
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-700">Combinations</span>
+                  <span className="ml-2 text-xs text-gray-500">One per line, e.g. DPT16, DPT16, DPT26</span>
+                  <textarea
+                    value={selected.combinations}
+                    onChange={(e) => updateSelected({ combinations: e.target.value })}
+                    rows={6}
+                    className="mt-1 w-full px-2 py-1 font-mono text-xs border border-gray-300 rounded-md"
+                  />
+                </label>
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-700">Capacity rules</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    JSON, e.g. {'[{ "slots": 4, "slotsPerCup": { "DPT26": 2 }, "minCups": 2 }]'}
+                  </span>
+                  <textarea
+                    value={selected.rules}
+                    onChange={(e) => updateSelected({ rules: e.target.value })}
+                    rows={6}
+                    className="mt-1 w-full px-2 py-1 font-mono text-xs border border-gray-300 rounded-md"
+                  />
+                </label>
+              </>
+            )}
+
+            {error && (
+              <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+            )}
+
+            {issues && (
+              <div className="space-y-1">
+                <h3 className="text-sm font-medium text-gray-700">
+                  {issues.length === 0 ? 'No problems found' : `${issues.length} issue${issues.length !== 1 ? 's' : ''}`}
+                </h3>
+                {issues.map((issue, index) => (
+                  <div
+                    key={index}
+                    className={`text-xs ${issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}
+                  >
+                    <span className="font-medium">{issue.boxSize} {issue.entry}:</span> {issue.message}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {preview && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">
+                  Backlog preview · {preview.changes.length} order{preview.changes.length !== 1 ? 's' : ''} would change box
+                </h3>
+                <table className="min-w-full divide-y divide-gray-200 border border-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Box</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Now</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Proposed</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {preview.rows.map(row => (
+                      <tr key={row.label}>
+                        <td className="px-4 py-1">{row.label}</td>
+                        <td className="px-4 py-1 text-right">{row.current}</td>
+                        <td className={`px-4 py-1 text-right ${row.proposed !== row.current ? 'font-semibold' : ''}`}>
+                          {row.proposed}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.changes.slice(0, 50).map(change => (
+                  <div key={change.tranid} className="text-xs text-gray-600">
+                    <span className="font-medium">{change.orderNumber || change.tranid}:</span> {change.from} → {change.to}
+                  </div>
+                ))}
+                {preview.changes.length > 50 && (
+                  <div className="text-xs text-gray-400">…and {preview.changes.length - 50} more</div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What changed?"
+            className="flex-1 min-w-[12rem] px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+          />
+          <button
+            onClick={handleCheck}
+            disabled={working}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            Check
+          </button>
+          <button
+            onClick={handlePreview}
+            disabled={working}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            Preview Backlog
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={working}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {working ? 'Working…' : `Save as Version ${nextVersion}`}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { PdfFile } from '@/lib/pdfGenerator';
+
+export default function PdfFilesPanel({
+  files,
+  onClose,
+}: {
+  files: PdfFile[]; // Finished PDFs the browser didn't open by itself
+  onClose: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {files.length > 1 ? `${files.length} PDFs Ready` : 'PDF Ready'}
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            {files.length > 1
+              ? 'This run was split into several files. Open each one to print it.'
+              : 'The browser blocked the new tab. Open the PDF from here.'}
+          </p>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {files.map(file => (
+            <li key={file.url} className="flex items-center justify-between gap-4">
+              <span className="text-sm text-gray-900 truncate">{file.name}</span>
+              <span className="flex gap-3 text-sm shrink-0">
+                <a href={file.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                  Open
+                </a>
+                <a href={file.url} download={file.name} className="text-blue-600 hover:underline">
+                  Download
+                </a>
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
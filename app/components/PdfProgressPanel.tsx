@@ -0,0 +1,48 @@
+'use client';
+
+import { PdfProgress } from '@/lib/pdfGenerator';
+
+export default function PdfProgressPanel({
+  progress,
+  onCancel,
+}: {
+  progress: PdfProgress | null; // null until the first image or page is done
+  onCancel: () => void;
+}) {
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Generating PDF</h2>
+        </div>
+
+        <div className="px-6 py-4">
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-2 bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <div className="mt-2 text-sm text-gray-600">
+            {!progress
+              ? 'Starting…'
+              : progress.phase === 'images'
+                ? `Loading images ${progress.done}/${progress.total}`
+                : `Rendering ${progress.done}/${progress.total} orders`}
+            {progress && progress.fileCount > 1 && ` · File ${progress.file} of ${progress.fileCount}`}
+          </div>
+        </div>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
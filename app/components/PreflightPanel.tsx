@@ -0,0 +1,122 @@
+'use client';
+
+import { PreflightProblemKind, PreflightReport, summarizePreflight } from '@/lib/printPreflight';
+
+const PROBLEM_LABELS: Record<PreflightProblemKind, { one: string; many: string }> = {
+  'image-unreachable': { one: 'item image unreachable', many: 'item images unreachable' },
+  'artwork-unreachable': { one: 'custom artwork unreachable', many: 'custom artworks unreachable' },
+  'missing-barcode': { one: 'item missing barcode', many: 'items missing barcode' },
+  'invalid-barcode': { one: 'barcode that cannot be printed', many: 'barcodes that cannot be printed' },
+  'missing-image': { one: 'item missing image URL', many: 'items missing image URL' },
+};
+
+export default function PreflightPanel({
+  report,
+  progress,
+  onExclude,
+  onProceed,
+  onCancel,
+}: {
+  report: PreflightReport | null; // null while the check is running
+  progress: { checked: number; total: number } | null;
+  onExclude: () => void;
+  onProceed: () => void;
+  onCancel: () => void;
+}) {
+  const summary = report ? summarizePreflight(report) : [];
+  const passingCount = report ? report.orderCount - report.failingTranids.length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Preflight Check</h2>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {!report ? (
+            <div className="text-sm text-gray-600">
+              Checking barcodes and images…
+              {progress && progress.total > 0 && ` ${progress.checked} of ${progress.total} images`}
+            </div>
+          ) : (
+            <>
+              <div className="text-sm text-gray-700">
+                Checked {report.orderCount} order{report.orderCount !== 1 ? 's' : ''} and {report.imageCount} image
+                {report.imageCount !== 1 ? 's' : ''}.{' '}
+                <span className="font-semibold text-red-700">
+                  {report.failingTranids.length} order{report.failingTranids.length !== 1 ? 's' : ''} would print incomplete.
+                </span>
+              </div>
+              <ul className="text-sm text-gray-700 list-disc pl-5">
+                {summary.map(({ kind, count }) => (
+                  <li key={kind}>
+                    {count} {count === 1 ? PROBLEM_LABELS[kind].one : PROBLEM_LABELS[kind].many}
+                  </li>
+                ))}
+              </ul>
+              <table className="min-w-full divide-y divide-gray-200 border border-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Problem</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.problems.map((problem, index) => (
+                    <tr key={index}>
+                      <td className="px-4 py-1">{problem.orderNumber || problem.tranid}</td>
+                      <td className="px-4 py-1 font-mono text-xs">{problem.sku || 'Custom artwork'}</td>
+                      <td className="px-4 py-1 text-gray-600">
+                        {PROBLEM_LABELS[problem.kind].one}
+                        {problem.url && (
+                          <a
+                            href={problem.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="ml-2 text-xs text-blue-600 hover:underline"
+                          >
+                            Open
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          {report && (
+            <>
+              <button
+                onClick={onProceed}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Print All Anyway
+              </button>
+              <button
+                onClick={onExclude}
+                disabled={passingCount === 0}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                Exclude Failing Orders ({passingCount} left)
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
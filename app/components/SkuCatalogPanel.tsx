@@ -0,0 +1,319 @@
+'use client';
+
+import { useState } from 'react';
+import { CatalogEntry, NetSuiteItem } from '@/lib/types';
+import { findUnmappedSkus } from '@/lib/skuCatalog';
+import { saveCatalogEntry, deleteCatalogEntry } from '@/lib/storage';
+
+/**
+ * A catalog entry as edited: numbers stay as text until it is saved
+ */
+interface EntryDraft {
+  id: number | null; // null for a new entry
+  prefix: string;
+  pattern: string;
+  family: string;
+  size: string;
+  slotWeight: string;
+  personalized: '' | 'yes' | 'no'; // '' = decide by the -PERS suffix
+}
+
+const EMPTY_DRAFT: EntryDraft = {
+  id: null,
+  prefix: '',
+  pattern: '',
+  family: 'Cup',
+  size: '',
+  slotWeight: '1',
+  personalized: '',
+};
+
+function toDraft(entry: CatalogEntry): EntryDraft {
+  return {
+    id: entry.id,
+    prefix: entry.prefix,
+    pattern: entry.pattern || '',
+    family: entry.family,
+    size: entry.size || '',
+    slotWeight: entry.slotWeight.toString(),
+    personalized: entry.personalized === null ? '' : entry.personalized ? 'yes' : 'no',
+  };
+}
+
+function describePersonalized(personalized: boolean | null): string {
+  if (personalized === null) return '-PERS suffix';
+  return personalized ? 'Yes' : 'No';
+}
+
+export default function SkuCatalogPanel({
+  catalog,
+  orderLines,
+  onChange,
+  onClose,
+}: {
+  catalog: CatalogEntry[];
+  orderLines: NetSuiteItem[];
+  onChange: (catalog: CatalogEntry[]) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<EntryDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const unmapped = findUnmappedSkus(orderLines, catalog);
+
+  const updateDraft = (changes: Partial<EntryDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  // Start a new entry from an unmapped SKU, guessing the prefix from its first segment
+  const handleClassify = (sku: string) => {
+    setDraft({ ...EMPTY_DRAFT, prefix: sku.split('-')[0].toUpperCase() });
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const slotWeight = parseFloat(draft.slotWeight);
+    if (isNaN(slotWeight)) {
+      setError('Slot weight must be a number');
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveCatalogEntry({
+      prefix: draft.prefix,
+      pattern: draft.pattern.trim() || null,
+      family: draft.family,
+      size: draft.size.trim() || null,
+      slotWeight,
+      personalized: draft.personalized === '' ? null : draft.personalized === 'yes',
+    }, draft.id ?? undefined);
+    setSaving(false);
+
+    if (!result.entry) {
+      setError(result.error);
+      return;
+    }
+    const saved = result.entry;
+    onChange(draft.id === null
+      ? [...catalog, saved]
+      : catalog.map(entry => entry.id === saved.id ? saved : entry));
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleDelete = async (entry: CatalogEntry) => {
+    if (!confirm(`Remove ${entry.prefix} from the catalog? Its SKUs will show as unmapped.`)) return;
+
+    if (await deleteCatalogEntry(entry.id)) {
+      onChange(catalog.filter(e => e.id !== entry.id));
+      if (draft.id === entry.id) setDraft(EMPTY_DRAFT);
+    } else {
+      alert('Failed to remove catalog entry. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-900">SKU Catalog</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {/* Unmapped SKUs */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              Unmapped SKUs in backlog · {unmapped.length}
+            </h3>
+            {unmapped.length === 0 ? (
+              <div className="text-sm text-gray-500">Every SKU in the backlog is in the catalog</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 border border-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">SKU</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Orders</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {unmapped.map(row => (
+                    <tr key={row.sku}>
+                      <td className="px-4 py-1 font-mono text-xs">{row.sku}</td>
+                      <td className="px-4 py-1 text-gray-600">{row.description || '-'}</td>
+                      <td className="px-4 py-1 text-right">{row.orderCount}</td>
+                      <td className="px-4 py-1 text-right">{row.quantity}</td>
+                      <td className="px-4 py-1 text-right">
+                        <button
+                          onClick={() => handleClassify(row.sku)}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          Classify
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Catalog Entries */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Catalog · {catalog.length} entries</h3>
+            <table className="min-w-full divide-y divide-gray-200 border border-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Prefix</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pattern</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Family</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Size</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Slots</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Personalized</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {catalog.map(entry => (
+                  <tr key={entry.id} className={draft.id === entry.id ? 'bg-blue-50' : ''}>
+                    <td className="px-4 py-1 font-mono text-xs">{entry.prefix}</td>
+                    <td className="px-4 py-1 font-mono text-xs">{entry.pattern || '-'}</td>
+                    <td className="px-4 py-1">{entry.family}</td>
+                    <td className="px-4 py-1">{entry.size || 'Not a cup'}</td>
+                    <td className="px-4 py-1 text-right">{entry.slotWeight}</td>
+                    <td className="px-4 py-1">{describePersonalized(entry.personalized)}</td>
+                    <td className="px-4 py-1 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => setDraft(toDraft(entry))}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="ml-3 text-xs text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Entry Form */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-700">
+              {draft.id === null ? 'Add entry' : `Edit ${draft.prefix}`}
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <label className="block text-sm">
+                <span className="font-medium text-gray-700">SKU prefix</span>
+                <input
+                  type="text"
+                  value={draft.prefix}
+                  onChange={(e) => updateDraft({ prefix: e.target.value })}
+                  placeholder="DPT16"
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium text-gray-700">Pattern (optional regex)</span>
+                <input
+                  type="text"
+                  value={draft.pattern}
+                  onChange={(e) => updateDraft({ pattern: e.target.value })}
+                  placeholder="^DPT16-.*-PERS$"
+                  className="mt-1 w-full px-2 py-1 font-mono text-xs border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium text-gray-700">Family</span>
+                <input
+                  type="text"
+                  value={draft.family}
+                  onChange={(e) => updateDraft({ family: e.target.value })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium text-gray-700">Cup size</span>
+                <input
+                  type="text"
+                  value={draft.size}
+                  onChange={(e) => updateDraft({ size: e.target.value })}
+                  placeholder="Blank if it doesn't go in a box"
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium text-gray-700">Box slots per cup</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={draft.slotWeight}
+                  onChange={(e) => updateDraft({ slotWeight: e.target.value })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium text-gray-700">Personalized</span>
+                <select
+                  value={draft.personalized}
+                  onChange={(e) => updateDraft({ personalized: e.target.value as EntryDraft['personalized'] })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                >
+                  <option value="">By -PERS suffix</option>
+                  <option value="yes">Always</option>
+                  <option value="no">Never</option>
+                </select>
+              </label>
+            </div>
+            {error && (
+              <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+            )}
+          </div>
+        </div>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          {draft.id !== null && (
+            <button
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Cancel Edit
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !draft.prefix.trim()}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving…' : draft.id === null ? 'Add Entry' : 'Save Entry'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
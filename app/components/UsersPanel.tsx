@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AppUser, SessionUser, UserRole } from '@/lib/types';
+import { getUsers, saveUser } from '@/lib/storage';
+import { USER_ROLES, USER_ROLE_DESCRIPTIONS, USER_ROLE_LABELS } from '@/lib/roles';
+import { MIN_PASSWORD_LENGTH } from '@/lib/users';
+
+const EMPTY_DRAFT = { username: '', displayName: '', role: 'packer' as UserRole, password: '' };
+
+export default function UsersPanel({
+  currentUser,
+  onClose,
+}: {
+  currentUser: SessionUser;
+  onClose: () => void;
+}) {
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getUsers().then(result => {
+      setUsers(result);
+      setLoading(false);
+    });
+  }, []);
+
+  const replaceUser = (user: AppUser) => {
+    setUsers(prev => prev.map(u => (u.id === user.id ? user : u)));
+  };
+
+  const handleUpdate = async (user: AppUser, changes: { role?: UserRole; password?: string; disabled?: boolean }) => {
+    setError(null);
+    const result = await saveUser(changes, user.id);
+    if (result.error) {
+      setError(`${user.username}: ${result.error}`);
+      return;
+    }
+    if (result.user) replaceUser(result.user);
+  };
+
+  const handleResetPassword = async (user: AppUser) => {
+    const password = window.prompt(`New password for ${user.username} (at least ${MIN_PASSWORD_LENGTH} characters)`);
+    if (!password) return;
+    await handleUpdate(user, { password });
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    setError(null);
+    const result = await saveUser({
+      username: draft.username,
+      displayName: draft.displayName || null,
+      role: draft.role,
+      password: draft.password || undefined,
+    });
+    setSaving(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    if (result.user) {
+      setUsers(prev => [...prev, result.user!].sort((a, b) => a.username.localeCompare(b.username)));
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Panel Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-900">Users</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {/* Role Reference */}
+          <ul className="text-xs text-gray-500 space-y-0.5">
+            {USER_ROLES.map(role => (
+              <li key={role}>
+                <span className="font-medium text-gray-700">{USER_ROLE_LABELS[role]}:</span> {USER_ROLE_DESCRIPTIONS[role]}
+              </li>
+            ))}
+          </ul>
+
+          {error && (
+            <div className="px-4 py-2 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="text-sm text-gray-500">Loading users...</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Username</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sign-in</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last Signed In</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map(user => (
+                  <tr key={user.id} className={user.disabled ? 'bg-gray-50 text-gray-400' : ''}>
+                    <td className="px-4 py-2 text-sm font-medium">
+                      {user.username}
+                      {user.username === currentUser.username && <span className="ml-1 text-xs text-gray-500">(you)</span>}
+                      {user.disabled && <span className="ml-1 text-xs text-red-600">disabled</span>}
+                    </td>
+                    <td className="px-4 py-2 text-sm">{user.displayName || ''}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <select
+                        value={user.role}
+                        onChange={(e) => handleUpdate(user, { role: e.target.value as UserRole })}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                      >
+                        {USER_ROLES.map(role => (
+                          <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-2 text-sm">{user.provider === 'oidc' ? 'OIDC' : 'Password'}</td>
+                    <td className="px-4 py-2 text-sm whitespace-nowrap">
+                      {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right whitespace-nowrap space-x-3">
+                      {user.provider === 'local' && (
+                        <button
+                          onClick={() => handleResetPassword(user)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Reset Password
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleUpdate(user, { disabled: !user.disabled })}
+                        className={user.disabled ? 'text-green-700 hover:text-green-900' : 'text-red-600 hover:text-red-800'}
+                      >
+                        {user.disabled ? 'Enable' : 'Disable'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Demoting or disabling a user takes effect straight away; a promotion takes effect when they next load the page.
+          </p>
+
+          {/* Add User */}
+          <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 rounded-md">
+            <input
+              type="text"
+              value={draft.username}
+              onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+              placeholder="Username or email"
+              className="w-48 px-2 py-1 text-sm border border-gray-300 rounded-md"
+            />
+            <input
+              type="text"
+              value={draft.displayName}
+              onChange={(e) => setDraft({ ...draft, displayName: e.target.value })}
+              placeholder="Name"
+              className="w-40 px-2 py-1 text-sm border border-gray-300 rounded-md"
+            />
+            <select
+              value={draft.role}
+              onChange={(e) => setDraft({ ...draft, role: e.target.value as UserRole })}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              {USER_ROLES.map(role => (
+                <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <input
+              type="password"
+              value={draft.password}
+              onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+              placeholder="Password"
+              title={`At least ${MIN_PASSWORD_LENGTH} characters; leave blank for OIDC users`}
+              autoComplete="new-password"
+              className="w-40 px-2 py-1 text-sm border border-gray-300 rounded-md"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={saving || !draft.username.trim()}
+              className="ml-auto px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Adding…' : 'Add User'}
+            </button>
+          </div>
+        </div>
+
+        {/* Panel Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getCurrentUser, signIn } from '@/lib/storage';
+
+/**
+ * Only follow same-site paths after sign-in, never another origin
+ * Resolved like the browser would, so tricks such as `/\evil.com` (read as `//evil.com`) are caught
+ */
+function safeNext(value: string | null): string {
+  if (!value || !value.startsWith('/')) return '/';
+  const url = new URL(value, window.location.origin);
+  return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+}
+
+export default function LoginPage() {
+  const [provider, setProvider] = useState<'local' | 'oidc' | null>(null);
+  const [next, setNext] = useState('/');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const nextPath = safeNext(params.get('next'));
+    setNext(nextPath);
+    setError(params.get('error'));
+
+    getCurrentUser().then(({ user, provider: mode }) => {
+      if (user) {
+        window.location.href = nextPath;
+        return;
+      }
+      setProvider(mode);
+    });
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    setError(null);
+    const failure = await signIn(username, password);
+    if (failure) {
+      setError(failure);
+      setSigningIn(false);
+      return;
+    }
+    window.location.href = next;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-md p-6 w-full max-w-sm">
+        <h1 className="text-2xl font-semibold mb-4">Sign In</h1>
+
+        {error && (
+          <div className="mb-4 px-4 py-2 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+        )}
+
+        {provider === null ? (
+          <div className="text-sm text-gray-500">Loading...</div>
+        ) : provider === 'oidc' ? (
+          <a
+            href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}
+            className="block w-full px-4 py-2 text-center bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Sign in with your identity provider
+          </a>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={signingIn || !username.trim() || !password}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {signingIn ? 'Signing in…' : 'Sign In'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
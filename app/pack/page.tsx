@@ -0,0 +1,372 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { processOrders } from '@/lib/dataProcessing';
+import { CatalogEntry, NetSuiteItem, OrderStatusRecord, PackSizeVersion, SessionUser } from '@/lib/types';
+import { getCatalog, getCurrentUser, getOrderStatuses, getPackSizes, setOrderStatus } from '@/lib/storage';
+import { getOrderStatus, ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { hasRole } from '@/lib/roles';
+import { findOrderByScan, getPackProgress, PackScan, removeScan, scanItem } from '@/lib/packVerification';
+
+type ScanMessage = { tone: 'ok' | 'error' | 'info'; text: string };
+
+// Short beep so a bad scan is noticed without looking at the screen
+function beep(tone: 'ok' | 'error') {
+  try {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    oscillator.type = tone === 'ok' ? 'sine' : 'square';
+    oscillator.frequency.value = tone === 'ok' ? 880 : 220;
+    oscillator.connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + (tone === 'ok' ? 0.08 : 0.4));
+    oscillator.onended = () => context.close();
+  } catch {
+    // No audio available
+  }
+}
+
+export default function PackStation() {
+  const [orderLines, setOrderLines] = useState<NetSuiteItem[]>([]);
+  const [packSizes, setPackSizes] = useState<PackSizeVersion | null>(null);
+  const [catalog, setCatalog] = useState<CatalogEntry[] | null>(null);
+  const [orderStatuses, setOrderStatuses] = useState<Record<string, OrderStatusRecord>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [currentTranid, setCurrentTranid] = useState<string | null>(null);
+  const [scans, setScans] = useState<PackScan[]>([]);
+  const [scanInput, setScanInput] = useState('');
+  const [message, setMessage] = useState<ScanMessage | null>(null);
+  const [saving, setSaving] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const allOrders = useMemo(
+    () => packSizes && catalog ? processOrders(orderLines, packSizes.config, catalog) : [],
+    [orderLines, packSizes, catalog]
+  );
+  const order = currentTranid ? allOrders.find(o => o.tranid === currentTranid) || null : null;
+  const progress = order ? getPackProgress(order, scans) : null;
+  const orderStatus = order ? getOrderStatus(orderStatuses, order.tranid) : null;
+  const orderDone = !!progress?.verified && (orderStatus === 'packed' || orderStatus === 'shipped');
+
+  useEffect(() => {
+    getCurrentUser().then(({ user }) => setCurrentUser(user));
+
+    const load = async () => {
+      try {
+        const response = await fetch('/api/orders?refresh=0', { cache: 'no-store' });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok || !Array.isArray(result.data)) {
+          throw new Error(result.message || 'Failed to load orders');
+        }
+        const [activePackSizes, activeCatalog, statuses] = await Promise.all([
+          getPackSizes(),
+          getCatalog(),
+          getOrderStatuses(),
+        ]);
+        if (!activePackSizes || !activeCatalog) {
+          throw new Error('Failed to load pack sizes and SKU catalog');
+        }
+        setPackSizes(activePackSizes);
+        setCatalog(activeCatalog);
+        setOrderLines(result.data);
+        setOrderStatuses(statuses);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load orders');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  // Keep the scanner's keystrokes going into the scan box
+  useEffect(() => {
+    scanInputRef.current?.focus();
+  }, [loading, currentTranid, saving]);
+
+  const flag = (text: string) => {
+    setMessage({ tone: 'error', text });
+    beep('error');
+  };
+
+  const startOrder = (code: string) => {
+    const found = findOrderByScan(allOrders, code);
+    if (!found) {
+      flag(`No open order matches "${code}"`);
+      return;
+    }
+    const status = getOrderStatus(orderStatuses, found.tranid);
+    if (status === 'on-hold' || status === 'cancelled') {
+      flag(`${found.orderNumber} is ${ORDER_STATUS_LABELS[status].toLowerCase()}. Don't pack it.`);
+      return;
+    }
+    setCurrentTranid(found.tranid);
+    setScans([]);
+    setMessage(status === 'packed' || status === 'shipped'
+      ? { tone: 'info', text: `${found.orderNumber} was already ${status}. Scanning again will re-verify it.` }
+      : { tone: 'info', text: 'Scan each item as it goes in the box' });
+    beep('ok');
+  };
+
+  const finishOrder = async (tranid: string) => {
+    setSaving(true);
+    // Verified orders are picked, then packed; re-verifying a shipped order doesn't move it back to packed.
+    // Only leads can pick an order that was never printed
+    const picked = await setOrderStatus([tranid], 'picked', { from: ['new', 'printed'], source: 'pack-station' });
+    const packed = picked && await setOrderStatus([tranid], 'packed', { from: ['picked'], source: 'pack-station' });
+    setSaving(false);
+
+    const moved = packed?.length ? 'packed' : picked?.length ? 'picked' : null;
+    if (moved) {
+      const changedAt = new Date().toISOString();
+      setOrderStatuses(prev => ({ ...prev, [tranid]: { status: moved, changedAt, changedBy: currentUser?.username ?? null } }));
+    }
+    if (!packed) {
+      flag('Verified, but the packed status could not be saved. Press Mark Packed to try again.');
+      return;
+    }
+    const status = moved || getOrderStatus(orderStatuses, tranid);
+    if (status !== 'packed' && status !== 'shipped') {
+      flag(`Verified, but ${order?.orderNumber ?? 'this order'} is ${ORDER_STATUS_LABELS[status].toLowerCase()}, so it can't be marked packed here. Ask a lead.`);
+      return;
+    }
+    setMessage({ tone: 'ok', text: 'Order verified and marked packed. Scan the next slip.' });
+  };
+
+  const handleScan = async (code: string) => {
+    if (!code.trim()) return;
+
+    // No order open, or the last one is done: this is a slip
+    if (!order || !progress || orderDone) {
+      startOrder(code);
+      return;
+    }
+
+    const result = scanItem(order, progress.packed, code);
+    const nextScans = [...scans, { code, result, scannedAt: new Date().toISOString() }];
+    setScans(nextScans);
+
+    if (result.kind === 'wrong-item') {
+      const slip = findOrderByScan(allOrders, code);
+      flag(slip && slip.tranid !== order.tranid
+        ? `That's the slip for ${slip.orderNumber}. Finish or cancel ${order.orderNumber} first.`
+        : `WRONG ITEM: ${code} is not in this order. Take it out of the box.`);
+      return;
+    }
+
+    const item = order.items[result.itemIndex];
+    if (result.kind === 'over-pick') {
+      flag(`OVER-PICK: ${item.sku} only needs ${item.quantity}. Take the extra out and press Remove One.`);
+      return;
+    }
+    if (result.kind === 'needs-barcode') {
+      flag(`${item.sku} is personalized. Scan its customization barcode, not the SKU.`);
+      return;
+    }
+
+    beep('ok');
+    if (getPackProgress(order, nextScans).verified) {
+      await finishOrder(order.tranid);
+    } else {
+      setMessage({ tone: 'ok', text: `Packed ${item.sku}` });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scanInput;
+    setScanInput('');
+    handleScan(code);
+  };
+
+  const handleRemoveOne = (itemIndex: number) => {
+    setScans(prev => removeScan(prev, itemIndex));
+    setMessage({ tone: 'info', text: `Removed one ${order?.items[itemIndex].sku}` });
+  };
+
+  const handleCancelOrder = () => {
+    setCurrentTranid(null);
+    setScans([]);
+    setMessage(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6 flex items-center justify-center">
+        <div className="text-xl font-semibold text-gray-700">Loading orders...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-xl font-semibold text-red-600 mb-4">Error</div>
+          <div className="text-gray-700">{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        {/* Scan Box */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-2xl font-semibold">Pack Station</h1>
+            <div className="flex items-center gap-3">
+              {currentUser && (
+                <span className="text-sm text-gray-600">Packing as {currentUser.displayName || currentUser.username}</span>
+              )}
+              <Link href="/" className="text-sm text-blue-600 hover:underline">
+                Back to orders
+              </Link>
+            </div>
+          </div>
+          {currentUser && !hasRole(currentUser, 'packer') && (
+            <div className="mb-4 px-4 py-2 rounded-md bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+              Packing orders needs the Packer role. Ask an admin to change your role.
+            </div>
+          )}
+          <form onSubmit={handleSubmit}>
+            <input
+              ref={scanInputRef}
+              type="text"
+              value={scanInput}
+              onChange={(e) => setScanInput(e.target.value)}
+              disabled={saving || (!!currentUser && !hasRole(currentUser, 'packer'))}
+              placeholder={order && !orderDone ? 'Scan an item' : 'Scan a packing slip'}
+              className="w-full px-4 py-3 text-lg font-mono border-2 border-blue-300 rounded-md focus:outline-none focus:border-blue-600"
+              autoComplete="off"
+            />
+          </form>
+          {message && (
+            <div
+              className={`mt-4 p-4 rounded-md font-semibold ${
+                message.tone === 'error'
+                  ? 'text-2xl text-white bg-red-600'
+                  : message.tone === 'ok'
+                    ? 'text-lg text-green-800 bg-green-100'
+                    : 'text-lg text-blue-800 bg-blue-50'
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+        </div>
+
+        {/* Current Order */}
+        {order && progress && (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-semibold">{order.orderNumber}</h2>
+                <div className="text-sm text-gray-500">
+                  {order.tranid}
+                  {order.boxes.length > 0 && ` · ${order.boxes.map(box => box.name).join(' + ')}`}
+                  {orderStatus === 'new' && ' · Slip not printed'}
+                </div>
+              </div>
+              <div className="text-right">
+                {progress.verified ? (
+                  <span className="px-3 py-1 text-sm font-semibold rounded-full bg-green-100 text-green-800">
+                    {orderDone ? '✓ Packed' : 'Verified'}
+                  </span>
+                ) : (
+                  <span className="px-3 py-1 text-sm font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                    {progress.missing.reduce((sum, { count }) => sum + count, 0)} left to scan
+                  </span>
+                )}
+                {progress.wrongScans > 0 && (
+                  <div className="mt-1 text-xs text-red-700">{progress.wrongScans} wrong scan{progress.wrongScans !== 1 ? 's' : ''}</div>
+                )}
+              </div>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Image</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Barcode</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Packed</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {order.items.map((item, index) => {
+                  const packed = progress.packed[index];
+                  const rowClass = packed > item.quantity
+                    ? 'bg-red-100'
+                    : packed === item.quantity
+                      ? 'bg-green-50'
+                      : '';
+                  return (
+                    <tr key={index} className={rowClass}>
+                      <td className="px-4 py-2">
+                        {item.imageUrl ? (
+                          <img
+                            src={`/api/images?url=${encodeURIComponent(item.imageUrl)}&size=150`}
+                            alt={item.sku}
+                            className="w-20 h-20 object-contain rounded"
+                            onError={(e) => {
+                              (e.target as HTMLImageElement).style.display = 'none';
+                            }}
+                          />
+                        ) : (
+                          <span className="text-gray-400 text-xs">No image</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="font-mono text-sm">{item.sku}</div>
+                        {item.description && <div className="text-xs text-gray-500">{item.description}</div>}
+                        {item.color && <div className="text-xs text-gray-500">{item.color}{item.size ? ` · ${item.size}` : ''}</div>}
+                      </td>
+                      <td className="px-4 py-2 font-mono text-xs text-gray-600">{item.barcode || '-'}</td>
+                      <td className="px-4 py-2 text-right text-lg font-semibold">
+                        {packed} / {item.quantity}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {packed > 0 && (
+                          <button
+                            onClick={() => handleRemoveOne(index)}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Remove One
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="mt-4 flex justify-end gap-2">
+              <button
+                onClick={handleCancelOrder}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                {orderDone ? 'Done' : 'Cancel Order'}
+              </button>
+              {progress.verified && !orderDone && (
+                <button
+                  onClick={() => finishOrder(order.tranid)}
+                  disabled={saving}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  Mark Packed
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,64 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { NetSuiteItem, ProcessedOrder, OrderConfig } from '@/lib/types';
-import { processOrders, filterOrders } from '@/lib/dataProcessing';
-import { getPrintedOrders, markOrdersAsPrinted, clearPrintedOrders } from '@/lib/storage';
-import { generatePackingSlipsPDF, generatePicklistPDF, generateCombinedPDF } from '@/lib/pdfGenerator';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { CatalogEntry, NetSuiteItem, ProcessedOrder, OrderStatus, OrderStatusEvent, OrderStatusRecord, OrderSyncEvent, OrderSyncState, OutputFormat, PackSizeVersion, PageProfile, PrintBatchFilters, PrintDocumentType, SessionUser, WriteBackStatus } from '@/lib/types';
+import { processOrders, filterOrders, serializeOrders, MULTI_BOX_FILTER } from '@/lib/dataProcessing';
+import { describeBlockedOrders, getBlockedOrders } from '@/lib/orderValidation';
+import { runPreflight, PreflightReport } from '@/lib/printPreflight';
+import { countOrdersByStatus, getOrderStatus, isPrintedStatus, ORDER_STATUSES, ORDER_STATUS_COLORS, ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { getCurrentUser, signOut, getOrderStatuses, getOrderStatusHistory, setOrderStatus, clearPrintedOrders, recordPrintBatch, syncOrdersWithProgress, getWriteBackStatuses, retryWriteBacks, getPackSizes, getCatalog } from '@/lib/storage';
+import { hasRole, USER_ROLE_LABELS } from '@/lib/roles';
+import { generatePackingSlipsPDF, generatePicklistPDF, generateCombinedPDF, PAGE_PROFILES, PdfCancelledError, PdfFile, PdfProgress, releasePdfFiles } from '@/lib/pdfGenerator';
+import { generatePackingSlipsZPL, generateCombinedZPL, downloadZpl, sendZplToPrinter } from '@/lib/zplGenerator';
 import { SHIPPING_ZONES, ShippingZoneId, UNKNOWN_ZONE_ID } from '@/lib/shippingZones';
-import orderConfig from '../order-config.json';
+import BatchHistoryPanel from './components/BatchHistoryPanel';
+import AuditLogPanel from './components/AuditLogPanel';
+import PackSizeEditor from './components/PackSizeEditor';
+import SkuCatalogPanel from './components/SkuCatalogPanel';
+import PreflightPanel from './components/PreflightPanel';
+import PdfProgressPanel from './components/PdfProgressPanel';
+import PdfFilesPanel from './components/PdfFilesPanel';
+import ImageCachePanel from './components/ImageCachePanel';
+import UsersPanel from './components/UsersPanel';
+
+const PAGE_PROFILE_STORAGE_KEY = 'packingSlips.pageProfile';
+const OUTPUT_FORMAT_STORAGE_KEY = 'packingSlips.outputFormat';
+const ZPL_TEXT_ONLY_STORAGE_KEY = 'packingSlips.zplTextOnly';
+const OUTPUT_FORMATS: { key: OutputFormat; name: string }[] = [
+  { key: 'pdf', name: 'PDF' },
+  { key: 'zpl-file', name: 'ZPL file' },
+  { key: 'zpl-printer', name: 'ZPL to Zebra' },
+];
+
+/**
+ * Describe how long ago the order cache was synced, e.g. "3 minutes ago"
+ */
+function formatSyncAge(syncedAt: string, now: number): string {
+  const minutes = Math.floor((now - new Date(syncedAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute${minutes !== 1 ? 's' : ''} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
+  return new Date(syncedAt).toLocaleString();
+}
+
+/**
+ * Thrown when the server didn't record a print batch, so its orders must not be shown as printed
+ */
+class BatchNotRecordedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchNotRecordedError';
+  }
+}
 
 export default function Home() {
-  const [allOrders, setAllOrders] = useState<ProcessedOrder[]>([]);
-  const [printedOrders, setPrintedOrders] = useState<Set<string>>(new Set());
+  const [orderLines, setOrderLines] = useState<NetSuiteItem[]>([]);
+  const [packSizes, setPackSizes] = useState<PackSizeVersion | null>(null);
+  const [catalog, setCatalog] = useState<CatalogEntry[] | null>(null);
+  const [orderStatuses, setOrderStatuses] = useState<Record<string, OrderStatusRecord>>({});
+  const [statusHistory, setStatusHistory] = useState<OrderStatusEvent[] | null>(null); // For the order detail modal
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -20,52 +68,165 @@ export default function Home() {
   const [selectedBoxSize, setSelectedBoxSize] = useState<string | null>(null);
   const [dateFrom, setDateFrom] = useState<string>('');
   const [dateTo, setDateTo] = useState<string>('');
-  const [printedFilter, setPrintedFilter] = useState<boolean | null>(false); // Default to Not Printed
+  const [statusFilter, setStatusFilter] = useState<OrderStatus[]>(['new']); // Default to New (not printed)
   const [selectedShippingZones, setSelectedShippingZones] = useState<ShippingZoneId[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<ProcessedOrder | null>(null);
   const [selectedOrderIds, setSelectedOrderIds] = useState<Set<string>>(new Set());
   const [showClearHint, setShowClearHint] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [syncState, setSyncState] = useState<OrderSyncState | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [syncStatus, setSyncStatus] = useState<Extract<OrderSyncEvent, { type: 'retry' }> | null>(null);
+  const [syncProgress, setSyncProgress] = useState<Extract<OrderSyncEvent, { type: 'progress' }> | null>(null);
   const [selectFirstCount, setSelectFirstCount] = useState<number>(0);
   const [filtersCollapsed, setFiltersCollapsed] = useState<boolean>(false);
+  const [showBatchHistory, setShowBatchHistory] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showUsers, setShowUsers] = useState(false);
+  const [showPackSizeEditor, setShowPackSizeEditor] = useState(false);
+  const [showSkuCatalog, setShowSkuCatalog] = useState(false);
+  const [showImageCache, setShowImageCache] = useState(false);
+  const [preflight, setPreflight] = useState<{
+    documentType: PrintDocumentType;
+    orders: ProcessedOrder[];
+    report: PreflightReport | null;
+    progress: { checked: number; total: number } | null;
+  } | null>(null);
+  const preflightRunRef = useRef(0); // Bumped on every run and cancel, so a cancelled check doesn't print
+  const [pdfRender, setPdfRender] = useState<{ progress: PdfProgress | null } | null>(null);
+  const pdfAbortRef = useRef<AbortController | null>(null);
+  const [pdfFiles, setPdfFiles] = useState<PdfFile[]>([]); // PDFs the browser didn't open, offered as links
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [pageProfile, setPageProfile] = useState<PageProfile>('letter-2up');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('pdf');
+  const [zplTextOnly, setZplTextOnly] = useState(false);
+  const [writeBackEnabled, setWriteBackEnabled] = useState(false);
+  const [writeBackStatuses, setWriteBackStatuses] = useState<Record<string, WriteBackStatus>>({});
   
   // Sorting - default to sorting by zone (closest first)
   const [sortColumn, setSortColumn] = useState<'date' | 'cupSize' | 'orderNumber' | 'fulfillmentId' | 'zone' | null>('zone');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
+  // Fetch orders from the cache, bypassing any browser cache
+  const fetchCachedOrders = async (): Promise<{ items: NetSuiteItem[]; sync: OrderSyncState | null; stale: boolean }> => {
+    const response = await fetch('/api/orders?refresh=0', { cache: 'no-store' });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.message || 'Failed to load orders');
+    }
+
+    const ordersResponse = await response.json();
+    const items = (ordersResponse as { data: NetSuiteItem[] }).data;
+    if (!items || !Array.isArray(items)) {
+      throw new Error('Invalid data format');
+    }
+    return { items, sync: ordersResponse.sync || null, stale: ordersResponse.stale === true };
+  };
+
+  const applyCachedOrders = (cached: { items: NetSuiteItem[]; sync: OrderSyncState | null }) => {
+    setSyncState(cached.sync);
+    setOrderLines(cached.items);
+  };
+
+  // Boxes are matched with the active pack sizes and SKU catalog, so editing either re-matches the backlog
+  const allOrders = useMemo(
+    () => packSizes && catalog ? processOrders(orderLines, packSizes.config, catalog) : [],
+    [orderLines, packSizes, catalog]
+  );
+
+  const statusCounts = useMemo(() => countOrdersByStatus(allOrders, orderStatuses), [allOrders, orderStatuses]);
+
+  // Pull changes from NetSuite into the cache, showing page progress and retries as they stream in
+  // Returns the error message if the sync failed
+  const runSync = async (): Promise<string | null> => {
+    setSyncProgress(null);
+    setSyncStatus(null);
+    const result = await syncOrdersWithProgress(event => {
+      if (event.type === 'progress') {
+        setSyncProgress(event);
+        setSyncStatus(null);
+      } else if (event.type === 'retry') {
+        setSyncStatus(event);
+        setNow(Date.now());
+      }
+    });
+    setSyncProgress(null);
+    setSyncStatus(null);
+    return result.type === 'error' ? result.message : null;
+  };
+
+  const refreshWriteBackStatuses = async () => {
+    const writeBack = await getWriteBackStatuses();
+    setWriteBackEnabled(writeBack.enabled);
+    setWriteBackStatuses(writeBack.statuses);
+  };
+
+  const handleRetryWriteBacks = async () => {
+    const statuses = await retryWriteBacks();
+    if (statuses) {
+      setWriteBackStatuses(statuses);
+    }
+  };
+
   // Load data (initial + manual sync)
-  const loadData = async () => {
+  const loadData = async (options: { sync?: boolean } = {}) => {
+    // Show full-screen loading only on first load
+    const firstLoad = allOrders.length === 0;
     try {
-      // Show full-screen loading only on first load
-      if (allOrders.length === 0) {
+      if (firstLoad) {
         setLoading(true);
       } else {
         setSyncing(true);
       }
       setError(null);
-      
-      // Load orders from API route, bypassing any browser cache
-      const response = await fetch('/api/orders', { cache: 'no-store' });
-      if (!response.ok) {
-        throw new Error('Failed to load orders');
+      setSyncError(null);
+
+      // A failed sync still leaves the cached orders usable
+      if (options.sync) {
+        setSyncError(await runSync());
       }
-      
-      const sampleResponse = await response.json();
-      const items = (sampleResponse as { data: NetSuiteItem[] }).data;
-      
-      if (!items || !Array.isArray(items)) {
-        throw new Error('Invalid data format');
+
+      let cached = await fetchCachedOrders();
+
+      // Never synced: nothing to show until the first sync finishes
+      if (!options.sync && !cached.sync?.lastSyncedAt) {
+        const syncFailure = await runSync();
+        if (syncFailure) {
+          throw new Error(syncFailure);
+        }
+        cached = await fetchCachedOrders();
       }
+
+      const [activePackSizes, activeCatalog] = await Promise.all([getPackSizes(), getCatalog()]);
+      if (!activePackSizes || !activeCatalog) {
+        throw new Error('Failed to load pack sizes and SKU catalog');
+      }
+      setPackSizes(activePackSizes);
+      setCatalog(activeCatalog);
+      applyCachedOrders(cached);
       
-      const processed = processOrders(items, orderConfig as OrderConfig);
-      setAllOrders(processed);
-      
-      // Load printed orders from database
-      const printed = await getPrintedOrders();
-      setPrintedOrders(printed);
+      // Load order statuses from database
+      setOrderStatuses(await getOrderStatuses());
+      await refreshWriteBackStatuses();
+
+      // Stale: show the cache now and refresh it in the background
+      if (!options.sync && cached.stale && cached.sync?.lastSyncedAt) {
+        setLoading(false);
+        setSyncing(true);
+        const syncFailure = await runSync();
+        setSyncError(syncFailure);
+        applyCachedOrders(await fetchCachedOrders());
+      }
     } catch (err) {
       console.error('Error loading data:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load data');
+      const message = err instanceof Error ? err.message : 'Failed to load data';
+      // Keep showing what we already have rather than blanking the screen
+      if (!firstLoad) {
+        setSyncError(message);
+      } else {
+        setError(message);
+      }
     } finally {
       setLoading(false);
       setSyncing(false);
@@ -75,9 +236,61 @@ export default function Home() {
   // Initial load on mount
   useEffect(() => {
     loadData();
+    getCurrentUser().then(({ user }) => setCurrentUser(user));
+    const savedProfile = localStorage.getItem(PAGE_PROFILE_STORAGE_KEY) as PageProfile | null;
+    if (savedProfile && PAGE_PROFILES.some(p => p.key === savedProfile)) {
+      setPageProfile(savedProfile);
+    }
+    const savedFormat = localStorage.getItem(OUTPUT_FORMAT_STORAGE_KEY) as OutputFormat | null;
+    if (savedFormat && OUTPUT_FORMATS.some(f => f.key === savedFormat)) {
+      setOutputFormat(savedFormat);
+    }
+    setZplTextOnly(localStorage.getItem(ZPL_TEXT_ONLY_STORAGE_KEY) === 'true');
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Keep "last synced" current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Count down while a retry is pending
+  useEffect(() => {
+    if (!syncStatus) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [syncStatus]);
+
+  // "NetSuite is rate limiting us, retrying in 20s" - counts down to the retry
+  const syncStatusMessage = syncStatus
+    ? syncStatus.message.replace(
+        /retrying in \d+s/,
+        `retrying in ${Math.max(0, Math.ceil((new Date(syncStatus.retryAt).getTime() - now) / 1000))}s`
+      )
+    : null;
+
+  const handleSignOut = async () => {
+    await signOut();
+    window.location.href = '/login';
+  };
+
+  // Remember the printer layout on this workstation
+  const handlePageProfileChange = (value: PageProfile) => {
+    setPageProfile(value);
+    localStorage.setItem(PAGE_PROFILE_STORAGE_KEY, value);
+  };
+
+  const handleOutputFormatChange = (value: OutputFormat) => {
+    setOutputFormat(value);
+    localStorage.setItem(OUTPUT_FORMAT_STORAGE_KEY, value);
+  };
+
+  const handleZplTextOnlyChange = (value: boolean) => {
+    setZplTextOnly(value);
+    localStorage.setItem(ZPL_TEXT_ONLY_STORAGE_KEY, value.toString());
+  };
+
   // Filter orders
   const filteredOrders = useMemo(() => {
     // Parse date strings from HTML date input (YYYY-MM-DD) as local dates, not UTC
@@ -92,8 +305,8 @@ export default function Home() {
       boxSize: selectedBoxSize,
       dateFrom: dateFrom ? parseLocalDate(dateFrom) : null,
       dateTo: dateTo ? parseLocalDate(dateTo) : null,
-      printedOnly: printedFilter,
-      printedOrders,
+      statuses: statusFilter,
+      orderStatuses,
       shippingZones: selectedShippingZones,
     });
 
@@ -180,15 +393,14 @@ export default function Home() {
     }
 
     return orders;
-  }, [allOrders, personalizedFilter, selectedCupSizes, selectedBoxSize, dateFrom, dateTo, printedFilter, printedOrders, selectedShippingZones, sortColumn, sortDirection]);
+  }, [allOrders, personalizedFilter, selectedCupSizes, selectedBoxSize, dateFrom, dateTo, statusFilter, orderStatuses, selectedShippingZones, sortColumn, sortDirection]);
 
   // Total personalized cups across filtered orders
   const totalPersCups = useMemo(() => {
     let total = 0;
     for (const order of filteredOrders) {
       for (const item of order.items) {
-        // Treat SKUs ending in "-PERS" as personalized cups
-        if (item.sku && item.sku.toUpperCase().endsWith('-PERS')) {
+        if (item.personalized) {
           total += item.quantity;
         }
       }
@@ -200,7 +412,7 @@ export default function Home() {
   useEffect(() => {
     setSelectedOrderIds(new Set());
     setSelectFirstCount(0);
-  }, [personalizedFilter, selectedCupSizes, selectedBoxSize, dateFrom, dateTo, printedFilter, selectedShippingZones]);
+  }, [personalizedFilter, selectedCupSizes, selectedBoxSize, dateFrom, dateTo, statusFilter, selectedShippingZones]);
 
   // Handle cup size toggle
   const toggleCupSize = (size: string) => {
@@ -222,6 +434,15 @@ export default function Home() {
     setSelectedBoxSize(boxSize);
   };
 
+  // Handle status toggle
+  const toggleStatus = (status: OrderStatus | 'all') => {
+    if (status === 'all') {
+      setStatusFilter([]);
+    } else {
+      setStatusFilter(prev => prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]);
+    }
+  };
+
   // Handle shipping zone toggle
   const toggleShippingZone = (zoneId: ShippingZoneId | 'all') => {
     if (zoneId === 'all') {
@@ -242,12 +463,25 @@ export default function Home() {
   // You can call this from browser console: window.clearAllPrintedOrders()
   useEffect(() => {
     (window as any).clearAllPrintedOrders = async () => {
-      await clearPrintedOrders();
-      setPrintedOrders(new Set());
-      alert('All orders cleared from printed status');
+      await clearPrintedOrders('console');
+      setOrderStatuses(await getOrderStatuses());
+      alert('All printed orders moved back to new');
     };
   }, []);
 
+  // Load the status history of the order shown in the detail modal
+  useEffect(() => {
+    setStatusHistory(null);
+    if (!selectedOrder) return;
+    let cancelled = false;
+    getOrderStatusHistory(selectedOrder.tranid).then(history => {
+      if (!cancelled) setStatusHistory(history);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrder]);
+
   // Get selected orders from filtered orders
   const selectedOrders = useMemo(() => {
     return filteredOrders.filter(order => selectedOrderIds.has(order.tranid));
@@ -259,8 +493,7 @@ export default function Home() {
     let total = 0;
     for (const order of selectedOrders) {
       for (const item of order.items) {
-        // Treat SKUs ending in "-PERS" as personalized cups
-        if (item.sku && item.sku.toUpperCase().endsWith('-PERS')) {
+        if (item.personalized) {
           total += item.quantity;
         }
       }
@@ -344,6 +577,204 @@ export default function Home() {
     );
   };
 
+  // Badge summarizing an order's validation issues; hover for the details
+  const renderIssueBadge = (order: ProcessedOrder) => {
+    const errorCount = order.issues.filter(issue => issue.severity === 'error').length;
+    const warningCount = order.issues.length - errorCount;
+    return (
+      <span
+        title={order.issues.map(issue => issue.message).join('\n')}
+        className={`px-2 py-0.5 text-xs font-semibold rounded-full ${
+          errorCount > 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+        }`}
+      >
+        {errorCount > 0
+          ? `${errorCount} error${errorCount !== 1 ? 's' : ''}`
+          : `${warningCount} warning${warningCount !== 1 ? 's' : ''}`}
+      </span>
+    );
+  };
+
+  // Record a print batch with the filters that produced it; throws if the server didn't record it
+  const recordBatch = async (documentType: PrintDocumentType, ordersToPrint: ProcessedOrder[]) => {
+    const filters: PrintBatchFilters = {
+      personalized: personalizedFilter,
+      cupSizes: selectedCupSizes,
+      boxSize: selectedBoxSize,
+      dateFrom: dateFrom || null,
+      dateTo: dateTo || null,
+      statuses: statusFilter,
+      shippingZones: selectedShippingZones,
+      selection: selectedOrders.length > 0 ? 'selected' : 'filtered',
+    };
+    const { error } = await recordPrintBatch({
+      documentType,
+      filters,
+      // ZPL jobs are always 4x6 labels
+      pageProfile: outputFormat === 'pdf' ? pageProfile : 'thermal-4x6',
+      packSizeVersion: packSizes?.version ?? null,
+      outputFormat,
+      orders: ordersToPrint.map(o => ({ tranid: o.tranid, orderNumber: o.orderNumber })),
+      snapshot: serializeOrders(ordersToPrint),
+      source: 'orders',
+    });
+    if (error) {
+      throw new BatchNotRecordedError(error);
+    }
+
+    // Write-back to NetSuite runs in the background; show it as pending now and check back shortly
+    if (writeBackEnabled) {
+      await refreshWriteBackStatuses();
+      setTimeout(refreshWriteBackStatuses, 5000);
+    }
+  };
+
+  // Produce the document in the selected output format
+  const outputDocument = async (documentType: PrintDocumentType, ordersToPrint: ProcessedOrder[]) => {
+    if (outputFormat === 'pdf') {
+      const controller = new AbortController();
+      pdfAbortRef.current = controller;
+      setPdfRender({ progress: null });
+      const pdfOptions = {
+        profile: pageProfile,
+        signal: controller.signal,
+        onProgress: (progress: PdfProgress) => setPdfRender({ progress }),
+      };
+      try {
+        const files = documentType === 'picklist-and-packing-slips'
+          ? await generateCombinedPDF(ordersToPrint, pdfOptions)
+          : await generatePackingSlipsPDF(ordersToPrint, pdfOptions);
+        if (files.length > 0) setPdfFiles(files);
+      } finally {
+        pdfAbortRef.current = null;
+        setPdfRender(null);
+      }
+      return;
+    }
+
+    const zplOptions = { textOnly: zplTextOnly };
+    const zpl = documentType === 'picklist-and-packing-slips'
+      ? await generateCombinedZPL(ordersToPrint, zplOptions)
+      : await generatePackingSlipsZPL(ordersToPrint, zplOptions);
+    if (outputFormat === 'zpl-printer') {
+      await sendZplToPrinter(zpl);
+    } else {
+      downloadZpl(zpl, `${documentType}-${new Date().toISOString().slice(0, 10)}.zpl`);
+    }
+  };
+
+  // Reflect status changes locally; new orders aren't kept in the map
+  const applyStatusChanges = (changes: Array<{ tranid: string; status: OrderStatus }>, changedAt: string) => {
+    if (changes.length === 0) return;
+    setOrderStatuses(prev => {
+      const next = { ...prev };
+      for (const change of changes) {
+        if (change.status === 'new') {
+          delete next[change.tranid];
+        } else {
+          next[change.tranid] = { status: change.status, changedAt, changedBy: currentUser?.username ?? null };
+        }
+      }
+      return next;
+    });
+  };
+
+  // Move the selected orders to a status by hand, e.g. picked, on hold or cancelled
+  const handleMoveSelected = async (status: OrderStatus) => {
+    const tranids = selectedOrders.map(o => o.tranid);
+    if (tranids.length === 0) return;
+    if (!window.confirm(`Move ${tranids.length} order${tranids.length !== 1 ? 's' : ''} to ${ORDER_STATUS_LABELS[status]}?`)) {
+      return;
+    }
+
+    const changes = await setOrderStatus(tranids, status, { source: 'orders' });
+    if (!changes) {
+      alert('Failed to update order status. Please try again.');
+      return;
+    }
+    applyStatusChanges(changes, new Date().toISOString());
+    if (writeBackEnabled) {
+      setTimeout(refreshWriteBackStatuses, 5000);
+    }
+  };
+
+  // Output the document, then record the batch and mark its orders as printed
+  const printOrders = async (documentType: PrintDocumentType, ordersToPrint: ProcessedOrder[]) => {
+    const label = documentType === 'picklist-and-packing-slips' ? 'picklist and packing slips' : 'packing slips';
+    try {
+      await outputDocument(documentType, ordersToPrint);
+
+      await recordBatch(documentType, ordersToPrint);
+      // New orders move to printed; reprints leave orders further along where they are
+      const changedAt = new Date().toISOString();
+      applyStatusChanges(
+        ordersToPrint
+          .filter(o => getOrderStatus(orderStatuses, o.tranid) === 'new')
+          .map(o => ({ tranid: o.tranid, status: 'printed' as OrderStatus })),
+        changedAt
+      );
+    } catch (error) {
+      // Cancelled runs aren't recorded as printed
+      if (error instanceof PdfCancelledError) return;
+      if (error instanceof BatchNotRecordedError) {
+        // The document is out, but the server didn't mark anything printed, so neither does the screen
+        alert(`The ${label} were generated, but the orders weren't marked as printed: ${error.message}`);
+        return;
+      }
+      console.error(`Error generating ${label}:`, error);
+      alert(error instanceof Error ? error.message : `Error generating ${label}. Please try again.`);
+    }
+  };
+
+  // Check barcodes and images before printing; the preflight panel only stays open if something fails
+  const preflightAndPrint = async (documentType: PrintDocumentType, ordersToPrint: ProcessedOrder[]) => {
+    const run = ++preflightRunRef.current;
+    setPreflight({ documentType, orders: ordersToPrint, report: null, progress: null });
+
+    const report = await runPreflight(ordersToPrint, {
+      // Text-only ZPL doesn't draw images
+      checkImages: outputFormat === 'pdf' || !zplTextOnly,
+      onProgress: (checked, total) => {
+        if (run === preflightRunRef.current) {
+          setPreflight(prev => prev && { ...prev, progress: { checked, total } });
+        }
+      },
+    });
+    if (run !== preflightRunRef.current) return; // Cancelled
+
+    if (report.problems.length === 0) {
+      setPreflight(null);
+      await printOrders(documentType, ordersToPrint);
+    } else {
+      setPreflight(prev => prev && { ...prev, report });
+    }
+  };
+
+  const handlePreflightCancel = () => {
+    preflightRunRef.current++;
+    setPreflight(null);
+  };
+
+  const handlePreflightProceed = async (excludeFailing: boolean) => {
+    if (!preflight?.report) return;
+    const failing = new Set(preflight.report.failingTranids);
+    const ordersToPrint = excludeFailing
+      ? preflight.orders.filter(order => !failing.has(order.tranid))
+      : preflight.orders;
+    setPreflight(null);
+    await printOrders(preflight.documentType, ordersToPrint);
+  };
+
+  // Orders with validation errors only print if someone confirms the override
+  const confirmBlockedOrders = (ordersToPrint: ProcessedOrder[]): boolean => {
+    const blocked = getBlockedOrders(ordersToPrint);
+    if (blocked.length === 0) return true;
+    return window.confirm(
+      `${blocked.length} order${blocked.length !== 1 ? 's have' : ' has'} errors and should be fixed in NetSuite first:\n\n` +
+      `${describeBlockedOrders(blocked)}\n\nPrint anyway?`
+    );
+  };
+
   const handlePrintPackingSlips = async () => {
     const ordersToPrint = selectedOrders.length > 0 ? selectedOrders : filteredOrders;
     
@@ -352,6 +783,10 @@ export default function Home() {
       return;
     }
 
+    if (!confirmBlockedOrders(ordersToPrint)) {
+      return;
+    }
+
     // Check if filter is Non-Personalized or All, and show confirmation
     if (personalizedFilter === false || personalizedFilter === null) {
       const confirmed = window.confirm('Are you sure you want to print Non-Personalized packing slips?');
@@ -360,29 +795,19 @@ export default function Home() {
       }
     }
 
-    // Check if Packing Slip Status filter is All or Printed, and show confirmation
-    if (printedFilter === null || printedFilter === true) {
+    // Check if any of the orders have already been printed, and show confirmation
+    if (ordersToPrint.some(o => isPrintedStatus(getOrderStatus(orderStatuses, o.tranid)))) {
+      if (!hasRole(currentUser, 'lead')) {
+        alert('Some of these orders were already printed. Reprinting them needs the Lead role.');
+        return;
+      }
       const confirmed = window.confirm('Are you sure you want to print packing slips that may have already been printed?');
       if (!confirmed) {
         return; // User cancelled, don't proceed
       }
     }
 
-    try {
-      await generatePackingSlipsPDF(ordersToPrint);
-      
-      // Mark orders as printed
-      const tranids = ordersToPrint.map(o => o.tranid);
-      await markOrdersAsPrinted(tranids);
-      setPrintedOrders(prev => {
-        const newSet = new Set(prev);
-        tranids.forEach(id => newSet.add(id));
-        return newSet;
-      });
-    } catch (error) {
-      console.error('Error generating PDF:', error);
-      alert('Error generating PDF. Please try again.');
-    }
+    await preflightAndPrint('packing-slips', ordersToPrint);
   };
 
   const handleGeneratePicklist = async () => {
@@ -394,7 +819,8 @@ export default function Home() {
     }
 
     try {
-      await generatePicklistPDF(ordersToPrint);
+      const files = await generatePicklistPDF(ordersToPrint);
+      if (files.length > 0) setPdfFiles(files);
     } catch (error) {
       console.error('Error generating picklist:', error);
       alert('Error generating picklist. Please try again.');
@@ -409,6 +835,10 @@ export default function Home() {
       return;
     }
 
+    if (!confirmBlockedOrders(ordersToPrint)) {
+      return;
+    }
+
     // Check if filter is Non-Personalized or All, and show confirmation
     if (personalizedFilter === false || personalizedFilter === null) {
       const confirmed = window.confirm('Are you sure you want to print Non-Personalized packing slips?');
@@ -417,38 +847,31 @@ export default function Home() {
       }
     }
 
-    // Check if Packing Slip Status filter is All or Printed, and show confirmation
-    if (printedFilter === null || printedFilter === true) {
+    // Check if any of the orders have already been printed, and show confirmation
+    if (ordersToPrint.some(o => isPrintedStatus(getOrderStatus(orderStatuses, o.tranid)))) {
+      if (!hasRole(currentUser, 'lead')) {
+        alert('Some of these orders were already printed. Reprinting them needs the Lead role.');
+        return;
+      }
       const confirmed = window.confirm('Are you sure you want to print packing slips that may have already been printed?');
       if (!confirmed) {
         return; // User cancelled, don't proceed
       }
     }
 
-    try {
-      // Generate combined PDF with both picklist and packing slips
-      await generateCombinedPDF(ordersToPrint);
-      
-      // Mark orders as printed
-      const tranids = ordersToPrint.map(o => o.tranid);
-      await markOrdersAsPrinted(tranids);
-      setPrintedOrders(prev => {
-        const newSet = new Set(prev);
-        tranids.forEach(id => newSet.add(id));
-        return newSet;
-      });
-    } catch (error) {
-      console.error('Error generating PDFs:', error);
-      alert('Error generating PDFs. Please try again.');
-    }
+    // Generate combined output with both picklist and packing slips
+    await preflightAndPrint('picklist-and-packing-slips', ordersToPrint);
   };
 
-  const cupSizes = ['10oz', '16oz', '26oz'];
+  // Cup sizes from the SKU catalog
+  const cupSizes = Array.from(new Set(
+    (catalog || []).map(entry => entry.size).filter((size): size is string => !!size)
+  )).sort();
   const boxSizes = [
-    { key: 'singles', name: 'Singles' },
-    { key: '4pack', name: '2/4 Pack' },
-    { key: '5pack', name: '4/5 Pack' },
-    { key: '10pack', name: '6/10 Pack' },
+    ...Object.entries(packSizes?.config.packSizes || {})
+      .filter(([, config]) => !config.retired)
+      .map(([key, config]) => ({ key, name: config.name })),
+    { key: MULTI_BOX_FILTER, name: 'Multi-Box' },
   ];
 
   if (loading) {
@@ -456,7 +879,24 @@ export default function Home() {
       <div className="min-h-screen bg-gray-50 p-6 flex items-center justify-center">
         <div className="text-center">
           <div className="text-xl font-semibold text-gray-700">Loading orders...</div>
-          <div className="mt-4 text-sm text-gray-500">This may take a moment for large datasets</div>
+          {syncProgress && (
+            <div className="mt-4 w-80 mx-auto">
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-2 bg-blue-600 transition-all"
+                  style={{ width: `${Math.round((syncProgress.pagesFetched / syncProgress.pageCount) * 100)}%` }}
+                />
+              </div>
+              <div className="mt-2 text-sm text-gray-500">
+                Page {syncProgress.pagesFetched} of {syncProgress.pageCount} ·{' '}
+                {syncProgress.linesFetched.toLocaleString()}
+                {syncProgress.totalCount !== null ? ` of ${syncProgress.totalCount.toLocaleString()}` : ''} lines
+              </div>
+            </div>
+          )}
+          <div className="mt-4 text-sm text-gray-500">
+            {syncStatusMessage || (syncProgress ? null : 'This may take a moment for large datasets')}
+          </div>
         </div>
       </div>
     );
@@ -497,19 +937,100 @@ export default function Home() {
                 )}
               </button>
             </div>
-            <button
-              onClick={loadData}
-              disabled={syncing}
-              className={`inline-flex items-center px-4 py-2 rounded-md text-sm font-medium ${
-                syncing
-                  ? 'bg-gray-300 text-gray-600 cursor-not-allowed'
-                  : 'bg-blue-600 text-white hover:bg-blue-700'
-              }`}
-            >
-              {syncing ? 'Syncing…' : 'Sync Orders'}
-            </button>
+            <div className="flex items-center gap-2">
+              {syncing && syncStatusMessage ? (
+                <span className="text-sm text-yellow-700">{syncStatusMessage}</span>
+              ) : syncState?.lastSyncedAt && (
+                <span
+                  className="text-sm text-gray-500"
+                  title={new Date(syncState.lastSyncedAt).toLocaleString()}
+                >
+                  Last synced {formatSyncAge(syncState.lastSyncedAt, now)}
+                </span>
+              )}
+              {currentUser && (
+                <span className="text-sm text-gray-600" title={USER_ROLE_LABELS[currentUser.role]}>
+                  {currentUser.displayName || currentUser.username}
+                </span>
+              )}
+              <Link
+                href="/pack"
+                className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Pack Station
+              </Link>
+              <button
+                onClick={() => setShowImageCache(true)}
+                className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Image Cache
+              </button>
+              <button
+                onClick={() => setShowSkuCatalog(true)}
+                disabled={!catalog || !hasRole(currentUser, 'admin')}
+                title={hasRole(currentUser, 'admin') ? undefined : 'Editing the SKU catalog needs the Admin role'}
+                className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+              >
+                SKU Catalog
+              </button>
+              <button
+                onClick={() => setShowPackSizeEditor(true)}
+                disabled={!packSizes || !hasRole(currentUser, 'admin')}
+                title={hasRole(currentUser, 'admin') ? undefined : 'Editing pack sizes needs the Admin role'}
+                className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+              >
+                Pack Sizes
+              </button>
+              <button
+                onClick={() => setShowBatchHistory(true)}
+                className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Batch History
+              </button>
+              <button
+                onClick={() => setShowAuditLog(true)}
+                className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Print Audit
+              </button>
+              {hasRole(currentUser, 'admin') && (
+                <button
+                  onClick={() => setShowUsers(true)}
+                  className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+                >
+                  Users
+                </button>
+              )}
+              <button
+                onClick={() => loadData({ sync: true })}
+                disabled={syncing || !hasRole(currentUser, 'packer')}
+                className={`inline-flex items-center px-4 py-2 rounded-md text-sm font-medium ${
+                  syncing || !hasRole(currentUser, 'packer')
+                    ? 'bg-gray-300 text-gray-600 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
+              >
+                {syncing
+                  ? syncProgress && syncProgress.pageCount > 1
+                    ? `Syncing… ${syncProgress.pagesFetched}/${syncProgress.pageCount}`
+                    : 'Syncing…'
+                  : 'Sync Orders'}
+              </button>
+              <button
+                onClick={handleSignOut}
+                className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Sign Out
+              </button>
+            </div>
           </div>
           
+          {(syncError || syncState?.lastError) && (
+            <div className="mb-4 px-4 py-2 rounded-md bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+              Showing cached orders - NetSuite sync failed: {syncError || syncState?.lastError}
+            </div>
+          )}
+
           {!filtersCollapsed && (
             <>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -641,54 +1162,47 @@ export default function Home() {
               />
             </div>
 
-            {/* Printed Filter */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
-                Packing Slip Status
-                <button
-                  onClick={() => setShowClearHint(true)}
-                  className="text-blue-500 hover:text-blue-700"
-                  title="How to clear printed status"
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M9.879 7.519c1.171-1.025 3.071-1.025 4.242 0 1.172 1.025 1.172 2.687 0 3.712-.203.179-.43.326-.67.442-.745.361-1.45.999-1.45 1.827v.75M21 12a9 9 0 11-18 0 9 9 0 0118 0zm-9 5.25h.008v.008H12v-.008z" />
-                  </svg>
-                </button>
-              </label>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setPrintedFilter(null)}
-                  className={`px-4 py-2 rounded ${
-                    printedFilter === null
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                  }`}
-                >
-                  All
-                </button>
-                <button
-                  onClick={() => setPrintedFilter(true)}
-                  className={`px-4 py-2 rounded ${
-                    printedFilter === true
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                  }`}
-                >
-                  Printed
-                </button>
+          </div>
+
+          {/* Order Status Filter - Full Width */}
+          <div className="mt-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+              Order Status
+              <button
+                onClick={() => setShowClearHint(true)}
+                className="text-blue-500 hover:text-blue-700"
+                title="How to clear printed status"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M9.879 7.519c1.171-1.025 3.071-1.025 4.242 0 1.172 1.025 1.172 2.687 0 3.712-.203.179-.43.326-.67.442-.745.361-1.45.999-1.45 1.827v.75M21 12a9 9 0 11-18 0 9 9 0 0118 0zm-9 5.25h.008v.008H12v-.008z" />
+                </svg>
+              </button>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => toggleStatus('all')}
+                className={`px-4 py-2 rounded text-sm ${
+                  statusFilter.length === 0
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                All ({allOrders.length})
+              </button>
+              {ORDER_STATUSES.map(status => (
                 <button
-                  onClick={() => setPrintedFilter(false)}
-                  className={`px-4 py-2 rounded ${
-                    printedFilter === false
+                  key={status}
+                  onClick={() => toggleStatus(status)}
+                  className={`px-4 py-2 rounded text-sm ${
+                    statusFilter.includes(status)
                       ? 'bg-blue-600 text-white'
                       : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
                   }`}
                 >
-                  Not Printed
+                  {ORDER_STATUS_LABELS[status]} ({statusCounts[status]})
                 </button>
-              </div>
+              ))}
             </div>
-
           </div>
 
           {/* Shipping Zone Filter - Full Width */}
@@ -752,6 +1266,26 @@ export default function Home() {
                 SELECTED ORDERS PERS CUPS COUNT: {selectedPersCups}
               </span>
             )}
+            {selectedOrders.length > 0 && hasRole(currentUser, 'packer') && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                  Move {selectedOrders.length} selected to:
+                </label>
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && handleMoveSelected(e.target.value as OrderStatus)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Choose status…</option>
+                  {/* Packers can record picking and packing; other moves need a lead */}
+                  {ORDER_STATUSES.filter(status => hasRole(currentUser, 'lead') || status === 'picked' || status === 'packed').map(status => (
+                    <option key={status} value={status}>
+                      {ORDER_STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             {filteredOrders.length > 0 && (
               <div className="flex items-center gap-3 mt-2">
                 <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
@@ -778,7 +1312,43 @@ export default function Home() {
               </div>
             )}
           </div>
-          <div className="flex gap-2">
+          <div className="flex gap-2 items-center">
+            <select
+              value={outputFormat}
+              onChange={(e) => handleOutputFormatChange(e.target.value as OutputFormat)}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Output format for packing slips"
+            >
+              {OUTPUT_FORMATS.map(format => (
+                <option key={format.key} value={format.key}>
+                  {format.name}
+                </option>
+              ))}
+            </select>
+            {outputFormat === 'pdf' ? (
+              <select
+                value={pageProfile}
+                onChange={(e) => handlePageProfileChange(e.target.value as PageProfile)}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Packing slip page layout"
+              >
+                {PAGE_PROFILES.map(profile => (
+                  <option key={profile.key} value={profile.key}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <label className="flex items-center gap-1 text-sm text-gray-700" title="Leave artwork thumbnails off the labels">
+                <input
+                  type="checkbox"
+                  checked={zplTextOnly}
+                  onChange={(e) => handleZplTextOnlyChange(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Text only
+              </label>
+            )}
             <button
               onClick={handleGeneratePicklist}
               disabled={filteredOrders.length === 0}
@@ -788,14 +1358,14 @@ export default function Home() {
             </button>
             <button
               onClick={handlePrintPackingSlips}
-              disabled={filteredOrders.length === 0}
+              disabled={filteredOrders.length === 0 || !hasRole(currentUser, 'packer')}
               className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
             >
               Print Packing Slips ({selectedOrders.length > 0 ? selectedOrders.length : filteredOrders.length})
             </button>
             <button
               onClick={handlePrintPicklistAndPackingSlips}
-              disabled={filteredOrders.length === 0}
+              disabled={filteredOrders.length === 0 || !hasRole(currentUser, 'packer')}
               className="px-3 py-1.5 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
             >
               Print Picklist and Packing Slips ({selectedOrders.length > 0 ? selectedOrders.length : filteredOrders.length})
@@ -872,7 +1442,7 @@ export default function Home() {
                     Items
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Packing Slip Printed
+                    Status
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
@@ -892,6 +1462,11 @@ export default function Home() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                       {order.orderNumber}
+                      {order.issues.length > 0 && (
+                        <div className="mt-1">
+                          {renderIssueBadge(order)}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {order.tranid}
@@ -937,9 +1512,11 @@ export default function Home() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {order.boxSize ? (
                         <span className="px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
-                          {order.boxSize === 'singles' 
-                            ? 'Singles' 
-                            : (orderConfig as OrderConfig).packSizes[order.boxSize]?.name || order.boxSize}
+                          {order.boxes[0]?.name || order.boxSize}
+                        </span>
+                      ) : order.boxes.length > 1 ? (
+                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                          {order.boxes.map(box => box.name).join(' + ')}
                         </span>
                       ) : (
                         <span className="text-gray-400">N/A</span>
@@ -949,14 +1526,37 @@ export default function Home() {
                       {order.items.length} item{order.items.length !== 1 ? 's' : ''}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      {printedOrders.has(order.tranid) ? (
-                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
-                          ✓ Printed
-                        </span>
-                      ) : (
-                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
-                          Not Printed
-                        </span>
+                      <span
+                        className={`px-2 py-1 text-xs font-semibold rounded-full ${ORDER_STATUS_COLORS[getOrderStatus(orderStatuses, order.tranid)]}`}
+                        title={orderStatuses[order.tranid]
+                          ? `Since ${new Date(orderStatuses[order.tranid].changedAt).toLocaleString()}${orderStatuses[order.tranid].changedBy ? ` by ${orderStatuses[order.tranid].changedBy}` : ''}`
+                          : undefined}
+                      >
+                        {ORDER_STATUS_LABELS[getOrderStatus(orderStatuses, order.tranid)]}
+                      </span>
+                      {writeBackEnabled && writeBackStatuses[order.tranid] && (
+                        <div className="mt-1 text-xs">
+                          {writeBackStatuses[order.tranid].status === 'written' ? (
+                            <span className="text-green-700">Synced to NetSuite</span>
+                          ) : writeBackStatuses[order.tranid].status === 'pending' ? (
+                            <span
+                              className="text-gray-500"
+                              title={writeBackStatuses[order.tranid].lastError || undefined}
+                            >
+                              NetSuite update pending
+                              {writeBackStatuses[order.tranid].attempts > 0 ? ` (retry ${writeBackStatuses[order.tranid].attempts})` : ''}
+                            </span>
+                          ) : (
+                            <button
+                              onClick={handleRetryWriteBacks}
+                              disabled={!hasRole(currentUser, 'lead')}
+                              className="text-red-700 hover:underline disabled:no-underline disabled:cursor-default"
+                              title={`${writeBackStatuses[order.tranid].lastError || 'Unknown error'}${hasRole(currentUser, 'lead') ? ' - click to retry' : ''}`}
+                            >
+                              NetSuite update failed
+                            </button>
+                          )}
+                        </div>
                       )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
@@ -1068,14 +1668,28 @@ export default function Home() {
                           <span className="font-medium">Box Size:</span>{' '}
                           {selectedOrder.boxSize ? (
                             <span className="px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
-                              {selectedOrder.boxSize === 'singles'
-                                ? 'Singles'
-                                : (orderConfig as OrderConfig).packSizes[selectedOrder.boxSize]?.name || selectedOrder.boxSize}
+                              {selectedOrder.boxes[0]?.name || selectedOrder.boxSize}
+                            </span>
+                          ) : selectedOrder.boxes.length > 1 ? (
+                            <span className="px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                              {selectedOrder.boxes.length} boxes
                             </span>
                           ) : (
                             'N/A'
                           )}
                         </div>
+                        {selectedOrder.boxes.length > 1 && (
+                          <div className="space-y-1">
+                            {selectedOrder.boxes.map((box, index) => (
+                              <div key={index} className="text-xs text-gray-600">
+                                <span className="font-medium">
+                                  Box {index + 1} of {selectedOrder.boxes.length} ({box.name}):
+                                </span>{' '}
+                                {box.contents.map(c => `${c.sku} ×${c.quantity}`).join(', ')}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                         {selectedOrder.shipstationOrderId && (
                           <div>
                             <span className="font-medium">ShipStation Order ID:</span>{' '}
@@ -1087,6 +1701,50 @@ export default function Home() {
                   </div>
                 </div>
 
+                {/* Validation Issues */}
+                {selectedOrder.issues.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-2">Issues</h3>
+                    <ul className="space-y-1">
+                      {selectedOrder.issues.map((issue, index) => (
+                        <li
+                          key={index}
+                          className={`text-sm ${issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}
+                        >
+                          <span className="font-medium">{issue.severity === 'error' ? 'Error' : 'Warning'}:</span>{' '}
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Status History */}
+                <div className="mb-6">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                    Status:{' '}
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ORDER_STATUS_COLORS[getOrderStatus(orderStatuses, selectedOrder.tranid)]}`}>
+                      {ORDER_STATUS_LABELS[getOrderStatus(orderStatuses, selectedOrder.tranid)]}
+                    </span>
+                  </h3>
+                  {statusHistory === null ? (
+                    <div className="text-sm text-gray-500">Loading history…</div>
+                  ) : statusHistory.length === 0 ? (
+                    <div className="text-sm text-gray-500">No status changes yet</div>
+                  ) : (
+                    <ul className="space-y-1 text-sm text-gray-700">
+                      {statusHistory.map((event, index) => (
+                        <li key={index}>
+                          <span className="text-gray-500">{new Date(event.changedAt).toLocaleString()}</span>{' '}
+                          {ORDER_STATUS_LABELS[event.fromStatus]} → {ORDER_STATUS_LABELS[event.status]}
+                          {event.changedBy && ` by ${event.changedBy}`}
+                          {event.note && <span className="text-gray-500"> · {event.note}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
                 {/* Items Table */}
                 <div>
                   <h3 className="text-sm font-semibold text-gray-700 mb-3">Items</h3>
@@ -1109,7 +1767,7 @@ export default function Home() {
                             <td className="px-4 py-2">
                               {item.imageUrl ? (
                                 <img
-                                  src={item.imageUrl}
+                                  src={`/api/images?url=${encodeURIComponent(item.imageUrl)}&size=150`}
                                   alt={item.sku}
                                   className="w-12 h-12 object-contain rounded"
                                   onError={(e) => {
@@ -1147,6 +1805,88 @@ export default function Home() {
             </div>
           )}
 
+          {/* Batch History Panel */}
+          {showBatchHistory && (
+            <BatchHistoryPanel
+              currentOrders={allOrders}
+              canReprint={hasRole(currentUser, 'lead')}
+              onClose={() => setShowBatchHistory(false)}
+            />
+          )}
+
+          {/* Users Panel */}
+          {showUsers && currentUser && (
+            <UsersPanel
+              currentUser={currentUser}
+              onClose={() => setShowUsers(false)}
+            />
+          )}
+
+          {/* Print Audit Log */}
+          {showAuditLog && (
+            <AuditLogPanel
+              canUndo={hasRole(currentUser, 'lead')}
+              onChange={async () => setOrderStatuses(await getOrderStatuses())}
+              onClose={() => setShowAuditLog(false)}
+            />
+          )}
+
+          {/* Pack Size Editor */}
+          {showPackSizeEditor && packSizes && catalog && (
+            <PackSizeEditor
+              packSizes={packSizes}
+              orderLines={orderLines}
+              catalog={catalog}
+              onSaved={setPackSizes}
+              onClose={() => setShowPackSizeEditor(false)}
+            />
+          )}
+
+          {/* SKU Catalog Panel */}
+          {showSkuCatalog && catalog && (
+            <SkuCatalogPanel
+              catalog={catalog}
+              orderLines={orderLines}
+              onChange={setCatalog}
+              onClose={() => setShowSkuCatalog(false)}
+            />
+          )}
+
+          {/* Image Cache Stats */}
+          {showImageCache && (
+            <ImageCachePanel onClose={() => setShowImageCache(false)} />
+          )}
+
+          {/* Preflight Check */}
+          {preflight && (
+            <PreflightPanel
+              report={preflight.report}
+              progress={preflight.progress}
+              onExclude={() => handlePreflightProceed(true)}
+              onProceed={() => handlePreflightProceed(false)}
+              onCancel={handlePreflightCancel}
+            />
+          )}
+
+          {/* PDF Generation Progress */}
+          {pdfRender && (
+            <PdfProgressPanel
+              progress={pdfRender.progress}
+              onCancel={() => pdfAbortRef.current?.abort()}
+            />
+          )}
+
+          {/* Finished PDFs to open by hand */}
+          {pdfFiles.length > 0 && (
+            <PdfFilesPanel
+              files={pdfFiles}
+              onClose={() => {
+                releasePdfFiles(pdfFiles);
+                setPdfFiles([]);
+              }}
+            />
+          )}
+
           {/* Clear Printed Status Hint Modal */}
           {showClearHint && (
             <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,20 @@
+/**
+ * Runs once when the server starts
+ * With DB_MIGRATE_ON_BOOT=true, applies pending schema migrations before the first request
+ */
+export async function register() {
+  // Its own check, so the edge build drops the database code inside rather than bundling the drivers
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    if (process.env.DB_MIGRATE_ON_BOOT !== 'true') return;
+
+    const { getStore } = await import('./lib/db');
+    const { migrateUp } = await import('./lib/migrate');
+    try {
+      const applied = await migrateUp((await getStore()).migrations);
+      applied.forEach(m => console.log(`Applied migration ${m.version} ${m.name}`));
+    } catch (error) {
+      // Queries will fail with the schema check's message until this is fixed
+      console.error('Error running migrations on boot:', error);
+    }
+  }
+}
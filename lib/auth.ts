@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import { SessionUser, UserRole } from './types';
+import { isUserRole } from './roles';
+
+/**
+ * Sign-in sessions and role-based access
+ * Sessions are a signed cookie (HMAC-SHA256 with AUTH_SECRET) holding the user and role, checked by
+ * the middleware on every request. Only Web Crypto is used here, so this runs in the edge runtime too;
+ * API routes also check the stored user with requireRole from ./session.
+ */
+
+export const SESSION_COOKIE = 'packing_slips_session';
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+
+// Writes that need more than a viewer, first match wins.
+// Other GETs need a viewer, and any other write needs an admin, so new routes start locked down
+const ROUTE_ROLES: Array<{ method: string; pattern: RegExp; role: UserRole }> = [
+  { method: '*', pattern: /^\/api\/users(\/|$)/, role: 'admin' },
+  { method: 'POST', pattern: /^\/api\/orders\/sync$/, role: 'packer' },
+  { method: 'POST', pattern: /^\/api\/orders\/status$/, role: 'packer' }, // Packers only pick printed orders and pack picked ones, checked in the route
+  { method: 'POST', pattern: /^\/api\/printed$/, role: 'packer' },
+  { method: 'DELETE', pattern: /^\/api\/printed$/, role: 'lead' },
+  { method: 'POST', pattern: /^\/api\/printed\/undo-clear$/, role: 'lead' },
+  { method: 'POST', pattern: /^\/api\/batches$/, role: 'packer' }, // Reprints need a lead, checked in the route
+  { method: 'POST', pattern: /^\/api\/(pdf|zpl)\//, role: 'packer' },
+  { method: 'POST', pattern: /^\/api\/writeback$/, role: 'lead' },
+  { method: 'POST', pattern: /^\/api\/pack-sizes\/validate$/, role: 'lead' }, // Saves nothing, but checking a draft is costly
+];
+
+// Reachable without signing in
+const PUBLIC_PATHS = [/^\/login$/, /^\/api\/auth\//];
+
+/**
+ * Role needed for a request, or null if it's public
+ */
+export function requiredRole(method: string, pathname: string): UserRole | null {
+  if (PUBLIC_PATHS.some(pattern => pattern.test(pathname))) return null;
+
+  const rule = ROUTE_ROLES.find(r => (r.method === '*' || r.method === method) && r.pattern.test(pathname));
+  if (rule) return rule.role;
+  return method === 'GET' || method === 'HEAD' ? 'viewer' : 'admin';
+}
+
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('AUTH_SECRET must be set to at least 32 characters. Please follow NETSUITE_SETUP.md.');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(getAuthSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Sign a session for the user, valid for SESSION_MAX_AGE_SECONDS
+ */
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify({
+    ...user,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  })));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The user a session token was signed for, or null if it's forged, malformed or expired
+ */
+export async function verifySessionToken(token: string): Promise<SessionUser | null> {
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) return null;
+
+    const data = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (typeof data.exp !== 'number' || data.exp * 1000 < Date.now()) return null;
+    if (typeof data.username !== 'string' || !isUserRole(data.role)) return null;
+    return {
+      username: data.username,
+      displayName: typeof data.displayName === 'string' ? data.displayName : null,
+      role: data.role,
+      provider: data.provider === 'oidc' ? 'oidc' : 'local',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scripts and cron jobs authenticate with `Authorization: Bearer <AUTH_API_TOKEN>`
+ * and act as user 'api' with AUTH_API_TOKEN_ROLE (default lead)
+ */
+async function getApiTokenUser(header: string | null): Promise<SessionUser | null> {
+  const expected = process.env.AUTH_API_TOKEN;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!expected || !match) return null;
+
+  // Compare signatures rather than the tokens themselves, so the comparison time says nothing about the token
+  const key = await getSigningKey();
+  const [given, wanted] = await Promise.all([
+    crypto.subtle.sign('HMAC', key, new TextEncoder().encode(match[1].trim())),
+    crypto.subtle.sign('HMAC', key, new TextEncoder().encode(expected)),
+  ]);
+  if (toBase64Url(new Uint8Array(given)) !== toBase64Url(new Uint8Array(wanted))) return null;
+
+  const role = process.env.AUTH_API_TOKEN_ROLE;
+  return { username: 'api', displayName: 'API token', role: isUserRole(role) ? role : 'lead', provider: 'token' };
+}
+
+/**
+ * The signed-in user making a request, from the API token or the session cookie
+ * Throws if AUTH_SECRET isn't configured
+ */
+export async function getSession(request: Request): Promise<SessionUser | null> {
+  const tokenUser = await getApiTokenUser(request.headers.get('authorization'));
+  if (tokenUser) return tokenUser;
+
+  const cookie = (request.headers.get('cookie') || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${SESSION_COOKIE}=`));
+  if (!cookie) return null;
+  return verifySessionToken(decodeURIComponent(cookie.slice(SESSION_COOKIE.length + 1)));
+}
+
+/**
+ * Sign the user in on this response
+ */
+export async function setSessionCookie(response: NextResponse, user: SessionUser): Promise<void> {
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { solveBoxPacking } from './boxPacking';
+import { boxAccepts } from './boxRules';
+import { BUILT_IN_CATALOG, getSlotWeights } from './skuCatalog';
+import { OrderConfig } from './types';
+import defaultOrderConfig from '../order-config.json';
+
+/**
+ * Multi-box packing: the search grows with every cup in the order, so big orders must still return quickly
+ */
+
+const config = defaultOrderConfig as OrderConfig;
+const slotWeights = getSlotWeights(BUILT_IN_CATALOG);
+
+function cups(count: number, ...prefixes: string[]): string[] {
+  return prefixes.flatMap(prefix => Array<string>(count).fill(prefix));
+}
+
+describe('solveBoxPacking', () => {
+  it('finds the fewest boxes for a small order', () => {
+    const boxes = solveBoxPacking(cups(6, 'DPT10', 'DPT16', 'DPT26'), config, slotWeights);
+
+    expect(boxes?.map(box => box.boxSize)).toEqual(['10pack', '5pack', '5pack']);
+  });
+
+  it('packs a large order quickly, every cup in a box that takes its mix', () => {
+    const order = cups(40, 'DPT10', 'DPT16', 'DPT26');
+
+    const started = Date.now();
+    const boxes = solveBoxPacking(order, config, slotWeights);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(boxes).not.toBeNull();
+    expect(boxes!.flatMap(box => box.prefixes).sort()).toEqual([...order].sort());
+    for (const box of boxes!) {
+      expect(boxAccepts(config.packSizes[box.boxSize], box.prefixes, slotWeights)).toBe(true);
+    }
+  });
+
+  it('gives up on a box with too many mixes to list instead of enumerating them', () => {
+    const prefixes = Array.from({ length: 12 }, (_, i) => `CUP${i + 1}`);
+    const bigConfig: OrderConfig = {
+      packSizes: {
+        big: { name: 'Big', maxItems: 48, rules: [{ slots: 48 }] },
+      },
+    };
+
+    const started = Date.now();
+    expect(solveBoxPacking(cups(5, ...prefixes), bigConfig)).toBeNull();
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,174 @@
+import { BoxAssignment, OrderConfig, OrderItem } from './types';
+import { expandBoxCombinations, SlotWeights } from './boxRules';
+
+/**
+ * Split an order's cups across several boxes when no single box combination fits
+ *
+ * Each box must hold a mix its combinations or capacity rules accept, so this is an exact
+ * cover of the order's cup prefixes. The cheapest cover wins: fewest boxes by default
+ * (or lowest total `cost` where pack sizes set one), then least spare capacity.
+ * The search is exact up to MAX_PACKING_STATES mixes of remaining cups; bigger orders are first
+ * filled greedily with the boxes that ship the most cups for their cost.
+ */
+
+// Most remaining-cup mixes the exact search may visit; 15 cups of each of three sizes is 4,096
+const MAX_PACKING_STATES = 5_000;
+
+interface PackingCost {
+  cost: number;
+  capacity: number;
+  boxes: Array<{ boxSize: string; prefixes: string[] }>;
+}
+
+function totalCount(counts: number[]): number {
+  return counts.reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * How many mixes of remaining cups the exact search could visit from these counts
+ */
+function countStates(counts: number[]): number {
+  return counts.reduce((states, count) => states * (count + 1), 1);
+}
+
+/**
+ * Find the cheapest set of boxes for these cup prefixes (one entry per cup)
+ * Returns null if the cups cannot be split into configured combinations
+ */
+export function solveBoxPacking(
+  cupPrefixes: string[],
+  orderConfig: OrderConfig,
+  slotWeights: SlotWeights = {}
+): Array<{ boxSize: string; prefixes: string[] }> | null {
+  if (cupPrefixes.length === 0) return null;
+
+  const prefixTypes = Array.from(new Set(cupPrefixes)).sort();
+  const toCounts = (prefixes: string[]) => prefixTypes.map(type => prefixes.filter(p => p === type).length);
+
+  // Every mix each box accepts using only this order's prefix types, as counts per type
+  const options: Array<{ boxSize: string; counts: number[]; prefixes: string[]; cost: number; capacity: number }> = [];
+  for (const [boxSize, config] of Object.entries(orderConfig.packSizes)) {
+    const combinations = expandBoxCombinations(config, prefixTypes, slotWeights);
+    if (!combinations) return null;
+    for (const combination of combinations) {
+      options.push({
+        boxSize,
+        counts: toCounts(combination),
+        prefixes: combination,
+        cost: config.cost ?? 1,
+        capacity: config.maxItems,
+      });
+    }
+  }
+
+  const memo = new Map<string, PackingCost | null>();
+
+  const solve = (remaining: number[]): PackingCost | null => {
+    if (remaining.every(count => count === 0)) {
+      return { cost: 0, capacity: 0, boxes: [] };
+    }
+    const key = remaining.join(',');
+    if (memo.has(key)) return memo.get(key)!;
+
+    // Only try boxes containing the first remaining prefix type, so each split is explored once
+    const first = remaining.findIndex(count => count > 0);
+    let best: PackingCost | null = null;
+    for (const option of options) {
+      if (option.counts[first] === 0) continue;
+      if (option.counts.some((count, i) => count > remaining[i])) continue;
+
+      const rest = solve(remaining.map((count, i) => count - option.counts[i]));
+      if (!rest) continue;
+
+      const candidate: PackingCost = {
+        cost: rest.cost + option.cost,
+        capacity: rest.capacity + option.capacity,
+        boxes: [{ boxSize: option.boxSize, prefixes: option.prefixes }, ...rest.boxes],
+      };
+      if (!best || candidate.cost < best.cost ||
+          (candidate.cost === best.cost && candidate.capacity < best.capacity)) {
+        best = candidate;
+      }
+    }
+
+    memo.set(key, best);
+    return best;
+  };
+
+  // Too big to search exactly: fill boxes greedily until the cups left are few enough
+  const greedyOrder = [...options].sort((a, b) =>
+    totalCount(b.counts) / (b.cost || 1) - totalCount(a.counts) / (a.cost || 1) ||
+    (a.capacity - totalCount(a.counts)) - (b.capacity - totalCount(b.counts))
+  );
+  const greedyBoxes: Array<{ boxSize: string; prefixes: string[] }> = [];
+  let remaining = toCounts(cupPrefixes);
+  while (countStates(remaining) > MAX_PACKING_STATES) {
+    const option = greedyOrder.find(o => o.counts.every((count, i) => count <= remaining[i]));
+    if (!option) return null;
+    greedyBoxes.push({ boxSize: option.boxSize, prefixes: option.prefixes });
+    remaining = remaining.map((count, i) => count - option.counts[i]);
+  }
+
+  const result = solve(remaining);
+  if (!result) return null;
+
+  // Biggest boxes first, so "Box 1" is the one packed first
+  return [...greedyBoxes, ...result.boxes].sort((a, b) =>
+    orderConfig.packSizes[b.boxSize].maxItems - orderConfig.packSizes[a.boxSize].maxItems
+  );
+}
+
+/**
+ * Assign the order's items to boxes
+ * Cups are dealt out by prefix to match each box's combination; non-cup items go in box 1
+ */
+export function packOrderItems(
+  items: OrderItem[],
+  boxes: Array<{ boxSize: string; prefixes: string[] }>,
+  orderConfig: OrderConfig
+): BoxAssignment[] {
+  // One entry per cup unit, in item order, so a line can be split across boxes
+  const unitsByPrefix = new Map<string, string[]>();
+  for (const item of items) {
+    if (!item.skuPrefix) continue;
+    if (!unitsByPrefix.has(item.skuPrefix)) {
+      unitsByPrefix.set(item.skuPrefix, []);
+    }
+    for (let i = 0; i < item.quantity; i++) {
+      unitsByPrefix.get(item.skuPrefix)!.push(item.sku);
+    }
+  }
+
+  const assignments: BoxAssignment[] = boxes.map(box => {
+    const quantities = new Map<string, number>();
+    for (const prefix of box.prefixes) {
+      const sku = unitsByPrefix.get(prefix)?.shift();
+      if (sku) {
+        quantities.set(sku, (quantities.get(sku) || 0) + 1);
+      }
+    }
+    return {
+      boxSize: box.boxSize,
+      name: getBoxSizeName(box.boxSize, orderConfig),
+      contents: Array.from(quantities.entries()).map(([sku, quantity]) => ({ sku, quantity })),
+    };
+  });
+
+  if (assignments.length > 0) {
+    for (const item of items) {
+      if (!item.skuPrefix) {
+        assignments[0].contents.push({ sku: item.sku, quantity: item.quantity });
+      }
+    }
+  }
+
+  return assignments;
+}
+
+/**
+ * Display name for a box size key, e.g. "6/10 Pack"
+ */
+export function getBoxSizeName(boxSize: string, orderConfig: OrderConfig): string {
+  if (boxSize === 'singles') return 'Singles';
+  return orderConfig.packSizes[boxSize]?.name || boxSize;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { boxAccepts, SlotWeights, validateOrderConfig } from './boxRules';
+import { solveBoxPacking } from './boxPacking';
+import { BUILT_IN_CATALOG, getSlotWeights } from './skuCatalog';
+import { OrderConfig } from './types';
+import defaultOrderConfig from '../order-config.json';
+
+/**
+ * Pack size validation: the check enumerates cup mixes, so it must refuse configs too large to enumerate
+ * Box matching: catalog slot weights must not change which box the built-in config picks
+ */
+
+function sizes(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `CUP${i + 1}`);
+}
+
+describe('validateOrderConfig', () => {
+  it('checks the built-in config', () => {
+    const issues = validateOrderConfig(defaultOrderConfig as OrderConfig);
+    expect(issues.filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+
+  it('reports a config with too many mixes to check instead of enumerating them', () => {
+    const config: OrderConfig = {
+      packSizes: {
+        big: { name: 'Big', maxItems: 48, rules: [{ slots: 48, sizes: sizes(12) }] },
+      },
+    };
+
+    const started = Date.now();
+    const issues = validateOrderConfig(config);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'error', boxSize: 'big', entry: 'config', message: expect.stringContaining('Too large to check') }),
+    ]);
+  });
+
+  it('still checks a large box with few cup sizes', () => {
+    const config: OrderConfig = {
+      packSizes: {
+        big: { name: 'Big', maxItems: 48, rules: [{ slots: 48, sizes: sizes(3) }] },
+      },
+    };
+
+    expect(validateOrderConfig(config)).toEqual([]);
+  });
+});
+
+describe('boxAccepts with catalog slot weights', () => {
+  const config = defaultOrderConfig as OrderConfig;
+  const cupSizes = ['DPT10', 'DPT16', 'DPT26'];
+
+  // The first box that takes these cups, in config order
+  const matchBox = (cupPrefixes: string[], slotWeights: SlotWeights) =>
+    Object.keys(config.packSizes).find(boxSize => boxAccepts(config.packSizes[boxSize], cupPrefixes, slotWeights)) || null;
+
+  // Every mix of the built-in cup sizes that fits the biggest box
+  const mixes: string[][] = [];
+  const maxCups = Math.max(...Object.values(config.packSizes).map(box => box.maxItems));
+  for (let count10 = 0; count10 <= maxCups; count10++) {
+    for (let count16 = 0; count10 + count16 <= maxCups; count16++) {
+      for (let count26 = 0; count10 + count16 + count26 <= maxCups; count26++) {
+        if (count10 + count16 + count26 === 0) continue;
+        mixes.push([
+          ...Array(count10).fill('DPT10'),
+          ...Array(count16).fill('DPT16'),
+          ...Array(count26).fill('DPT26'),
+        ]);
+      }
+    }
+  }
+
+  it('matches every mix to the same box as before the catalog had weights', () => {
+    const slotWeights = getSlotWeights(BUILT_IN_CATALOG);
+    const changed = mixes.filter(mix => matchBox(mix, slotWeights) !== matchBox(mix, {}));
+
+    expect(changed).toEqual([]);
+  });
+
+  it('ships a single cup of any size as singles', () => {
+    const slotWeights = getSlotWeights(BUILT_IN_CATALOG);
+
+    for (const cupSize of cupSizes) {
+      expect(matchBox([cupSize], slotWeights)).toBe('singles');
+      expect(solveBoxPacking([cupSize], config, slotWeights)).toEqual([{ boxSize: 'singles', prefixes: [cupSize] }]);
+    }
+  });
+});
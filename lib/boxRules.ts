@@ -0,0 +1,299 @@
+import { BoxCapacityRule, BoxSizeConfig, OrderConfig } from './types';
+
+/**
+ * Box matching for pack size configs
+ * A box accepts an order's cups if they exactly match one of its enumerated combinations
+ * or fit one of its capacity rules. Boxes are checked in config order and the first match wins;
+ * retired boxes never match.
+ */
+
+// Most entry-against-mix checks validateOrderConfig will run; bigger configs are reported instead of checked
+const MAX_VALIDATION_CHECKS = 5_000_000;
+
+export interface BoxRuleIssue {
+  severity: 'error' | 'warning';
+  boxSize: string; // packSizes key
+  entry: string; // e.g. "rule 1" or "combination 3"
+  message: string;
+}
+
+// Most entry-against-mix checks expandBoxCombinations will run for one box; bigger boxes aren't expanded
+const MAX_EXPANSION_CHECKS = 1_000_000;
+
+// Box slots per cup key from the SKU catalog, for rules without their own slotsPerCup
+export type SlotWeights = Record<string, number>;
+
+// A box config entry: one enumerated combination or one capacity rule
+interface BoxEntry {
+  boxSize: string;
+  label: string;
+  accepts: (counts: Map<string, number>) => boolean;
+}
+
+/**
+ * Count cups per prefix
+ */
+function countPrefixes(cupPrefixes: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const prefix of cupPrefixes) {
+    counts.set(prefix, (counts.get(prefix) || 0) + 1);
+  }
+  return counts;
+}
+
+function totalCups(counts: Map<string, number>): number {
+  let total = 0;
+  counts.forEach(count => { total += count; });
+  return total;
+}
+
+function countsMatch(a: Map<string, number>, b: Map<string, number>): boolean {
+  if (a.size !== b.size) return false;
+  let match = true;
+  a.forEach((count, prefix) => {
+    if (b.get(prefix) !== count) match = false;
+  });
+  return match;
+}
+
+/**
+ * Check cup counts against one capacity rule
+ */
+function ruleAccepts(
+  rule: BoxCapacityRule,
+  maxItems: number,
+  slotWeights: SlotWeights,
+  counts: Map<string, number>
+): boolean {
+  const cups = totalCups(counts);
+  if (cups === 0 || cups > maxItems || cups < (rule.minCups ?? 1)) return false;
+  if (rule.maxSizes !== undefined && counts.size > rule.maxSizes) return false;
+
+  // Catalog weights size cups against each other, which means nothing in a one-cup box
+  const weights = maxItems === 1 ? {} : slotWeights;
+  let slots = 0;
+  let fits = true;
+  counts.forEach((count, prefix) => {
+    if (rule.sizes && !rule.sizes.includes(prefix)) fits = false;
+    if (rule.maxPerSize?.[prefix] !== undefined && count > rule.maxPerSize[prefix]) fits = false;
+    slots += count * (rule.slotsPerCup?.[prefix] ?? weights[prefix] ?? 1);
+  });
+
+  return fits && slots <= rule.slots && slots >= (rule.minSlots ?? 0);
+}
+
+function getBoxEntries(boxSize: string, config: BoxSizeConfig, slotWeights: SlotWeights): BoxEntry[] {
+  const entries: BoxEntry[] = [];
+  if (config.retired) return entries;
+
+  (config.combinations || []).forEach((combination, index) => {
+    const combinationCounts = countPrefixes(combination);
+    entries.push({
+      boxSize,
+      label: `combination ${index + 1}`,
+      accepts: counts => countsMatch(counts, combinationCounts),
+    });
+  });
+  (config.rules || []).forEach((rule, index) => {
+    entries.push({
+      boxSize,
+      label: `rule ${index + 1}`,
+      accepts: counts => ruleAccepts(rule, config.maxItems, slotWeights, counts),
+    });
+  });
+  return entries;
+}
+
+/**
+ * Does this box take exactly these cups (one prefix per cup)?
+ */
+export function boxAccepts(config: BoxSizeConfig, cupPrefixes: string[], slotWeights: SlotWeights = {}): boolean {
+  const counts = countPrefixes(cupPrefixes);
+  return getBoxEntries('', config, slotWeights).some(entry => entry.accepts(counts));
+}
+
+/**
+ * Every mix of cups up to `maxCups`, drawn from these prefixes, as counts per prefix
+ */
+function enumerateContents(prefixes: string[], maxCups: number): Map<string, number>[] {
+  const results: Map<string, number>[] = [];
+  const walk = (index: number, remaining: number, current: Map<string, number>) => {
+    if (index === prefixes.length) {
+      if (current.size > 0) results.push(new Map(current));
+      return;
+    }
+    for (let count = 0; count <= remaining; count++) {
+      if (count > 0) current.set(prefixes[index], count);
+      walk(index + 1, remaining - count, current);
+      current.delete(prefixes[index]);
+    }
+  };
+  walk(0, maxCups, new Map());
+  return results;
+}
+
+/**
+ * How many mixes enumerateContents would return: C(prefixCount + maxCups, maxCups), less the empty box
+ */
+function countContents(prefixCount: number, maxCups: number): number {
+  let total = 1;
+  for (let i = 1; i <= prefixCount; i++) {
+    total = total * (maxCups + i) / i;
+  }
+  return total - 1;
+}
+
+function toPrefixList(counts: Map<string, number>): string[] {
+  const prefixes: string[] = [];
+  counts.forEach((count, prefix) => {
+    for (let i = 0; i < count; i++) prefixes.push(prefix);
+  });
+  return prefixes.sort();
+}
+
+/**
+ * All cup mixes a box accepts using only these prefixes, each as a sorted prefix list
+ * Used by the multi-box solver, which needs concrete contents for rule-based boxes
+ * Returns null if there are too many mixes to check (many cup sizes in a big box)
+ */
+export function expandBoxCombinations(
+  config: BoxSizeConfig,
+  prefixes: string[],
+  slotWeights: SlotWeights = {}
+): string[][] | null {
+  const entries = getBoxEntries('', config, slotWeights);
+  const maxCups = Math.max(config.maxItems, ...(config.combinations || []).map(c => c.length));
+  if (countContents(prefixes.length, maxCups) * entries.length > MAX_EXPANSION_CHECKS) return null;
+
+  return enumerateContents(prefixes, maxCups)
+    .filter(counts => entries.some(entry => entry.accepts(counts)))
+    .map(toPrefixList);
+}
+
+/**
+ * Every cup prefix the config mentions, e.g. for validation or listing the known cup sizes
+ */
+export function getConfigPrefixes(orderConfig: OrderConfig): string[] {
+  const prefixes = new Set<string>();
+  for (const config of Object.values(orderConfig.packSizes)) {
+    for (const combination of config.combinations || []) {
+      combination.forEach(prefix => prefixes.add(prefix));
+    }
+    for (const rule of config.rules || []) {
+      (rule.sizes || []).forEach(prefix => prefixes.add(prefix));
+      Object.keys(rule.slotsPerCup || {}).forEach(prefix => prefixes.add(prefix));
+      Object.keys(rule.maxPerSize || {}).forEach(prefix => prefixes.add(prefix));
+    }
+  }
+  return Array.from(prefixes).sort();
+}
+
+function describeContents(counts: Map<string, number>): string {
+  const parts: string[] = [];
+  counts.forEach((count, prefix) => parts.push(`${prefix}×${count}`));
+  return parts.join(' + ');
+}
+
+/**
+ * Check a pack size config for entries that can never match or that compete with other boxes
+ * - error: a box or entry that accepts nothing, so the config is broken as written
+ * - warning: an entry that is unreachable (every mix is taken by an earlier box) or overlaps one
+ *   (the earlier box wins the shared mixes) - dead or shadowed, but matching still works
+ */
+export function validateOrderConfig(orderConfig: OrderConfig, slotWeights: SlotWeights = {}): BoxRuleIssue[] {
+  const issues: BoxRuleIssue[] = [];
+  const prefixes = Array.from(new Set([...getConfigPrefixes(orderConfig), ...Object.keys(slotWeights)])).sort();
+  const boxSizes = Object.keys(orderConfig.packSizes);
+  const entriesByBox = new Map(boxSizes.map(boxSize =>
+    [boxSize, getBoxEntries(boxSize, orderConfig.packSizes[boxSize], slotWeights)]
+  ));
+
+  const maxCups = Math.max(0, ...Object.values(orderConfig.packSizes).flatMap(config => [
+    config.maxItems,
+    ...(config.combinations || []).map(c => c.length),
+  ]));
+
+  // Every entry is checked against every mix, which grows combinatorially with cup sizes and box capacity
+  const entryCount = Array.from(entriesByBox.values()).reduce((sum, entries) => sum + entries.length, 0);
+  const mixCount = countContents(prefixes.length, maxCups);
+  if (mixCount * entryCount > MAX_VALIDATION_CHECKS) {
+    const largest = boxSizes.find(boxSize => orderConfig.packSizes[boxSize].maxItems === maxCups) || boxSizes[0];
+    return [{
+      severity: 'error',
+      boxSize: largest,
+      entry: 'config',
+      message: `Too large to check: ${prefixes.length} cup sizes in boxes of up to ${maxCups} cups make ` +
+        `${mixCount.toLocaleString('en-US')} mixes for ${entryCount} combinations and rules`,
+    }];
+  }
+  const allContents = enumerateContents(prefixes, maxCups);
+
+  // Which box wins each mix of cups, matching in config order like processOrders does
+  const winners = allContents.map(counts => {
+    // A single cup always ships as singles
+    if (totalCups(counts) === 1 && orderConfig.packSizes.singles && !orderConfig.packSizes.singles.retired) {
+      return 'singles';
+    }
+    return boxSizes.find(boxSize => entriesByBox.get(boxSize)!.some(entry => entry.accepts(counts))) || null;
+  });
+
+  for (const boxSize of boxSizes) {
+    const config = orderConfig.packSizes[boxSize];
+    if (config.retired) continue;
+
+    if (!config.combinations?.length && !config.rules?.length) {
+      issues.push({ severity: 'error', boxSize, entry: 'config', message: 'Has no combinations or rules' });
+      continue;
+    }
+
+    (config.combinations || []).forEach((combination, index) => {
+      if (combination.length > config.maxItems) {
+        issues.push({
+          severity: 'warning',
+          boxSize,
+          entry: `combination ${index + 1}`,
+          message: `Has ${combination.length} cups but maxItems is ${config.maxItems}`,
+        });
+      }
+    });
+
+    (config.rules || []).forEach((rule, index) => {
+      if (rule.slots <= 0) {
+        issues.push({ severity: 'error', boxSize, entry: `rule ${index + 1}`, message: 'Slots must be greater than 0' });
+      }
+    });
+
+    for (const entry of entriesByBox.get(boxSize)!) {
+      const accepted = allContents
+        .map((counts, index) => ({ counts, winner: winners[index] }))
+        .filter(({ counts }) => entry.accepts(counts));
+
+      if (accepted.length === 0) {
+        issues.push({ severity: 'error', boxSize, entry: entry.label, message: 'Accepts no mix of cups' });
+        continue;
+      }
+
+      const shadowed = accepted.filter(({ winner }) => winner !== boxSize);
+      if (shadowed.length === accepted.length) {
+        const takenBy = Array.from(new Set(shadowed.map(({ winner }) => winner))).join(', ');
+        issues.push({
+          severity: 'warning',
+          boxSize,
+          entry: entry.label,
+          message: `Unreachable: every mix it accepts is matched first by ${takenBy}`,
+        });
+      } else if (shadowed.length > 0) {
+        const example = shadowed[0];
+        issues.push({
+          severity: 'warning',
+          boxSize,
+          entry: entry.label,
+          message: `Overlaps ${example.winner} on ${shadowed.length} mix${shadowed.length !== 1 ? 'es' : ''} ` +
+            `(e.g. ${describeContents(example.counts)}), which ${example.winner} wins`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
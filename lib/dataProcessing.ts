@@ -1,31 +1,10 @@
-import { NetSuiteItem, ProcessedOrder, OrderItem, OrderConfig } from './types';
+import { CatalogEntry, NetSuiteItem, ProcessedOrder, OrderItem, OrderConfig, OrderStatus, OrderStatusRecord, SerializedProcessedOrder } from './types';
 import { assignShippingZone } from './shippingZones';
-
-/**
- * Extract SKU prefix (first 5 chars) if it matches DPT## pattern
- */
-export function extractSKUPrefix(sku: string): string | null {
-  const prefix = sku.substring(0, 5).toUpperCase();
-  if (prefix.match(/^DPT\d{2}$/)) {
-    return prefix;
-  }
-  return null;
-}
-
-/**
- * Extract cup size from SKU prefix (DPT10 -> 10oz, DPT16 -> 16oz, DPT26 -> 26oz)
- */
-export function extractCupSize(skuPrefix: string | null): string | null {
-  if (!skuPrefix) return null;
-  const match = skuPrefix.match(/^DPT(\d{2})$/);
-  if (match) {
-    const size = parseInt(match[1]);
-    if (size === 10 || size === 16 || size === 26) {
-      return `${size}oz`;
-    }
-  }
-  return null;
-}
+import { getBoxSizeName, packOrderItems, solveBoxPacking } from './boxPacking';
+import { boxAccepts, SlotWeights } from './boxRules';
+import { findCatalogEntry, getSlotWeights } from './skuCatalog';
+import { validateOrderLines } from './orderValidation';
+import { getOrderStatus } from './orderStatus';
 
 /**
  * Check if a string is a URL
@@ -36,24 +15,33 @@ function isUrl(str: string | undefined): boolean {
 }
 
 /**
- * Process a single NetSuite item into an OrderItem
+ * Image URL for a NetSuite line
+ * Priority: formulatext (if URL) > custcol_custom_image_url > custcol1 > custcol1_1
  */
-export function processItem(item: NetSuiteItem): OrderItem {
+export function getItemImageUrl(item: NetSuiteItem): string | undefined {
+  const formulatext = item.values.formulatext || '';
+  return isUrl(formulatext)
+    ? formulatext
+    : (item.values.custcol_custom_image_url || item.values.custcol1 || item.values.custcol1_1);
+}
+
+/**
+ * Process a single NetSuite item into an OrderItem, classifying its SKU with the catalog
+ * Only catalog entries with a size are cups that take part in box matching
+ */
+export function processItem(item: NetSuiteItem, catalog: Omit<CatalogEntry, 'id'>[]): OrderItem {
   const sku = item.values.item[0]?.text || '';
-  const skuPrefix = extractSKUPrefix(sku);
-  const size = extractCupSize(skuPrefix);
+  const entry = findCatalogEntry(sku, catalog);
+  const size = entry?.size || null;
+  const skuPrefix = size ? entry!.prefix : null;
+  const personalized = entry?.personalized ?? /-PERS$/i.test(sku);
 
   // formulatext contains the image URL, check if it's a URL
   const formulatext = item.values.formulatext || '';
-  const isImageUrl = isUrl(formulatext);
-  
-  // Image URL priority: formulatext (if URL) > custcol_custom_image_url > custcol1 > custcol1_1
-  const imageUrl = isImageUrl 
-    ? formulatext 
-    : (item.values.custcol_custom_image_url || item.values.custcol1 || item.values.custcol1_1);
+  const imageUrl = getItemImageUrl(item);
   
   // Description: use formulatext_1 if available, otherwise use formulatext if it's not a URL
-  const description = item.values.formulatext_1 || (isImageUrl ? '' : formulatext);
+  const description = item.values.formulatext_1 || (isUrl(formulatext) ? '' : formulatext);
 
   const pickLocation = item.values['item.custitem_pir_pick_location'];
   
@@ -66,6 +54,8 @@ export function processItem(item: NetSuiteItem): OrderItem {
     sku,
     skuPrefix,
     size,
+    family: entry?.family || null,
+    personalized,
     quantity: parseInt(item.values.quantity) || 1,
     color: item.values['item.custitem_item_color'],
     imageUrl,
@@ -131,7 +121,13 @@ function filterDuplicateKitItems(orderItems: NetSuiteItem[]): NetSuiteItem[] {
 /**
  * Group items by tranid and create ProcessedOrder objects
  */
-export function processOrders(items: NetSuiteItem[], orderConfig: OrderConfig): ProcessedOrder[] {
+export function processOrders(
+  items: NetSuiteItem[],
+  orderConfig: OrderConfig,
+  catalog: Omit<CatalogEntry, 'id'>[]
+): ProcessedOrder[] {
+  const slotWeights = getSlotWeights(catalog);
+
   // Group by tranid
   const orderMap = new Map<string, NetSuiteItem[]>();
   
@@ -151,7 +147,7 @@ export function processOrders(items: NetSuiteItem[], orderConfig: OrderConfig):
     const filteredItems = filterDuplicateKitItems(orderItems);
     
     const firstItem = filteredItems[0];
-    const processedItems = filteredItems.map(processItem);
+    const processedItems = filteredItems.map(item => processItem(item, catalog));
 
     // Get cup sizes present in this order
     const cupSizes = new Set<string>();
@@ -164,8 +160,15 @@ export function processOrders(items: NetSuiteItem[], orderConfig: OrderConfig):
     // Determine if personalized (check all items)
     const personalized = orderItems.some(item => item.values.custbody_pir_pers_order === true);
 
-    // Match box size
-    const boxSize = matchBoxSize(processedItems, orderConfig);
+    // Match box size, or split across several boxes if no single box fits
+    const boxSize = matchBoxSize(processedItems, orderConfig, slotWeights);
+    const boxes = boxSize
+      ? [{
+          boxSize,
+          name: getBoxSizeName(boxSize, orderConfig),
+          contents: processedItems.map(item => ({ sku: item.sku, quantity: item.quantity })),
+        }]
+      : packOrderItems(processedItems, solveBoxPacking(getCupPrefixes(processedItems), orderConfig, slotWeights) || [], orderConfig);
 
     // Calculate shipping zone based on zip code lookup
     const zoneInfo = assignShippingZone(firstItem.values.shipaddress);
@@ -179,6 +182,7 @@ export function processOrders(items: NetSuiteItem[], orderConfig: OrderConfig):
       items: processedItems,
       cupSizes,
       boxSize,
+      boxes,
       shipmethod: firstItem.values.shipmethod?.[0]?.text,
       poNumber: firstItem.values['createdFrom.otherrefnum'],
       memo: firstItem.values['createdFrom.memo'] || firstItem.values['createdFrom.custbodypir_sales_order_warehouse_note'],
@@ -187,6 +191,7 @@ export function processOrders(items: NetSuiteItem[], orderConfig: OrderConfig):
       shippingZone: zoneInfo.zone || undefined,
       shippingZoneName: zoneInfo.zoneName,
       zipCode: zoneInfo.zipCode,
+      issues: validateOrderLines(orderItems, filteredItems, processedItems, zoneInfo.zipCode),
     });
   }
 
@@ -194,11 +199,9 @@ export function processOrders(items: NetSuiteItem[], orderConfig: OrderConfig):
 }
 
 /**
- * Match order items to a box size configuration
- * Returns the box size key (singles, 4pack, 5pack, 10pack) or null
+ * Get all cup SKU prefixes, one per unit (only cups, ignore non-cup items)
  */
-function matchBoxSize(items: OrderItem[], orderConfig: OrderConfig): string | null {
-  // Get all cup SKU prefixes (only cups, ignore non-cup items)
+function getCupPrefixes(items: OrderItem[]): string[] {
   const cupPrefixes: string[] = [];
   for (const item of items) {
     if (item.skuPrefix) {
@@ -208,29 +211,29 @@ function matchBoxSize(items: OrderItem[], orderConfig: OrderConfig): string | nu
       }
     }
   }
+  return cupPrefixes;
+}
+
+/**
+ * Match order items to a box size configuration
+ * Returns the box size key (singles, 4pack, 5pack, 10pack) or null
+ */
+function matchBoxSize(items: OrderItem[], orderConfig: OrderConfig, slotWeights: SlotWeights): string | null {
+  const cupPrefixes = getCupPrefixes(items);
 
   if (cupPrefixes.length === 0) {
     return null; // No cups in this order
   }
 
   // Check for singles first (exactly 1 cup item)
-  if (cupPrefixes.length === 1) {
+  if (cupPrefixes.length === 1 && !orderConfig.packSizes.singles?.retired) {
     return 'singles';
   }
 
-  // Sort prefixes for consistent comparison
-  cupPrefixes.sort();
-
-  // Check each box size configuration
+  // Check each box size configuration (enumerated combinations or capacity rules)
   for (const [boxSizeKey, config] of Object.entries(orderConfig.packSizes)) {
-    for (const combination of config.combinations) {
-      // Sort combination for comparison
-      const sortedCombination = [...combination].sort();
-      
-      // Check if this order's cup prefixes match this combination exactly
-      if (arraysMatch(cupPrefixes, sortedCombination)) {
-        return boxSizeKey;
-      }
+    if (boxAccepts(config, cupPrefixes, slotWeights)) {
+      return boxSizeKey;
     }
   }
 
@@ -238,16 +241,40 @@ function matchBoxSize(items: OrderItem[], orderConfig: OrderConfig): string | nu
 }
 
 /**
- * Check if two arrays match exactly (same length and elements)
+ * Convert orders to a JSON-safe form for storing batch snapshots
  */
-function arraysMatch(arr1: string[], arr2: string[]): boolean {
-  if (arr1.length !== arr2.length) return false;
-  for (let i = 0; i < arr1.length; i++) {
-    if (arr1[i] !== arr2[i]) return false;
-  }
-  return true;
+export function serializeOrders(orders: ProcessedOrder[]): SerializedProcessedOrder[] {
+  return orders.map(order => ({
+    ...order,
+    cupSizes: Array.from(order.cupSizes),
+  }));
 }
 
+/**
+ * Restore orders from a stored batch snapshot
+ */
+export function deserializeOrders(orders: SerializedProcessedOrder[]): ProcessedOrder[] {
+  return orders.map(order => ({
+    ...order,
+    cupSizes: new Set(order.cupSizes),
+    // Snapshots from before the SKU catalog have no family or personalized flag on items
+    items: order.items.map(item => ({
+      ...item,
+      family: item.family ?? null,
+      personalized: item.personalized ?? /-PERS$/i.test(item.sku),
+    })),
+    // Snapshots from before multi-box packing have no boxes, and early ones no box names
+    boxes: (order.boxes || []).map(box => ({ ...box, name: box.name || box.boxSize })),
+    // Snapshots from before order validation have no issues
+    issues: order.issues || [],
+  }));
+}
+
+/**
+ * Box size filter value matching orders split across several boxes
+ */
+export const MULTI_BOX_FILTER = 'multi-box';
+
 /**
  * Filter orders based on criteria
  */
@@ -259,8 +286,8 @@ export function filterOrders(
     boxSize: string | null; // Selected box size (null = all sizes)
     dateFrom: Date | null;
     dateTo: Date | null;
-    printedOnly: boolean | null; // null = show all, true = printed only, false = not printed only
-    printedOrders: Set<string>; // Set of tranids that have been printed
+    statuses: OrderStatus[]; // Selected statuses (empty = all statuses)
+    orderStatuses: Record<string, OrderStatusRecord>; // Status by tranid; orders not in it are new
     shippingZones: string[]; // Selected shipping zones (empty = all zones)
   }
 ): ProcessedOrder[] {
@@ -291,7 +318,11 @@ export function filterOrders(
     }
 
     // Box size filter
-    if (filters.boxSize !== null) {
+    if (filters.boxSize === MULTI_BOX_FILTER) {
+      if (order.boxes.length < 2) {
+        return false;
+      }
+    } else if (filters.boxSize !== null) {
       if (order.boxSize !== filters.boxSize) {
         return false;
       }
@@ -338,13 +369,9 @@ export function filterOrders(
       }
     }
 
-    // Printed filter
-    if (filters.printedOnly !== null) {
-      const isPrinted = filters.printedOrders.has(order.tranid);
-      if (filters.printedOnly && !isPrinted) {
-        return false;
-      }
-      if (!filters.printedOnly && isPrinted) {
+    // Status filter
+    if (filters.statuses.length > 0) {
+      if (!filters.statuses.includes(getOrderStatus(filters.orderStatuses, order.tranid))) {
         return false;
       }
     }
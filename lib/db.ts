@@ -1,169 +1,102 @@
-import { Pool } from 'pg';
-
-// Create a connection pool (reused across requests)
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool) {
-    // Check multiple possible environment variable names
-    // Supabase/Vercel might use different names
-    const connectionString = 
-      process.env.POSTGRES_URL || 
-      process.env.DATABASE_URL || 
-      process.env.SUPABASE_DATABASE_URL ||
-      process.env.POSTGRES_PRISMA_URL ||
-      process.env.POSTGRES_URL_NON_POOLING;
-    
-    if (!connectionString) {
-      const error = 'Missing database connection string. Checked: POSTGRES_URL, DATABASE_URL, SUPABASE_DATABASE_URL, POSTGRES_PRISMA_URL, POSTGRES_URL_NON_POOLING';
-      console.error(error);
-      throw new Error(error);
-    }
-    
-    console.log('Connecting to database with connection string:', connectionString.replace(/:[^:@]+@/, ':****@')); // Hide password in logs
-    
-    // Prefer non-pooling URL for direct connections (more reliable SSL)
-    const useNonPooling = process.env.POSTGRES_URL_NON_POOLING && 
-                          !connectionString.includes('pooler');
-    const baseConnectionString = useNonPooling 
-      ? (process.env.POSTGRES_URL_NON_POOLING || connectionString)
-      : connectionString;
-    
-    // Remove sslmode from connection string and handle SSL via Pool config
-    // This prevents conflicts with SSL certificate handling
-    const url = new URL(baseConnectionString);
-    url.searchParams.delete('sslmode');
-    const finalConnectionString = url.toString();
-    
-    pool = new Pool({
-      connectionString: finalConnectionString,
-      // SSL configuration - Supabase requires SSL
-      // Explicitly configure SSL to accept self-signed certificates
-      ssl: {
-        rejectUnauthorized: false, // Accept Supabase's SSL certificate (self-signed)
-      },
-      // Connection pool settings for serverless
-      max: 1, // Limit connections for serverless
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  
-  return pool;
-}
+import { assertSchemaCurrent } from './migrate';
+import { Store } from './store';
 
 /**
- * Initialize database - create table if it doesn't exist
- * This is safe to call multiple times
+ * The app's database
+ * DB_BACKEND picks the storage backend: 'postgres' (default) or 'sqlite', a single file at
+ * DB_SQLITE_PATH for a small site or local dev. Everything else calls the functions below, which
+ * go to the configured backend once its schema is known to be migrated.
  */
-async function ensureTableExists() {
-  const client = await getPool().connect();
-  try {
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS printed_orders (
-        tranid TEXT PRIMARY KEY,
-        printed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
-      )
-    `);
-  } catch (error) {
-    // Table might already exist, which is fine
-    console.error('Error ensuring table exists:', error);
-  } finally {
-    client.release();
-  }
-}
 
 /**
- * Get all printed order tranids
+ * The configured backend, loaded on first use so the other one's driver (e.g. better-sqlite3's
+ * native module) is never required
  */
-export async function getPrintedOrders(): Promise<string[]> {
-  await ensureTableExists();
-  const client = await getPool().connect();
-  try {
-    const result = await client.query('SELECT tranid FROM printed_orders ORDER BY printed_at DESC');
-    return result.rows.map(row => row.tranid as string);
-  } catch (error) {
-    console.error('Error getting printed orders:', error);
-    return [];
-  } finally {
-    client.release();
-  }
+export async function getStore(): Promise<Store> {
+  const backend = process.env.DB_BACKEND || 'postgres';
+  if (backend === 'postgres') return (await import('./postgresStore')).postgresStore;
+  if (backend === 'sqlite') return (await import('./sqliteStore')).sqliteStore;
+  throw new Error(`DB_BACKEND must be postgres or sqlite, not "${backend}"`);
 }
 
-/**
- * Check if a specific order is printed
- */
-export async function isOrderPrinted(tranid: string): Promise<boolean> {
-  await ensureTableExists();
-  const client = await getPool().connect();
-  try {
-    const result = await client.query('SELECT tranid FROM printed_orders WHERE tranid = $1', [tranid]);
-    return result.rows.length > 0;
-  } catch (error) {
-    console.error('Error checking if order is printed:', error);
-    return false;
-  } finally {
-    client.release();
-  }
-}
+// Checked before a server's first query; a failed check is retried on the next one
+let schemaCheck: Promise<void> | null = null;
 
-/**
- * Mark orders as printed
- */
-export async function markOrdersAsPrinted(tranids: string[]): Promise<void> {
-  if (tranids.length === 0) return;
-  
-  await ensureTableExists();
-  const client = await getPool().connect();
-  try {
-    // Insert each tranid, ignoring duplicates
-    for (const tranid of tranids) {
-      await client.query(
-        'INSERT INTO printed_orders (tranid) VALUES ($1) ON CONFLICT (tranid) DO NOTHING',
-        [tranid]
-      );
-    }
-  } catch (error) {
-    console.error('Error marking orders as printed:', error);
-    throw error;
-  } finally {
-    client.release();
+async function getReadyStore(): Promise<Store> {
+  const store = await getStore();
+  if (!schemaCheck) {
+    schemaCheck = assertSchemaCurrent(store.migrations).catch(error => {
+      schemaCheck = null;
+      throw error;
+    });
   }
+  await schemaCheck;
+  return store;
 }
 
+type StoreOperation = Exclude<keyof Store, 'migrations' | 'close'>;
+
 /**
- * Clear all printed orders
+ * A function that runs one of the store's operations on the configured backend
  */
-export async function clearPrintedOrders(): Promise<void> {
-  await ensureTableExists();
-  const client = await getPool().connect();
-  try {
-    await client.query('DELETE FROM printed_orders');
-  } catch (error) {
-    console.error('Error clearing printed orders:', error);
-    throw error;
-  } finally {
-    client.release();
-  }
+function fromStore<K extends StoreOperation>(operation: K): Store[K] {
+  const run = async (...args: unknown[]) => {
+    const store = await getReadyStore();
+    return (store[operation] as (...args: unknown[]) => Promise<unknown>)(...args);
+  };
+  return run as Store[K];
 }
 
-/**
- * Remove specific orders from printed list
- */
-export async function unmarkOrdersAsPrinted(tranids: string[]): Promise<void> {
-  if (tranids.length === 0) return;
-  
-  await ensureTableExists();
-  const client = await getPool().connect();
-  try {
-    // Delete multiple tranids - delete one by one (simple and reliable)
-    for (const tranid of tranids) {
-      await client.query('DELETE FROM printed_orders WHERE tranid = $1', [tranid]);
-    }
-  } catch (error) {
-    console.error('Error unmarking orders as printed:', error);
-    throw error;
-  } finally {
-    client.release();
-  }
+export async function closeStore(): Promise<void> {
+  await (await getStore()).close();
 }
+
+export const setOrderStatus = fromStore('setOrderStatus');
+export const getOrderStatuses = fromStore('getOrderStatuses');
+export const getOrderStatusHistory = fromStore('getOrderStatusHistory');
+export const getPrintedOrders = fromStore('getPrintedOrders');
+export const isOrderPrinted = fromStore('isOrderPrinted');
+export const markOrdersAsPrinted = fromStore('markOrdersAsPrinted');
+export const clearPrintedOrders = fromStore('clearPrintedOrders');
+export const unmarkOrdersAsPrinted = fromStore('unmarkOrdersAsPrinted');
+export const undoLastClear = fromStore('undoLastClear');
+export const getPrintAuditLog = fromStore('getPrintAuditLog');
+export const pruneOrderStatuses = fromStore('pruneOrderStatuses');
+
+export const createPrintBatch = fromStore('createPrintBatch');
+export const getPrintBatches = fromStore('getPrintBatches');
+export const getPrintBatch = fromStore('getPrintBatch');
+
+export const getCachedOrderLines = fromStore('getCachedOrderLines');
+export const saveSyncedOrderLines = fromStore('saveSyncedOrderLines');
+export const recordOrderSyncError = fromStore('recordOrderSyncError');
+export const getOrderSyncState = fromStore('getOrderSyncState');
+
+export const enqueueWriteBacks = fromStore('enqueueWriteBacks');
+export const getDueWriteBacks = fromStore('getDueWriteBacks');
+export const recordWriteBackAttempt = fromStore('recordWriteBackAttempt');
+export const retryFailedWriteBacks = fromStore('retryFailedWriteBacks');
+export const getWriteBackStatuses = fromStore('getWriteBackStatuses');
+
+export const getPackSizeVersion = fromStore('getPackSizeVersion');
+export const getPackSizeVersions = fromStore('getPackSizeVersions');
+export const createPackSizeVersion = fromStore('createPackSizeVersion');
+
+export const getCatalogEntries = fromStore('getCatalogEntries');
+export const createCatalogEntry = fromStore('createCatalogEntry');
+export const updateCatalogEntry = fromStore('updateCatalogEntry');
+export const deleteCatalogEntry = fromStore('deleteCatalogEntry');
+
+export const getCachedImage = fromStore('getCachedImage');
+export const saveCachedImage = fromStore('saveCachedImage');
+export const recordImageFailure = fromStore('recordImageFailure');
+export const recordImageCacheHit = fromStore('recordImageCacheHit');
+export const deleteUnusedImages = fromStore('deleteUnusedImages');
+export const getImageCacheStats = fromStore('getImageCacheStats');
+
+export const getUsers = fromStore('getUsers');
+export const getUserCredentials = fromStore('getUserCredentials');
+export const createUser = fromStore('createUser');
+export const updateUser = fromStore('updateUser');
+export const recordUserLogin = fromStore('recordUserLogin');
+export const saveOidcUser = fromStore('saveOidcUser');
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import sharp from 'sharp';
+
+/**
+ * Image proxy fetches: only allowed, public hosts; bodies capped mid-download; images resized before caching
+ */
+
+const resolved = vi.hoisted(() => ({ addresses: new Map<string, string>() }));
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(async (host: string) => [{ address: resolved.addresses.get(host) || '203.0.113.10', family: 4 }]),
+}));
+
+vi.mock('./db', () => ({
+  getCachedImage: vi.fn(async () => null),
+  saveCachedImage: vi.fn(async () => {}),
+  recordImageCacheHit: vi.fn(async () => {}),
+  recordImageFailure: vi.fn(async () => {}),
+  deleteUnusedImages: vi.fn(async () => 0),
+}));
+
+const { getImage, isProxyableImageUrl } = await import('./imageCache');
+const db = await import('./db');
+
+const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>();
+
+async function testImage(width: number, height: number, format: 'jpeg' | 'png' = 'jpeg'): Promise<Buffer> {
+  const image = sharp({ create: { width, height, channels: 3, background: '#c03030' } });
+  return format === 'jpeg' ? image.jpeg().toBuffer() : image.png().toBuffer();
+}
+
+function imageResponse(data: Buffer, contentType = 'image/jpeg'): Response {
+  return new Response(new Uint8Array(data), { headers: { 'Content-Type': contentType } });
+}
+
+function failureMessage(): string {
+  expect(db.recordImageFailure).toHaveBeenCalledTimes(1);
+  return vi.mocked(db.recordImageFailure).mock.calls[0][2];
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resolved.addresses.clear();
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('isProxyableImageUrl', () => {
+  it('allows the default hosts and their subdomains', () => {
+    expect(isProxyableImageUrl('https://shop.imgix.net/cup.jpg')).toBe(true);
+    expect(isProxyableImageUrl('https://7913744.app.netsuite.com/core/media/media.nl?id=1')).toBe(true);
+  });
+
+  it('refuses other hosts, other protocols and private addresses', () => {
+    expect(isProxyableImageUrl('https://evil.example.com/cup.jpg')).toBe(false);
+    expect(isProxyableImageUrl('https://imgix.net.evil.example.com/cup.jpg')).toBe(false);
+    expect(isProxyableImageUrl('file:///etc/passwd')).toBe(false);
+    expect(isProxyableImageUrl('http://127.0.0.1/cup.jpg')).toBe(false);
+    expect(isProxyableImageUrl('http://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isProxyableImageUrl('http://[::1]/cup.jpg')).toBe(false);
+  });
+});
+
+describe('getImage', () => {
+  it('resizes images to the cache size before caching them', async () => {
+    fetchMock.mockResolvedValue(imageResponse(await testImage(1200, 600)));
+
+    const image = await getImage('https://shop.imgix.net/cup.jpg', 150);
+
+    expect(image?.cache).toBe('miss');
+    expect(image?.contentType).toBe('image/jpeg');
+    const { width, height } = await sharp(image!.data).metadata();
+    expect([width, height]).toEqual([150, 75]);
+    expect(db.saveCachedImage).toHaveBeenCalledWith('https://shop.imgix.net/cup.jpg', 150, { contentType: 'image/jpeg', data: image!.data });
+  });
+
+  it('stores formats other than JPEG as PNG', async () => {
+    fetchMock.mockResolvedValue(imageResponse(await testImage(100, 100, 'png'), 'image/webp'));
+
+    const image = await getImage('https://shop.imgix.net/art.webp', 400);
+
+    expect(image?.contentType).toBe('image/png');
+    expect((await sharp(image!.data).metadata()).width).toBe(100);
+  });
+
+  it('refuses a host that resolves to a private address', async () => {
+    resolved.addresses.set('internal.imgix.net', '10.0.0.5');
+
+    expect(await getImage('https://internal.imgix.net/cup.jpg', 150)).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(failureMessage()).toMatch(/private or reserved address/);
+  });
+
+  it('checks every redirect hop', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest' } }));
+
+    expect(await getImage('https://shop.imgix.net/cup.jpg', 150)).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1]?.redirect).toBe('manual');
+    expect(failureMessage()).toMatch(/isn't an allowed host/);
+  });
+
+  it('follows redirects to allowed hosts', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { Location: 'https://cdn.imgix.net/cup.jpg' } }))
+      .mockResolvedValueOnce(imageResponse(await testImage(50, 50)));
+
+    expect((await getImage('https://shop.imgix.net/cup.jpg', 150))?.cache).toBe('miss');
+    expect(fetchMock.mock.calls[1][0]).toBe('https://cdn.imgix.net/cup.jpg');
+  });
+
+  it('refuses a declared size over the limit without reading the body', async () => {
+    const pull = vi.fn();
+    fetchMock.mockResolvedValue(new Response(new ReadableStream({ pull }), {
+      headers: { 'Content-Type': 'image/jpeg', 'Content-Length': String(20 * 1024 * 1024) },
+    }));
+
+    expect(await getImage('https://shop.imgix.net/huge.jpg', 150)).toBeNull();
+    expect(failureMessage()).toBe('Image is 20MB, over the 10MB limit');
+    expect(pull.mock.calls.length).toBeLessThanOrEqual(1);
+  });
+
+  it('stops reading an undeclared body once it passes the limit', async () => {
+    let chunksSent = 0;
+    const chunk = new Uint8Array(1024 * 1024);
+    fetchMock.mockResolvedValue(new Response(new ReadableStream({
+      pull(controller) {
+        chunksSent++;
+        controller.enqueue(chunk);
+      },
+    }), { headers: { 'Content-Type': 'image/jpeg' } }));
+
+    expect(await getImage('https://shop.imgix.net/endless.jpg', 150)).toBeNull();
+    expect(failureMessage()).toBe('Image is over the 10MB limit');
+    expect(chunksSent).toBeLessThan(15);
+  });
+
+  it('reports bodies that are not images it can read', async () => {
+    fetchMock.mockResolvedValue(imageResponse(Buffer.from('not really a jpeg')));
+
+    expect(await getImage('https://shop.imgix.net/broken.jpg', 150)).toBeNull();
+    expect(failureMessage()).toMatch(/^Unreadable image/);
+  });
+});
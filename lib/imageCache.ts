@@ -0,0 +1,266 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import sharp from 'sharp';
+import { NetSuiteItem } from './types';
+import { deleteUnusedImages, getCachedImage, recordImageCacheHit, recordImageFailure, saveCachedImage } from './db';
+import { getItemImageUrl } from './dataProcessing';
+import { optimizeImageUrl } from './pdfGenerator';
+
+/**
+ * Image cache behind the /api/images proxy (server-only)
+ * Product and artwork images are fetched once per size, stored in Postgres and served from there,
+ * so PDF runs don't depend on the image host being fast, up, or sending CORS headers.
+ * Images are resized here before caching; imgix URLs also ask imgix for the size, to save transfer.
+ */
+
+// Images are cached at a few fixed sizes (longest side in px); requests round up to the next one
+export const IMAGE_CACHE_SIZES = [150, 400];
+
+const IMAGE_CACHE_MAX_AGE_MS = parseInt(process.env.IMAGE_CACHE_MAX_AGE_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+// Don't hammer a broken URL: a failed fetch isn't retried for this long
+const FAILURE_RETRY_MS = parseInt(process.env.IMAGE_CACHE_FAILURE_RETRY_MINUTES || '15') * 60 * 1000;
+
+// Images no order has used for this long are dropped after each prefetch
+const UNUSED_IMAGE_MAX_AGE_MS = parseInt(process.env.IMAGE_CACHE_UNUSED_DAYS || '60') * 24 * 60 * 60 * 1000;
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_IMAGE_PIXELS = 50_000_000;
+const MAX_REDIRECTS = 3;
+const PREFETCH_CONCURRENCY = 4;
+
+// Comma-separated host allowlist (subdomains included), so the proxy can't be pointed at arbitrary servers
+const ALLOWED_HOSTS = (process.env.IMAGE_PROXY_ALLOWED_HOSTS || 'imgix.net,netsuite.com')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Addresses never fetched from, whatever the allowlist says: loopback, private, link-local
+// (e.g. cloud metadata), shared, multicast and reserved ranges; IPv4-mapped IPv6 addresses match too
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface ImageResult {
+  contentType: string;
+  data: Buffer;
+  cache: 'hit' | 'miss' | 'stale'; // stale = refetch failed, serving the last good copy
+}
+
+/**
+ * Cache size a request is served at
+ */
+export function toCacheSize(requested: number): number {
+  return IMAGE_CACHE_SIZES.find(size => size >= requested) || IMAGE_CACHE_SIZES[IMAGE_CACHE_SIZES.length - 1];
+}
+
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// URL hostnames keep IPv6 addresses in brackets
+const toHost = (hostname: string) => hostname.replace(/^\[(.*)\]$/, '$1');
+
+/**
+ * Whether the proxy will fetch this URL
+ */
+export function isProxyableImageUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+  const host = toHost(parsed.hostname);
+  if (isIP(host) && isBlockedAddress(host)) return false;
+  return ALLOWED_HOSTS.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/**
+ * Refuse hosts that resolve to a blocked address, so an allowed name can't point the proxy inside the network
+ */
+async function checkResolvedHost(url: string): Promise<void> {
+  const host = toHost(new URL(url).hostname);
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  if (addresses.some(isBlockedAddress)) {
+    throw new Error(`${host} resolves to a private or reserved address`);
+  }
+}
+
+/**
+ * Read a response body, giving up as soon as it passes MAX_IMAGE_BYTES
+ */
+async function readLimitedBody(response: Response): Promise<Buffer> {
+  const declared = parseInt(response.headers.get('content-length') || '');
+  if (declared > MAX_IMAGE_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`Image is ${Math.round(declared / 1024 / 1024)}MB, over the 10MB limit`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    total += chunk.value.length;
+    if (total > MAX_IMAGE_BYTES) {
+      await reader.cancel();
+      throw new Error('Image is over the 10MB limit');
+    }
+    chunks.push(chunk.value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Scale an image to fit a cache size (never enlarging it); JPEGs stay JPEG, everything else becomes PNG
+ */
+async function resizeImage(data: Buffer, size: number): Promise<{ contentType: string; data: Buffer }> {
+  try {
+    const image = sharp(data, { limitInputPixels: MAX_IMAGE_PIXELS })
+      .rotate() // Apply EXIF orientation before it's stripped
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true });
+    const { format } = await image.metadata();
+    return format === 'jpeg'
+      ? { contentType: 'image/jpeg', data: await image.jpeg({ quality: 85 }).toBuffer() }
+      : { contentType: 'image/png', data: await image.png().toBuffer() };
+  } catch (error) {
+    throw new Error(`Unreadable image: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function fetchImage(url: string, size: number): Promise<{ contentType: string; data: Buffer }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    // Redirects are followed by hand so every hop is checked like the original URL
+    let target = optimizeImageUrl(url, size, size);
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      await checkResolvedHost(target);
+      response = await fetch(target, { signal: controller.signal, cache: 'no-store', redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel();
+      if (redirects === MAX_REDIRECTS) {
+        throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+      }
+      target = new URL(location, target).toString();
+      if (!isProxyableImageUrl(target)) {
+        throw new Error(`Redirected to ${target}, which isn't an allowed host`);
+      }
+    }
+
+    if (!response.ok) {
+      throw new Error(`Image host returned ${response.status} ${response.statusText}`);
+    }
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.startsWith('image/')) {
+      await response.body?.cancel();
+      throw new Error(`Not an image (${contentType || 'no content type'})`);
+    }
+    return await resizeImage(await readLimitedBody(response), size);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timed out after ${FETCH_TIMEOUT_MS / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Concurrent requests for the same image share one fetch
+const inFlight = new Map<string, Promise<ImageResult | null>>();
+
+/**
+ * Get an image at a cache size, fetching it if it isn't cached or is out of date
+ * Returns null if the image can't be fetched and there is no earlier copy
+ */
+export async function getImage(
+  url: string,
+  requestedSize: number,
+  options: { countHit?: boolean } = {}
+): Promise<ImageResult | null> {
+  const size = toCacheSize(requestedSize);
+  const cached = await getCachedImage(url, size);
+  const age = cached ? Date.now() - cached.fetchedAt.getTime() : Infinity;
+
+  if (cached?.data && (cached.error ? age < FAILURE_RETRY_MS : age < IMAGE_CACHE_MAX_AGE_MS)) {
+    if (options.countHit !== false) await recordImageCacheHit(url, size);
+    return { contentType: cached.contentType || 'image/jpeg', data: cached.data, cache: cached.error ? 'stale' : 'hit' };
+  }
+  if (cached?.error && age < FAILURE_RETRY_MS) {
+    return null;
+  }
+
+  const key = `${size}:${url}`;
+  if (!inFlight.has(key)) {
+    inFlight.set(key, (async (): Promise<ImageResult | null> => {
+      try {
+        const image = await fetchImage(url, size);
+        await saveCachedImage(url, size, image);
+        return { ...image, cache: 'miss' };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn('Error fetching image for cache:', url, message);
+        await recordImageFailure(url, size, message);
+        return cached?.data
+          ? { contentType: cached.contentType || 'image/jpeg', data: cached.data, cache: 'stale' }
+          : null;
+      }
+    })().finally(() => inFlight.delete(key)));
+  }
+  return inFlight.get(key)!;
+}
+
+/**
+ * Image as a data URL, for drawing into server-rendered PDFs
+ */
+export async function getImageDataUrl(url: string, requestedSize: number): Promise<string | null> {
+  if (!isProxyableImageUrl(url)) return null;
+  const image = await getImage(url, requestedSize);
+  return image ? `data:${image.contentType};base64,${image.data.toString('base64')}` : null;
+}
+
+/**
+ * Warm the cache with every image these lines print, at the sizes the slips use
+ * Runs after each order sync; already-cached images are skipped without counting as hits
+ */
+export async function prefetchOrderImages(lines: NetSuiteItem[]): Promise<{ fetched: number; failed: number }> {
+  const jobs = new Map<string, { url: string; size: number }>();
+  const add = (url: string | undefined, sizes: number[]) => {
+    if (!url || !isProxyableImageUrl(url)) return;
+    sizes.forEach(size => jobs.set(`${size}:${url}`, { url, size }));
+  };
+  for (const line of lines) {
+    // Item images print small on thermal labels and 2-up slips, larger on letter slips
+    add(getItemImageUrl(line), IMAGE_CACHE_SIZES);
+    add(line.values['createdFrom.custbody_pir_mockup_url_sales_order'], [toCacheSize(400)]);
+  }
+
+  const queue = Array.from(jobs.values());
+  let fetched = 0;
+  let failed = 0;
+  const worker = async () => {
+    for (let job = queue.shift(); job; job = queue.shift()) {
+      const image = await getImage(job.url, job.size, { countHit: false });
+      if (!image) failed++;
+      else if (image.cache === 'miss') fetched++;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PREFETCH_CONCURRENCY, queue.length) }, worker));
+
+  await deleteUnusedImages(new Date(Date.now() - UNUSED_IMAGE_MAX_AGE_MS));
+  return { fetched, failed };
+}
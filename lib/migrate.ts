@@ -0,0 +1,161 @@
+import type Database from 'better-sqlite3';
+import type { PoolClient } from 'pg';
+import { MIGRATIONS } from './migrations';
+
+/**
+ * Versioned schema migrations
+ * Migrations live in lib/migrations, one file each, listed in order in lib/migrations/index.ts.
+ * Each migration makes the same change for every storage backend. Applied versions are recorded in
+ * schema_migrations; each migration runs in its own transaction.
+ * Run them with `npm run db:migrate`, or set DB_MIGRATE_ON_BOOT=true to run them when the server starts.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  postgres: {
+    up: (client: PoolClient) => Promise<void>;
+    down: (client: PoolClient) => Promise<void>;
+  };
+  sqlite: {
+    up: (db: Database.Database) => void;
+    down: (db: Database.Database) => void;
+  };
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  known: boolean; // False if the database has a version this code doesn't (it was migrated by newer code)
+}
+
+export interface AppliedMigration {
+  name: string;
+  appliedAt: string;
+}
+
+/**
+ * How a storage backend records and runs migrations
+ */
+export interface MigrationDriver {
+  // Applied versions, or none if schema_migrations doesn't exist yet. Creates and locks nothing
+  getApplied: () => Promise<Map<number, AppliedMigration>>;
+  // Run `work` holding the backend's migration lock, with schema_migrations in place
+  withLock: <T>(work: (connection: MigrationConnection) => Promise<T>) => Promise<T>;
+}
+
+export interface MigrationConnection {
+  getApplied: () => Promise<Map<number, AppliedMigration>>;
+  // Run one migration in a transaction, recording (up) or forgetting (down) its version
+  apply: (migration: Migration, direction: 'up' | 'down') => Promise<void>;
+}
+
+// Current time in SQLite, in the same ISO 8601 form as Date.toISOString() so stored times compare as text
+export const SQLITE_NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+/**
+ * Throw if the migration list is out of order or reuses a version
+ */
+function getMigrations(): Migration[] {
+  MIGRATIONS.forEach((migration, index) => {
+    if (index > 0 && migration.version <= MIGRATIONS[index - 1].version) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) is out of order in lib/migrations/index.ts`);
+    }
+  });
+  return MIGRATIONS;
+}
+
+export function getLatestVersion(): number {
+  const migrations = getMigrations();
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+}
+
+/**
+ * Apply pending migrations up to `target` (default: all), oldest first
+ * Returns the migrations that were applied; stops at the first one that fails
+ */
+export async function migrateUp(driver: MigrationDriver, target?: number): Promise<Migration[]> {
+  const migrations = getMigrations();
+  return driver.withLock(async connection => {
+    const applied = await connection.getApplied();
+    const pending = migrations.filter(m => !applied.has(m.version) && (target === undefined || m.version <= target));
+
+    const done: Migration[] = [];
+    for (const migration of pending) {
+      try {
+        await connection.apply(migration, 'up');
+      } catch (error) {
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`);
+      }
+      done.push(migration);
+    }
+    return done;
+  });
+}
+
+/**
+ * Revert applied migrations newer than `target`, newest first
+ * Returns the migrations that were reverted. Refuses if one of them isn't in this code's list
+ */
+export async function migrateDown(driver: MigrationDriver, target: number): Promise<Migration[]> {
+  const migrations = getMigrations();
+  return driver.withLock(async connection => {
+    const applied = await connection.getApplied();
+    const versions = Array.from(applied.keys()).filter(version => version > target).sort((a, b) => b - a);
+
+    const toRevert = versions.map(version => {
+      const migration = migrations.find(m => m.version === version);
+      if (!migration) {
+        throw new Error(`Migration ${version} (${applied.get(version)!.name}) isn't in this version of the app and can't be reverted`);
+      }
+      return migration;
+    });
+
+    const done: Migration[] = [];
+    for (const migration of toRevert) {
+      try {
+        await connection.apply(migration, 'down');
+      } catch (error) {
+        throw new Error(`Reverting migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`);
+      }
+      done.push(migration);
+    }
+    return done;
+  });
+}
+
+/**
+ * Every known or applied migration, oldest first
+ */
+export async function getMigrationStatus(driver: MigrationDriver): Promise<MigrationStatus[]> {
+  const migrations = getMigrations();
+  const applied = await driver.getApplied();
+  const statuses: MigrationStatus[] = migrations.map(m => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: applied.get(m.version)?.appliedAt ?? null,
+    known: true,
+  }));
+  applied.forEach((row, version) => {
+    if (!migrations.some(m => m.version === version)) {
+      statuses.push({ version, name: row.name, appliedAt: row.appliedAt, known: false });
+    }
+  });
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Throw unless every migration has been applied
+ * Doesn't take the lock or create anything, so it's cheap enough to run before a server's first query
+ */
+export async function assertSchemaCurrent(driver: MigrationDriver): Promise<void> {
+  const applied = await driver.getApplied();
+  const pending = getMigrations().filter(m => !applied.has(m.version));
+  if (pending.length > 0) {
+    throw new Error(
+      `Database schema is out of date (${pending.length} pending migration${pending.length !== 1 ? 's' : ''}, ` +
+      `starting with ${pending[0].version} ${pending[0].name}). Run \`npm run db:migrate\` or set DB_MIGRATE_ON_BOOT=true.`
+    );
+  }
+}
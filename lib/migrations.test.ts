@@ -0,0 +1,97 @@
+import { Client } from 'pg';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getLatestVersion, getMigrationStatus, migrateDown, migrateUp } from './migrate';
+import { MIGRATIONS } from './migrations';
+import { postgresStore } from './postgresStore';
+import { canUseTestPostgres, startTestPostgres, TestPostgres } from './testPostgres';
+
+/**
+ * Postgres migrations, run up and down against a throwaway database (see ./testPostgres)
+ */
+
+/**
+ * Tables, columns and indexes in the public schema, to compare before and after a round trip
+ */
+async function describeSchema(client: Client): Promise<string[]> {
+  const columns = await client.query(`
+    SELECT table_name, column_name, data_type, is_nullable, column_default
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+    ORDER BY table_name, column_name
+  `);
+  const indexes = await client.query(`
+    SELECT indexdef FROM pg_indexes WHERE schemaname = 'public' ORDER BY indexname
+  `);
+  return [
+    ...columns.rows.map(row => `${row.table_name}.${row.column_name} ${row.data_type} ${row.is_nullable} ${row.column_default ?? ''}`),
+    ...indexes.rows.map(row => row.indexdef as string),
+  ];
+}
+
+async function listTables(client: Client): Promise<string[]> {
+  const result = await client.query(`
+    SELECT table_name FROM information_schema.tables WHERE table_schema = 'public' ORDER BY table_name
+  `);
+  return result.rows.map(row => row.table_name as string);
+}
+
+describe.skipIf(!canUseTestPostgres)('Postgres migrations', () => {
+  const driver = postgresStore.migrations;
+  let database: TestPostgres;
+  let client: Client;
+
+  beforeAll(async () => {
+    database = await startTestPostgres();
+    vi.stubEnv('POSTGRES_URL', database.url);
+    vi.stubEnv('POSTGRES_URL_NON_POOLING', '');
+    vi.stubEnv('DB_SSL', 'off');
+
+    client = new Client({ connectionString: database.url });
+    await client.connect();
+  }, 120_000);
+
+  afterAll(async () => {
+    await client?.end();
+    await postgresStore.close();
+    await database?.stop();
+    vi.unstubAllEnvs();
+  }, 60_000);
+
+  it('applies every migration to an empty database', async () => {
+    const applied = await migrateUp(driver);
+
+    expect(applied.map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    const status = await getMigrationStatus(driver);
+    expect(status.every(m => m.appliedAt)).toBe(true);
+    expect(await migrateUp(driver)).toEqual([]);
+  });
+
+  it('reverts and reapplies each migration in turn, leaving the schema as it was', async () => {
+    const latest = await describeSchema(client);
+
+    for (const migration of [...MIGRATIONS].reverse()) {
+      const reverted = await migrateDown(driver, migration.version - 1);
+      expect(reverted.map(m => m.version)).toEqual([migration.version]);
+    }
+    for (const migration of MIGRATIONS) {
+      const applied = await migrateUp(driver, migration.version);
+      expect(applied.map(m => m.version)).toEqual([migration.version]);
+    }
+
+    expect(await describeSchema(client)).toEqual(latest);
+  });
+
+  it('reverts everything, leaving only the migrations table', async () => {
+    const reverted = await migrateDown(driver, 0);
+
+    expect(reverted).toHaveLength(getLatestVersion());
+    expect(await listTables(client)).toEqual(['schema_migrations']);
+    expect((await getMigrationStatus(driver)).some(m => m.appliedAt)).toBe(false);
+  });
+
+  it('migrates up again from nothing', async () => {
+    await migrateUp(driver);
+
+    expect((await getMigrationStatus(driver)).every(m => m.appliedAt)).toBe(true);
+  });
+});
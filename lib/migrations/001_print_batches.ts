@@ -0,0 +1,68 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * Print batches and the orders in each, with the snapshot and settings they were printed with
+ */
+const migration: Migration = {
+  version: 1,
+  name: 'print_batches',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS print_batches (
+          id SERIAL PRIMARY KEY,
+          created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          document_type TEXT NOT NULL,
+          printed_by TEXT,
+          order_count INTEGER NOT NULL,
+          filters JSONB
+        )
+      `);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS print_batch_orders (
+          batch_id INTEGER NOT NULL REFERENCES print_batches(id) ON DELETE CASCADE,
+          tranid TEXT NOT NULL,
+          order_number TEXT,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (batch_id, tranid)
+        )
+      `);
+      await client.query(`ALTER TABLE print_batches ADD COLUMN IF NOT EXISTS orders_snapshot JSONB`);
+      await client.query(`ALTER TABLE print_batches ADD COLUMN IF NOT EXISTS page_profile TEXT`);
+      await client.query(`ALTER TABLE print_batches ADD COLUMN IF NOT EXISTS pack_size_version INTEGER`);
+    },
+    async down(client) {
+      await client.query('DROP TABLE IF EXISTS print_batch_orders');
+      await client.query('DROP TABLE IF EXISTS print_batches');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE print_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          document_type TEXT NOT NULL,
+          printed_by TEXT,
+          order_count INTEGER NOT NULL,
+          filters TEXT,
+          orders_snapshot TEXT,
+          page_profile TEXT,
+          pack_size_version INTEGER
+        );
+        CREATE TABLE print_batch_orders (
+          batch_id INTEGER NOT NULL REFERENCES print_batches(id) ON DELETE CASCADE,
+          tranid TEXT NOT NULL,
+          order_number TEXT,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (batch_id, tranid)
+        );
+      `);
+    },
+    down(db) {
+      db.exec('DROP TABLE print_batch_orders; DROP TABLE print_batches;');
+    },
+  },
+};
+
+export default migration;
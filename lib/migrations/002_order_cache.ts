@@ -0,0 +1,56 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * Synced order lines, and when the last sync ran or failed
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'order_cache',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS order_cache (
+          tranid TEXT PRIMARY KEY,
+          lines JSONB NOT NULL,
+          synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS order_sync_state (
+          id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+          last_synced_at TIMESTAMP WITH TIME ZONE,
+          last_full_sync_at TIMESTAMP WITH TIME ZONE,
+          last_error TEXT,
+          last_error_at TIMESTAMP WITH TIME ZONE
+        )
+      `);
+    },
+    async down(client) {
+      await client.query('DROP TABLE IF EXISTS order_sync_state');
+      await client.query('DROP TABLE IF EXISTS order_cache');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE order_cache (
+          tranid TEXT PRIMARY KEY,
+          lines TEXT NOT NULL,
+          synced_at TEXT NOT NULL DEFAULT (${SQLITE_NOW})
+        );
+        CREATE TABLE order_sync_state (
+          id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+          last_synced_at TEXT,
+          last_full_sync_at TEXT,
+          last_error TEXT,
+          last_error_at TEXT
+        );
+      `);
+    },
+    down(db) {
+      db.exec('DROP TABLE order_sync_state; DROP TABLE order_cache;');
+    },
+  },
+};
+
+export default migration;
@@ -0,0 +1,51 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * Printed-status updates waiting to be written back to NetSuite
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'writeback_queue',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS netsuite_writeback_queue (
+          tranid TEXT PRIMARY KEY,
+          batch_id INTEGER,
+          printed_at TIMESTAMP WITH TIME ZONE,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          queued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+        )
+      `);
+    },
+    async down(client) {
+      await client.query('DROP TABLE IF EXISTS netsuite_writeback_queue');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE netsuite_writeback_queue (
+          tranid TEXT PRIMARY KEY,
+          batch_id INTEGER,
+          printed_at TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          queued_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          next_attempt_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          updated_at TEXT NOT NULL DEFAULT (${SQLITE_NOW})
+        )
+      `);
+    },
+    down(db) {
+      db.exec('DROP TABLE netsuite_writeback_queue');
+    },
+  },
+};
+
+export default migration;
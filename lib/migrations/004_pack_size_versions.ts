@@ -0,0 +1,43 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * Every saved version of the pack size configuration
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'pack_size_versions',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS pack_size_versions (
+          version SERIAL PRIMARY KEY,
+          config JSONB NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          created_by TEXT,
+          note TEXT
+        )
+      `);
+    },
+    async down(client) {
+      await client.query('DROP TABLE IF EXISTS pack_size_versions');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE pack_size_versions (
+          version INTEGER PRIMARY KEY AUTOINCREMENT,
+          config TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          created_by TEXT,
+          note TEXT
+        )
+      `);
+    },
+    down(db) {
+      db.exec('DROP TABLE pack_size_versions');
+    },
+  },
+};
+
+export default migration;
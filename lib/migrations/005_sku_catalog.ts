@@ -0,0 +1,73 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+import { BUILT_IN_CATALOG } from '../skuCatalog';
+
+/**
+ * The SKU catalog, started with the cups the app has always recognized
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'sku_catalog',
+  postgres: {
+    async up(client) {
+      const catalogExists = await client.query(`SELECT to_regclass('sku_catalog') IS NOT NULL AS exists`);
+      if (catalogExists.rows[0].exists) return;
+
+      await client.query(`
+        CREATE TABLE sku_catalog (
+          id SERIAL PRIMARY KEY,
+          prefix TEXT NOT NULL,
+          pattern TEXT,
+          family TEXT NOT NULL,
+          size TEXT,
+          slot_weight NUMERIC NOT NULL DEFAULT 1,
+          personalized BOOLEAN,
+          created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+        )
+      `);
+      for (const entry of BUILT_IN_CATALOG) {
+        await client.query(
+          `INSERT INTO sku_catalog (prefix, pattern, family, size, slot_weight, personalized)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [entry.prefix, entry.pattern, entry.family, entry.size, entry.slotWeight, entry.personalized]
+        );
+      }
+    },
+    async down(client) {
+      await client.query('DROP TABLE IF EXISTS sku_catalog');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE sku_catalog (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          prefix TEXT NOT NULL,
+          pattern TEXT,
+          family TEXT NOT NULL,
+          size TEXT,
+          slot_weight REAL NOT NULL DEFAULT 1,
+          personalized INTEGER,
+          created_at TEXT NOT NULL DEFAULT (${SQLITE_NOW})
+        )
+      `);
+      const insert = db.prepare(
+        `INSERT INTO sku_catalog (prefix, pattern, family, size, slot_weight, personalized) VALUES (?, ?, ?, ?, ?, ?)`
+      );
+      for (const entry of BUILT_IN_CATALOG) {
+        insert.run(
+          entry.prefix,
+          entry.pattern,
+          entry.family,
+          entry.size,
+          entry.slotWeight,
+          entry.personalized === null ? null : Number(entry.personalized)
+        );
+      }
+    },
+    down(db) {
+      db.exec('DROP TABLE sku_catalog');
+    },
+  },
+};
+
+export default migration;
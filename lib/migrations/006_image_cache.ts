@@ -0,0 +1,55 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * Resized product and artwork images served by /api/images
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'image_cache',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS image_cache (
+          url TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          content_type TEXT,
+          data BYTEA,
+          error TEXT,
+          failures INTEGER NOT NULL DEFAULT 0,
+          hits INTEGER NOT NULL DEFAULT 0,
+          fetches INTEGER NOT NULL DEFAULT 0,
+          fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (url, size)
+        )
+      `);
+    },
+    async down(client) {
+      await client.query('DROP TABLE IF EXISTS image_cache');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE image_cache (
+          url TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          content_type TEXT,
+          data BLOB,
+          error TEXT,
+          failures INTEGER NOT NULL DEFAULT 0,
+          hits INTEGER NOT NULL DEFAULT 0,
+          fetches INTEGER NOT NULL DEFAULT 0,
+          fetched_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          last_used_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          PRIMARY KEY (url, size)
+        )
+      `);
+    },
+    down(db) {
+      db.exec('DROP TABLE image_cache');
+    },
+  },
+};
+
+export default migration;
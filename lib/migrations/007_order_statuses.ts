@@ -0,0 +1,105 @@
+import type { PoolClient } from 'pg';
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * Each order's lifecycle status and the history of moves between them
+ * On Postgres, carries printed (and pack station) state over from the tables statuses replaced; they're left in place
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'order_statuses',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS order_status_events (
+          id SERIAL PRIMARY KEY,
+          tranid TEXT NOT NULL,
+          from_status TEXT NOT NULL,
+          status TEXT NOT NULL,
+          changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          changed_by TEXT,
+          note TEXT
+        )
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS order_status_events_tranid ON order_status_events (tranid, changed_at)
+      `);
+
+      const statusesExist = await client.query(`SELECT to_regclass('order_statuses') IS NOT NULL AS exists`);
+      if (statusesExist.rows[0].exists) return;
+
+      await client.query(`
+        CREATE TABLE order_statuses (
+          tranid TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          changed_by TEXT
+        )
+      `);
+      await copyLegacyStatuses(client);
+    },
+    async down(client) {
+      await client.query('DROP TABLE IF EXISTS order_statuses');
+      await client.query('DROP TABLE IF EXISTS order_status_events');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE order_status_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tranid TEXT NOT NULL,
+          from_status TEXT NOT NULL,
+          status TEXT NOT NULL,
+          changed_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          changed_by TEXT,
+          note TEXT
+        );
+        CREATE INDEX order_status_events_tranid ON order_status_events (tranid, changed_at);
+        CREATE TABLE order_statuses (
+          tranid TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          changed_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          changed_by TEXT
+        );
+      `);
+    },
+    down(db) {
+      db.exec('DROP TABLE order_statuses; DROP TABLE order_status_events;');
+    },
+  },
+};
+
+/**
+ * Copy printed_orders and packed_orders into order_statuses, with a history event for each
+ */
+async function copyLegacyStatuses(client: PoolClient): Promise<void> {
+  const legacy = await client.query(
+    `SELECT to_regclass('printed_orders') IS NOT NULL AS printed, to_regclass('packed_orders') IS NOT NULL AS packed`
+  );
+  if (legacy.rows[0].printed) {
+    await client.query(`
+      INSERT INTO order_statuses (tranid, status, changed_at)
+      SELECT tranid, 'printed', printed_at FROM printed_orders
+      ON CONFLICT (tranid) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO order_status_events (tranid, from_status, status, changed_at, note)
+      SELECT tranid, 'new', 'printed', printed_at, 'Migrated from printed_orders' FROM printed_orders
+    `);
+  }
+  if (legacy.rows[0].packed) {
+    await client.query(`
+      INSERT INTO order_status_events (tranid, from_status, status, changed_at, changed_by, note)
+      SELECT p.tranid, COALESCE(s.status, 'new'), 'packed', p.packed_at, p.packed_by, 'Migrated from packed_orders'
+      FROM packed_orders p LEFT JOIN order_statuses s ON s.tranid = p.tranid
+    `);
+    await client.query(`
+      INSERT INTO order_statuses (tranid, status, changed_at, changed_by)
+      SELECT tranid, 'packed', packed_at, packed_by FROM packed_orders
+      ON CONFLICT (tranid) DO UPDATE SET status = 'packed', changed_at = EXCLUDED.changed_at, changed_by = EXCLUDED.changed_by
+    `);
+  }
+}
+
+export default migration;
@@ -0,0 +1,79 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * Who marked, cleared and reprinted what
+ * The log refuses updates and deletes, so a record of who cleared what can't be rewritten
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'print_audit_log',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS print_audit_log (
+          id SERIAL PRIMARY KEY,
+          created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          action TEXT NOT NULL,
+          actor TEXT,
+          source TEXT NOT NULL,
+          tranids TEXT[] NOT NULL,
+          details JSONB
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS print_audit_log_tranids ON print_audit_log USING GIN (tranids)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS print_audit_log_actor ON print_audit_log (actor, id)`);
+      await client.query(`
+        CREATE OR REPLACE FUNCTION print_audit_log_append_only() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'print_audit_log is append-only';
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'print_audit_log_no_change') THEN
+            CREATE TRIGGER print_audit_log_no_change BEFORE UPDATE OR DELETE ON print_audit_log
+              FOR EACH ROW EXECUTE FUNCTION print_audit_log_append_only();
+          END IF;
+          IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'print_audit_log_no_truncate') THEN
+            CREATE TRIGGER print_audit_log_no_truncate BEFORE TRUNCATE ON print_audit_log
+              FOR EACH STATEMENT EXECUTE FUNCTION print_audit_log_append_only();
+          END IF;
+        END
+        $$
+      `);
+    },
+    async down(client) {
+      // Dropping the table isn't blocked by its triggers, and takes them with it
+      await client.query('DROP TABLE IF EXISTS print_audit_log');
+      await client.query('DROP FUNCTION IF EXISTS print_audit_log_append_only()');
+    },
+  },
+  sqlite: {
+    // tranids is a JSON array. SQLite has no TRUNCATE, so updates and deletes are all there is to refuse
+    up(db) {
+      db.exec(`
+        CREATE TABLE print_audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          action TEXT NOT NULL,
+          actor TEXT,
+          source TEXT NOT NULL,
+          tranids TEXT NOT NULL,
+          details TEXT
+        );
+        CREATE INDEX print_audit_log_actor ON print_audit_log (actor, id);
+        CREATE TRIGGER print_audit_log_no_update BEFORE UPDATE ON print_audit_log
+          BEGIN SELECT RAISE(ABORT, 'print_audit_log is append-only'); END;
+        CREATE TRIGGER print_audit_log_no_delete BEFORE DELETE ON print_audit_log
+          BEGIN SELECT RAISE(ABORT, 'print_audit_log is append-only'); END;
+      `);
+    },
+    down(db) {
+      db.exec('DROP TABLE print_audit_log');
+    },
+  },
+};
+
+export default migration;
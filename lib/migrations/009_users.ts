@@ -0,0 +1,51 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * People who can sign in, with their role and (for password sign-in) a scrypt hash
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'users',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS users (
+          id SERIAL PRIMARY KEY,
+          username TEXT NOT NULL UNIQUE,
+          display_name TEXT,
+          role TEXT NOT NULL,
+          provider TEXT NOT NULL DEFAULT 'local',
+          password_hash TEXT,
+          disabled BOOLEAN NOT NULL DEFAULT FALSE,
+          created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+          last_login_at TIMESTAMP WITH TIME ZONE
+        )
+      `);
+    },
+    async down(client) {
+      await client.query('DROP TABLE IF EXISTS users');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE,
+          display_name TEXT,
+          role TEXT NOT NULL,
+          provider TEXT NOT NULL DEFAULT 'local',
+          password_hash TEXT,
+          disabled INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+          last_login_at TEXT
+        )
+      `);
+    },
+    down(db) {
+      db.exec('DROP TABLE users');
+    },
+  },
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import { Migration, SQLITE_NOW } from '../migrate';
+
+/**
+ * Statuses of orders that left the backlog long ago, moved out of order_statuses to keep it small
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'order_status_archive',
+  postgres: {
+    async up(client) {
+      await client.query(`
+        CREATE TABLE order_status_archive (
+          tranid TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          changed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+          changed_by TEXT,
+          archived_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query('CREATE INDEX order_statuses_changed_at ON order_statuses (changed_at)');
+    },
+    async down(client) {
+      await client.query('DROP INDEX order_statuses_changed_at');
+      await client.query('DROP TABLE order_status_archive');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec(`
+        CREATE TABLE order_status_archive (
+          tranid TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          changed_at TEXT NOT NULL,
+          changed_by TEXT,
+          archived_at TEXT NOT NULL DEFAULT (${SQLITE_NOW})
+        );
+        CREATE INDEX order_statuses_changed_at ON order_statuses (changed_at);
+      `);
+    },
+    down(db) {
+      db.exec('DROP INDEX order_statuses_changed_at; DROP TABLE order_status_archive;');
+    },
+  },
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import { Migration } from '../migrate';
+
+/**
+ * How each print batch was output (PDF, ZPL file or ZPL to the printer), so a reprint comes out the same way
+ * Older batches have none and are reprinted as PDFs
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'print_batch_output_format',
+  postgres: {
+    async up(client) {
+      await client.query('ALTER TABLE print_batches ADD COLUMN output_format TEXT');
+    },
+    async down(client) {
+      await client.query('ALTER TABLE print_batches DROP COLUMN output_format');
+    },
+  },
+  sqlite: {
+    up(db) {
+      db.exec('ALTER TABLE print_batches ADD COLUMN output_format TEXT');
+    },
+    down(db) {
+      db.exec('ALTER TABLE print_batches DROP COLUMN output_format');
+    },
+  },
+};
+
+export default migration;
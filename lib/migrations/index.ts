@@ -0,0 +1,31 @@
+import { Migration } from '../migrate';
+import printBatches from './001_print_batches';
+import orderCache from './002_order_cache';
+import writebackQueue from './003_writeback_queue';
+import packSizeVersions from './004_pack_size_versions';
+import skuCatalog from './005_sku_catalog';
+import imageCache from './006_image_cache';
+import orderStatuses from './007_order_statuses';
+import printAuditLog from './008_print_audit_log';
+import users from './009_users';
+import orderStatusArchive from './010_order_status_archive';
+import printBatchOutputFormat from './011_print_batch_output_format';
+
+/**
+ * Every migration, oldest first. Add new ones to the end with the next version number.
+ * 1-9 create the schema the app built for itself before migrations existed. On Postgres they only create
+ * what's missing, so a database from then is adopted as-is; later migrations can assume they've run.
+ */
+export const MIGRATIONS: Migration[] = [
+  printBatches,
+  orderCache,
+  writebackQueue,
+  packSizeVersions,
+  skuCatalog,
+  imageCache,
+  orderStatuses,
+  printAuditLog,
+  users,
+  orderStatusArchive,
+  printBatchOutputFormat,
+];
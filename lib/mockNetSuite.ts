@@ -0,0 +1,336 @@
+import fs from 'fs';
+import path from 'path';
+import { NetSuiteItem } from './types';
+
+/**
+ * Fake NetSuite for development and automated tests (server-only)
+ * Enabled with NETSUITE_MODE=mock. Stands in for fetch() inside the NetSuite client,
+ * so paging, retries and error handling run exactly as they do against the real RESTlet.
+ *
+ * Orders come from NETSUITE_MOCK_FIXTURE (a saved RESTlet response) if set, otherwise
+ * they are generated from NETSUITE_MOCK_SCENARIOS with a fixed seed so every run is the same.
+ */
+
+export type MockScenario = 'singles' | 'multi-size' | 'kits' | 'missing-zip' | 'ltl';
+
+export const MOCK_SCENARIOS: MockScenario[] = ['singles', 'multi-size', 'kits', 'missing-zip', 'ltl'];
+
+const MOCK_ORDER_COUNT = parseInt(process.env.NETSUITE_MOCK_ORDERS || '60');
+const MOCK_LATENCY_MS = parseInt(process.env.NETSUITE_MOCK_LATENCY_MS || '0');
+// Fraction of requests answered with a 429 or 503, for exercising retries
+const MOCK_FAILURE_RATE = parseFloat(process.env.NETSUITE_MOCK_FAILURE_RATE || '0');
+
+export function isMockNetSuite(): boolean {
+  return process.env.NETSUITE_MODE === 'mock';
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so generated scenarios are reproducible
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T,>(values: T[]): T => values[Math.floor(next() * values.length)],
+  };
+}
+
+const CUSTOMERS = ['Avery Johnson', 'Jordan Lee', 'Sam Patel', 'Riley Chen', 'Morgan Garcia', 'Casey Smith', 'Taylor Brooks', 'Quinn Rivera'];
+const STREETS = ['123 Main St', '45 Oak Ave', '7890 Sunset Blvd', '12 Harbor Way', '300 Pine Rd Apt 4B', '88 Elm Ct'];
+const CITIES = [
+  { city: 'Austin', state: 'TX', zip: '78701' },
+  { city: 'New York', state: 'NY', zip: '10001' },
+  { city: 'Chicago', state: 'IL', zip: '60601' },
+  { city: 'San Francisco', state: 'CA', zip: '94103' },
+  { city: 'Seattle', state: 'WA', zip: '98101' },
+  { city: 'Miami', state: 'FL', zip: '33101' },
+  { city: 'Denver', state: 'CO', zip: '80202' },
+  { city: 'Boston', state: 'MA', zip: '02108' },
+];
+const COLORS = [
+  { code: 'BLK', name: 'Black' },
+  { code: 'WHT', name: 'White' },
+  { code: 'NAV', name: 'Navy' },
+  { code: 'SGE', name: 'Sage' },
+];
+const CUP_SIZES = ['10', '16', '26'];
+const SHIP_METHODS = ['UPS Ground', 'USPS Priority Mail', 'FedEx Home Delivery'];
+const LTL_SHIP_METHODS = ['LTL Freight', 'Local Pickup'];
+
+interface MockLine {
+  sku: string;
+  quantity: number;
+  color?: string;
+  size?: string;
+  type?: 'Kit' | 'InvtPart';
+}
+
+interface MockOrder {
+  lines: MockLine[];
+  personalized: boolean;
+  shipmethod?: string;
+  dropZip?: boolean;
+}
+
+/**
+ * Build the order shapes for one scenario
+ */
+function generateScenarioOrder(scenario: MockScenario, random: ReturnType<typeof createRandom>): MockOrder {
+  const personalized = random.next() < 0.6;
+  const suffix = personalized ? '-PERS' : '';
+  const cupLine = (size: string, quantity: number = 1): MockLine => {
+    const color = random.pick(COLORS);
+    return { sku: `DPT${size}-${color.code}${suffix}`, quantity, color: color.name, size: `${size}oz` };
+  };
+
+  switch (scenario) {
+    case 'singles':
+      return { lines: [cupLine(random.pick(CUP_SIZES))], personalized };
+    case 'multi-size': {
+      // Mix of sizes; some match a configured pack size, some don't
+      const lines: MockLine[] = [];
+      const count = random.int(2, 4);
+      for (let i = 0; i < count; i++) {
+        lines.push(cupLine(random.pick(CUP_SIZES), random.int(1, 2)));
+      }
+      if (random.next() < 0.3) {
+        lines.push({ sku: 'ACC-STRAW-4PK', quantity: 1 });
+      }
+      return { lines, personalized };
+    }
+    case 'kits': {
+      // NetSuite sends the Kit line followed by the inventory lines that make it up
+      const size = random.pick(CUP_SIZES);
+      const color = random.pick(COLORS);
+      const baseSku = `DPT${size}-${color.code}-GIFT`;
+      return {
+        lines: [
+          { sku: `${baseSku}${suffix}`, quantity: 2, color: color.name, size: `${size}oz`, type: 'Kit' },
+          { sku: baseSku, quantity: 2, color: color.name, size: `${size}oz`, type: 'InvtPart' },
+        ],
+        personalized,
+      };
+    }
+    case 'missing-zip':
+      return { lines: [cupLine(random.pick(CUP_SIZES))], personalized, dropZip: true };
+    case 'ltl': {
+      const size = random.pick(CUP_SIZES);
+      return { lines: [cupLine(size, random.int(24, 96))], personalized, shipmethod: random.pick(LTL_SHIP_METHODS) };
+    }
+  }
+}
+
+/**
+ * Turn generated orders into RESTlet lines
+ */
+function generateOrderLines(scenarios: MockScenario[], orderCount: number): NetSuiteItem[] {
+  const random = createRandom(20251202);
+  const items: NetSuiteItem[] = [];
+  const baseDate = new Date(2025, 11, 1);
+
+  for (let i = 0; i < orderCount; i++) {
+    const order = generateScenarioOrder(scenarios[i % scenarios.length], random);
+    const number = 10001 + i;
+    const location = random.pick(CITIES);
+    const orderDate = new Date(baseDate.getTime() - random.int(0, 10) * 24 * 60 * 60 * 1000);
+    const dateText = `${orderDate.getMonth() + 1}/${orderDate.getDate()}/${orderDate.getFullYear()}`;
+    const shipaddress = [
+      random.pick(CUSTOMERS),
+      random.pick(STREETS),
+      order.dropZip ? `${location.city} ${location.state}` : `${location.city} ${location.state} ${location.zip}`,
+      'United States',
+    ].join('\r\n');
+    const shipmethod = order.shipmethod || random.pick(SHIP_METHODS);
+
+    order.lines.forEach((line, lineIndex) => {
+      items.push({
+        recordType: 'itemfulfillment',
+        id: String(500000 + i),
+        values: {
+          datecreated: `${dateText} 9:${String(10 + (i % 50)).padStart(2, '0')} am`,
+          'createdFrom.tranid': `SO${number}`,
+          'createdFrom.custbody_pir_shop_order_date': dateText,
+          'createdFrom.otherrefnum': `PO-${number}`,
+          'createdFrom.otherrefnum_1': `#${number}`,
+          tranid: `IF${number}`,
+          item: [{ value: String(1000 + lineIndex), text: line.sku }],
+          'item.custitem_item_color': line.color,
+          'item.custitem_item_size': line.size,
+          'item.custitem_pir_pick_location': `${String.fromCharCode(65 + (line.sku.length % 4))}-${String(1 + (line.sku.charCodeAt(3) % 12)).padStart(2, '0')}`,
+          custcol_customization_barcode: order.personalized && line.type !== 'InvtPart'
+            ? `P${number}${String(lineIndex + 1).padStart(2, '0')}`
+            : undefined,
+          name: [{ value: String(9000 + i), text: shipaddress.split('\r\n')[0] }],
+          quantity: String(line.quantity),
+          shipaddress,
+          custbody_pir_pers_order: order.personalized,
+          shipmethod: [{ value: String(SHIP_METHODS.indexOf(shipmethod) + 1), text: shipmethod }],
+          custbody_pir_shipstation_ordid: `${number}^#^${500000 + i}`,
+          'item.type': [{ value: line.type || 'InvtPart', text: line.type === 'Kit' ? 'Kit/Package' : 'Inventory Item' }],
+          'createdFrom.memo': i % 9 === 0 ? 'Gift - no prices in box' : undefined,
+        },
+      });
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Load order lines from a fixture file
+ * Accepts a RESTlet response ({ data: [...] }), a bare array of lines, or a Postman console
+ * export whose "Response Body" holds the RESTlet response
+ */
+function loadFixture(fixturePath: string): NetSuiteItem[] {
+  const resolved = path.resolve(process.cwd(), fixturePath);
+  let text = fs.readFileSync(resolved, 'utf8');
+
+  // Postman console exports start with "GET <url>: " before the JSON
+  const postmanPrefix = text.match(/^[A-Z]+ https?:\/\/\S+: /);
+  if (postmanPrefix) {
+    text = text.substring(postmanPrefix[0].length);
+  }
+
+  const parsed: unknown = JSON.parse(text);
+  if (Array.isArray(parsed)) return parsed;
+  const lines = getResponseLines(parsed);
+  if (lines) return lines;
+
+  const body = isObject(parsed) ? parsed['Response Body'] : undefined;
+  if (body !== undefined) {
+    const responseLines = getResponseLines(typeof body === 'string' ? tryParseJson(body) : body);
+    if (responseLines) return responseLines;
+    throw new Error(
+      `${fixturePath} is a Postman console export without the response body (Postman truncates bodies over 10 KB). ` +
+      'Save the full response with "Open" in the Postman console and point NETSUITE_MOCK_FIXTURE at that file.'
+    );
+  }
+
+  throw new Error(`${fixturePath} does not contain RESTlet order lines`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * The order lines in a RESTlet response ({ data: [...] }), or null if it isn't one
+ */
+function getResponseLines(response: unknown): NetSuiteItem[] | null {
+  return isObject(response) && Array.isArray(response.data) ? response.data : null;
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// Generated once per server instance; `since` syncs after this see no changes
+let mockLines: NetSuiteItem[] | null = null;
+let mockLinesLoadedAt = new Date();
+
+// Custom body fields written by the write-back, keyed by fulfillment internal id
+const mockFulfillmentFields = new Map<string, Record<string, unknown>>();
+
+function getMockLines(): NetSuiteItem[] {
+  if (!mockLines) {
+    const fixture = process.env.NETSUITE_MOCK_FIXTURE;
+    if (fixture) {
+      mockLines = loadFixture(fixture);
+    } else {
+      const requested = (process.env.NETSUITE_MOCK_SCENARIOS || MOCK_SCENARIOS.join(','))
+        .split(',')
+        .map(s => s.trim())
+        .filter((s): s is MockScenario => MOCK_SCENARIOS.includes(s as MockScenario));
+      mockLines = generateOrderLines(requested.length > 0 ? requested : MOCK_SCENARIOS, MOCK_ORDER_COUNT);
+    }
+    mockLinesLoadedAt = new Date();
+  }
+  return mockLines;
+}
+
+function jsonResponse(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Answer a NetSuite request the way the RESTlet / REST record API would
+ * Drop-in replacement for fetch() in the NetSuite client
+ */
+export async function mockNetSuiteFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  if (MOCK_LATENCY_MS > 0) {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+      init.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('The operation was aborted'));
+      }, { once: true });
+    });
+  }
+
+  if (MOCK_FAILURE_RATE > 0 && Math.random() < MOCK_FAILURE_RATE) {
+    return Math.random() < 0.5
+      ? jsonResponse({ error: { code: 'SSS_REQUEST_LIMIT_EXCEEDED', message: 'Mock concurrency limit' } }, 429, { 'Retry-After': '2' })
+      : jsonResponse({ error: { code: 'UNEXPECTED_ERROR', message: 'Mock server error' } }, 503);
+  }
+
+  const parsedUrl = new URL(url);
+  const method = (init.method || 'GET').toUpperCase();
+
+  // REST record update from the printed-status write-back
+  const recordMatch = parsedUrl.pathname.match(/\/record\/v1\/itemFulfillment\/([^/]+)$/);
+  if (recordMatch) {
+    if (method !== 'PATCH') {
+      return jsonResponse({ error: { code: 'INVALID_REQUEST', message: `Mock only supports PATCH, got ${method}` } }, 405);
+    }
+    const internalId = recordMatch[1];
+    if (!getMockLines().some(line => line.id === internalId)) {
+      return jsonResponse({ error: { code: 'RCRD_DSNT_EXIST', message: `Item fulfillment ${internalId} not found` } }, 404);
+    }
+    const fields = typeof init.body === 'string' ? JSON.parse(init.body) : {};
+    mockFulfillmentFields.set(internalId, { ...mockFulfillmentFields.get(internalId), ...fields });
+    return new Response(null, { status: 204 });
+  }
+
+  // RESTlet order lines, paged like the real RESTlet
+  let lines: NetSuiteItem[];
+  try {
+    lines = getMockLines();
+  } catch (error) {
+    return jsonResponse({ error: { code: 'MOCK_FIXTURE_ERROR', message: error instanceof Error ? error.message : String(error) } }, 400);
+  }
+  const since = parsedUrl.searchParams.get('since');
+  if (since && new Date(since) > mockLinesLoadedAt) {
+    lines = [];
+  }
+
+  const pageSize = Math.max(1, parseInt(parsedUrl.searchParams.get('pageSize') || '') || lines.length || 1);
+  const page = Math.max(1, parseInt(parsedUrl.searchParams.get('page') || '') || 1);
+  const pageCount = Math.max(1, Math.ceil(lines.length / pageSize));
+  return jsonResponse({
+    data: lines.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageCount,
+    totalCount: lines.length,
+  });
+}
+
+/**
+ * Fields written to mock fulfillments so far (for checking write-back in tests)
+ */
+export function getMockFulfillmentFields(internalId: string): Record<string, unknown> | undefined {
+  return mockFulfillmentFields.get(internalId);
+}
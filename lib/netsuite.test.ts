@@ -0,0 +1,276 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NetSuiteError } from './netsuite';
+import type { NetSuiteItem } from './types';
+
+/**
+ * Retries, timeouts and paging of the NetSuite client, against a fake RESTlet on a local port
+ */
+
+type Reply = (url: URL, response: http.ServerResponse) => void;
+
+let reply: Reply;
+let requests: URL[] = [];
+let server: http.Server;
+let restletUrl: string;
+let netsuite: typeof import('./netsuite');
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+function lines(page: number, count: number): NetSuiteItem[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `${page}-${i + 1}` }) as unknown as NetSuiteItem);
+}
+
+// The NetSuiteError a request fails with
+async function rejection(request: Promise<unknown>): Promise<NetSuiteError> {
+  const error = await request.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(netsuite.NetSuiteError);
+  return error as NetSuiteError;
+}
+
+// Answer with `replies` in turn, repeating the last one
+function replyInTurn(...replies: Reply[]): void {
+  let next = 0;
+  reply = (url, response) => replies[Math.min(next++, replies.length - 1)](url, response);
+}
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    const url = new URL(request.url!, 'http://127.0.0.1');
+    requests.push(url);
+    reply(url, response);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  restletUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/restlet?script=1&deploy=1`;
+
+  // The client reads its settings when it's loaded
+  vi.stubEnv('NETSUITE_MODE', 'live');
+  vi.stubEnv('NETSUITE_RESTLET_URL', restletUrl);
+  vi.stubEnv('NETSUITE_OAUTH_CONSUMER_KEY', 'consumer-key');
+  vi.stubEnv('NETSUITE_OAUTH_CONSUMER_SECRET', 'consumer-secret');
+  vi.stubEnv('NETSUITE_OAUTH_TOKEN', 'token');
+  vi.stubEnv('NETSUITE_OAUTH_TOKEN_SECRET', 'token-secret');
+  vi.stubEnv('NETSUITE_TIMEOUT_MS', '300');
+  vi.stubEnv('NETSUITE_MAX_RETRIES', '2');
+  vi.stubEnv('NETSUITE_PAGE_SIZE', '2');
+  vi.stubEnv('NETSUITE_PAGE_CONCURRENCY', '2');
+  netsuite = await import('./netsuite');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  // No jitter: backoff waits the shortest time it can
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('netsuiteRequest', () => {
+  it('retries server errors and returns the first good response', async () => {
+    replyInTurn(
+      (_, response) => sendJson(response, 503, { error: { code: 'UNAVAILABLE' } }),
+      (_, response) => sendJson(response, 200, { ok: true }),
+    );
+    const onRetry = vi.fn();
+
+    await expect(netsuite.netsuiteRequest(restletUrl, { onRetry })).resolves.toEqual({ ok: true });
+    expect(requests).toHaveLength(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({ attempt: 1, delayMs: 500 });
+    expect(onRetry.mock.calls[0][0].error.kind).toBe('server');
+  });
+
+  it('waits as long as Retry-After asks on a 429', async () => {
+    replyInTurn(
+      (_, response) => sendJson(response, 429, {}, { 'Retry-After': '0' }),
+      (_, response) => sendJson(response, 200, { ok: true }),
+    );
+    const onRetry = vi.fn();
+
+    await netsuite.netsuiteRequest(restletUrl, { onRetry });
+    expect(onRetry.mock.calls[0][0].error.kind).toBe('rate-limited');
+    expect(onRetry.mock.calls[0][0].delayMs).toBe(0);
+  });
+
+  it('retries concurrency limits reported in a 200 body', async () => {
+    replyInTurn(
+      (_, response) => sendJson(response, 200, { error: { code: 'SSS_REQUEST_LIMIT_EXCEEDED', message: 'Too many' } }),
+      (_, response) => sendJson(response, 200, { data: [] }),
+    );
+
+    await expect(netsuite.netsuiteRequest(restletUrl)).resolves.toEqual({ data: [] });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('backs off exponentially and gives up after the last retry', async () => {
+    replyInTurn((_, response) => sendJson(response, 500, {}));
+    const onRetry = vi.fn();
+
+    const error = await rejection(netsuite.netsuiteRequest(restletUrl, { maxRetries: 2, onRetry }));
+    expect(error.kind).toBe('server');
+    expect(error.status).toBe(500);
+    expect(requests).toHaveLength(3);
+    expect(onRetry.mock.calls.map(call => call[0].delayMs)).toEqual([500, 1000]);
+  });
+
+  it.each([
+    [400, 'request'],
+    [401, 'auth'],
+    [403, 'auth'],
+  ])("doesn't retry a %i", async (status, kind) => {
+    replyInTurn((_, response) => sendJson(response, status, { error: { code: 'NOPE' } }));
+
+    const error = await rejection(netsuite.netsuiteRequest(restletUrl));
+    expect(error.kind).toBe(kind);
+    expect(error.code).toBe('NOPE');
+    expect(error.retryable).toBe(false);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('times out a slow attempt and retries it', async () => {
+    replyInTurn(
+      (_, response) => setTimeout(() => sendJson(response, 200, { late: true }), 1000),
+      (_, response) => sendJson(response, 200, { ok: true }),
+    );
+    const onRetry = vi.fn();
+
+    await expect(netsuite.netsuiteRequest(restletUrl, { onRetry })).resolves.toEqual({ ok: true });
+    expect(onRetry.mock.calls[0][0].error.kind).toBe('timeout');
+  });
+
+  it("doesn't retry a response that isn't JSON", async () => {
+    replyInTurn((_, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/html' });
+      response.end('<html>Login</html>');
+    });
+
+    const error = await rejection(netsuite.netsuiteRequest(restletUrl));
+    expect(error.kind).toBe('invalid-response');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('stops waiting for a retry when cancelled', async () => {
+    replyInTurn((_, response) => sendJson(response, 503, {}));
+    const controller = new AbortController();
+
+    const request = netsuite.netsuiteRequest(restletUrl, { signal: controller.signal, onRetry: () => controller.abort() });
+    await expect(request).rejects.toThrow('NetSuite request cancelled');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('signs each attempt with OAuth', async () => {
+    let authorization: string | undefined;
+    server.once('request', request => {
+      authorization = request.headers.authorization;
+    });
+    replyInTurn((_, response) => sendJson(response, 200, {}));
+
+    await netsuite.netsuiteRequest(restletUrl);
+    expect(authorization).toMatch(/^OAuth realm="\w+",oauth_consumer_key="consumer-key"/);
+  });
+});
+
+describe('fetchOrderLines', () => {
+  it('fetches every page and merges them in page order', async () => {
+    reply = (url, response) => {
+      const page = Number(url.searchParams.get('page'));
+      // Later pages answer first, so merging by arrival order would be wrong
+      setTimeout(() => sendJson(response, 200, { data: lines(page, 2), page, pageCount: 4, totalCount: 8 }), (5 - page) * 20);
+    };
+    const progress = vi.fn();
+
+    const result = await netsuite.fetchOrderLines({ onProgress: progress });
+    expect(result.map(line => line.id)).toEqual(['1-1', '1-2', '2-1', '2-2', '3-1', '3-2', '4-1', '4-2']);
+    expect(requests.map(url => url.searchParams.get('page')).sort()).toEqual(['1', '2', '3', '4']);
+    expect(requests.every(url => url.searchParams.get('pageSize') === '2')).toBe(true);
+    expect(progress).toHaveBeenCalledTimes(4);
+    expect(progress).toHaveBeenLastCalledWith({ pagesFetched: 4, pageCount: 4, linesFetched: 8, totalCount: 8 });
+  });
+
+  it('requests at most NETSUITE_PAGE_CONCURRENCY pages at once after the first', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    reply = (url, response) => {
+      const page = Number(url.searchParams.get('page'));
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        sendJson(response, 200, { data: lines(page, 1), page, pageCount: 6 });
+      }, 20);
+    };
+
+    const result = await netsuite.fetchOrderLines();
+    expect(result).toHaveLength(6);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('passes `since` on every page', async () => {
+    reply = (url, response) => sendJson(response, 200, { data: [], page: 1, pageCount: 2 });
+    const since = new Date('2026-01-02T03:04:05.000Z');
+
+    await netsuite.fetchOrderLines({ since });
+    expect(requests).toHaveLength(2);
+    expect(requests.every(url => url.searchParams.get('since') === since.toISOString())).toBe(true);
+  });
+
+  it('treats a RESTlet without paging as one page', async () => {
+    reply = (_, response) => sendJson(response, 200, { data: lines(1, 3) });
+    const progress = vi.fn();
+
+    const result = await netsuite.fetchOrderLines({ onProgress: progress });
+    expect(result).toHaveLength(3);
+    expect(requests).toHaveLength(1);
+    expect(progress).toHaveBeenCalledWith({ pagesFetched: 1, pageCount: 1, linesFetched: 3, totalCount: 3 });
+  });
+
+  it('retries a failed page without refetching the others', async () => {
+    let page3Failures = 1;
+    reply = (url, response) => {
+      const page = Number(url.searchParams.get('page'));
+      if (page === 3 && page3Failures-- > 0) {
+        sendJson(response, 429, {}, { 'Retry-After': '0' });
+        return;
+      }
+      sendJson(response, 200, { data: lines(page, 1), page, pageCount: 3 });
+    };
+
+    const result = await netsuite.fetchOrderLines();
+    expect(result.map(line => line.id)).toEqual(['1-1', '2-1', '3-1']);
+    expect(requests.map(url => url.searchParams.get('page'))).toEqual(['1', '2', '3', '3']);
+  });
+
+  it('fails when a page fails for good', async () => {
+    reply = (url, response) => {
+      const page = Number(url.searchParams.get('page'));
+      if (page === 2) {
+        sendJson(response, 400, { error: { code: 'INVALID_PAGE' } });
+        return;
+      }
+      sendJson(response, 200, { data: lines(page, 1), page, pageCount: 3 });
+    };
+
+    const error = await rejection(netsuite.fetchOrderLines());
+    expect(error.code).toBe('INVALID_PAGE');
+  });
+
+  it('rejects a response without a data array', async () => {
+    reply = (_, response) => sendJson(response, 200, { items: [] });
+
+    const error = await rejection(netsuite.fetchOrderLines());
+    expect(error.kind).toBe('invalid-response');
+  });
+});
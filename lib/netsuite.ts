@@ -0,0 +1,415 @@
+import OAuth from 'oauth-1.0a';
+import crypto from 'crypto';
+import { NetSuiteItem } from './types';
+import { isMockNetSuite, mockNetSuiteFetch } from './mockNetSuite';
+
+/**
+ * NetSuite RESTlet access (server-only)
+ * Signs requests with OAuth 1.0a token-based authentication
+ */
+
+const NETSUITE_RESTLET_URL = process.env.NETSUITE_RESTLET_URL || 
+  'https://7913744.restlets.api.netsuite.com/app/site/hosting/restlet.nl?script=2796&deploy=1';
+
+const REQUIRED_ENV = [
+  'NETSUITE_OAUTH_CONSUMER_KEY',
+  'NETSUITE_OAUTH_CONSUMER_SECRET',
+  'NETSUITE_OAUTH_TOKEN',
+  'NETSUITE_OAUTH_TOKEN_SECRET',
+];
+
+/**
+ * Throw if any of the OAuth credentials are missing
+ */
+export function assertNetSuiteConfigured(): void {
+  if (isMockNetSuite()) return;
+  const missing = REQUIRED_ENV.filter((key) => !process.env[key]);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required NetSuite env vars: ${missing.join(
+        ', '
+      )}. Please follow NETSUITE_SETUP.md.`
+    );
+  }
+}
+
+/**
+ * Build the OAuth 1.0a Authorization header for a NetSuite request
+ */
+export function buildAuthorizationHeader(url: string, method: string): string {
+  const consumerKey = process.env.NETSUITE_OAUTH_CONSUMER_KEY!;
+  const consumerSecret = process.env.NETSUITE_OAUTH_CONSUMER_SECRET!;
+  const token = process.env.NETSUITE_OAUTH_TOKEN!;
+  const tokenSecret = process.env.NETSUITE_OAUTH_TOKEN_SECRET!;
+  const realm = process.env.NETSUITE_REALM || '7913744';
+
+  // Create OAuth instance
+  const oauth = new OAuth({
+    consumer: {
+      key: consumerKey,
+      secret: consumerSecret,
+    },
+    signature_method: 'HMAC-SHA256',
+    hash_function(baseString, key) {
+      return crypto.createHmac('sha256', key).update(baseString).digest('base64');
+    },
+  });
+
+  // Generate OAuth request data
+  const requestData = {
+    url,
+    method,
+  };
+
+  const tokenData = {
+    key: token,
+    secret: tokenSecret,
+  };
+
+  // Generate authorization header
+  const authHeader = oauth.toHeader(oauth.authorize(requestData, tokenData));
+  
+  // Add realm to authorization header (NetSuite specific)
+  return `OAuth realm="${realm}",${authHeader.Authorization.substring(6)}`;
+}
+
+// Per-attempt timeout and retry policy (overridable per request)
+const NETSUITE_TIMEOUT_MS = parseInt(process.env.NETSUITE_TIMEOUT_MS || '30000');
+const NETSUITE_MAX_RETRIES = parseInt(process.env.NETSUITE_MAX_RETRIES || '4');
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// Error codes NetSuite returns when we exceed the account's concurrency / request limits
+const CONCURRENCY_ERROR_CODES = ['SSS_REQUEST_LIMIT_EXCEEDED', 'CONCURRENCY_LIMIT_EXCEEDED', 'SSS_CONCURRENCY_LIMIT_EXCEEDED'];
+
+export type NetSuiteErrorKind =
+  | 'rate-limited' // 429 or a concurrency-limit error code
+  | 'timeout' // No response within the per-attempt timeout
+  | 'network' // Connection refused/reset, DNS, etc.
+  | 'server' // 5xx
+  | 'auth' // 401/403 - credentials or role permissions
+  | 'request' // Other 4xx - retrying will not help
+  | 'invalid-response'; // Response body was not what the RESTlet should return
+
+/**
+ * A failed NetSuite request, classified so callers can decide what to retry and what to tell the user
+ */
+export class NetSuiteError extends Error {
+  readonly kind: NetSuiteErrorKind;
+  readonly status: number | null;
+  readonly code: string | null; // NetSuite error code from the response body, if any
+  readonly retryAfterMs: number | null; // Server-requested delay (Retry-After)
+
+  constructor(
+    kind: NetSuiteErrorKind,
+    message: string,
+    details: { status?: number; code?: string | null; retryAfterMs?: number | null } = {}
+  ) {
+    super(message);
+    this.name = 'NetSuiteError';
+    this.kind = kind;
+    this.status = details.status ?? null;
+    this.code = details.code ?? null;
+    this.retryAfterMs = details.retryAfterMs ?? null;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate-limited' || this.kind === 'timeout' || this.kind === 'network' || this.kind === 'server';
+  }
+}
+
+/**
+ * Short, user-facing explanation of a NetSuite failure
+ * Pass retryInMs while a retry is pending, e.g. "NetSuite is rate limiting us, retrying in 20s"
+ */
+export function describeNetSuiteError(error: unknown, retryInMs?: number): string {
+  const retrying = retryInMs !== undefined ? `, retrying in ${Math.ceil(retryInMs / 1000)}s` : '';
+  if (!(error instanceof NetSuiteError)) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+  switch (error.kind) {
+    case 'rate-limited':
+      return `NetSuite is rate limiting us${retrying}`;
+    case 'timeout':
+      return `NetSuite did not respond in time${retrying}`;
+    case 'network':
+      return `Could not reach NetSuite${retrying}`;
+    case 'server':
+      return `NetSuite returned an error (${error.status})${retrying}`;
+    case 'auth':
+      return 'NetSuite rejected our credentials. Check the OAuth token and role permissions.';
+    default:
+      return error.message;
+  }
+}
+
+export interface NetSuiteRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown; // Sent as JSON
+  timeoutMs?: number;
+  maxRetries?: number;
+  signal?: AbortSignal; // Cancels the request and any pending retry
+  onRetry?: (info: { attempt: number; delayMs: number; error: NetSuiteError }) => void;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with equal jitter (half to all of the backoff), or the server's Retry-After when it sent one
+ */
+function getRetryDelay(attempt: number, error: NetSuiteError): number {
+  if (error.retryAfterMs !== null) {
+    return Math.min(RETRY_MAX_DELAY_MS, Math.round(error.retryAfterMs + Math.random() * 1000));
+  }
+  // Rate limits clear slower than blips, so start them further out
+  const base = error.kind === 'rate-limited' ? RETRY_BASE_DELAY_MS * 5 : RETRY_BASE_DELAY_MS;
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, base * Math.pow(2, attempt));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('NetSuite request cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('NetSuite request cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Turn a non-OK response into a classified NetSuiteError
+ */
+async function toNetSuiteError(response: Response): Promise<NetSuiteError> {
+  const errorText = await response.text().catch(() => '');
+  let code: string | null = null;
+  try {
+    const parsed = JSON.parse(errorText);
+    code = parsed?.error?.code || parsed?.code || null;
+  } catch {
+    // Not JSON - keep the raw text in the message
+  }
+
+  const message = `NetSuite API error: ${response.status} ${response.statusText} - ${errorText}`;
+  const details = { status: response.status, code, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) };
+
+  if (response.status === 429 || (code && CONCURRENCY_ERROR_CODES.includes(code))) {
+    return new NetSuiteError('rate-limited', message, details);
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new NetSuiteError('auth', message, details);
+  }
+  if (response.status >= 500) {
+    return new NetSuiteError('server', message, details);
+  }
+  return new NetSuiteError('request', message, details);
+}
+
+/**
+ * Make one signed attempt, bounded by the timeout
+ */
+async function attemptRequest(url: string, options: NetSuiteRequestOptions): Promise<unknown> {
+  const method = options.method || 'GET';
+  const timeoutMs = options.timeoutMs ?? NETSUITE_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      const mock = isMockNetSuite();
+      response = await (mock ? mockNetSuiteFetch : fetch)(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          // Signed per attempt - the nonce and timestamp must be fresh
+          'Authorization': mock ? 'OAuth mock' : buildAuthorizationHeader(url, method),
+          'Accept': '*/*',
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new Error('NetSuite request cancelled');
+      }
+      if (controller.signal.aborted) {
+        throw new NetSuiteError('timeout', `NetSuite request timed out after ${timeoutMs}ms`);
+      }
+      throw new NetSuiteError('network', `NetSuite request failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      throw await toNetSuiteError(response);
+    }
+
+    const text = await response.text();
+    let data: unknown;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      throw new NetSuiteError('invalid-response', `NetSuite returned invalid JSON: ${text.slice(0, 200)}`);
+    }
+
+    // RESTlets report SuiteScript errors (including concurrency limits) in a 200 body
+    const body = data && typeof data === 'object'
+      ? data as { error?: { code?: unknown; message?: unknown } | null; data?: unknown }
+      : null;
+    if (body?.error && typeof body.error === 'object' && !Array.isArray(body.data)) {
+      const code = typeof body.error.code === 'string' && body.error.code ? body.error.code : null;
+      const errorMessage = typeof body.error.message === 'string' ? body.error.message : '';
+      const message = `NetSuite API error: ${code || ''} ${errorMessage}`.trim();
+      if (code && CONCURRENCY_ERROR_CODES.includes(code)) {
+        throw new NetSuiteError('rate-limited', message, { status: response.status, code });
+      }
+      throw new NetSuiteError('request', message, { status: response.status, code });
+    }
+
+    return data;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Signed NetSuite request with per-attempt timeout and retries for rate limits, timeouts,
+ * network errors and 5xx. Throws NetSuiteError once retries are exhausted.
+ */
+export async function netsuiteRequest<T = unknown>(url: string, options: NetSuiteRequestOptions = {}): Promise<T> {
+  const maxRetries = options.maxRetries ?? NETSUITE_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptRequest(url, options) as T;
+    } catch (error) {
+      if (!(error instanceof NetSuiteError) || !error.retryable || attempt >= maxRetries) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(attempt, error);
+      console.warn(`NetSuite request failed (${error.kind}), retry ${attempt + 1}/${maxRetries} in ${delayMs}ms:`, error.message);
+      options.onRetry?.({ attempt: attempt + 1, delayMs, error });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+// Lines per RESTlet page, and how many pages to request at once (NetSuite limits concurrent RESTlet calls per account)
+const NETSUITE_PAGE_SIZE = parseInt(process.env.NETSUITE_PAGE_SIZE || '1000');
+const NETSUITE_PAGE_CONCURRENCY = parseInt(process.env.NETSUITE_PAGE_CONCURRENCY || '2');
+
+/**
+ * One RESTlet response. Paged RESTlets also return page/pageCount/totalCount;
+ * RESTlets without paging return everything in `data` and omit them.
+ */
+export interface NetSuiteOrderPage {
+  data: NetSuiteItem[];
+  page?: number; // 1-based
+  pageCount?: number;
+  totalCount?: number; // Total lines across all pages
+}
+
+export interface OrderFetchProgress {
+  pagesFetched: number;
+  pageCount: number;
+  linesFetched: number;
+  totalCount: number | null;
+}
+
+/**
+ * Fetch one RESTlet page
+ * With `since`, the RESTlet only returns fulfillments modified after that time (all of their lines)
+ */
+export async function fetchFromNetSuite(
+  options: { since?: Date; page?: number; pageSize?: number } & Pick<NetSuiteRequestOptions, 'signal' | 'onRetry'> = {}
+): Promise<NetSuiteOrderPage> {
+  const url = new URL(NETSUITE_RESTLET_URL);
+  if (options.since) {
+    url.searchParams.set('since', options.since.toISOString());
+  }
+  url.searchParams.set('page', String(options.page || 1));
+  url.searchParams.set('pageSize', String(options.pageSize || NETSUITE_PAGE_SIZE));
+
+  const response = await netsuiteRequest<NetSuiteOrderPage>(url.toString(), {
+    signal: options.signal,
+    onRetry: options.onRetry,
+  });
+  if (!response || !Array.isArray(response.data)) {
+    throw new NetSuiteError('invalid-response', 'Invalid data format from NetSuite');
+  }
+  return response;
+}
+
+/**
+ * Fetch order lines from the RESTlet (all of them, or only those changed since a time)
+ * Reads page 1 to learn the page count, then fetches the rest with bounded concurrency
+ * and merges them in page order
+ */
+export async function fetchOrderLines(
+  options: { since?: Date; onProgress?: (progress: OrderFetchProgress) => void } &
+    Pick<NetSuiteRequestOptions, 'signal' | 'onRetry'> = {}
+): Promise<NetSuiteItem[]> {
+  assertNetSuiteConfigured();
+
+  const { since, onRetry, onProgress } = options;
+  const first = await fetchFromNetSuite({ since, page: 1, signal: options.signal, onRetry });
+  const pageCount = Math.max(1, first.pageCount || 1);
+  const totalCount = first.totalCount ?? (pageCount === 1 ? first.data.length : null);
+
+  const pages: NetSuiteItem[][] = new Array(pageCount);
+  pages[0] = first.data;
+  let pagesFetched = 1;
+  let linesFetched = first.data.length;
+  onProgress?.({ pagesFetched, pageCount, linesFetched, totalCount });
+
+  if (pageCount > 1) {
+    // Stop the other workers as soon as one page fails for good
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let nextPage = 2;
+    const worker = async () => {
+      while (nextPage <= pageCount) {
+        const page = nextPage++;
+        const response = await fetchFromNetSuite({ since, page, signal: controller.signal, onRetry });
+        pages[page - 1] = response.data;
+        pagesFetched++;
+        linesFetched += response.data.length;
+        onProgress?.({ pagesFetched, pageCount, linesFetched, totalCount });
+      }
+    };
+
+    try {
+      const workerCount = Math.min(Math.max(1, NETSUITE_PAGE_CONCURRENCY), pageCount - 1);
+      await Promise.all(Array.from({ length: workerCount }, () => worker().catch(error => {
+        controller.abort();
+        throw error;
+      })));
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  return pages.flat();
+}
@@ -0,0 +1,101 @@
+import { assertNetSuiteConfigured, netsuiteRequest, NetSuiteError, describeNetSuiteError } from './netsuite';
+import { enqueueWriteBacks, getDueWriteBacks, recordWriteBackAttempt } from './db';
+
+/**
+ * Optional write-back of printed state to NetSuite item fulfillments (server-only)
+ * Sets custom body fields via a REST record update so CS can see printed status in NetSuite.
+ * Updates go through a queue in Postgres and are retried with backoff until they stick.
+ */
+
+const WRITEBACK_ENABLED = process.env.NETSUITE_WRITEBACK_ENABLED === 'true';
+
+// e.g. 7913744_SB1 -> 7913744-sb1.suitetalk.api.netsuite.com
+const NETSUITE_REST_RECORD_URL = process.env.NETSUITE_REST_RECORD_URL ||
+  `https://${(process.env.NETSUITE_REALM || '7913744').toLowerCase().replace(/_/g, '-')}.suitetalk.api.netsuite.com/services/rest/record/v1`;
+
+const PRINTED_AT_FIELD = process.env.NETSUITE_PRINTED_AT_FIELD || 'custbody_pir_packing_slip_printed_at';
+const PRINT_BATCH_FIELD = process.env.NETSUITE_PRINT_BATCH_FIELD || 'custbody_pir_packing_slip_batch';
+
+// Give up after this many attempts (~4 hours with the backoff below); failed entries can be re-queued
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export function isWriteBackEnabled(): boolean {
+  return WRITEBACK_ENABLED;
+}
+
+/**
+ * Queue printed (or cleared, with printedAt null) state for these orders and start processing
+ * Does nothing unless NETSUITE_WRITEBACK_ENABLED=true
+ */
+export async function queuePrintedWriteBack(
+  tranids: string[],
+  options: { batchId: number | null; printedAt: Date | null }
+): Promise<void> {
+  if (!WRITEBACK_ENABLED || tranids.length === 0) return;
+
+  await enqueueWriteBacks(tranids.map(tranid => ({ tranid, ...options })));
+
+  // Don't hold up printing on NetSuite - anything left over (or cut off on a serverless host)
+  // is picked up by the next run, which the POST /api/writeback cron job guarantees
+  processWriteBackQueue().catch(error => {
+    console.error('Error processing NetSuite write-back queue:', error);
+  });
+}
+
+let processing: Promise<{ written: number; failed: number }> | null = null;
+
+/**
+ * Attempt every due write-back, one at a time (NetSuite concurrency limits are shared with the sync)
+ */
+export async function processWriteBackQueue(limit: number = 100): Promise<{ written: number; failed: number }> {
+  if (!WRITEBACK_ENABLED) return { written: 0, failed: 0 };
+  if (!processing) {
+    processing = runQueue(limit).finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+async function runQueue(limit: number): Promise<{ written: number; failed: number }> {
+  assertNetSuiteConfigured();
+  const entries = await getDueWriteBacks(limit);
+  let written = 0;
+  let failed = 0;
+
+  for (const entry of entries) {
+    try {
+      if (!entry.internalId) {
+        throw new Error('Fulfillment is not in the order cache, so its NetSuite internal id is unknown');
+      }
+
+      await netsuiteRequest(`${NETSUITE_REST_RECORD_URL}/itemFulfillment/${entry.internalId}`, {
+        method: 'PATCH',
+        body: {
+          [PRINTED_AT_FIELD]: entry.printedAt,
+          [PRINT_BATCH_FIELD]: entry.batchId !== null ? String(entry.batchId) : null,
+        },
+        // The queue does its own slower retries
+        maxRetries: 1,
+      });
+      await recordWriteBackAttempt(entry, { success: true });
+      written++;
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const permanent = !(error instanceof NetSuiteError) || !error.retryable;
+      const giveUp = attempts >= MAX_ATTEMPTS || (permanent && attempts >= 2);
+      const delayMs = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1));
+      console.error(`Error writing printed status for ${entry.tranid} back to NetSuite:`, error);
+      await recordWriteBackAttempt(entry, {
+        success: false,
+        error: describeNetSuiteError(error),
+        nextAttemptAt: giveUp ? null : new Date(Date.now() + delayMs),
+      });
+      failed++;
+    }
+  }
+
+  return { written, failed };
+}
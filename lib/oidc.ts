@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import { UserRole } from './types';
+import { USER_ROLES, isUserRole } from './roles';
+import { normalizeUsername } from './users';
+
+/**
+ * Sign-in through an OpenID Connect provider (server-only)
+ * Set AUTH_PROVIDER=oidc to replace password sign-in with the provider's. Uses the authorization
+ * code flow with PKCE; the user's identity comes from the provider's userinfo endpoint.
+ */
+
+export const OIDC_STATE_COOKIE = 'packing_slips_oidc';
+
+interface OidcDiscovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+export interface OidcIdentity {
+  username: string;
+  displayName: string | null;
+  role: UserRole | null; // From OIDC_ROLE_CLAIM, if configured and present
+}
+
+export function isOidcEnabled(): boolean {
+  return process.env.AUTH_PROVIDER === 'oidc';
+}
+
+/**
+ * Throw if any of the OIDC settings are missing
+ */
+function getOidcSettings(): { issuer: string; clientId: string; clientSecret: string; scopes: string } {
+  const missing = ['OIDC_ISSUER', 'OIDC_CLIENT_ID', 'OIDC_CLIENT_SECRET'].filter(key => !process.env[key]);
+  if (missing.length > 0) {
+    throw new Error(`Missing required OIDC env vars: ${missing.join(', ')}. Please follow NETSUITE_SETUP.md.`);
+  }
+  return {
+    issuer: process.env.OIDC_ISSUER!.replace(/\/+$/, ''),
+    clientId: process.env.OIDC_CLIENT_ID!,
+    clientSecret: process.env.OIDC_CLIENT_SECRET!,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  };
+}
+
+// The provider's endpoints rarely change; fetch them once per server
+let discovery: Promise<OidcDiscovery> | null = null;
+
+function getDiscovery(issuer: string): Promise<OidcDiscovery> {
+  if (!discovery) {
+    discovery = fetch(`${issuer}/.well-known/openid-configuration`, { cache: 'no-store' })
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`OIDC discovery failed: ${response.status} ${response.statusText}`);
+        }
+        return response.json() as Promise<OidcDiscovery>;
+      })
+      .catch(error => {
+        discovery = null;
+        throw error;
+      });
+  }
+  return discovery;
+}
+
+/**
+ * Public URL of the app, for the redirect back from the provider
+ * AUTH_URL overrides the request's own origin, e.g. behind a proxy
+ */
+export function getAppOrigin(request: Request): string {
+  return (process.env.AUTH_URL || new URL(request.url).origin).replace(/\/+$/, '');
+}
+
+export function getOidcRedirectUri(request: Request): string {
+  return `${getAppOrigin(request)}/api/auth/oidc/callback`;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Start a sign-in: the provider URL to send the user to, and the state to keep until they come back
+ */
+export async function startOidcSignIn(redirectUri: string): Promise<{ url: string; state: string; verifier: string }> {
+  const settings = getOidcSettings();
+  const endpoints = await getDiscovery(settings.issuer);
+
+  const state = randomToken();
+  const verifier = randomToken();
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+  const url = new URL(endpoints.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', settings.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', settings.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', challenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return { url: url.toString(), state, verifier };
+}
+
+/**
+ * Finish a sign-in: trade the code for an access token and look up who signed in
+ */
+export async function completeOidcSignIn(code: string, redirectUri: string, verifier: string): Promise<OidcIdentity> {
+  const settings = getOidcSettings();
+  const endpoints = await getDiscovery(settings.issuer);
+
+  const tokenResponse = await fetch(endpoints.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: settings.clientId,
+      client_secret: settings.clientSecret,
+      code_verifier: verifier,
+    }),
+    cache: 'no-store',
+  });
+  if (!tokenResponse.ok) {
+    throw new Error(`OIDC token exchange failed: ${tokenResponse.status} ${await tokenResponse.text()}`);
+  }
+  const { access_token: accessToken } = await tokenResponse.json();
+
+  const userInfoResponse = await fetch(endpoints.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    cache: 'no-store',
+  });
+  if (!userInfoResponse.ok) {
+    throw new Error(`OIDC userinfo failed: ${userInfoResponse.status} ${userInfoResponse.statusText}`);
+  }
+  return toIdentity(await userInfoResponse.json());
+}
+
+/**
+ * Map userinfo claims to a user: keyed by email (or preferred_username, then sub)
+ * An email only counts once the provider has verified it, or anyone could claim an existing user's address
+ */
+function toIdentity(claims: Record<string, unknown>): OidcIdentity {
+  if (typeof claims.email === 'string' && claims.email.trim() && claims.email_verified !== true) {
+    throw new Error('OIDC email address is not verified');
+  }
+  const username = [claims.email, claims.preferred_username, claims.sub].find(
+    (value): value is string => typeof value === 'string' && !!value.trim()
+  );
+  if (!username) {
+    throw new Error('OIDC userinfo has no email, preferred_username or sub');
+  }
+
+  // The claim can be one role or a list (e.g. groups); the highest recognized role wins
+  const roleClaim = process.env.OIDC_ROLE_CLAIM ? claims[process.env.OIDC_ROLE_CLAIM] : undefined;
+  const claimed = (Array.isArray(roleClaim) ? roleClaim : [roleClaim]).filter(isUserRole);
+  const role = claimed.length > 0
+    ? claimed.reduce((highest, r) => (USER_ROLES.indexOf(r) > USER_ROLES.indexOf(highest) ? r : highest))
+    : null;
+
+  return {
+    username: normalizeUsername(username),
+    displayName: typeof claims.name === 'string' && claims.name.trim() ? claims.name.trim() : null,
+    role,
+  };
+}
@@ -0,0 +1,174 @@
+import { OrderConfig, PrintBatchFilters, ProcessedOrder } from './types';
+import { processOrders, filterOrders } from './dataProcessing';
+import { getOrderLines } from './orderSync';
+import { getCatalogEntries, getOrderStatuses } from './db';
+import { getActivePackSizes } from './packSizes';
+import { isOrderStatus, ORDER_STATUSES, statusesForPrintedFilter } from './orderStatus';
+
+/**
+ * Server-side order selection for scripted/API printing (server-only)
+ * Mirrors what the UI does: load cached lines, process them, then pick orders by tranid or filters
+ */
+
+export type OrderFilterSpec = Partial<Omit<PrintBatchFilters, 'selection'>>;
+
+export interface OrderSelectionSpec {
+  tranids?: string[];
+  filters?: OrderFilterSpec;
+}
+
+/**
+ * Thrown when a selection names orders that aren't in the backlog
+ */
+export class OrdersNotFoundError extends Error {
+  readonly missing: string[];
+
+  constructor(missing: string[]) {
+    super(`Orders not found in NetSuite backlog: ${missing.join(', ')}`);
+    this.name = 'OrdersNotFoundError';
+    this.missing = missing;
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isDateString(value: unknown): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/**
+ * Validate untrusted filters; returns an error message for the first unusable field, or null
+ */
+function checkFilters(filters: Record<string, unknown>): string | null {
+  const { personalized, cupSizes, boxSize, dateFrom, dateTo, statuses, printed, shippingZones } = filters;
+  if (personalized !== undefined && personalized !== null && typeof personalized !== 'boolean') {
+    return 'filters.personalized must be true, false or null';
+  }
+  if (cupSizes !== undefined && !isStringArray(cupSizes)) {
+    return 'filters.cupSizes must be an array of strings';
+  }
+  if (boxSize !== undefined && boxSize !== null && typeof boxSize !== 'string') {
+    return 'filters.boxSize must be a string or null';
+  }
+  if (dateFrom !== undefined && dateFrom !== null && !isDateString(dateFrom)) {
+    return 'filters.dateFrom must be a YYYY-MM-DD date';
+  }
+  if (dateTo !== undefined && dateTo !== null && !isDateString(dateTo)) {
+    return 'filters.dateTo must be a YYYY-MM-DD date';
+  }
+  if (statuses !== undefined && (!Array.isArray(statuses) || !statuses.every(isOrderStatus))) {
+    return `filters.statuses must be an array of: ${ORDER_STATUSES.join(', ')}`;
+  }
+  if (printed !== undefined && printed !== null && typeof printed !== 'boolean') {
+    return 'filters.printed must be true, false or null';
+  }
+  if (shippingZones !== undefined && !isStringArray(shippingZones)) {
+    return 'filters.shippingZones must be an array of strings';
+  }
+  return null;
+}
+
+/**
+ * Validate an untrusted request body into an OrderSelectionSpec
+ * Returns an error message if the body is not usable
+ */
+export function parseOrderSelection(body: unknown): OrderSelectionSpec | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+
+  const { tranids, filters } = body as { tranids?: unknown; filters?: unknown };
+  if (tranids !== undefined) {
+    if (!Array.isArray(tranids) || tranids.some(t => typeof t !== 'string')) {
+      return 'tranids must be an array of strings';
+    }
+    if (tranids.length === 0) {
+      return 'tranids must not be empty';
+    }
+  }
+  if (filters !== undefined) {
+    if (filters === null || typeof filters !== 'object' || Array.isArray(filters)) {
+      return 'filters must be an object';
+    }
+    const filtersError = checkFilters(filters as Record<string, unknown>);
+    if (filtersError) {
+      return filtersError;
+    }
+  }
+  if (tranids === undefined && filters === undefined) {
+    return 'Provide tranids or filters';
+  }
+
+  return { tranids: tranids as string[] | undefined, filters: filters as OrderFilterSpec | undefined };
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a local date
+ */
+function parseLocalDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Load the orders a selection refers to, matching boxes with the active pack sizes unless a config is given
+ * Tranid selections keep the requested order; filter selections are sorted by zone (closest first) like the UI.
+ * Throws OrdersNotFoundError if any requested tranid isn't in the backlog
+ */
+export async function loadSelectedOrders(
+  spec: OrderSelectionSpec,
+  orderConfig?: OrderConfig
+): Promise<ProcessedOrder[]> {
+  const { lines: items } = await getOrderLines();
+  const orders = processOrders(items, orderConfig || (await getActivePackSizes()).config, await getCatalogEntries());
+
+  if (spec.tranids) {
+    const byTranid = new Map(orders.map(order => [order.tranid, order]));
+    const missing = spec.tranids.filter(tranid => !byTranid.has(tranid));
+    if (missing.length > 0) {
+      throw new OrdersNotFoundError(missing);
+    }
+    return spec.tranids.map(tranid => byTranid.get(tranid)!);
+  }
+
+  const filters = spec.filters || {};
+  // Callers from before statuses still filter by printed
+  const statuses = filters.statuses ?? statusesForPrintedFilter(filters.printed);
+  const orderStatuses = statuses.length > 0 ? await getOrderStatuses() : {};
+
+  const filtered = filterOrders(orders, {
+    personalized: filters.personalized ?? null,
+    cupSizes: filters.cupSizes || [],
+    boxSize: filters.boxSize ?? null,
+    dateFrom: filters.dateFrom ? parseLocalDate(filters.dateFrom) : null,
+    dateTo: filters.dateTo ? parseLocalDate(filters.dateTo) : null,
+    statuses,
+    orderStatuses,
+    shippingZones: filters.shippingZones || [],
+  });
+
+  return filtered.sort((a, b) => {
+    const zoneA = a.shippingZone ? parseInt(a.shippingZone) : 999;
+    const zoneB = b.shippingZone ? parseInt(b.shippingZone) : 999;
+    return zoneA - zoneB;
+  });
+}
+
+/**
+ * Describe a selection as batch filters, for recording API print runs
+ */
+export function toBatchFilters(spec: OrderSelectionSpec): PrintBatchFilters {
+  const filters = spec.filters || {};
+  return {
+    personalized: filters.personalized ?? null,
+    cupSizes: filters.cupSizes || [],
+    boxSize: filters.boxSize ?? null,
+    dateFrom: filters.dateFrom ?? null,
+    dateTo: filters.dateTo ?? null,
+    statuses: filters.statuses ?? statusesForPrintedFilter(filters.printed),
+    shippingZones: filters.shippingZones || [],
+    selection: spec.tranids ? 'selected' : 'filtered',
+  };
+}
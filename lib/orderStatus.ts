@@ -0,0 +1,152 @@
+import { OrderStatus, OrderStatusRecord, OrderStatusScope, ProcessedOrder } from './types';
+
+/**
+ * Order lifecycle statuses
+ * Orders start as new, go to printed when their slip is printed, and then to picked, packed and shipped.
+ * On hold and cancelled can be set at any point. Any status can be set by hand, e.g. to undo a mistake.
+ */
+
+export const ORDER_STATUSES: OrderStatus[] = ['new', 'printed', 'picked', 'packed', 'shipped', 'on-hold', 'cancelled'];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  'new': 'New',
+  'printed': 'Printed',
+  'picked': 'Picked',
+  'packed': 'Packed',
+  'shipped': 'Shipped',
+  'on-hold': 'On Hold',
+  'cancelled': 'Cancelled',
+};
+
+// Badge colors, matching the printed / not printed badges they replace
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  'new': 'bg-yellow-100 text-yellow-800',
+  'printed': 'bg-green-100 text-green-800',
+  'picked': 'bg-teal-100 text-teal-800',
+  'packed': 'bg-blue-100 text-blue-800',
+  'shipped': 'bg-indigo-100 text-indigo-800',
+  'on-hold': 'bg-orange-100 text-orange-800',
+  'cancelled': 'bg-gray-200 text-gray-700',
+};
+
+// Statuses an order can only reach after its slip was printed
+export const PRINTED_STATUSES: OrderStatus[] = ['printed', 'picked', 'packed', 'shipped'];
+
+export function isPrintedStatus(status: OrderStatus): boolean {
+  return PRINTED_STATUSES.includes(status);
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Status of an order; orders never moved are new
+ */
+export function getOrderStatus(statuses: Record<string, OrderStatusRecord>, tranid: string): OrderStatus {
+  return statuses[tranid]?.status || 'new';
+}
+
+/**
+ * Number of orders in each status
+ */
+export function countOrdersByStatus(
+  orders: ProcessedOrder[],
+  statuses: Record<string, OrderStatusRecord>
+): Record<OrderStatus, number> {
+  const counts = Object.fromEntries(ORDER_STATUSES.map(status => [status, 0])) as Record<OrderStatus, number>;
+  for (const order of orders) {
+    counts[getOrderStatus(statuses, order.tranid)]++;
+  }
+  return counts;
+}
+
+/**
+ * Statuses matching the old printed / not printed filter, for batches and API calls that still use it
+ */
+export function statusesForPrintedFilter(printed: boolean | null | undefined): OrderStatus[] {
+  if (printed === true) return PRINTED_STATUSES;
+  if (printed === false) return ['new'];
+  return [];
+}
+
+export interface OrderStatusChangeRequest {
+  tranids: string[];
+  status: OrderStatus;
+  from: OrderStatus[] | null; // Only move orders currently in one of these statuses
+  note: string | null;
+}
+
+/**
+ * Validate an untrusted request body into a status change
+ * Returns an error message if the body is not usable
+ */
+export function parseOrderStatusChange(body: unknown): OrderStatusChangeRequest | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+
+  const { tranids, status, from, note } = body as Record<string, unknown>;
+  if (!Array.isArray(tranids) || tranids.length === 0 || tranids.some(t => typeof t !== 'string' || !t)) {
+    return 'tranids must be a non-empty array of strings';
+  }
+  if (!isOrderStatus(status)) {
+    return `status must be one of: ${ORDER_STATUSES.join(', ')}`;
+  }
+  if (from !== undefined && from !== null && (!Array.isArray(from) || !from.every(isOrderStatus))) {
+    return `from must be an array of: ${ORDER_STATUSES.join(', ')}`;
+  }
+  if (note !== undefined && note !== null && typeof note !== 'string') {
+    return 'note must be a string';
+  }
+
+  return {
+    tranids: tranids as string[],
+    status,
+    from: Array.isArray(from) ? from : null,
+    note: typeof note === 'string' && note.trim() ? note.trim() : null,
+  };
+}
+
+/**
+ * Validate an untrusted ?tranids= query parameter (a JSON array of strings)
+ * Returns an error message if it is not usable
+ */
+export function parseTranidsParam(value: string): string[] | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = null;
+  }
+  if (!Array.isArray(parsed) || parsed.some(t => typeof t !== 'string' || !t)) {
+    return 'tranids must be a JSON array of strings';
+  }
+  return parsed as string[];
+}
+
+/**
+ * Validate untrusted query parameters into a status scope: ?tranids=["..."] (a JSON array) and ?since=<ISO time>
+ * Returns an error message if either is not usable
+ */
+export function parseOrderStatusScope(params: URLSearchParams): OrderStatusScope | string {
+  const scope: OrderStatusScope = {};
+
+  const tranids = params.get('tranids');
+  if (tranids !== null) {
+    const parsed = parseTranidsParam(tranids);
+    if (typeof parsed === 'string') return parsed;
+    scope.tranids = parsed;
+  }
+
+  const since = params.get('since');
+  if (since !== null) {
+    const date = new Date(since);
+    if (isNaN(date.getTime())) {
+      return 'since must be an ISO 8601 time';
+    }
+    scope.since = date;
+  }
+
+  return scope;
+}
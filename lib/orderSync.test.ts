@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OrderFetchProgress } from './netsuite';
+import type { NetSuiteItem, OrderSyncEvent } from './types';
+
+/**
+ * Sync events: a listener that fails or goes away mustn't fail the sync other callers share
+ */
+
+const fetchControl = vi.hoisted(() => ({
+  run: async (onProgress: (progress: OrderFetchProgress) => void): Promise<NetSuiteItem[]> => {
+    onProgress({ pagesFetched: 1, pageCount: 1, linesFetched: 0, totalCount: 0 });
+    return [];
+  },
+}));
+
+vi.mock('./db', () => ({
+  getOrderSyncState: vi.fn(async () => ({ lastSyncedAt: null, lastFullSyncAt: null, lastError: null, lastErrorAt: null })),
+  getCachedOrderLines: vi.fn(async () => []),
+  saveSyncedOrderLines: vi.fn(async (lines: NetSuiteItem[]) => lines.length),
+  recordOrderSyncError: vi.fn(async () => {}),
+  pruneOrderStatuses: vi.fn(async () => 0),
+}));
+
+vi.mock('./netsuite', () => ({
+  fetchOrderLines: vi.fn((options: { onProgress: (progress: OrderFetchProgress) => void }) => fetchControl.run(options.onProgress)),
+  describeNetSuiteError: (error: unknown) => (error instanceof Error ? error.message : 'Unknown error'),
+}));
+
+vi.mock('./imageCache', () => ({
+  prefetchOrderImages: vi.fn(async () => ({ fetched: 0, failed: 0 })),
+}));
+
+const { syncOrders } = await import('./orderSync');
+const db = await import('./db');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('syncOrders', () => {
+  it('finishes the sync when a listener throws', async () => {
+    const onEvent = vi.fn(() => {
+      throw new Error('Invalid state: Controller is already closed');
+    });
+
+    await expect(syncOrders({ onEvent })).resolves.toMatchObject({ mode: 'full', orderCount: 0 });
+    expect(onEvent).toHaveBeenCalled();
+    expect(db.recordOrderSyncError).not.toHaveBeenCalled();
+  });
+
+  it('stops sending events once the signal is aborted, and still shares the sync', async () => {
+    let progress: ((progress: OrderFetchProgress) => void) | null = null;
+    let finish: (() => void) | null = null;
+    fetchControl.run = onProgress => new Promise(resolve => {
+      progress = onProgress;
+      finish = () => resolve([]);
+    });
+
+    const disconnected = new AbortController();
+    const gone: OrderSyncEvent[] = [];
+    const staying: OrderSyncEvent[] = [];
+    const first = syncOrders({ onEvent: event => gone.push(event), signal: disconnected.signal });
+    const second = syncOrders({ onEvent: event => staying.push(event) });
+    await vi.waitFor(() => expect(progress).not.toBeNull());
+
+    progress!({ pagesFetched: 1, pageCount: 2, linesFetched: 0, totalCount: null });
+    disconnected.abort();
+    progress!({ pagesFetched: 2, pageCount: 2, linesFetched: 0, totalCount: null });
+    finish!();
+
+    await expect(first).resolves.toMatchObject({ orderCount: 0 });
+    await expect(second).resolves.toMatchObject({ orderCount: 0 });
+    expect(gone).toHaveLength(1);
+    expect(staying).toHaveLength(2);
+  });
+});
@@ -0,0 +1,164 @@
+import { NetSuiteItem, OrderSyncEvent, OrderSyncState } from './types';
+import { describeNetSuiteError, fetchOrderLines } from './netsuite';
+import { getCachedOrderLines, getOrderSyncState, pruneOrderStatuses, recordOrderSyncError, saveSyncedOrderLines } from './db';
+import { prefetchOrderImages } from './imageCache';
+
+/**
+ * Incremental NetSuite sync into the Postgres order cache (server-only)
+ * Reads are served from the cache so a NetSuite outage only makes the data stale
+ */
+
+// Serve the cache as-is if it was synced within this window
+const ORDER_CACHE_MAX_AGE_MS = parseInt(process.env.ORDER_CACHE_MAX_AGE_MINUTES || '5') * 60 * 1000;
+
+// Incremental pulls never see fulfillments leave the backlog, so periodically re-pull everything
+const FULL_SYNC_INTERVAL_MS = parseInt(process.env.ORDER_FULL_SYNC_INTERVAL_MINUTES || '60') * 60 * 1000;
+
+// Re-request a little before the watermark to cover clock skew between us and NetSuite
+const WATERMARK_OVERLAP_MS = 5 * 60 * 1000;
+
+// Warm the image cache with each sync's images unless IMAGE_PREFETCH=false
+const IMAGE_PREFETCH_ENABLED = process.env.IMAGE_PREFETCH !== 'false';
+
+// After a full sync, statuses of orders that have left the backlog and haven't changed in this long are
+// moved to order_status_archive (or deleted with ORDER_STATUS_ARCHIVE=false); 0 keeps them
+const STATUS_RETENTION_MS = parseInt(process.env.ORDER_STATUS_RETENTION_DAYS || '90') * 24 * 60 * 60 * 1000;
+const STATUS_ARCHIVE_ENABLED = process.env.ORDER_STATUS_ARCHIVE !== 'false';
+
+export interface OrderSyncResult {
+  mode: 'full' | 'incremental';
+  orderCount: number; // Fulfillments pulled from NetSuite in this sync
+  syncedAt: string;
+}
+
+// One sync at a time per server instance; concurrent callers share it
+let syncInFlight: Promise<OrderSyncResult> | null = null;
+
+// Latest progress/retry event of the in-flight sync, and who is listening for more
+let lastSyncEvent: OrderSyncEvent | null = null;
+const syncListeners = new Set<(event: OrderSyncEvent) => void>();
+
+function emitSyncEvent(event: OrderSyncEvent) {
+  lastSyncEvent = event;
+  syncListeners.forEach(listener => {
+    // A listener that fails (e.g. its client went away) mustn't fail the sync everyone else is waiting on
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error sending sync event:', error);
+      syncListeners.delete(listener);
+    }
+  });
+}
+
+/**
+ * Whether a sync is running on this instance, and its latest progress or retry event
+ */
+export function getSyncProgress(): { inProgress: boolean; lastEvent: OrderSyncEvent | null } {
+  return { inProgress: syncInFlight !== null, lastEvent: syncInFlight ? lastSyncEvent : null };
+}
+
+/**
+ * Pull changed lines from NetSuite into the cache
+ * Does a full sync on first run, when requested, or when the last full sync is too old.
+ * onEvent receives progress/retry events; callers joining a running sync get its latest event first.
+ * Aborting `signal` stops the events; the sync carries on for anyone else waiting on it.
+ */
+export async function syncOrders(
+  options: { full?: boolean; onEvent?: (event: OrderSyncEvent) => void; signal?: AbortSignal } = {}
+): Promise<OrderSyncResult> {
+  const { onEvent } = options;
+  if (onEvent && !options.signal?.aborted) {
+    if (syncInFlight && lastSyncEvent) onEvent(lastSyncEvent);
+    syncListeners.add(onEvent);
+    options.signal?.addEventListener('abort', () => syncListeners.delete(onEvent), { once: true });
+  }
+
+  if (!syncInFlight) {
+    lastSyncEvent = null;
+    syncInFlight = runSync(options.full === true).finally(() => {
+      syncInFlight = null;
+    });
+  }
+
+  try {
+    return await syncInFlight;
+  } finally {
+    if (onEvent) syncListeners.delete(onEvent);
+  }
+}
+
+async function runSync(forceFull: boolean): Promise<OrderSyncResult> {
+  const state = await getOrderSyncState();
+  const full = forceFull ||
+    !state.lastSyncedAt ||
+    !state.lastFullSyncAt ||
+    Date.now() - new Date(state.lastFullSyncAt).getTime() > FULL_SYNC_INTERVAL_MS;
+
+  // Take the watermark before fetching so changes made during the fetch are picked up next time
+  const syncedAt = new Date();
+
+  try {
+    const since = full ? undefined : new Date(new Date(state.lastSyncedAt!).getTime() - WATERMARK_OVERLAP_MS);
+    const lines = await fetchOrderLines({
+      since,
+      onRetry: ({ delayMs, error }) => emitSyncEvent({
+        type: 'retry',
+        message: describeNetSuiteError(error, delayMs),
+        retryAt: new Date(Date.now() + delayMs).toISOString(),
+      }),
+      onProgress: progress => emitSyncEvent({ type: 'progress', ...progress }),
+    });
+    const orderCount = await saveSyncedOrderLines(lines, { full, syncedAt });
+
+    // Only a full sync drops fulfillments that left the backlog, so that's when their statuses can go
+    if (full && STATUS_RETENTION_MS > 0) {
+      await pruneOrderStatuses(new Date(syncedAt.getTime() - STATUS_RETENTION_MS), { archive: STATUS_ARCHIVE_ENABLED })
+        .catch(error => console.error('Error pruning order statuses:', error));
+    }
+
+    // Don't hold up the sync on image hosts - anything missed is fetched when it's first printed
+    if (IMAGE_PREFETCH_ENABLED) {
+      prefetchOrderImages(lines).catch(error => {
+        console.error('Error prefetching order images:', error);
+      });
+    }
+    return { mode: full ? 'full' : 'incremental', orderCount, syncedAt: syncedAt.toISOString() };
+  } catch (error) {
+    console.error('Error syncing orders from NetSuite:', error);
+    await recordOrderSyncError(describeNetSuiteError(error));
+    throw error;
+  }
+}
+
+/**
+ * Whether the cache is older than ORDER_CACHE_MAX_AGE_MINUTES (or was never synced)
+ */
+export function isCacheStale(state: OrderSyncState): boolean {
+  return !state.lastSyncedAt ||
+    Date.now() - new Date(state.lastSyncedAt).getTime() > ORDER_CACHE_MAX_AGE_MS;
+}
+
+/**
+ * Get the cached order lines, syncing first if the cache is stale
+ * A failed sync is recorded in the returned state rather than thrown, unless there is nothing cached
+ */
+export async function getOrderLines(
+  options: { refreshIfStale?: boolean } = {}
+): Promise<{ lines: NetSuiteItem[]; state: OrderSyncState }> {
+  let state = await getOrderSyncState();
+
+  if (options.refreshIfStale !== false && isCacheStale(state)) {
+    try {
+      await syncOrders();
+    } catch (error) {
+      if (!state.lastSyncedAt) {
+        throw error;
+      }
+    }
+    state = await getOrderSyncState();
+  }
+
+  const lines = await getCachedOrderLines();
+  return { lines, state };
+}
@@ -0,0 +1,122 @@
+import { NetSuiteItem, OrderIssue, OrderItem, ProcessedOrder } from './types';
+
+/**
+ * Validation of the NetSuite lines behind an order
+ * processOrders tolerates bad data so the backlog always loads; these checks say what it papered over.
+ * - error: the slip would be wrong or can't be fulfilled, so printing is blocked unless overridden
+ * - warning: worth a look, but the slip is still right
+ */
+
+// NetSuite dates look like "10/08/2025 8:53 am" or "10/08/2025"
+const NETSUITE_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(\s+\d{1,2}:\d{2}\s*(am|pm))?$/i;
+
+function isValidDate(value: string | undefined): boolean {
+  const match = value?.trim().match(NETSUITE_DATE);
+  if (!match) return false;
+  const month = parseInt(match[1]);
+  const day = parseInt(match[2]);
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+// Fields every line of a fulfillment should agree on; the first line's value is the one used
+const HEADER_FIELDS: Array<{ label: string; severity: OrderIssue['severity']; value: (line: NetSuiteItem) => string }> = [
+  { label: 'ship address', severity: 'error', value: line => (line.values.shipaddress || '').trim() },
+  { label: 'ship method', severity: 'warning', value: line => line.values.shipmethod?.[0]?.text || '' },
+  { label: 'order number', severity: 'warning', value: line => line.values['createdFrom.otherrefnum_1'] || line.values['createdFrom.tranid'] || '' },
+];
+
+/**
+ * Check one order's lines and the items processed from them
+ * `items` are the processed kit-filtered lines, in the same order as `itemLines`
+ */
+export function validateOrderLines(
+  lines: NetSuiteItem[],
+  itemLines: NetSuiteItem[],
+  items: OrderItem[],
+  zipCode: string | undefined
+): OrderIssue[] {
+  const issues: OrderIssue[] = [];
+  const first = lines[0];
+
+  for (const field of HEADER_FIELDS) {
+    const values = new Set(lines.map(field.value));
+    if (values.size > 1) {
+      issues.push({
+        severity: field.severity,
+        code: 'conflicting-header',
+        message: `Lines have ${values.size} different ${field.label}s; using the first`,
+      });
+    }
+  }
+
+  if (!first.values.shipaddress?.trim()) {
+    issues.push({ severity: 'error', code: 'missing-address', message: 'No ship address' });
+  } else if (!zipCode) {
+    issues.push({ severity: 'warning', code: 'missing-zip', message: 'No zip code in the ship address, so the zone is unknown' });
+  }
+
+  const date = first.values['createdFrom.custbody_pir_shop_order_date'] || first.values.datecreated;
+  if (!isValidDate(date)) {
+    issues.push({
+      severity: 'warning',
+      code: 'invalid-date',
+      message: date ? `Order date "${date}" can't be read, so date filters skip it` : 'No order date',
+    });
+  }
+
+  itemLines.forEach((line, index) => {
+    const item = items[index];
+    const label = item.sku || `Line ${index + 1}`;
+
+    if (!item.sku) {
+      issues.push({ severity: 'error', code: 'missing-sku', message: `Line ${index + 1} has no item` });
+    }
+
+    const quantity = parseInt(line.values.quantity);
+    if (isNaN(quantity)) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid-quantity',
+        message: `${label}: quantity "${line.values.quantity ?? ''}" is not a number, counted as 1`,
+      });
+    } else if (quantity <= 0) {
+      issues.push({
+        severity: 'error',
+        code: 'zero-quantity',
+        message: `${label}: quantity is ${quantity}, counted as 1`,
+      });
+    }
+
+    if (item.personalized && !item.barcode && !item.imageUrl) {
+      issues.push({
+        severity: 'error',
+        code: 'missing-personalization',
+        message: `${label}: personalized but has no barcode or image URL`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Orders that can't print until their errors are fixed or someone overrides them
+ */
+export function getBlockedOrders(orders: ProcessedOrder[]): ProcessedOrder[] {
+  return orders.filter(order => order.issues.some(issue => issue.severity === 'error'));
+}
+
+/**
+ * One line per blocked order, for confirmations and API errors
+ */
+export function describeBlockedOrders(orders: ProcessedOrder[], limit = 10): string {
+  const blocked = getBlockedOrders(orders);
+  const lines = blocked.slice(0, limit).map(order => {
+    const errors = order.issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+    return `${order.orderNumber || order.tranid}: ${errors.join('; ')}`;
+  });
+  if (blocked.length > limit) {
+    lines.push(`…and ${blocked.length - limit} more`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,110 @@
+import { BoxSizeConfig, OrderConfig, PackSizeVersion } from './types';
+import { getPackSizeVersion } from './db';
+import defaultOrderConfig from '../order-config.json';
+
+/**
+ * Pack size config lookup (server-only)
+ * Saved versions live in the database; order-config.json is version 0 until the first save
+ */
+
+export const BUILT_IN_PACK_SIZES: PackSizeVersion = {
+  version: 0,
+  config: defaultOrderConfig as OrderConfig,
+  createdAt: null,
+  createdBy: null,
+  note: 'Built-in order-config.json',
+};
+
+/**
+ * Get the pack size config new orders are matched with
+ */
+export async function getActivePackSizes(): Promise<PackSizeVersion> {
+  return (await getPackSizeVersion()) || BUILT_IN_PACK_SIZES;
+}
+
+/**
+ * Get a specific pack size version (0 = built-in), or null if it doesn't exist
+ */
+export async function getPackSizes(version: number): Promise<PackSizeVersion | null> {
+  if (version === 0) return BUILT_IN_PACK_SIZES;
+  return getPackSizeVersion(version);
+}
+
+// Limits on a saved config, keeping box matching and validateOrderConfig's checks bounded
+const MAX_BOX_SIZES = 20;
+const MAX_ITEMS_PER_BOX = 48;
+const MAX_ENTRIES_PER_BOX = 500;
+
+const isPrefixMap = (value: unknown) =>
+  value === undefined || (
+    typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(n => typeof n === 'number' && n >= 0)
+  );
+
+/**
+ * Validate an untrusted pack size config
+ * Returns an error message if the shape is wrong; overlaps are left to validateOrderConfig
+ */
+export function parsePackSizeConfig(body: unknown): OrderConfig | string {
+  if (!body || typeof body !== 'object') {
+    return 'Config must be a JSON object';
+  }
+  const { packSizes } = body as { packSizes?: unknown };
+  if (!packSizes || typeof packSizes !== 'object' || Array.isArray(packSizes)) {
+    return 'packSizes must be an object keyed by box size';
+  }
+
+  const entries = Object.entries(packSizes as Record<string, unknown>);
+  if (entries.length === 0) {
+    return 'At least one box size is required';
+  }
+  if (entries.length > MAX_BOX_SIZES) {
+    return `At most ${MAX_BOX_SIZES} box sizes are allowed`;
+  }
+
+  for (const [key, value] of entries) {
+    const config = value as BoxSizeConfig;
+    if (!config || typeof config !== 'object') {
+      return `${key}: must be an object`;
+    }
+    if (typeof config.name !== 'string' || !config.name.trim()) {
+      return `${key}: name is required`;
+    }
+    if (!Number.isInteger(config.maxItems) || config.maxItems < 1 || config.maxItems > MAX_ITEMS_PER_BOX) {
+      return `${key}: maxItems must be a whole number from 1 to ${MAX_ITEMS_PER_BOX}`;
+    }
+    if (config.cost !== undefined && (typeof config.cost !== 'number' || config.cost < 0)) {
+      return `${key}: cost must be a number of 0 or more`;
+    }
+    if (config.combinations !== undefined && (
+      !Array.isArray(config.combinations) ||
+      config.combinations.some(c => !Array.isArray(c) || c.length === 0 || c.some(p => typeof p !== 'string'))
+    )) {
+      return `${key}: combinations must be non-empty lists of cup prefixes`;
+    }
+    if (config.combinations?.some(c => c.length > MAX_ITEMS_PER_BOX)) {
+      return `${key}: combinations can have at most ${MAX_ITEMS_PER_BOX} cups`;
+    }
+    if ((config.combinations?.length || 0) + (Array.isArray(config.rules) ? config.rules.length : 0) > MAX_ENTRIES_PER_BOX) {
+      return `${key}: at most ${MAX_ENTRIES_PER_BOX} combinations and rules are allowed`;
+    }
+    if (config.rules !== undefined) {
+      if (!Array.isArray(config.rules)) {
+        return `${key}: rules must be a list`;
+      }
+      for (const rule of config.rules) {
+        if (!rule || typeof rule !== 'object' || typeof rule.slots !== 'number') {
+          return `${key}: every rule needs a slots number`;
+        }
+        if (!isPrefixMap(rule.slotsPerCup) || !isPrefixMap(rule.maxPerSize)) {
+          return `${key}: slotsPerCup and maxPerSize must map cup prefixes to numbers`;
+        }
+        if (rule.sizes !== undefined && (!Array.isArray(rule.sizes) || rule.sizes.some(p => typeof p !== 'string'))) {
+          return `${key}: sizes must be a list of cup prefixes`;
+        }
+      }
+    }
+  }
+
+  return { packSizes: packSizes as OrderConfig['packSizes'] };
+}
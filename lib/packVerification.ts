@@ -0,0 +1,120 @@
+import { OrderItem, ProcessedOrder } from './types';
+
+/**
+ * Scan-to-verify at the pack station
+ * The packer scans the slip to pull up an order, then scans every item as it goes in the box.
+ * Personalized items with a customization barcode must be scanned by that barcode, so the right
+ * personalization goes in; everything else can be scanned by SKU.
+ */
+
+export type ItemScanResult =
+  | { kind: 'packed'; itemIndex: number }
+  | { kind: 'over-pick'; itemIndex: number } // Every unit of this item is already packed
+  | { kind: 'needs-barcode'; itemIndex: number } // SKU scanned for an item that has a customization barcode
+  | { kind: 'wrong-item' }; // Not in this order
+
+export interface PackScan {
+  code: string;
+  result: ItemScanResult;
+  scannedAt: string;
+}
+
+export interface PackProgress {
+  packed: number[]; // Units packed per item, same order as order.items
+  missing: Array<{ item: OrderItem; count: number }>;
+  overPicked: Array<{ item: OrderItem; count: number }>;
+  wrongScans: number;
+  verified: boolean; // Every unit packed, nothing extra
+}
+
+const normalize = (code: string) => code.trim().toUpperCase();
+
+/**
+ * Order a slip barcode belongs to: the fulfillment ID, the ShipStation ID from the footer, or the order number
+ */
+export function findOrderByScan(orders: ProcessedOrder[], code: string): ProcessedOrder | null {
+  const scanned = normalize(code);
+  if (!scanned) return null;
+  return orders.find(order => normalize(order.tranid) === scanned)
+    || orders.find(order => order.shipstationOrderId && normalize(order.shipstationOrderId) === scanned)
+    || orders.find(order => normalize(order.orderNumber) === scanned)
+    || null;
+}
+
+/**
+ * Check one item scan against what's already been packed for this order
+ * `packed` is units packed per item, as in PackProgress
+ */
+export function scanItem(order: ProcessedOrder, packed: number[], code: string): ItemScanResult {
+  const scanned = normalize(code);
+  const items = order.items;
+
+  // Customization barcodes are unique to one item
+  const byBarcode = items.findIndex(item => item.barcode && normalize(item.barcode) === scanned);
+  if (byBarcode !== -1) {
+    return packed[byBarcode] < items[byBarcode].quantity
+      ? { kind: 'packed', itemIndex: byBarcode }
+      : { kind: 'over-pick', itemIndex: byBarcode };
+  }
+
+  // The same SKU can be on several lines; fill them in order
+  const bySku = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => normalize(item.sku) === scanned);
+  if (bySku.length === 0) {
+    return { kind: 'wrong-item' };
+  }
+  const open = bySku.find(({ item, index }) => !item.barcode && packed[index] < item.quantity);
+  if (open) {
+    return { kind: 'packed', itemIndex: open.index };
+  }
+  const needsBarcode = bySku.find(({ item, index }) => item.barcode && packed[index] < item.quantity);
+  if (needsBarcode) {
+    return { kind: 'needs-barcode', itemIndex: needsBarcode.index };
+  }
+  return { kind: 'over-pick', itemIndex: bySku[bySku.length - 1].index };
+}
+
+/**
+ * Tally the scans for an order
+ * Over-picks count against the item until the packer takes the extra out (removeScan)
+ */
+export function getPackProgress(order: ProcessedOrder, scans: PackScan[]): PackProgress {
+  const packed = order.items.map(() => 0);
+  let wrongScans = 0;
+  for (const { result } of scans) {
+    if (result.kind === 'packed' || result.kind === 'over-pick') {
+      packed[result.itemIndex]++;
+    } else {
+      wrongScans++;
+    }
+  }
+
+  const missing = order.items
+    .map((item, index) => ({ item, count: item.quantity - packed[index] }))
+    .filter(({ count }) => count > 0);
+  const overPicked = order.items
+    .map((item, index) => ({ item, count: packed[index] - item.quantity }))
+    .filter(({ count }) => count > 0);
+
+  return {
+    packed,
+    missing,
+    overPicked,
+    wrongScans,
+    verified: missing.length === 0 && overPicked.length === 0,
+  };
+}
+
+/**
+ * Drop the most recent scan of an item, e.g. once an over-picked unit is taken back out of the box
+ */
+export function removeScan(scans: PackScan[], itemIndex: number): PackScan[] {
+  for (let i = scans.length - 1; i >= 0; i--) {
+    const result = scans[i].result;
+    if ((result.kind === 'packed' || result.kind === 'over-pick') && result.itemIndex === itemIndex) {
+      return [...scans.slice(0, i), ...scans.slice(i + 1)];
+    }
+  }
+  return scans;
+}
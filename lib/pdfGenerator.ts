@@ -1,21 +1,306 @@
 import { jsPDF } from 'jspdf';
 import JsBarcode from 'jsbarcode';
-import { ProcessedOrder, OrderItem } from './types';
+import { ProcessedOrder, OrderItem, PageProfile } from './types';
+
+export interface PdfRenderOptions {
+  signal?: AbortSignal; // Cancels the run between images and pages
+  onProgress?: (progress: PdfProgress) => void;
+}
+
+export interface PdfOutputOptions extends PdfRenderOptions {
+  profile?: PageProfile; // Packing slip page layout (defaults to letter-2up)
+  pageRange?: { from: number; to: number }; // 1-based, inclusive - used to reprint part of a jammed run
+  pagesPerFile?: number; // Long runs are split into several PDFs of about this many slip pages (not with pageRange)
+}
+
+/**
+ * Progress of a PDF run: each file's images load first, then its pages render
+ */
+export interface PdfProgress {
+  phase: 'images' | 'rendering';
+  done: number; // Images loaded in this file, or orders rendered across the whole run
+  total: number;
+  file: number; // 1-based
+  fileCount: number;
+}
+
+/**
+ * A finished PDF the browser didn't open by itself, for the UI to offer as a link
+ */
+export interface PdfFile {
+  name: string;
+  url: string; // Object URL - free it with releasePdfFiles once the links are gone
+}
+
+/**
+ * Thrown when a run is cancelled through its AbortSignal
+ */
+export class PdfCancelledError extends Error {
+  constructor() {
+    super('PDF generation cancelled');
+    this.name = 'PdfCancelledError';
+  }
+}
+
+// Keeps a browser tab's memory bounded on very large runs
+const DEFAULT_PAGES_PER_FILE = 100;
+
+// Images load a few at a time so a run doesn't flood the image proxy
+const IMAGE_PRELOAD_CONCURRENCY = 6;
+
+// Longest side (px) images are loaded at
+const IMAGE_SIZES = {
+  artwork: 400,
+  item: 300,
+  thermalItem: 150,
+};
+
+// One page of slips: one order, two small orders (2-up), or one order's thermal labels
+type SlipPage = ProcessedOrder[];
+
+// State of a run that may span several files
+interface RenderRun {
+  options: PdfRenderOptions;
+  rendered: number; // Orders rendered so far, across files
+  orderCount: number;
+  file: number;
+  fileCount: number;
+}
+
+function startRun(options: PdfRenderOptions, orderCount: number, fileCount: number = 1): RenderRun {
+  return { options, rendered: 0, orderCount, file: 1, fileCount };
+}
+
+function throwIfCancelled(run: RenderRun): void {
+  if (run.options.signal?.aborted) {
+    throw new PdfCancelledError();
+  }
+}
+
+type LoadedImage = { dataUrl: string; width: number; height: number };
+
+// Images preloaded for a document while it is built; anything not preloaded loads on demand
+const documentImages = new WeakMap<jsPDF, Map<string, LoadedImage | null>>();
+
+const imageKey = (url: string, size: number) => `${size}|${url}`;
+
+async function loadDocumentImage(doc: jsPDF, url: string, size: number): Promise<LoadedImage | null> {
+  const key = imageKey(url, size);
+  const preloaded = documentImages.get(doc);
+  if (preloaded?.has(key)) {
+    return preloaded.get(key)!;
+  }
+  return loadImageAsDataUrl(url, size, size);
+}
 
 /**
- * Generate a multi-page PDF with packing slips for the given orders
- * Singles orders are grouped 2 per page, other orders get 1 per page
+ * Load every image these orders' slips draw, a few at a time, before any page is rendered
  */
-export async function generatePackingSlipsPDF(orders: ProcessedOrder[]): Promise<void> {
+async function preloadImages(doc: jsPDF, orders: ProcessedOrder[], profile: PageProfile, run: RenderRun): Promise<void> {
+  const requests = new Map<string, { url: string; size: number }>();
+  const add = (url: string | undefined, size: number) => {
+    if (url) requests.set(imageKey(url, size), { url, size });
+  };
+  for (const order of orders) {
+    if (profile !== 'thermal-4x6') {
+      add(order.customArtworkUrl, IMAGE_SIZES.artwork);
+    }
+    for (const item of order.items) {
+      add(item.imageUrl, profile === 'thermal-4x6' ? IMAGE_SIZES.thermalItem : IMAGE_SIZES.item);
+    }
+  }
+
+  const images = documentImages.get(doc) || new Map<string, LoadedImage | null>();
+  documentImages.set(doc, images);
+
+  const queue = Array.from(requests.entries()).filter(([key]) => !images.has(key));
+  const total = queue.length;
+  let done = 0;
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      throwIfCancelled(run);
+      const [key, { url, size }] = next;
+      images.set(key, await loadImageAsDataUrl(url, size, size));
+      done++;
+      run.options.onProgress?.({ phase: 'images', done, total, file: run.file, fileCount: run.fileCount });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(IMAGE_PRELOAD_CONCURRENCY, total) }, worker));
+}
+
+/**
+ * Count a rendered page and let the browser repaint before the next one
+ */
+async function reportRendered(run: RenderRun, orderCount: number): Promise<void> {
+  run.rendered += orderCount;
+  run.options.onProgress?.({
+    phase: 'rendering',
+    done: run.rendered,
+    total: run.orderCount,
+    file: run.file,
+    fileCount: run.fileCount,
+  });
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Group slip pages into files of about pagesPerFile pages
+ */
+function splitIntoFiles(pages: SlipPage[], options: PdfOutputOptions): SlipPage[][] {
+  const pagesPerFile = options.pageRange ? pages.length : Math.max(1, options.pagesPerFile ?? DEFAULT_PAGES_PER_FILE);
+  const files: SlipPage[][] = [];
+  for (let i = 0; i < pages.length; i += pagesPerFile) {
+    files.push(pages.slice(i, i + pagesPerFile));
+  }
+  return files;
+}
+
+/**
+ * Page profiles offered in the UI
+ */
+export const PAGE_PROFILES: Array<{ key: PageProfile; name: string }> = [
+  { key: 'letter-2up', name: 'Letter (2-up small orders)' },
+  { key: 'letter', name: 'Letter (1 per page)' },
+  { key: 'thermal-4x6', name: '4x6 Thermal Label' },
+];
+
+// Position of a label within a multi-label order ("1 of N")
+interface LabelMarker {
+  index: number;
+  total: number;
+}
+
+// 4x6 thermal label geometry (inches)
+const THERMAL_PAGE = {
+  width: 4,
+  height: 6,
+  margin: 0.15,
+  headerHeight: 1.45, // Fixed so rows per label can be known before drawing
+  footerHeight: 0.5,
+  rowHeight: 0.42,
+  maxAddressLines: 5,
+};
+
+/**
+ * Trim a finished document to a page range (1-based, inclusive)
+ */
+export function applyPageRange(doc: jsPDF, pageRange: { from: number; to: number }): void {
+  const totalPages = doc.getNumberOfPages();
+  const from = Math.max(1, pageRange.from);
+  const to = Math.min(totalPages, pageRange.to);
+  if (from > to) {
+    throw new Error(`Page range ${pageRange.from}-${pageRange.to} is outside the document (1-${totalPages})`);
+  }
+  // Delete from the end so earlier page numbers stay valid
+  for (let page = totalPages; page > to; page--) {
+    doc.deletePage(page);
+  }
+  for (let page = from - 1; page >= 1; page--) {
+    doc.deletePage(page);
+  }
+}
+
+/**
+ * Turn a finished document into a PdfFile, trimmed to the requested page range
+ * The jsPDF document can be dropped afterwards, which keeps long split runs' memory down
+ */
+function toPdfFile(doc: jsPDF, options: PdfOutputOptions, name: string): PdfFile {
+  if (options.pageRange) {
+    applyPageRange(doc, options.pageRange);
+  }
+  return { name, url: URL.createObjectURL(doc.output('blob')) };
+}
+
+function fileName(base: string, index: number, count: number): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return count > 1 ? `${base}-${date}-${index + 1}-of-${count}.pdf` : `${base}-${date}.pdf`;
+}
+
+/**
+ * Open a run's PDF in a new tab, or hand its files back for the UI to link
+ * Popup blockers allow at most one tab per click, and often none once a run has spent time
+ * loading images, so only a single file is opened and only if the browser allows it
+ */
+function openPdfFiles(files: PdfFile[]): PdfFile[] {
+  if (files.length === 1 && window.open(files[0].url, '_blank')) {
+    // Clean up the object URL after a short delay (browser will handle it when tab closes)
+    setTimeout(() => URL.revokeObjectURL(files[0].url), 100);
+    return [];
+  }
+  return files;
+}
+
+/**
+ * Free the object URLs of files returned by a generate function
+ */
+export function releasePdfFiles(files: PdfFile[]): void {
+  files.forEach(file => URL.revokeObjectURL(file.url));
+}
+
+/**
+ * Generate a multi-page PDF with packing slips for the given orders and open it
+ * Long runs are split into several PDFs (see pagesPerFile); returns the files that weren't opened (see openPdfFiles)
+ */
+export async function generatePackingSlipsPDF(orders: ProcessedOrder[], options: PdfOutputOptions = {}): Promise<PdfFile[]> {
   if (!orders || orders.length === 0) {
     throw new Error('No orders provided');
   }
 
-  const doc = new jsPDF({
+  const profile = options.profile || 'letter-2up';
+  const files = splitIntoFiles(planPackingSlipPages(orders, profile), options);
+  const run = startRun(options, orders.length, files.length);
+
+  const pdfFiles: PdfFile[] = [];
+  try {
+    for (let i = 0; i < files.length; i++) {
+      run.file = i + 1;
+      const doc = createSlipDocument(profile);
+      await addPackingSlipPages(doc, files[i], profile, false, run);
+      pdfFiles.push(toPdfFile(doc, options, fileName('packing-slips', i, files.length)));
+    }
+  } catch (error) {
+    releasePdfFiles(pdfFiles);
+    throw error;
+  }
+  return openPdfFiles(pdfFiles);
+}
+
+/**
+ * Build the packing slips document (works in the browser and on the server)
+ */
+export async function buildPackingSlipsDocument(
+  orders: ProcessedOrder[],
+  profile: PageProfile = 'letter-2up',
+  options: PdfRenderOptions = {}
+): Promise<jsPDF> {
+  if (!orders || orders.length === 0) {
+    throw new Error('No orders provided');
+  }
+
+  const doc = createSlipDocument(profile);
+  await addPackingSlipPages(doc, planPackingSlipPages(orders, profile), profile, false, startRun(options, orders.length));
+
+  return doc;
+}
+
+function createSlipDocument(profile: PageProfile): jsPDF {
+  return new jsPDF({
     orientation: 'portrait',
     unit: 'in',
-    format: 'letter',
+    format: profile === 'thermal-4x6' ? [THERMAL_PAGE.width, THERMAL_PAGE.height] : 'letter',
   });
+}
+
+/**
+ * Lay out orders into slip pages using a page profile
+ * letter-2up: Singles and 2/4 Packs are grouped 2 per page, other orders get 1 per page
+ * letter: every order gets its own page
+ * thermal-4x6: every order gets one or more 4x6 labels
+ */
+function planPackingSlipPages(orders: ProcessedOrder[], profile: PageProfile): SlipPage[] {
+  if (profile !== 'letter-2up') {
+    return orders.map(order => [order]);
+  }
 
   // Separate singles / small packs from other orders
   const singlesOrders: ProcessedOrder[] = [];
@@ -30,23 +315,40 @@ export async function generatePackingSlipsPDF(orders: ProcessedOrder[]): Promise
     }
   }
 
-  let pageAdded = false;
+  // Singles orders 2 per page (the last one alone if there's an odd number), then other orders 1 per page
+  const pages: SlipPage[] = [];
+  for (let i = 0; i < singlesOrders.length; i += 2) {
+    pages.push(singlesOrders.slice(i, i + 2));
+  }
+  return [...pages, ...otherOrders.map(order => [order])];
+}
 
-  // Process singles orders (2 per page)
-  if (singlesOrders.length > 0) {
-    for (let i = 0; i < singlesOrders.length; i += 2) {
+/**
+ * Add slip pages to the document, loading their images first
+ */
+async function addPackingSlipPages(
+  doc: jsPDF,
+  pages: SlipPage[],
+  profile: PageProfile,
+  pageAdded: boolean,
+  run: RenderRun
+): Promise<void> {
+  await preloadImages(doc, pages.flat(), profile, run);
+
+  for (const [order1, order2] of pages) {
+    throwIfCancelled(run);
+
+    if (profile === 'thermal-4x6') {
+      try {
+        await generateThermalLabels(doc, order1, pageAdded);
+      } catch (error) {
+        console.error('Error generating thermal labels:', error);
+        throw error;
+      }
+    } else {
       if (pageAdded) {
         doc.addPage();
       }
-      pageAdded = true;
-
-      const order1 = singlesOrders[i];
-      if (!order1) {
-        console.error('Missing order1 at index', i);
-        continue;
-      }
-
-      const order2 = singlesOrders[i + 1]; // May be undefined if odd number
 
       if (order2) {
         // Two orders side by side
@@ -57,38 +359,18 @@ export async function generatePackingSlipsPDF(orders: ProcessedOrder[]): Promise
           throw error;
         }
       } else {
-        // Last single order alone (or only one single)
         try {
           await generatePackingSlipPage(doc, order1);
         } catch (error) {
-          console.error('Error generating single packing slip page:', error);
+          console.error('Error generating packing slip page:', error);
           throw error;
         }
       }
     }
-  }
-
-  // Process other orders (1 per page)
-  for (const order of otherOrders) {
-    if (pageAdded) {
-      doc.addPage();
-    }
     pageAdded = true;
-    
-    try {
-      await generatePackingSlipPage(doc, order);
-    } catch (error) {
-      console.error('Error generating packing slip page:', error);
-      throw error;
-    }
-  }
 
-  // Open PDF in new tab instead of downloading
-  const pdfBlob = doc.output('blob');
-  const pdfUrl = URL.createObjectURL(pdfBlob);
-  window.open(pdfUrl, '_blank');
-  // Clean up the object URL after a short delay (browser will handle it when tab closes)
-  setTimeout(() => URL.revokeObjectURL(pdfUrl), 100);
+    await reportRendered(run, order2 ? 2 : 1);
+  }
 }
 
 /**
@@ -105,7 +387,18 @@ async function generatePackingSlipPage(doc: jsPDF, order: ProcessedOrder): Promi
   
   // Items table
   const itemsStartY = headerHeight + 0.2;
-  await drawItemsTable(doc, order, margin, itemsStartY, contentWidth, pageHeight - margin - 0.5);
+  const itemsEndY = await drawItemsTable(doc, order, margin, itemsStartY, contentWidth, pageHeight - margin - 0.5);
+
+  // Per-box contents when the order ships in more than one box
+  if (order.boxes.length > 1) {
+    const boxesHeight = 0.4 + order.boxes.length * 0.35;
+    if (itemsEndY + boxesHeight > pageHeight - margin - 0.5) {
+      doc.addPage();
+      drawBoxContents(doc, order, margin, margin, contentWidth);
+    } else {
+      drawBoxContents(doc, order, margin, itemsEndY + 0.2, contentWidth);
+    }
+  }
   
   // Footer with barcode
   await drawFooter(doc, order, margin, pageHeight - 0.3, contentWidth);
@@ -166,7 +459,19 @@ async function generateTwoSinglesPage(doc: jsPDF, order1: ProcessedOrder, order2
 /**
  * Draw header with 3-column layout: Logo+Ship To (left), Custom Artwork (middle), Order Details (right)
  */
-async function drawHeader(doc: jsPDF, order: ProcessedOrder, x: number, y: number, width: number): Promise<number> {
+async function drawHeader(
+  doc: jsPDF,
+  order: ProcessedOrder,
+  x: number,
+  y: number,
+  width: number,
+  profile: PageProfile = 'letter',
+  label?: LabelMarker
+): Promise<number> {
+  if (profile === 'thermal-4x6') {
+    return drawThermalHeader(doc, order, x, y, width, label);
+  }
+
   const startY = y;
   const isNarrow = width < 3.5; // Singles layout is narrower
   const col1Width = width * 0.35; // Left column (Logo + Ship To)
@@ -201,7 +506,7 @@ async function drawHeader(doc: jsPDF, order: ProcessedOrder, x: number, y: numbe
       currentY += 0.15;
       
       // Load and optimize custom artwork image (scale for narrow layout)
-      const artworkData = await loadImageAsDataUrl(order.customArtworkUrl, isNarrow ? 200 : 400, isNarrow ? 200 : 400);
+      const artworkData = await loadDocumentImage(doc, order.customArtworkUrl, isNarrow ? 200 : IMAGE_SIZES.artwork);
       if (artworkData) {
         const maxWidth = isNarrow ? 0.85 : 1.7;
         const maxHeight = isNarrow ? 0.65 : 1.3;
@@ -276,7 +581,7 @@ async function drawHeader(doc: jsPDF, order: ProcessedOrder, x: number, y: numbe
 /**
  * Add imgix parameters to resize and compress images
  */
-function optimizeImageUrl(url: string, maxWidth: number = 300, maxHeight: number = 300): string {
+export function optimizeImageUrl(url: string, maxWidth: number = 300, maxHeight: number = 300): string {
   if (url.startsWith('data:')) {
     return url; // Already a data URL, return as-is
   }
@@ -296,7 +601,12 @@ function optimizeImageUrl(url: string, maxWidth: number = 300, maxHeight: number
 /**
  * Load an image from URL and convert to data URL, returning both the data URL and dimensions
  */
-async function loadImageAsDataUrl(url: string, maxWidth: number = 300, maxHeight: number = 300): Promise<{ dataUrl: string; width: number; height: number } | null> {
+export async function loadImageAsDataUrl(url: string, maxWidth: number = 300, maxHeight: number = 300): Promise<{ dataUrl: string; width: number; height: number } | null> {
+  // No Image/FileReader on the server
+  if (typeof window === 'undefined') {
+    return loadImageAsDataUrlInNode(url, maxWidth, maxHeight);
+  }
+
   try {
     // If it's already a data URL, load it to get dimensions
     if (url.startsWith('data:')) {
@@ -310,11 +620,9 @@ async function loadImageAsDataUrl(url: string, maxWidth: number = 300, maxHeight
       });
     }
 
-    // Optimize imgix URLs with resize/compress parameters
-    const optimizedUrl = optimizeImageUrl(url, maxWidth, maxHeight);
-
-    // Fetch the image
-    const response = await fetch(optimizedUrl, { mode: 'cors' });
+    // Fetch through the image cache proxy: same-origin, pre-sized, and cached across runs
+    const size = Math.max(maxWidth, maxHeight);
+    const response = await fetch(`/api/images?url=${encodeURIComponent(url)}&size=${size}`);
     if (!response.ok) {
       throw new Error(`Failed to fetch image: ${response.statusText}`);
     }
@@ -342,6 +650,108 @@ async function loadImageAsDataUrl(url: string, maxWidth: number = 300, maxHeight
   }
 }
 
+/**
+ * Where server-rendered PDFs get images (url, longest side in px -> data URL)
+ * Routes that render PDFs point this at the image cache; without one, images are fetched directly
+ */
+type ServerImageSource = (url: string, size: number) => Promise<string | null>;
+
+let serverImageSource: ServerImageSource | null = null;
+
+export function setServerImageSource(source: ServerImageSource | null): void {
+  serverImageSource = source;
+}
+
+/**
+ * Server-side counterpart of loadImageAsDataUrl
+ * Reads dimensions from the image header via jsPDF instead of decoding it
+ */
+async function loadImageAsDataUrlInNode(url: string, maxWidth: number, maxHeight: number): Promise<{ dataUrl: string; width: number; height: number } | null> {
+  try {
+    let dataUrl = url;
+    if (!url.startsWith('data:') && serverImageSource) {
+      const cached = await serverImageSource(url, Math.max(maxWidth, maxHeight));
+      if (!cached) {
+        throw new Error(`Image unavailable: ${url}`);
+      }
+      dataUrl = cached;
+    } else if (!url.startsWith('data:')) {
+      const response = await fetch(optimizeImageUrl(url, maxWidth, maxHeight));
+      if (!response.ok) {
+        throw new Error(`Failed to fetch image: ${response.statusText}`);
+      }
+      const contentType = response.headers.get('content-type') || 'image/jpeg';
+      const bytes = Buffer.from(await response.arrayBuffer());
+      dataUrl = `data:${contentType};base64,${bytes.toString('base64')}`;
+    }
+
+    const properties = new jsPDF().getImageProperties(dataUrl);
+    return { dataUrl, width: properties.width, height: properties.height };
+  } catch (error) {
+    console.warn('Error loading image:', error);
+    return null;
+  }
+}
+
+/**
+ * Draw a barcode onto the document
+ * Uses the rasterized canvas barcode in the browser and vector bars on the server
+ * Returns false if the barcode could not be drawn
+ */
+async function drawBarcode(doc: jsPDF, value: string, x: number, y: number, width: number, height: number): Promise<boolean> {
+  if (typeof document === 'undefined') {
+    return drawVectorBarcode(doc, value, x, y, width, height);
+  }
+
+  const barcodeDataUrl = await generateBarcodeAsync(value, width, height);
+  if (!barcodeDataUrl) return false;
+  doc.addImage(barcodeDataUrl, 'PNG', x, y, width, height);
+  return true;
+}
+
+/**
+ * Draw a CODE128 barcode as filled rectangles (no canvas needed)
+ * Mirrors the canvas layout: quiet zone on both sides, human-readable value underneath
+ */
+function drawVectorBarcode(doc: jsPDF, value: string, x: number, y: number, width: number, height: number): boolean {
+  if (!value) return false;
+
+  try {
+    // JsBarcode's object renderer just returns the encoded bar pattern
+    const barcode: { encodings?: Array<{ data: string }> } = {};
+    JsBarcode(barcode, value, { format: 'CODE128' });
+    const modules = (barcode.encodings || []).map(encoding => encoding.data).join('');
+    if (!modules) return false;
+
+    const quietZoneModules = 10;
+    const moduleWidth = width / (modules.length + quietZoneModules * 2);
+    const textHeight = height * 0.25;
+    const barHeight = height - textHeight;
+
+    doc.setFillColor(0, 0, 0);
+    let i = 0;
+    while (i < modules.length) {
+      if (modules[i] === '1') {
+        let run = 1;
+        while (modules[i + run] === '1') run++;
+        doc.rect(x + (quietZoneModules + i) * moduleWidth, y, run * moduleWidth, barHeight, 'F');
+        i += run;
+      } else {
+        i++;
+      }
+    }
+
+    const fontSize = doc.getFontSize();
+    doc.setFontSize(Math.max(5, textHeight * 72 * 0.8));
+    doc.text(value, x + width / 2, y + height - textHeight * 0.15, { align: 'center' });
+    doc.setFontSize(fontSize);
+    return true;
+  } catch (error) {
+    console.warn('Failed to draw barcode:', error);
+    return false;
+  }
+}
+
 /**
  * Generate barcode using jsbarcode (works in browser)
  * Generates at high resolution (300 DPI equivalent) for crisp printing
@@ -399,8 +809,13 @@ async function drawItemsTable(
   x: number,
   y: number,
   width: number,
-  maxY: number
+  maxY: number,
+  profile: PageProfile = 'letter'
 ): Promise<number> {
+  if (profile === 'thermal-4x6') {
+    return drawThermalItemsTable(doc, order, x, y, width);
+  }
+
   let currentY = y;
   const isNarrow = width < 3.5; // Singles layout is narrower
 
@@ -477,7 +892,7 @@ async function drawItemsTable(
     if (item.imageUrl) {
       try {
         // Load and optimize item image (larger size to use available space)
-        const imgData = await loadImageAsDataUrl(item.imageUrl, isNarrow ? 150 : 300, isNarrow ? 150 : 300);
+        const imgData = await loadDocumentImage(doc, item.imageUrl, isNarrow ? 150 : IMAGE_SIZES.item);
         if (imgData) {
           const maxWidth = isNarrow ? 0.3 : 0.5;
           const maxHeight = isNarrow ? 0.25 : 0.45;
@@ -520,12 +935,10 @@ async function drawItemsTable(
         const barcodeWidth = isNarrow ? 0.99 : 1.99; // Increased by additional 15% for better scannability
         const barcodeHeight = isNarrow ? 0.23 : 0.46; // Increased by 15% for better scannability
         // Generate barcode at target size for proper aspect ratio
-        const barcodeDataUrl = await generateBarcodeAsync(item.barcode, barcodeWidth, barcodeHeight);
-        if (barcodeDataUrl) {
-          const barcodeX = xPos + (colWidths[2] - barcodeWidth) / 2; // Center horizontally
-          const barcodeY = rowStartY + (rowHeight - barcodeHeight) / 2; // Center vertically
-          doc.addImage(barcodeDataUrl, 'PNG', barcodeX, barcodeY, barcodeWidth, barcodeHeight);
-        } else {
+        const barcodeX = xPos + (colWidths[2] - barcodeWidth) / 2; // Center horizontally
+        const barcodeY = rowStartY + (rowHeight - barcodeHeight) / 2; // Center vertically
+        const drawn = await drawBarcode(doc, item.barcode, barcodeX, barcodeY, barcodeWidth, barcodeHeight);
+        if (!drawn) {
           // Fallback to text if barcode generation fails
           doc.text(item.barcode, xPos + colWidths[2] / 2, rowStartY + (isNarrow ? 0.1 : 0.2), { align: 'center' });
         }
@@ -569,24 +982,31 @@ async function drawItemsTable(
   return currentY;
 }
 
-async function drawFooter(doc: jsPDF, order: ProcessedOrder, x: number, y: number, width: number): Promise<void> {
+async function drawFooter(
+  doc: jsPDF,
+  order: ProcessedOrder,
+  x: number,
+  y: number,
+  width: number,
+  profile: PageProfile = 'letter',
+  label?: LabelMarker
+): Promise<void> {
+  if (profile === 'thermal-4x6') {
+    return drawThermalFooter(doc, order, x, y, width, label);
+  }
+
   const isNarrow = width < 3.5; // Singles layout is narrower
   doc.setFontSize(isNarrow ? 6 : 8);
   doc.setFont('helvetica', 'normal');
   
   // Barcode on left (if available and not LTL/Local Pickup)
-  if (order.shipstationOrderId && order.shipmethod && 
-      !order.shipmethod.includes('LTL') && !order.shipmethod.includes('Local Pickup')) {
+  const barcodeValue = getShipStationBarcodeValue(order);
+  if (barcodeValue) {
     try {
-      // Use the full ShipStation order ID with ^#^ wrapper for scanning
-      const barcodeValue = order.shipstationOrderId;
       const barcodeWidth = isNarrow ? 0.99 : 1.99; // Increased by additional 15% for better scannability
       const barcodeHeight = isNarrow ? 0.23 : 0.46; // Increased by 15% for better scannability
       // Generate barcode at target size for proper aspect ratio
-      const barcodeDataUrl = await generateBarcodeAsync(barcodeValue, barcodeWidth, barcodeHeight);
-      if (barcodeDataUrl) {
-        doc.addImage(barcodeDataUrl, 'PNG', x, y - 0.25, barcodeWidth, barcodeHeight);
-      }
+      await drawBarcode(doc, barcodeValue, x, y - 0.25, barcodeWidth, barcodeHeight);
     } catch (error) {
       console.warn('Failed to generate footer barcode:', error);
     }
@@ -601,9 +1021,303 @@ async function drawFooter(doc: jsPDF, order: ProcessedOrder, x: number, y: numbe
 }
 
 /**
- * Generate a picklist PDF grouped by pick location (BIN)
+ * ShipStation barcode value for the footer, or null for LTL/Local Pickup orders
+ * Uses the full ShipStation order ID with ^#^ wrapper for scanning
  */
-export async function generatePicklistPDF(orders: ProcessedOrder[]): Promise<void> {
+export function getShipStationBarcodeValue(order: ProcessedOrder): string | null {
+  if (order.shipstationOrderId && order.shipmethod &&
+      !order.shipmethod.includes('LTL') && !order.shipmethod.includes('Local Pickup')) {
+    return order.shipstationOrderId;
+  }
+  return null;
+}
+
+/**
+ * Generate one or more 4x6 labels for an order
+ * Rows per label are fixed up front so every label can be marked "i of N"
+ */
+async function generateThermalLabels(doc: jsPDF, order: ProcessedOrder, pageAdded: boolean): Promise<void> {
+  const { width, height, margin, headerHeight, footerHeight, rowHeight } = THERMAL_PAGE;
+  const contentWidth = width - (margin * 2);
+  const tableHeaderHeight = 0.24;
+  const rowsPerLabel = Math.max(1, Math.floor(
+    (height - margin - headerHeight - 0.2 - tableHeaderHeight - footerHeight) / (rowHeight + 0.02)
+  ));
+  const itemLabelCount = Math.max(1, Math.ceil(order.items.length / rowsPerLabel));
+  // Multi-box orders get one more label listing what goes in each box
+  const labelCount = itemLabelCount + (order.boxes.length > 1 ? 1 : 0);
+
+  for (let i = 0; i < labelCount; i++) {
+    if (pageAdded || i > 0) {
+      doc.addPage([width, height], 'portrait');
+    }
+
+    const label = { index: i + 1, total: labelCount };
+    const headerBottom = await drawHeader(doc, order, margin, margin, contentWidth, 'thermal-4x6', label);
+    if (i < itemLabelCount) {
+      const labelOrder = { ...order, items: order.items.slice(i * rowsPerLabel, (i + 1) * rowsPerLabel) };
+      await drawItemsTable(doc, labelOrder, margin, headerBottom + 0.2, contentWidth, height - footerHeight, 'thermal-4x6');
+    } else {
+      drawBoxContents(doc, order, margin, headerBottom + 0.25, contentWidth);
+    }
+    await drawFooter(doc, order, margin, height - margin, contentWidth, 'thermal-4x6', label);
+  }
+}
+
+/**
+ * List what goes in each box, e.g. "Box 1 of 2 - 6/10 Pack: DPT16-BLK x6, DPT16-WHT x4"
+ */
+function drawBoxContents(doc: jsPDF, order: ProcessedOrder, x: number, y: number, width: number): number {
+  const isSmall = width < 4;
+  let currentY = y;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(isSmall ? 8 : 9);
+  doc.text(`SHIPS IN ${order.boxes.length} BOXES`, x, currentY);
+  currentY += isSmall ? 0.18 : 0.2;
+
+  order.boxes.forEach((box, index) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(isSmall ? 7 : 8);
+    doc.text(`Box ${index + 1} of ${order.boxes.length} - ${box.name}`, x, currentY);
+    currentY += isSmall ? 0.13 : 0.15;
+
+    doc.setFont('helvetica', 'normal');
+    const contents = box.contents.map(c => `${c.sku} x${c.quantity}`).join(', ');
+    const lines: string[] = doc.splitTextToSize(contents, width - 0.15);
+    doc.text(lines, x + 0.15, currentY);
+    currentY += lines.length * (isSmall ? 0.12 : 0.14) + 0.05;
+  });
+
+  return currentY;
+}
+
+/**
+ * 4x6 header: title and label marker, then Ship To beside the order details
+ * Custom artwork is left off - at label size it is too small to check against
+ */
+function drawThermalHeader(
+  doc: jsPDF,
+  order: ProcessedOrder,
+  x: number,
+  y: number,
+  width: number,
+  label?: LabelMarker
+): number {
+  const { headerHeight, maxAddressLines } = THERMAL_PAGE;
+  const shipToWidth = width * 0.55;
+  const detailX = x + shipToWidth + 0.1;
+  const detailWidth = width - shipToWidth - 0.1;
+
+  // Title row
+  let currentY = y + 0.17;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('PACKING SLIP', x, currentY);
+  if (label) {
+    doc.setFontSize(10);
+    doc.text(`${label.index} of ${label.total}`, x + width, currentY, { align: 'right' });
+  }
+
+  // Ship To (left)
+  currentY += 0.22;
+  doc.setFontSize(7);
+  doc.text('SHIP TO', x, currentY);
+  currentY += 0.13;
+  doc.setFont('helvetica', 'normal');
+  const addressLines = order.shipaddress.split('\r\n').filter(line => line.trim()).slice(0, maxAddressLines);
+  for (const line of addressLines) {
+    const fitted = doc.splitTextToSize(line, shipToWidth - 0.05)[0] || '';
+    doc.text(fitted, x, currentY);
+    currentY += 0.12;
+  }
+
+  // Order details (right)
+  const orderDateDisplay = order.datecreated ? order.datecreated.split(' ')[0] : '';
+  const details = [
+    { label: 'Order #', value: order.orderNumber },
+    { label: 'IF', value: order.tranid },
+    { label: 'PO', value: order.poNumber || '' },
+    { label: 'Date', value: orderDateDisplay },
+  ];
+  let detailY = y + 0.39;
+  doc.setFontSize(6.5);
+  for (const detail of details) {
+    doc.setFont('helvetica', 'bold');
+    doc.text(detail.label + ':', detailX, detailY);
+    doc.setFont('helvetica', 'normal');
+    const value = doc.splitTextToSize(detail.value || 'N/A', detailWidth * 0.7)[0] || '';
+    doc.text(value, detailX + detailWidth, detailY, { align: 'right' });
+    doc.setLineWidth(0.005);
+    doc.line(detailX, detailY + 0.04, detailX + detailWidth, detailY + 0.04);
+    detailY += 0.15;
+  }
+
+  // Order notes (up to 2 lines across the full width)
+  if (order.memo) {
+    const notesY = y + headerHeight - 0.22;
+    doc.setFontSize(6);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Notes:', x, notesY);
+    doc.setFont('helvetica', 'normal');
+    const noteLines = (doc.splitTextToSize(order.memo, width - 0.35) as string[]).slice(0, 2);
+    doc.text(noteLines, x + 0.32, notesY);
+  }
+
+  // Separator line
+  const bottom = y + headerHeight;
+  doc.setLineWidth(0.01);
+  doc.line(x, bottom, x + width, bottom);
+
+  return bottom;
+}
+
+/**
+ * 4x6 items table: image, item (SKU + color/size/bin), barcode, quantity
+ * Callers pass only the rows that fit on the current label
+ */
+async function drawThermalItemsTable(
+  doc: jsPDF,
+  order: ProcessedOrder,
+  x: number,
+  y: number,
+  width: number
+): Promise<number> {
+  const { rowHeight } = THERMAL_PAGE;
+  let currentY = y;
+
+  const baseColWidths = [0.45, 1.45, 1.3, 0.5];
+  const totalBaseWidth = baseColWidths.reduce((a, b) => a + b, 0);
+  const colWidths = baseColWidths.map(w => w * (width / totalBaseWidth));
+
+  // Table header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(6);
+  doc.text('ITEM', x + colWidths[0], currentY);
+  doc.text('BARCODE', x + colWidths[0] + colWidths[1] + colWidths[2] / 2, currentY, { align: 'center' });
+  doc.text('QTY', x + width, currentY, { align: 'right' });
+  currentY += 0.1;
+  doc.setLineWidth(0.01);
+  doc.line(x, currentY, x + width, currentY);
+  currentY += 0.04;
+
+  for (const item of order.items) {
+    const rowStartY = currentY;
+    let xPos = x;
+
+    // Image column
+    if (item.imageUrl) {
+      try {
+        const imgData = await loadDocumentImage(doc, item.imageUrl, IMAGE_SIZES.thermalItem);
+        if (imgData) {
+          const maxSize = 0.38;
+          const aspectRatio = imgData.width / imgData.height;
+          let imgWidth = maxSize;
+          let imgHeight = maxSize / aspectRatio;
+          if (imgHeight > maxSize) {
+            imgHeight = maxSize;
+            imgWidth = maxSize * aspectRatio;
+          }
+          const format = imgData.dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+          doc.addImage(imgData.dataUrl, format, xPos, rowStartY + (rowHeight - imgHeight) / 2, imgWidth, imgHeight);
+        }
+      } catch (error) {
+        console.warn('Failed to load image:', item.imageUrl, error);
+      }
+    }
+    xPos += colWidths[0];
+
+    // Item: SKU, then color/size/bin, then description
+    const textWidth = colWidths[1] - 0.05;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.text(doc.splitTextToSize(item.sku, textWidth)[0] || '', xPos, rowStartY + 0.12);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(5.5);
+    const attributes = [item.color, item.size, item.pickLocation ? `BIN ${item.pickLocation}` : '']
+      .filter(Boolean)
+      .join(' · ');
+    if (attributes) {
+      doc.text(doc.splitTextToSize(attributes, textWidth)[0] || '', xPos, rowStartY + 0.22);
+    }
+    if (item.description) {
+      doc.text(doc.splitTextToSize(item.description, textWidth)[0] || '', xPos, rowStartY + 0.31);
+    }
+    xPos += colWidths[1];
+
+    // Barcode column
+    if (item.barcode) {
+      const barcodeWidth = Math.min(1.2, colWidths[2] - 0.05);
+      const barcodeHeight = 0.3;
+      const drawn = await drawBarcode(
+        doc,
+        item.barcode,
+        xPos + (colWidths[2] - barcodeWidth) / 2,
+        rowStartY + (rowHeight - barcodeHeight) / 2,
+        barcodeWidth,
+        barcodeHeight
+      );
+      if (!drawn) {
+        doc.setFontSize(6);
+        doc.text(item.barcode, xPos + colWidths[2] / 2, rowStartY + 0.2, { align: 'center' });
+      }
+    }
+    xPos += colWidths[2];
+
+    // Quantity column
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.text(item.quantity.toString(), xPos + colWidths[3], rowStartY + 0.24, { align: 'right' });
+
+    currentY += rowHeight;
+    doc.setLineWidth(0.005);
+    doc.line(x, currentY, x + width, currentY);
+    currentY += 0.02;
+  }
+
+  return currentY;
+}
+
+/**
+ * 4x6 footer: ShipStation barcode on the left, label marker on the right
+ */
+async function drawThermalFooter(
+  doc: jsPDF,
+  order: ProcessedOrder,
+  x: number,
+  y: number,
+  width: number,
+  label?: LabelMarker
+): Promise<void> {
+  const barcodeValue = getShipStationBarcodeValue(order);
+  if (barcodeValue) {
+    try {
+      await drawBarcode(doc, barcodeValue, x, y - 0.38, 1.6, 0.36);
+    } catch (error) {
+      console.warn('Failed to generate footer barcode:', error);
+    }
+  }
+
+  if (label) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.text(`Label ${label.index} of ${label.total}`, x + width, y, { align: 'right' });
+  }
+}
+
+/**
+ * Generate a picklist PDF grouped by pick location (BIN) and open it
+ * Returns the file if the browser wouldn't open it (see openPdfFiles)
+ */
+export async function generatePicklistPDF(orders: ProcessedOrder[], options: PdfOutputOptions = {}): Promise<PdfFile[]> {
+  const doc = await buildPicklistDocument(orders);
+  return openPdfFiles([toPdfFile(doc, options, fileName('picklist', 0, 1))]);
+}
+
+/**
+ * Build the picklist document grouped by pick location (BIN)
+ */
+export async function buildPicklistDocument(orders: ProcessedOrder[]): Promise<jsPDF> {
   if (!orders || orders.length === 0) {
     throw new Error('No orders provided');
   }
@@ -935,22 +1649,68 @@ export async function generatePicklistPDF(orders: ProcessedOrder[]): Promise<voi
     currentY += 0.1;
   }
 
-  // Open PDF in new tab instead of downloading
-  const pdfBlob = doc.output('blob');
-  const pdfUrl = URL.createObjectURL(pdfBlob);
-  window.open(pdfUrl, '_blank');
-  // Clean up the object URL after a short delay (browser will handle it when tab closes)
-  setTimeout(() => URL.revokeObjectURL(pdfUrl), 100);
+  return doc;
+}
+
+/**
+ * Generate a combined PDF with both picklist and packing slips and open it
+ * Long runs are split into several PDFs (see pagesPerFile); the picklist for the whole run is in the first.
+ * Returns the files that weren't opened (see openPdfFiles)
+ */
+export async function generateCombinedPDF(orders: ProcessedOrder[], options: PdfOutputOptions = {}): Promise<PdfFile[]> {
+  if (!orders || orders.length === 0) {
+    throw new Error('No orders provided');
+  }
+
+  const profile = options.profile || 'letter-2up';
+  const files = splitIntoFiles(planPackingSlipPages(orders, profile), options);
+  const run = startRun(options, orders.length, files.length);
+
+  const pdfFiles: PdfFile[] = [];
+  try {
+    for (let i = 0; i < files.length; i++) {
+      run.file = i + 1;
+      let doc: jsPDF;
+      if (i === 0) {
+        doc = await buildCombinedFile(orders, files[i], profile, run);
+      } else {
+        doc = createSlipDocument(profile);
+        await addPackingSlipPages(doc, files[i], profile, false, run);
+      }
+      pdfFiles.push(toPdfFile(doc, options, fileName('picklist-and-packing-slips', i, files.length)));
+    }
+  } catch (error) {
+    releasePdfFiles(pdfFiles);
+    throw error;
+  }
+  return openPdfFiles(pdfFiles);
 }
 
 /**
- * Generate a combined PDF with both picklist and packing slips
+ * Build a combined document with both picklist and packing slips
  */
-export async function generateCombinedPDF(orders: ProcessedOrder[]): Promise<void> {
+export async function buildCombinedDocument(
+  orders: ProcessedOrder[],
+  profile: PageProfile = 'letter-2up',
+  options: PdfRenderOptions = {}
+): Promise<jsPDF> {
   if (!orders || orders.length === 0) {
     throw new Error('No orders provided');
   }
 
+  return buildCombinedFile(orders, planPackingSlipPages(orders, profile), profile, startRun(options, orders.length));
+}
+
+/**
+ * Picklist for all the orders, followed by these slip pages
+ */
+async function buildCombinedFile(
+  orders: ProcessedOrder[],
+  pages: SlipPage[],
+  profile: PageProfile,
+  run: RenderRun
+): Promise<jsPDF> {
+
   // Start with picklist generation - reuse the same logic from generatePicklistPDF
   // Collect all items with their pick locations and order info
   interface PicklistItem {
@@ -1211,70 +1971,7 @@ export async function generateCombinedPDF(orders: ProcessedOrder[]): Promise<voi
   }
 
   // Add packing slips after picklist
-  doc.addPage();
-
-  const singlesOrders: ProcessedOrder[] = [];
-  const otherOrders: ProcessedOrder[] = [];
-  
-  for (const order of orders) {
-    if (order.boxSize === 'singles' || order.boxSize === '4pack') {
-      singlesOrders.push(order);
-    } else {
-      otherOrders.push(order);
-    }
-  }
-
-  let pageAdded = false;
-
-  if (singlesOrders.length > 0) {
-    for (let i = 0; i < singlesOrders.length; i += 2) {
-      if (pageAdded) {
-        doc.addPage();
-      }
-      pageAdded = true;
-
-      const order1 = singlesOrders[i];
-      if (!order1) {
-        console.error('Missing order1 at index', i);
-        continue;
-      }
-
-      const order2 = singlesOrders[i + 1];
-
-      if (order2) {
-        try {
-          await generateTwoSinglesPage(doc, order1, order2);
-        } catch (error) {
-          console.error('Error generating two singles page:', error);
-          throw error;
-        }
-      } else {
-        try {
-          await generatePackingSlipPage(doc, order1);
-        } catch (error) {
-          console.error('Error generating single packing slip page:', error);
-          throw error;
-        }
-      }
-    }
-  }
-
-  for (const order of otherOrders) {
-    if (pageAdded) {
-      doc.addPage();
-    }
-    pageAdded = true;
-    
-    try {
-      await generatePackingSlipPage(doc, order);
-    } catch (error) {
-      console.error('Error generating packing slip page:', error);
-      throw error;
-    }
-  }
+  await addPackingSlipPages(doc, pages, profile, true, run);
 
-  const pdfBlob = doc.output('blob');
-  const pdfUrl = URL.createObjectURL(pdfBlob);
-  window.open(pdfUrl, '_blank');
-  setTimeout(() => URL.revokeObjectURL(pdfUrl), 100);
+  return doc;
 }
@@ -0,0 +1,1660 @@
+import { Pool, PoolClient } from 'pg';
+import { AppliedMigration, MigrationDriver } from './migrate';
+import { PRINTED_STATUSES } from './orderStatus';
+import { CachedImage, OrderStatusChange, Store, UndoClearResult, WriteBackEntry } from './store';
+import { AppUser, CatalogEntry, ImageCacheStats, NetSuiteItem, OrderConfig, OrderStatus, OrderStatusEvent, OrderStatusRecord, OrderStatusScope, OrderSyncState, OutputFormat, PackSizeVersion, PageProfile, PrintAuditAction, PrintAuditContext, PrintAuditEntry, PrintAuditLog, PrintBatch, PrintBatchDetail, PrintBatchFilters, PrintDocumentType, SerializedProcessedOrder, UserRole, WriteBackStatus } from './types';
+
+/**
+ * Postgres storage backend (the default)
+ * Connects with the first connection string found in the env vars below, e.g. Supabase or Vercel Postgres
+ */
+
+// Create a connection pool (reused across requests)
+let pool: Pool | null = null;
+
+/**
+ * TLS settings from DB_SSL: 'no-verify' (default) encrypts without checking the certificate, as
+ * Supabase's isn't publicly trusted; 'verify' also checks it; 'off' is for a local server without TLS
+ */
+function getSslConfig(): { rejectUnauthorized: boolean } | false {
+  const mode = process.env.DB_SSL || 'no-verify';
+  if (mode === 'off') return false;
+  if (mode === 'verify') return { rejectUnauthorized: true };
+  if (mode === 'no-verify') return { rejectUnauthorized: false };
+  throw new Error(`DB_SSL must be no-verify, verify or off, not "${mode}"`);
+}
+
+function getPool(): Pool {
+  if (!pool) {
+    // Check multiple possible environment variable names
+    // Supabase/Vercel might use different names
+    const connectionString = 
+      process.env.POSTGRES_URL || 
+      process.env.DATABASE_URL || 
+      process.env.SUPABASE_DATABASE_URL ||
+      process.env.POSTGRES_PRISMA_URL ||
+      process.env.POSTGRES_URL_NON_POOLING;
+    
+    if (!connectionString) {
+      const error = 'Missing database connection string. Checked: POSTGRES_URL, DATABASE_URL, SUPABASE_DATABASE_URL, POSTGRES_PRISMA_URL, POSTGRES_URL_NON_POOLING';
+      console.error(error);
+      throw new Error(error);
+    }
+    
+    console.log('Connecting to database with connection string:', connectionString.replace(/:[^:@]+@/, ':****@')); // Hide password in logs
+    
+    // Prefer non-pooling URL for direct connections (more reliable SSL)
+    const useNonPooling = process.env.POSTGRES_URL_NON_POOLING && 
+                          !connectionString.includes('pooler');
+    const baseConnectionString = useNonPooling 
+      ? (process.env.POSTGRES_URL_NON_POOLING || connectionString)
+      : connectionString;
+    
+    // Remove sslmode from connection string and handle SSL via Pool config
+    // This prevents conflicts with SSL certificate handling
+    const url = new URL(baseConnectionString);
+    url.searchParams.delete('sslmode');
+    const finalConnectionString = url.toString();
+    
+    pool = new Pool({
+      connectionString: finalConnectionString,
+      ssl: getSslConfig(),
+      // Connection pool settings for serverless
+      max: 1, // Limit connections for serverless
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 10000,
+    });
+  }
+  
+  return pool;
+}
+
+// Rows as Postgres returns them: times are Dates, and COUNT and SUM are bigint strings
+
+interface CurrentStatusRow {
+  tranid: string;
+  status: OrderStatus;
+}
+
+interface OrderStatusRow extends CurrentStatusRow {
+  changed_at: Date;
+  changed_by: string | null;
+}
+
+interface OrderStatusEventRow extends OrderStatusRow {
+  from_status: OrderStatus;
+  note: string | null;
+}
+
+/**
+ * Move orders to a status and record each transition, inside the caller's transaction
+ * `from` limits the move to orders currently in one of those statuses; orders already there are skipped
+ */
+async function applyStatusChange(
+  client: PoolClient,
+  tranids: string[],
+  status: OrderStatus,
+  options: { from?: OrderStatus[]; changedBy?: string | null; note?: string | null } = {}
+): Promise<OrderStatusChange[]> {
+  if (tranids.length === 0) return [];
+
+  const current = await client.query<CurrentStatusRow>(
+    'SELECT tranid, status FROM order_statuses WHERE tranid = ANY($1) FOR UPDATE',
+    [tranids]
+  );
+  const currentStatuses = new Map(current.rows.map(row => [row.tranid, row.status]));
+
+  const changes: OrderStatusChange[] = [];
+  for (const tranid of Array.from(new Set(tranids))) {
+    const fromStatus = currentStatuses.get(tranid) || 'new';
+    if (fromStatus === status || (options.from && !options.from.includes(fromStatus))) continue;
+    changes.push({ tranid, fromStatus, status });
+  }
+  if (changes.length === 0) return changes;
+
+  // One statement for the statuses and one for the history, however many orders moved
+  await client.query(
+    `INSERT INTO order_statuses (tranid, status, changed_at, changed_by)
+     SELECT tranid, $2::text, NOW(), $3::text FROM UNNEST($1::text[]) AS tranid
+     ON CONFLICT (tranid) DO UPDATE SET status = EXCLUDED.status, changed_at = NOW(), changed_by = EXCLUDED.changed_by`,
+    [changes.map(change => change.tranid), status, options.changedBy ?? null]
+  );
+  await client.query(
+    `INSERT INTO order_status_events (tranid, from_status, status, changed_by, note)
+     SELECT tranid, from_status, $3::text, $4::text, $5::text FROM UNNEST($1::text[], $2::text[]) AS moved (tranid, from_status)`,
+    [changes.map(change => change.tranid), changes.map(change => change.fromStatus), status, options.changedBy ?? null, options.note ?? null]
+  );
+  return changes;
+}
+
+/**
+ * Append an entry to the print audit log, inside the caller's transaction
+ */
+async function insertAuditEntry(
+  client: PoolClient,
+  action: PrintAuditAction,
+  audit: PrintAuditContext,
+  tranids: string[],
+  details: Record<string, unknown> | null = null
+): Promise<number> {
+  const result = await client.query<{ id: number }>(
+    `INSERT INTO print_audit_log (action, actor, source, tranids, details) VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+    [action, audit.actor, audit.source, tranids, details ? JSON.stringify(details) : null]
+  );
+  return result.rows[0].id;
+}
+
+/**
+ * Move orders to a status in a transaction, logging the orders that moved under `action`
+ */
+async function changeStatusWithAudit(
+  tranids: string[],
+  status: OrderStatus,
+  options: { from?: OrderStatus[]; changedBy?: string | null; note?: string | null },
+  action: PrintAuditAction,
+  audit: PrintAuditContext
+): Promise<OrderStatusChange[]> {
+  if (tranids.length === 0) return [];
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const changes = await applyStatusChange(client, tranids, status, {
+      ...options,
+      changedBy: options.changedBy ?? audit.actor,
+    });
+    if (changes.length > 0) {
+      await insertAuditEntry(client, action, audit, changes.map(change => change.tranid), action === 'status' ? { status } : null);
+    }
+    await client.query('COMMIT');
+    return changes;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error setting order status:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Move orders to a status, recording a history event for each order that changed
+ * Returns the orders that actually moved
+ */
+async function setOrderStatus(
+  tranids: string[],
+  status: OrderStatus,
+  options: { from?: OrderStatus[]; changedBy?: string | null; note?: string | null },
+  audit: PrintAuditContext
+): Promise<OrderStatusChange[]> {
+  return changeStatusWithAudit(tranids, status, options, 'status', audit);
+}
+
+// Conditions limiting order_statuses to an OrderStatusScope, given toScopeParams(scope) as $1-$3
+const STATUS_SCOPE_CONDITIONS = `($1::text[] IS NULL OR tranid = ANY($1))
+  AND ($2::timestamptz IS NULL OR changed_at >= $2)
+  AND (NOT $3::boolean OR tranid IN (SELECT tranid FROM order_cache))`;
+
+function toScopeParams(scope: OrderStatusScope): [string[] | null, Date | null, boolean] {
+  return [scope.tranids ?? null, scope.since ?? null, !scope.tranids && !scope.since];
+}
+
+/**
+ * Get the status of each order in the scope that has left 'new', keyed by tranid
+ * By default, the orders in the order cache
+ */
+async function getOrderStatuses(scope: OrderStatusScope = {}): Promise<Record<string, OrderStatusRecord>> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<OrderStatusRow>(
+      `SELECT tranid, status, changed_at, changed_by FROM order_statuses WHERE status <> 'new' AND ${STATUS_SCOPE_CONDITIONS}`,
+      toScopeParams(scope)
+    );
+    const statuses: Record<string, OrderStatusRecord> = {};
+    for (const row of result.rows) {
+      statuses[row.tranid] = {
+        status: row.status,
+        changedAt: row.changed_at.toISOString(),
+        changedBy: row.changed_by,
+      };
+    }
+    return statuses;
+  } catch (error) {
+    console.error('Error getting order statuses:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get an order's status transitions, oldest first
+ */
+async function getOrderStatusHistory(tranid: string): Promise<OrderStatusEvent[]> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<OrderStatusEventRow>(
+      `SELECT tranid, from_status, status, changed_at, changed_by, note FROM order_status_events
+       WHERE tranid = $1 ORDER BY changed_at, id`,
+      [tranid]
+    );
+    return result.rows.map(row => ({
+      tranid: row.tranid,
+      fromStatus: row.from_status,
+      status: row.status,
+      changedAt: row.changed_at.toISOString(),
+      changedBy: row.changed_by,
+      note: row.note,
+    }));
+  } catch (error) {
+    console.error('Error getting order status history:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the tranids of printed orders in the scope (printed, or further along), most recent first
+ * By default, the orders in the order cache
+ */
+async function getPrintedOrders(scope: OrderStatusScope = {}): Promise<string[]> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<{ tranid: string }>(
+      `SELECT tranid FROM order_statuses WHERE status = ANY($4) AND ${STATUS_SCOPE_CONDITIONS} ORDER BY changed_at DESC`,
+      [...toScopeParams(scope), PRINTED_STATUSES]
+    );
+    return result.rows.map(row => row.tranid);
+  } catch (error) {
+    console.error('Error getting printed orders:', error);
+    return [];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Check if a specific order is printed
+ */
+async function isOrderPrinted(tranid: string): Promise<boolean> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<{ tranid: string }>(
+      'SELECT tranid FROM order_statuses WHERE tranid = $1 AND status = ANY($2)',
+      [tranid, PRINTED_STATUSES]
+    );
+    return result.rows.length > 0;
+  } catch (error) {
+    console.error('Error checking if order is printed:', error);
+    return false;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Mark orders as printed
+ * Only new orders move; reprinting an order that's further along (or on hold) leaves its status alone
+ */
+async function markOrdersAsPrinted(tranids: string[], audit: PrintAuditContext): Promise<void> {
+  await changeStatusWithAudit(tranids, 'printed', { from: ['new'] }, 'mark', audit);
+}
+
+/**
+ * Move every printed order back to new; orders picked or further along keep their status
+ * The audit entry keeps each order's printed state so the clear can be undone
+ * Returns the orders that were cleared
+ */
+async function clearPrintedOrders(audit: PrintAuditContext): Promise<string[]> {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const printed = await client.query<OrderStatusRow>(
+      `SELECT tranid, status, changed_at, changed_by FROM order_statuses WHERE status = 'printed' FOR UPDATE`
+    );
+    const changes = await applyStatusChange(
+      client,
+      printed.rows.map(row => row.tranid),
+      'new',
+      { from: ['printed'], changedBy: audit.actor, note: 'Printed status cleared' }
+    );
+    await insertAuditEntry(client, 'clear', audit, changes.map(change => change.tranid), {
+      previous: printed.rows.map(row => ({
+        tranid: row.tranid,
+        status: row.status,
+        changedAt: row.changed_at.toISOString(),
+        changedBy: row.changed_by,
+      })),
+    });
+    await client.query('COMMIT');
+    return changes.map(change => change.tranid);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error clearing printed orders:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Move specific printed orders (or ones further along) back to new
+ */
+async function unmarkOrdersAsPrinted(tranids: string[], audit: PrintAuditContext): Promise<void> {
+  await changeStatusWithAudit(tranids, 'new', { from: PRINTED_STATUSES, note: 'Printed status cleared' }, 'unmark', audit);
+}
+
+/**
+ * Put back the printed state the most recent clear removed
+ * Orders that have left 'new' since the clear are skipped. Returns null if there's no clear left to undo
+ */
+async function undoLastClear(audit: PrintAuditContext): Promise<UndoClearResult | null> {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    // Locking the clear's row makes a second undo wait, then see the first one's entry
+    const clear = await client.query<{ id: number; details: { previous?: unknown } | null }>(
+      `SELECT id, details FROM print_audit_log WHERE action = 'clear' ORDER BY id DESC LIMIT 1 FOR UPDATE`
+    );
+    if (clear.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const clearId = clear.rows[0].id;
+    const undone = await client.query(
+      `SELECT 1 FROM print_audit_log WHERE action = 'undo-clear' AND (details->>'undoes')::int = $1`,
+      [clearId]
+    );
+    if (undone.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const previous = (clear.rows[0].details?.previous || []) as Array<{
+      tranid: string;
+      status: OrderStatus;
+      changedAt: string;
+      changedBy: string | null;
+    }>;
+    const current = await client.query<CurrentStatusRow>(
+      'SELECT tranid, status FROM order_statuses WHERE tranid = ANY($1) FOR UPDATE',
+      [previous.map(entry => entry.tranid)]
+    );
+    const currentStatuses = new Map(current.rows.map(row => [row.tranid, row.status]));
+
+    const toRestore = previous.filter(entry => (currentStatuses.get(entry.tranid) || 'new') === 'new');
+    const skipped = previous.filter(entry => !toRestore.includes(entry)).map(entry => entry.tranid);
+    if (toRestore.length > 0) {
+      // Restore the original timestamp and user, so the order reads as printed when it really was
+      await client.query(
+        `INSERT INTO order_statuses (tranid, status, changed_at, changed_by)
+         SELECT * FROM UNNEST($1::text[], $2::text[], $3::timestamptz[], $4::text[])
+         ON CONFLICT (tranid) DO UPDATE SET status = EXCLUDED.status, changed_at = EXCLUDED.changed_at, changed_by = EXCLUDED.changed_by`,
+        [
+          toRestore.map(entry => entry.tranid),
+          toRestore.map(entry => entry.status),
+          toRestore.map(entry => entry.changedAt),
+          toRestore.map(entry => entry.changedBy),
+        ]
+      );
+      await client.query(
+        `INSERT INTO order_status_events (tranid, from_status, status, changed_by, note)
+         SELECT tranid, 'new', status, $3::text, $4::text FROM UNNEST($1::text[], $2::text[]) AS restored (tranid, status)`,
+        [toRestore.map(entry => entry.tranid), toRestore.map(entry => entry.status), audit.actor, `Restored by undo of clear #${clearId}`]
+      );
+    }
+    const restored: UndoClearResult['restored'] = toRestore.map(entry => ({ tranid: entry.tranid, printedAt: entry.changedAt }));
+    await insertAuditEntry(client, 'undo-clear', audit, restored.map(entry => entry.tranid), { undoes: clearId, skipped });
+
+    await client.query('COMMIT');
+    return { clearId, restored, skipped };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error undoing clear:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// The pre-clear snapshot is only needed to undo, so it's left out of listings
+const PRINT_AUDIT_COLUMNS = `id, created_at, action, actor, source, tranids, details - 'previous' AS details`;
+
+interface PrintAuditRow {
+  id: number;
+  created_at: Date;
+  action: PrintAuditAction;
+  actor: string | null;
+  source: string;
+  tranids: string[];
+  details: PrintAuditEntry['details'];
+}
+
+/**
+ * Map a print_audit_log row to a PrintAuditEntry
+ */
+function toPrintAuditEntry(row: PrintAuditRow): PrintAuditEntry {
+  return {
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    action: row.action,
+    actor: row.actor,
+    source: row.source,
+    tranids: row.tranids,
+    details: row.details,
+  };
+}
+
+/**
+ * Get the audit log (newest first), optionally only entries touching an order or made by a user
+ */
+async function getPrintAuditLog(
+  filters: { tranid?: string | null; actor?: string | null } = {},
+  limit: number = 200
+): Promise<PrintAuditLog> {
+  const client = await getPool().connect();
+  try {
+    const entries = await client.query<PrintAuditRow>(
+      `SELECT ${PRINT_AUDIT_COLUMNS} FROM print_audit_log
+       WHERE ($1::text IS NULL OR $1 = ANY(tranids)) AND ($2::text IS NULL OR actor = $2)
+       ORDER BY id DESC LIMIT $3`,
+      [filters.tranid || null, filters.actor || null, limit]
+    );
+    const actors = await client.query<{ actor: string }>(
+      `SELECT DISTINCT actor FROM print_audit_log WHERE actor IS NOT NULL ORDER BY actor`
+    );
+    const undoable = await client.query<PrintAuditRow>(
+      `SELECT ${PRINT_AUDIT_COLUMNS} FROM print_audit_log c
+       WHERE action = 'clear' AND cardinality(tranids) > 0
+         AND id = (SELECT MAX(id) FROM print_audit_log WHERE action = 'clear')
+         AND NOT EXISTS (
+           SELECT 1 FROM print_audit_log u WHERE u.action = 'undo-clear' AND (u.details->>'undoes')::int = c.id
+         )`
+    );
+    return {
+      entries: entries.rows.map(toPrintAuditEntry),
+      actors: actors.rows.map(row => row.actor),
+      undoableClear: undoable.rows.length > 0 ? toPrintAuditEntry(undoable.rows[0]) : null,
+    };
+  } catch (error) {
+    console.error('Error getting print audit log:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Move statuses last changed before `changedBefore` out of order_statuses, for orders no longer in the order cache
+ * They go to order_status_archive, or are deleted if `archive` is false; their history is kept either way.
+ * Returns how many were moved
+ */
+async function pruneOrderStatuses(changedBefore: Date, options: { archive: boolean }): Promise<number> {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const pruned = await client.query<OrderStatusRow>(
+      `DELETE FROM order_statuses
+       WHERE changed_at < $1 AND tranid NOT IN (SELECT tranid FROM order_cache)
+       RETURNING tranid, status, changed_at, changed_by`,
+      [changedBefore]
+    );
+    if (options.archive && pruned.rows.length > 0) {
+      await client.query(
+        `INSERT INTO order_status_archive (tranid, status, changed_at, changed_by)
+         SELECT * FROM UNNEST($1::text[], $2::text[], $3::timestamptz[], $4::text[])
+         ON CONFLICT (tranid) DO UPDATE SET
+           status = EXCLUDED.status, changed_at = EXCLUDED.changed_at, changed_by = EXCLUDED.changed_by, archived_at = NOW()`,
+        [
+          pruned.rows.map(row => row.tranid),
+          pruned.rows.map(row => row.status),
+          pruned.rows.map(row => row.changed_at),
+          pruned.rows.map(row => row.changed_by),
+        ]
+      );
+    }
+    await client.query('COMMIT');
+    return pruned.rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error pruning order statuses:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Columns for batch listings - the snapshot is only loaded for a single batch
+const PRINT_BATCH_COLUMNS = 'id, created_at, document_type, printed_by, order_count, filters, page_profile, pack_size_version, output_format';
+
+interface PrintBatchRow {
+  id: number;
+  created_at: Date;
+  document_type: PrintDocumentType;
+  printed_by: string | null;
+  order_count: number;
+  filters: PrintBatchFilters | null;
+  page_profile: PageProfile | null;
+  pack_size_version: number | null;
+  output_format: OutputFormat | null;
+}
+
+/**
+ * Map a print_batches row to a PrintBatch
+ */
+function toPrintBatch(row: PrintBatchRow): PrintBatch {
+  return {
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    documentType: row.document_type,
+    printedBy: row.printed_by,
+    orderCount: row.order_count,
+    filters: row.filters,
+    pageProfile: row.page_profile,
+    packSizeVersion: row.pack_size_version,
+    outputFormat: row.output_format,
+  };
+}
+
+/**
+ * Record a print batch and mark its orders as printed
+ * Runs in a single transaction so a batch never exists without its orders
+ */
+async function createPrintBatch(batch: {
+  documentType: PrintDocumentType;
+  printedBy: string | null;
+  filters: PrintBatchFilters | null;
+  pageProfile: PageProfile | null;
+  packSizeVersion: number | null;
+  outputFormat: OutputFormat | null;
+  orders: Array<{ tranid: string; orderNumber: string | null }>;
+  snapshot: SerializedProcessedOrder[] | null;
+}, source: string): Promise<PrintBatch> {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query<PrintBatchRow>(
+      `INSERT INTO print_batches (document_type, printed_by, order_count, filters, orders_snapshot, page_profile, pack_size_version, output_format)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${PRINT_BATCH_COLUMNS}`,
+      [
+        batch.documentType,
+        batch.printedBy,
+        batch.orders.length,
+        batch.filters ? JSON.stringify(batch.filters) : null,
+        batch.snapshot ? JSON.stringify(batch.snapshot) : null,
+        batch.pageProfile,
+        batch.packSizeVersion,
+        batch.outputFormat,
+      ]
+    );
+    const created = toPrintBatch(result.rows[0]);
+
+    // One statement for every order; an order listed twice keeps its first position
+    await client.query(
+      `INSERT INTO print_batch_orders (batch_id, tranid, order_number, position)
+       SELECT $1::integer, tranid, order_number, position
+       FROM UNNEST($2::text[], $3::text[]) WITH ORDINALITY AS ordered (tranid, order_number, position)
+       ON CONFLICT (batch_id, tranid) DO NOTHING`,
+      [created.id, batch.orders.map(order => order.tranid), batch.orders.map(order => order.orderNumber)]
+    );
+    const changes = await applyStatusChange(client, batch.orders.map(order => order.tranid), 'printed', {
+      from: ['new'],
+      changedBy: batch.printedBy,
+      note: `Print batch #${created.id}`,
+    });
+    await insertAuditEntry(
+      client,
+      'batch',
+      { actor: batch.printedBy, source },
+      changes.map(change => change.tranid),
+      { batchId: created.id }
+    );
+
+    await client.query('COMMIT');
+    return created;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error creating print batch:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the most recent print batches (newest first)
+ */
+async function getPrintBatches(limit: number = 50): Promise<PrintBatch[]> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<PrintBatchRow>(
+      `SELECT ${PRINT_BATCH_COLUMNS} FROM print_batches ORDER BY created_at DESC, id DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(toPrintBatch);
+  } catch (error) {
+    console.error('Error getting print batches:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a single print batch with the orders it contained, in print order
+ */
+async function getPrintBatch(id: number): Promise<PrintBatchDetail | null> {
+  const client = await getPool().connect();
+  try {
+    const batchResult = await client.query<PrintBatchRow & { orders_snapshot: SerializedProcessedOrder[] | null }>(
+      `SELECT ${PRINT_BATCH_COLUMNS}, orders_snapshot FROM print_batches WHERE id = $1`,
+      [id]
+    );
+    if (batchResult.rows.length === 0) {
+      return null;
+    }
+
+    const ordersResult = await client.query<{ tranid: string; order_number: string | null; position: number }>(
+      'SELECT tranid, order_number, position FROM print_batch_orders WHERE batch_id = $1 ORDER BY position',
+      [id]
+    );
+
+    return {
+      ...toPrintBatch(batchResult.rows[0]),
+      orders: ordersResult.rows.map(row => ({
+        tranid: row.tranid,
+        orderNumber: row.order_number,
+        position: row.position,
+      })),
+      snapshot: batchResult.rows[0].orders_snapshot,
+    };
+  } catch (error) {
+    console.error('Error getting print batch:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get every cached NetSuite line, grouped by fulfillment in tranid order
+ */
+async function getCachedOrderLines(): Promise<NetSuiteItem[]> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<{ lines: NetSuiteItem[] }>('SELECT lines FROM order_cache ORDER BY tranid');
+    return result.rows.flatMap(row => row.lines);
+  } catch (error) {
+    console.error('Error getting cached order lines:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store lines pulled from NetSuite and advance the sync watermark
+ * Each fulfillment's lines replace what was cached for it; a full sync also drops
+ * fulfillments NetSuite no longer returns (shipped or closed)
+ */
+async function saveSyncedOrderLines(
+  lines: NetSuiteItem[],
+  options: { full: boolean; syncedAt: Date }
+): Promise<number> {
+  const linesByTranid = new Map<string, NetSuiteItem[]>();
+  for (const line of lines) {
+    const tranid = line.values.tranid;
+    if (!linesByTranid.has(tranid)) {
+      linesByTranid.set(tranid, []);
+    }
+    linesByTranid.get(tranid)!.push(line);
+  }
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    if (options.full) {
+      await client.query('DELETE FROM order_cache WHERE NOT (tranid = ANY($1::text[]))', [
+        Array.from(linesByTranid.keys()),
+      ]);
+    }
+
+    // One statement for every fulfillment, however many the sync returned
+    const entries = Array.from(linesByTranid.entries());
+    await client.query(
+      `INSERT INTO order_cache (tranid, lines, synced_at)
+       SELECT tranid, lines, $3::timestamptz FROM UNNEST($1::text[], $2::jsonb[]) AS synced (tranid, lines)
+       ON CONFLICT (tranid) DO UPDATE SET lines = EXCLUDED.lines, synced_at = EXCLUDED.synced_at`,
+      [entries.map(([tranid]) => tranid), entries.map(([, tranLines]) => JSON.stringify(tranLines)), options.syncedAt]
+    );
+
+    await client.query(
+      `INSERT INTO order_sync_state (id, last_synced_at, last_full_sync_at, last_error, last_error_at)
+       VALUES (1, $1, $2, NULL, NULL)
+       ON CONFLICT (id) DO UPDATE SET
+         last_synced_at = EXCLUDED.last_synced_at,
+         last_full_sync_at = COALESCE(EXCLUDED.last_full_sync_at, order_sync_state.last_full_sync_at),
+         last_error = NULL,
+         last_error_at = NULL`,
+      [options.syncedAt, options.full ? options.syncedAt : null]
+    );
+
+    await client.query('COMMIT');
+    return linesByTranid.size;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error saving synced order lines:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a failed sync without touching the cache or watermark
+ */
+async function recordOrderSyncError(message: string): Promise<void> {
+  const client = await getPool().connect();
+  try {
+    await client.query(
+      `INSERT INTO order_sync_state (id, last_error, last_error_at) VALUES (1, $1, NOW())
+       ON CONFLICT (id) DO UPDATE SET last_error = EXCLUDED.last_error, last_error_at = EXCLUDED.last_error_at`,
+      [message]
+    );
+  } catch (error) {
+    console.error('Error recording order sync error:', error);
+  } finally {
+    client.release();
+  }
+}
+
+interface OrderSyncStateRow {
+  last_synced_at: Date | null;
+  last_full_sync_at: Date | null;
+  last_error: string | null;
+  last_error_at: Date | null;
+}
+
+/**
+ * Get the order cache watermark and last sync error
+ */
+async function getOrderSyncState(): Promise<OrderSyncState> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<OrderSyncStateRow>(
+      'SELECT last_synced_at, last_full_sync_at, last_error, last_error_at FROM order_sync_state WHERE id = 1'
+    );
+    const row = result.rows[0] as OrderSyncStateRow | undefined;
+    const toIso = (value: Date | null | undefined) => (value ? value.toISOString() : null);
+    return {
+      lastSyncedAt: toIso(row?.last_synced_at),
+      lastFullSyncAt: toIso(row?.last_full_sync_at),
+      lastError: row?.last_error ?? null,
+      lastErrorAt: toIso(row?.last_error_at),
+    };
+  } catch (error) {
+    console.error('Error getting order sync state:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Queue printed state to be written back to NetSuite
+ * Re-queuing an order replaces whatever was pending for it (latest print wins)
+ */
+async function enqueueWriteBacks(
+  entries: Array<{ tranid: string; batchId: number | null; printedAt: Date | null }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  // One statement, so the whole list is queued or none of it. A statement can only update a row
+  // once, so an order listed twice is queued with its last entry
+  const latest = Array.from(new Map(entries.map(entry => [entry.tranid, entry])).values());
+  const client = await getPool().connect();
+  try {
+    await client.query(
+      `INSERT INTO netsuite_writeback_queue (tranid, batch_id, printed_at)
+       SELECT * FROM UNNEST($1::text[], $2::integer[], $3::timestamptz[])
+       ON CONFLICT (tranid) DO UPDATE SET
+         batch_id = EXCLUDED.batch_id,
+         printed_at = EXCLUDED.printed_at,
+         status = 'pending',
+         attempts = 0,
+         last_error = NULL,
+         queued_at = NOW(),
+         next_attempt_at = NOW(),
+         updated_at = NOW()`,
+      [latest.map(entry => entry.tranid), latest.map(entry => entry.batchId), latest.map(entry => entry.printedAt)]
+    );
+  } catch (error) {
+    console.error('Error queueing NetSuite write-backs:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+interface DueWriteBackRow {
+  tranid: string;
+  batch_id: number | null;
+  printed_at: Date | null;
+  attempts: number;
+  queued_at: string; // Text, so the exact timestamp round-trips in recordWriteBackAttempt
+  internal_id: string | null;
+}
+
+/**
+ * Get pending write-backs that are due for an attempt, oldest first
+ */
+async function getDueWriteBacks(limit: number): Promise<WriteBackEntry[]> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<DueWriteBackRow>(
+      `SELECT q.tranid, q.batch_id, q.printed_at, q.attempts, q.queued_at::text AS queued_at, c.lines->0->>'id' AS internal_id
+       FROM netsuite_writeback_queue q
+       LEFT JOIN order_cache c ON c.tranid = q.tranid
+       WHERE q.status = 'pending' AND q.next_attempt_at <= NOW()
+       ORDER BY q.next_attempt_at
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(row => ({
+      tranid: row.tranid,
+      internalId: row.internal_id,
+      batchId: row.batch_id,
+      printedAt: row.printed_at ? row.printed_at.toISOString() : null,
+      attempts: row.attempts,
+      queuedAt: row.queued_at,
+    }));
+  } catch (error) {
+    console.error('Error getting due NetSuite write-backs:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record the outcome of a write-back attempt
+ * Matches on queued_at so an attempt never overwrites a newer print of the same order
+ */
+async function recordWriteBackAttempt(
+  entry: WriteBackEntry,
+  outcome: { success: true } | { success: false; error: string; nextAttemptAt: Date | null }
+): Promise<void> {
+  const client = await getPool().connect();
+  try {
+    if (outcome.success) {
+      await client.query(
+        `UPDATE netsuite_writeback_queue
+         SET status = 'written', attempts = attempts + 1, last_error = NULL, updated_at = NOW()
+         WHERE tranid = $1 AND queued_at = $2::timestamptz`,
+        [entry.tranid, entry.queuedAt]
+      );
+    } else {
+      await client.query(
+        `UPDATE netsuite_writeback_queue
+         SET status = $3, attempts = attempts + 1, last_error = $4,
+             next_attempt_at = COALESCE($5, next_attempt_at), updated_at = NOW()
+         WHERE tranid = $1 AND queued_at = $2::timestamptz`,
+        [entry.tranid, entry.queuedAt, outcome.nextAttemptAt ? 'pending' : 'failed', outcome.error, outcome.nextAttemptAt]
+      );
+    }
+  } catch (error) {
+    console.error('Error recording NetSuite write-back attempt:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Put failed write-backs back in the queue for another round of attempts
+ */
+async function retryFailedWriteBacks(): Promise<number> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query(
+      `UPDATE netsuite_writeback_queue
+       SET status = 'pending', attempts = 0, next_attempt_at = NOW(), updated_at = NOW()
+       WHERE status = 'failed'`
+    );
+    return result.rowCount || 0;
+  } catch (error) {
+    console.error('Error retrying failed NetSuite write-backs:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+interface WriteBackStatusRow {
+  tranid: string;
+  status: WriteBackStatus['status'];
+  attempts: number;
+  last_error: string | null;
+  updated_at: Date;
+}
+
+/**
+ * Get write-back status keyed by tranid, newest first, for orders still in the backlog or not yet written
+ */
+async function getWriteBackStatuses(limit: number = 2000): Promise<Record<string, WriteBackStatus>> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<WriteBackStatusRow>(
+      `SELECT tranid, status, attempts, last_error, updated_at FROM netsuite_writeback_queue
+       WHERE status <> 'written' OR tranid IN (SELECT tranid FROM order_cache)
+       ORDER BY updated_at DESC LIMIT $1`,
+      [limit]
+    );
+    const statuses: Record<string, WriteBackStatus> = {};
+    for (const row of result.rows) {
+      statuses[row.tranid] = {
+        status: row.status,
+        attempts: row.attempts,
+        lastError: row.last_error,
+        updatedAt: row.updated_at.toISOString(),
+      };
+    }
+    return statuses;
+  } catch (error) {
+    console.error('Error getting NetSuite write-back statuses:', error);
+    return {};
+  } finally {
+    client.release();
+  }
+}
+
+interface PackSizeVersionRow {
+  version: number;
+  config: OrderConfig;
+  created_at: Date;
+  created_by: string | null;
+  note: string | null;
+}
+
+/**
+ * Map a pack_size_versions row to a PackSizeVersion
+ */
+function toPackSizeVersion(row: PackSizeVersionRow): PackSizeVersion {
+  return {
+    version: row.version,
+    config: row.config,
+    createdAt: new Date(row.created_at).toISOString(),
+    createdBy: row.created_by,
+    note: row.note,
+  };
+}
+
+/**
+ * Get a saved pack size version, or the latest one if no version is given
+ * Returns null if no version has been saved (or the requested one doesn't exist)
+ */
+async function getPackSizeVersion(version?: number): Promise<PackSizeVersion | null> {
+  const client = await getPool().connect();
+  try {
+    const result = version === undefined
+      ? await client.query<PackSizeVersionRow>('SELECT * FROM pack_size_versions ORDER BY version DESC LIMIT 1')
+      : await client.query<PackSizeVersionRow>('SELECT * FROM pack_size_versions WHERE version = $1', [version]);
+    return result.rows.length > 0 ? toPackSizeVersion(result.rows[0]) : null;
+  } catch (error) {
+    console.error('Error getting pack size version:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * List saved pack size versions (newest first), without their configs
+ */
+async function getPackSizeVersions(limit: number = 50): Promise<Omit<PackSizeVersion, 'config'>[]> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<Omit<PackSizeVersionRow, 'config'>>(
+      'SELECT version, created_at, created_by, note FROM pack_size_versions ORDER BY version DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map(row => ({
+      version: row.version,
+      createdAt: new Date(row.created_at).toISOString(),
+      createdBy: row.created_by,
+      note: row.note,
+    }));
+  } catch (error) {
+    console.error('Error getting pack size versions:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save a pack size config as a new version, which becomes the active one
+ */
+async function createPackSizeVersion(
+  config: OrderConfig,
+  meta: { createdBy: string | null; note: string | null }
+): Promise<PackSizeVersion> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<PackSizeVersionRow>(
+      `INSERT INTO pack_size_versions (config, created_by, note)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [JSON.stringify(config), meta.createdBy, meta.note]
+    );
+    return toPackSizeVersion(result.rows[0]);
+  } catch (error) {
+    console.error('Error saving pack size version:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+const CATALOG_COLUMNS = 'id, prefix, pattern, family, size, slot_weight, personalized';
+
+interface CatalogRow {
+  id: number;
+  prefix: string;
+  pattern: string | null;
+  family: string;
+  size: string | null;
+  slot_weight: string; // NUMERIC comes back as text
+  personalized: boolean | null;
+}
+
+/**
+ * Map a sku_catalog row to a CatalogEntry
+ */
+function toCatalogEntry(row: CatalogRow): CatalogEntry {
+  return {
+    id: row.id,
+    prefix: row.prefix,
+    pattern: row.pattern,
+    family: row.family,
+    size: row.size,
+    slotWeight: Number(row.slot_weight),
+    personalized: row.personalized,
+  };
+}
+
+/**
+ * Get every SKU catalog entry, oldest first
+ */
+async function getCatalogEntries(): Promise<CatalogEntry[]> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<CatalogRow>(`SELECT ${CATALOG_COLUMNS} FROM sku_catalog ORDER BY id`);
+    return result.rows.map(toCatalogEntry);
+  } catch (error) {
+    console.error('Error getting SKU catalog:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Add a SKU catalog entry
+ */
+async function createCatalogEntry(entry: Omit<CatalogEntry, 'id'>): Promise<CatalogEntry> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<CatalogRow>(
+      `INSERT INTO sku_catalog (prefix, pattern, family, size, slot_weight, personalized)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${CATALOG_COLUMNS}`,
+      [entry.prefix, entry.pattern, entry.family, entry.size, entry.slotWeight, entry.personalized]
+    );
+    return toCatalogEntry(result.rows[0]);
+  } catch (error) {
+    console.error('Error creating SKU catalog entry:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Replace a SKU catalog entry, returning null if it doesn't exist
+ */
+async function updateCatalogEntry(id: number, entry: Omit<CatalogEntry, 'id'>): Promise<CatalogEntry | null> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<CatalogRow>(
+      `UPDATE sku_catalog
+       SET prefix = $2, pattern = $3, family = $4, size = $5, slot_weight = $6, personalized = $7
+       WHERE id = $1
+       RETURNING ${CATALOG_COLUMNS}`,
+      [id, entry.prefix, entry.pattern, entry.family, entry.size, entry.slotWeight, entry.personalized]
+    );
+    return result.rows.length > 0 ? toCatalogEntry(result.rows[0]) : null;
+  } catch (error) {
+    console.error('Error updating SKU catalog entry:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Remove a SKU catalog entry
+ * Returns false if it doesn't exist
+ */
+async function deleteCatalogEntry(id: number): Promise<boolean> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query('DELETE FROM sku_catalog WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    console.error('Error deleting SKU catalog entry:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+interface CachedImageRow {
+  content_type: string | null;
+  data: Buffer | null;
+  error: string | null;
+  fetched_at: Date;
+}
+
+/**
+ * Get a cached image at one size, or null if it has never been requested
+ */
+async function getCachedImage(url: string, size: number): Promise<CachedImage | null> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<CachedImageRow>(
+      'SELECT content_type, data, error, fetched_at FROM image_cache WHERE url = $1 AND size = $2',
+      [url, size]
+    );
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return {
+      contentType: row.content_type,
+      data: row.data,
+      error: row.error,
+      fetchedAt: row.fetched_at,
+    };
+  } catch (error) {
+    console.error('Error getting cached image:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store a freshly fetched image, clearing any earlier failure
+ */
+async function saveCachedImage(
+  url: string,
+  size: number,
+  image: { contentType: string; data: Buffer }
+): Promise<void> {
+  const client = await getPool().connect();
+  try {
+    await client.query(
+      `INSERT INTO image_cache (url, size, content_type, data, fetches)
+       VALUES ($1, $2, $3, $4, 1)
+       ON CONFLICT (url, size) DO UPDATE SET
+         content_type = EXCLUDED.content_type,
+         data = EXCLUDED.data,
+         error = NULL,
+         failures = 0,
+         fetches = image_cache.fetches + 1,
+         fetched_at = NOW(),
+         last_used_at = NOW()`,
+      [url, size, image.contentType, image.data]
+    );
+  } catch (error) {
+    console.error('Error saving cached image:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a failed fetch; an earlier good copy is kept so it can still be served
+ */
+async function recordImageFailure(url: string, size: number, message: string): Promise<void> {
+  const client = await getPool().connect();
+  try {
+    await client.query(
+      `INSERT INTO image_cache (url, size, error, failures, fetches)
+       VALUES ($1, $2, $3, 1, 1)
+       ON CONFLICT (url, size) DO UPDATE SET
+         error = EXCLUDED.error,
+         failures = image_cache.failures + 1,
+         fetches = image_cache.fetches + 1,
+         fetched_at = NOW(),
+         last_used_at = NOW()`,
+      [url, size, message]
+    );
+  } catch (error) {
+    console.error('Error recording image failure:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Count an image served from the cache
+ */
+async function recordImageCacheHit(url: string, size: number): Promise<void> {
+  const client = await getPool().connect();
+  try {
+    await client.query(
+      'UPDATE image_cache SET hits = hits + 1, last_used_at = NOW() WHERE url = $1 AND size = $2',
+      [url, size]
+    );
+  } catch (error) {
+    console.error('Error recording image cache hit:', error);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Drop images that haven't been used since the cutoff
+ */
+async function deleteUnusedImages(unusedSince: Date): Promise<number> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query('DELETE FROM image_cache WHERE last_used_at < $1', [unusedSince]);
+    return result.rowCount || 0;
+  } catch (error) {
+    console.error('Error deleting unused images:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+interface ImageCacheTotalsRow {
+  image_count: string;
+  total_bytes: string;
+  hits: string;
+  fetches: string;
+  failing_count: string;
+}
+
+interface FailingImageRow {
+  url: string;
+  size: number;
+  error: string;
+  failures: number;
+  has_stale_copy: boolean;
+  fetched_at: Date;
+}
+
+/**
+ * Get image cache totals and the images currently failing
+ */
+async function getImageCacheStats(failureLimit: number = 50): Promise<ImageCacheStats> {
+  const client = await getPool().connect();
+  try {
+    const totals = await client.query<ImageCacheTotalsRow>(
+      `SELECT COUNT(*) FILTER (WHERE data IS NOT NULL) AS image_count,
+              COALESCE(SUM(LENGTH(data)), 0) AS total_bytes,
+              COALESCE(SUM(hits), 0) AS hits,
+              COALESCE(SUM(fetches), 0) AS fetches,
+              COUNT(*) FILTER (WHERE error IS NOT NULL) AS failing_count
+       FROM image_cache`
+    );
+    const failing = await client.query<FailingImageRow>(
+      `SELECT url, size, error, failures, data IS NOT NULL AS has_stale_copy, fetched_at
+       FROM image_cache
+       WHERE error IS NOT NULL
+       ORDER BY fetched_at DESC
+       LIMIT $1`,
+      [failureLimit]
+    );
+
+    const row = totals.rows[0];
+    const hits = parseInt(row.hits);
+    const fetches = parseInt(row.fetches);
+    return {
+      imageCount: parseInt(row.image_count),
+      totalBytes: parseInt(row.total_bytes),
+      hits,
+      fetches,
+      hitRate: hits + fetches > 0 ? hits / (hits + fetches) : null,
+      failingCount: parseInt(row.failing_count),
+      failing: failing.rows.map(f => ({
+        url: f.url,
+        size: f.size,
+        error: f.error,
+        failures: f.failures,
+        hasStaleCopy: f.has_stale_copy,
+        lastAttemptAt: f.fetched_at.toISOString(),
+      })),
+    };
+  } catch (error) {
+    console.error('Error getting image cache stats:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Never includes the password hash; getUserCredentials loads it for sign-in only
+const USER_COLUMNS = 'id, username, display_name, role, provider, disabled, password_hash IS NOT NULL AS has_password, created_at, last_login_at';
+
+interface UserRow {
+  id: number;
+  username: string;
+  display_name: string | null;
+  role: UserRole;
+  provider: AppUser['provider'];
+  disabled: boolean;
+  has_password: boolean;
+  created_at: Date;
+  last_login_at: Date | null;
+}
+
+/**
+ * Map a users row to an AppUser
+ */
+function toAppUser(row: UserRow): AppUser {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    provider: row.provider,
+    disabled: row.disabled,
+    hasPassword: row.has_password,
+    createdAt: new Date(row.created_at).toISOString(),
+    lastLoginAt: row.last_login_at ? new Date(row.last_login_at).toISOString() : null,
+  };
+}
+
+/**
+ * Get every user, by username
+ */
+async function getUsers(): Promise<AppUser[]> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<UserRow>(`SELECT ${USER_COLUMNS} FROM users ORDER BY username`);
+    return result.rows.map(toAppUser);
+  } catch (error) {
+    console.error('Error getting users:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a user and their password hash, for checking a sign-in
+ */
+async function getUserCredentials(username: string): Promise<{ user: AppUser; passwordHash: string | null } | null> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<UserRow & { password_hash: string | null }>(
+      `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE username = $1`,
+      [username]
+    );
+    if (result.rows.length === 0) return null;
+    return { user: toAppUser(result.rows[0]), passwordHash: result.rows[0].password_hash };
+  } catch (error) {
+    console.error('Error getting user credentials:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Add a user; returns null if the username is taken
+ */
+async function createUser(user: {
+  username: string;
+  displayName: string | null;
+  role: UserRole;
+  provider: AppUser['provider'];
+  passwordHash: string | null;
+}): Promise<AppUser | null> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<UserRow>(
+      `INSERT INTO users (username, display_name, role, provider, password_hash)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (username) DO NOTHING
+       RETURNING ${USER_COLUMNS}`,
+      [user.username, user.displayName, user.role, user.provider, user.passwordHash]
+    );
+    return result.rows.length > 0 ? toAppUser(result.rows[0]) : null;
+  } catch (error) {
+    console.error('Error creating user:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Change a user's name, role, password or disabled flag; fields left out are unchanged
+ * Returns null if there's no such user
+ */
+async function updateUser(id: number, changes: {
+  displayName?: string | null;
+  role?: UserRole;
+  passwordHash?: string;
+  disabled?: boolean;
+}): Promise<AppUser | null> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<UserRow>(
+      `UPDATE users SET
+         display_name = CASE WHEN $2 THEN $3 ELSE display_name END,
+         role = COALESCE($4, role),
+         password_hash = COALESCE($5, password_hash),
+         disabled = COALESCE($6, disabled)
+       WHERE id = $1
+       RETURNING ${USER_COLUMNS}`,
+      [
+        id,
+        changes.displayName !== undefined,
+        changes.displayName ?? null,
+        changes.role ?? null,
+        changes.passwordHash ?? null,
+        changes.disabled ?? null,
+      ]
+    );
+    return result.rows.length > 0 ? toAppUser(result.rows[0]) : null;
+  } catch (error) {
+    console.error('Error updating user:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a successful sign-in
+ */
+async function recordUserLogin(id: number): Promise<void> {
+  const client = await getPool().connect();
+  try {
+    await client.query('UPDATE users SET last_login_at = NOW() WHERE id = $1', [id]);
+  } catch (error) {
+    console.error('Error recording user login:', error);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Add or refresh a user signing in through OIDC, and record the sign-in
+ * `role` comes from the provider's role claim and replaces the stored role; without one,
+ * new users get `defaultRole` and existing users keep theirs
+ * Returns null if a password user already has the username, so OIDC can't take the account over
+ */
+async function saveOidcUser(user: {
+  username: string;
+  displayName: string | null;
+  role: UserRole | null;
+  defaultRole: UserRole;
+}): Promise<AppUser | null> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<UserRow>(
+      `INSERT INTO users (username, display_name, role, provider, last_login_at)
+       VALUES ($1, $2, $3, 'oidc', NOW())
+       ON CONFLICT (username) DO UPDATE SET
+         display_name = COALESCE(EXCLUDED.display_name, users.display_name),
+         role = CASE WHEN $4 THEN EXCLUDED.role ELSE users.role END,
+         last_login_at = NOW()
+       WHERE users.provider = 'oidc'
+       RETURNING ${USER_COLUMNS}`,
+      [user.username, user.displayName, user.role ?? user.defaultRole, user.role !== null]
+    );
+    return result.rows[0] ? toAppUser(result.rows[0]) : null;
+  } catch (error) {
+    console.error('Error saving OIDC user:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Held while migrating, so two servers booting at once don't both run the same migration
+const MIGRATION_LOCK_ID = 7_210_417;
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  applied_at: Date;
+}
+
+async function readAppliedMigrations(client: PoolClient): Promise<Map<number, AppliedMigration>> {
+  const result = await client.query<AppliedMigrationRow>('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(result.rows.map(row => [
+    row.version,
+    { name: row.name, appliedAt: row.applied_at.toISOString() },
+  ]));
+}
+
+const migrationDriver: MigrationDriver = {
+  async getApplied() {
+    const client = await getPool().connect();
+    try {
+      const exists = await client.query<{ exists: boolean }>(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`);
+      return exists.rows[0].exists ? await readAppliedMigrations(client) : new Map();
+    } finally {
+      client.release();
+    }
+  },
+
+  async withLock(work) {
+    // One client throughout: the lock belongs to its session, and the pool may only have one
+    const client = await getPool().connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      try {
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+          )
+        `);
+        return await work({
+          getApplied: () => readAppliedMigrations(client),
+          async apply(migration, direction) {
+            await client.query('BEGIN');
+            try {
+              await migration.postgres[direction](client);
+              if (direction === 'up') {
+                await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+              } else {
+                await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+              }
+              await client.query('COMMIT');
+            } catch (error) {
+              await client.query('ROLLBACK');
+              throw error;
+            }
+          },
+        });
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+      }
+    } finally {
+      client.release();
+    }
+  },
+};
+
+/**
+ * Close the pool, so a script using it can exit
+ */
+async function close(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+}
+
+export const postgresStore: Store = {
+  migrations: migrationDriver,
+  close,
+  setOrderStatus,
+  getOrderStatuses,
+  getOrderStatusHistory,
+  getPrintedOrders,
+  isOrderPrinted,
+  markOrdersAsPrinted,
+  clearPrintedOrders,
+  unmarkOrdersAsPrinted,
+  undoLastClear,
+  getPrintAuditLog,
+  pruneOrderStatuses,
+  createPrintBatch,
+  getPrintBatches,
+  getPrintBatch,
+  getCachedOrderLines,
+  saveSyncedOrderLines,
+  recordOrderSyncError,
+  getOrderSyncState,
+  enqueueWriteBacks,
+  getDueWriteBacks,
+  recordWriteBackAttempt,
+  retryFailedWriteBacks,
+  getWriteBackStatuses,
+  getPackSizeVersion,
+  getPackSizeVersions,
+  createPackSizeVersion,
+  getCatalogEntries,
+  createCatalogEntry,
+  updateCatalogEntry,
+  deleteCatalogEntry,
+  getCachedImage,
+  saveCachedImage,
+  recordImageFailure,
+  recordImageCacheHit,
+  deleteUnusedImages,
+  getImageCacheStats,
+  getUsers,
+  getUserCredentials,
+  createUser,
+  updateUser,
+  recordUserLogin,
+  saveOidcUser,
+};
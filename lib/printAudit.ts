@@ -0,0 +1,34 @@
+import { PrintAuditAction, PrintAuditContext } from './types';
+
+/**
+ * Print audit log
+ * Every change to printed status (marking, unmarking, clearing, print batches and status moves)
+ * is recorded with who made it, from which screen and which orders it affected.
+ * The log is append-only; undoing a clear adds an entry rather than changing the old one.
+ */
+
+export const PRINT_AUDIT_ACTION_LABELS: Record<PrintAuditAction, string> = {
+  'mark': 'Marked printed',
+  'unmark': 'Unmarked printed',
+  'clear': 'Cleared all printed',
+  'undo-clear': 'Undid clear',
+  'batch': 'Printed batch',
+  'status': 'Changed status',
+};
+
+// Screens are short slugs like 'orders' or 'pack-station'; anything else is recorded as the fallback
+const SOURCE_PATTERN = /^[a-z0-9-]{1,40}$/;
+
+/**
+ * Build an audit context from untrusted request values
+ */
+export function parsePrintAuditContext(
+  actor: unknown,
+  source: unknown,
+  fallbackSource: string = 'api'
+): PrintAuditContext {
+  return {
+    actor: typeof actor === 'string' && actor.trim() ? actor.trim().slice(0, 100) : null,
+    source: typeof source === 'string' && SOURCE_PATTERN.test(source) ? source : fallbackSource,
+  };
+}
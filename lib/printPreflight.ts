@@ -0,0 +1,118 @@
+import { ProcessedOrder } from './types';
+import { loadImageAsDataUrl } from './pdfGenerator';
+
+/**
+ * Preflight check before printing packing slips
+ * Slips are drawn even when an image fails to load or a barcode is missing, leaving a blank hole,
+ * so this checks every order's barcodes and images up front and reports which orders would print incomplete.
+ */
+
+export type PreflightProblemKind = 'missing-barcode' | 'invalid-barcode' | 'missing-image' | 'image-unreachable' | 'artwork-unreachable';
+
+export interface PreflightProblem {
+  tranid: string;
+  orderNumber: string;
+  kind: PreflightProblemKind;
+  sku: string | null; // null for order-level problems (custom artwork)
+  url: string | null;
+}
+
+export interface PreflightReport {
+  orderCount: number;
+  imageCount: number; // Distinct image and artwork URLs checked
+  problems: PreflightProblem[];
+  failingTranids: string[];
+}
+
+// Images are fetched a few at a time so a large batch doesn't flood the image host
+const IMAGE_CONCURRENCY = 6;
+
+// CODE128 only encodes ASCII
+const isEncodableBarcode = (value: string) => /^[\x20-\x7E]+$/.test(value);
+
+/**
+ * Check which of these URLs load as images
+ */
+async function checkImages(urls: string[], onProgress?: (checked: number) => void): Promise<Set<string>> {
+  const unreachable = new Set<string>();
+  let next = 0;
+  let checked = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      // loadImageAsDataUrl logs and returns null on failure
+      const image = await loadImageAsDataUrl(url, 150, 150);
+      if (!image) unreachable.add(url);
+      onProgress?.(++checked);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(IMAGE_CONCURRENCY, urls.length) }, worker));
+  return unreachable;
+}
+
+/**
+ * Check the barcodes and images personalized items need, and every order's custom artwork
+ * Set checkImages to false for output that doesn't draw images (text-only ZPL)
+ */
+export async function runPreflight(
+  orders: ProcessedOrder[],
+  options: { checkImages?: boolean; onProgress?: (checked: number, total: number) => void } = {}
+): Promise<PreflightReport> {
+  const problems: PreflightProblem[] = [];
+  const urls = new Set<string>();
+
+  for (const order of orders) {
+    const base = { tranid: order.tranid, orderNumber: order.orderNumber };
+    for (const item of order.items) {
+      if (item.imageUrl) urls.add(item.imageUrl);
+      if (!item.personalized) continue;
+
+      if (!item.barcode) {
+        problems.push({ ...base, kind: 'missing-barcode', sku: item.sku, url: null });
+      } else if (!isEncodableBarcode(item.barcode)) {
+        problems.push({ ...base, kind: 'invalid-barcode', sku: item.sku, url: null });
+      }
+      if (!item.imageUrl) {
+        problems.push({ ...base, kind: 'missing-image', sku: item.sku, url: null });
+      }
+    }
+    if (order.customArtworkUrl) urls.add(order.customArtworkUrl);
+  }
+
+  const imageUrls = options.checkImages === false ? [] : Array.from(urls);
+  const unreachable = await checkImages(imageUrls, checked => options.onProgress?.(checked, imageUrls.length));
+
+  if (unreachable.size > 0) {
+    for (const order of orders) {
+      const base = { tranid: order.tranid, orderNumber: order.orderNumber };
+      for (const item of order.items) {
+        if (item.imageUrl && unreachable.has(item.imageUrl)) {
+          problems.push({ ...base, kind: 'image-unreachable', sku: item.sku, url: item.imageUrl });
+        }
+      }
+      if (order.customArtworkUrl && unreachable.has(order.customArtworkUrl)) {
+        problems.push({ ...base, kind: 'artwork-unreachable', sku: null, url: order.customArtworkUrl });
+      }
+    }
+  }
+
+  return {
+    orderCount: orders.length,
+    imageCount: imageUrls.length,
+    problems,
+    failingTranids: Array.from(new Set(problems.map(problem => problem.tranid))),
+  };
+}
+
+/**
+ * Count problems by kind, e.g. for "3 images unreachable, 2 items missing barcode"
+ */
+export function summarizePreflight(report: PreflightReport): Array<{ kind: PreflightProblemKind; count: number }> {
+  const counts = new Map<PreflightProblemKind, number>();
+  for (const problem of report.problems) {
+    counts.set(problem.kind, (counts.get(problem.kind) || 0) + 1);
+  }
+  return Array.from(counts.entries()).map(([kind, count]) => ({ kind, count }));
+}
@@ -0,0 +1,34 @@
+import { SessionUser, UserRole } from './types';
+
+/**
+ * User roles
+ * Viewers can look, packers print new orders and pack, leads fix mistakes (reprint, clear, undo),
+ * and admins change configuration and manage users.
+ */
+
+export const USER_ROLES: UserRole[] = ['viewer', 'packer', 'lead', 'admin'];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  'viewer': 'Viewer',
+  'packer': 'Packer',
+  'lead': 'Lead',
+  'admin': 'Admin',
+};
+
+export const USER_ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  'viewer': 'See orders, batches and the audit log',
+  'packer': 'Print new orders, sync orders and pack at the pack station',
+  'lead': 'Reprint, clear printed status, move orders to any status and retry write-backs',
+  'admin': 'Edit pack sizes and the SKU catalog, and manage users',
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether a user has at least the given role
+ */
+export function hasRole(user: SessionUser | null, role: UserRole): boolean {
+  return !!user && USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role);
+}
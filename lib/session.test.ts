@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppUser, SessionUser } from './types';
+
+/**
+ * Route-side session checks: the stored user decides, not the role signed into the cookie
+ */
+
+const stored = vi.hoisted(() => ({ users: new Map<string, AppUser>() }));
+
+vi.mock('./db', () => ({
+  getUserCredentials: vi.fn(async (username: string) => {
+    const user = stored.users.get(username);
+    return user ? { user, passwordHash: null } : null;
+  }),
+}));
+
+vi.stubEnv('AUTH_SECRET', 'a-test-secret-that-is-at-least-32-characters');
+vi.stubEnv('AUTH_API_TOKEN', 'test-api-token');
+
+const { createSessionToken, SESSION_COOKIE } = await import('./auth');
+const { loadSessionUser, requireRole } = await import('./session');
+
+function storedUser(changes: Partial<AppUser> = {}): AppUser {
+  return {
+    id: 1,
+    username: 'sam',
+    displayName: 'Sam',
+    role: 'lead',
+    provider: 'local',
+    disabled: false,
+    hasPassword: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    lastLoginAt: null,
+    ...changes,
+  };
+}
+
+async function requestAs(user: SessionUser): Promise<Request> {
+  const token = await createSessionToken(user);
+  return new Request('http://localhost/api/orders', { headers: { cookie: `${SESSION_COOKIE}=${encodeURIComponent(token)}` } });
+}
+
+const signedInLead: SessionUser = { username: 'sam', displayName: 'Sam', role: 'lead', provider: 'local' };
+
+beforeEach(() => {
+  stored.users.clear();
+});
+
+describe('loadSessionUser', () => {
+  it('uses the stored role rather than the one in the cookie', async () => {
+    stored.users.set('sam', storedUser({ role: 'viewer', displayName: 'Sam P' }));
+
+    expect(await loadSessionUser(await requestAs(signedInLead))).toEqual({ ...signedInLead, role: 'viewer', displayName: 'Sam P' });
+  });
+
+  it('signs out users who have been disabled or removed', async () => {
+    stored.users.set('sam', storedUser({ disabled: true }));
+    expect(await loadSessionUser(await requestAs(signedInLead))).toBeNull();
+
+    stored.users.clear();
+    expect(await loadSessionUser(await requestAs(signedInLead))).toBeNull();
+  });
+
+  it('passes API token users through without a lookup', async () => {
+    const request = new Request('http://localhost/api/writeback', { headers: { authorization: 'Bearer test-api-token' } });
+
+    expect(await loadSessionUser(request)).toMatchObject({ username: 'api', role: 'lead', provider: 'token' });
+  });
+});
+
+describe('requireRole', () => {
+  it('refuses a demoted user straight away', async () => {
+    stored.users.set('sam', storedUser({ role: 'packer' }));
+
+    const result = await requireRole(await requestAs(signedInLead), 'lead');
+    expect(result).toBeInstanceOf(Response);
+    expect((result as Response).status).toBe(403);
+  });
+
+  it('returns 401 for a disabled user', async () => {
+    stored.users.set('sam', storedUser({ disabled: true }));
+
+    const result = await requireRole(await requestAs(signedInLead), 'viewer');
+    expect((result as Response).status).toBe(401);
+  });
+});
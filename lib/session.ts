@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { SessionUser, UserRole } from './types';
+import { getSession } from './auth';
+import { getUserCredentials } from './db';
+import { hasRole, USER_ROLE_LABELS } from './roles';
+
+/**
+ * The signed-in user as they are now (server-only)
+ * A session cookie holds the role the user had when they signed in, and the middleware can only check that.
+ * Routes check again here against the stored user, so role changes and disabling apply on the next request.
+ */
+
+/**
+ * The user making a request with their current name and role, or null if they aren't signed in
+ * or their account has since been disabled or removed. API token users aren't stored and pass through
+ */
+export async function loadSessionUser(request: Request): Promise<SessionUser | null> {
+  const session = await getSession(request);
+  if (!session || session.provider === 'token') return session;
+
+  const stored = await getUserCredentials(session.username);
+  if (!stored || stored.user.disabled) return null;
+  return { ...session, displayName: stored.user.displayName, role: stored.user.role };
+}
+
+/**
+ * The signed-in user if they have at least `role`; otherwise the 401/403 response to return
+ * Every API route calls this, on top of the middleware's check, before doing anything
+ */
+export async function requireRole(request: Request, role: UserRole): Promise<SessionUser | NextResponse> {
+  const user = await loadSessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  if (!hasRole(user, role)) {
+    return NextResponse.json({ error: `This needs the ${USER_ROLE_LABELS[role]} role` }, { status: 403 });
+  }
+  return user;
+}
@@ -0,0 +1,120 @@
+import { CatalogEntry, NetSuiteItem } from './types';
+
+/**
+ * SKU catalog: maps SKUs to a product family, cup size, box slot weight and personalization
+ * Entries match by SKU prefix, or by a regex pattern when the prefix alone can't tell products apart
+ */
+
+// Until the catalog is edited, these are the cups the app has always recognized
+export const BUILT_IN_CATALOG: Omit<CatalogEntry, 'id'>[] = [
+  { prefix: 'DPT10', pattern: null, family: 'Cup', size: '10oz', slotWeight: 1, personalized: null },
+  { prefix: 'DPT16', pattern: null, family: 'Cup', size: '16oz', slotWeight: 1, personalized: null },
+  { prefix: 'DPT26', pattern: null, family: 'Cup', size: '26oz', slotWeight: 2, personalized: null },
+];
+
+/**
+ * Find the catalog entry for a SKU
+ * Pattern entries win over prefix entries, and the longest matching prefix wins among those
+ */
+export function findCatalogEntry<T extends Omit<CatalogEntry, 'id'>>(sku: string, catalog: T[]): T | null {
+  const upperSku = sku.toUpperCase();
+  let best: T | null = null;
+  for (const entry of catalog) {
+    if (entry.pattern) {
+      try {
+        if (new RegExp(entry.pattern, 'i').test(sku)) return entry;
+      } catch {
+        // Invalid patterns are rejected on save; skip any that slipped through
+      }
+    } else if (upperSku.startsWith(entry.prefix.toUpperCase())) {
+      if (!best || entry.prefix.length > best.prefix.length) {
+        best = entry;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Box slots per cup key, for capacity rules that don't set their own slotsPerCup
+ */
+export function getSlotWeights(catalog: Omit<CatalogEntry, 'id'>[]): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const entry of catalog) {
+    if (entry.size) {
+      weights[entry.prefix] = entry.slotWeight;
+    }
+  }
+  return weights;
+}
+
+/**
+ * SKUs in the backlog that no catalog entry covers, most common first
+ */
+export function findUnmappedSkus(
+  lines: NetSuiteItem[],
+  catalog: Omit<CatalogEntry, 'id'>[]
+): Array<{ sku: string; quantity: number; orderCount: number; description: string | null }> {
+  const unmapped = new Map<string, { quantity: number; tranids: Set<string>; description: string | null }>();
+  for (const line of lines) {
+    const sku = line.values.item[0]?.text || '';
+    if (!sku || findCatalogEntry(sku, catalog)) continue;
+
+    if (!unmapped.has(sku)) {
+      unmapped.set(sku, { quantity: 0, tranids: new Set(), description: line.values.formulatext_1 || null });
+    }
+    const entry = unmapped.get(sku)!;
+    entry.quantity += parseInt(line.values.quantity) || 1;
+    entry.tranids.add(line.values.tranid);
+  }
+
+  return Array.from(unmapped.entries())
+    .map(([sku, entry]) => ({ sku, quantity: entry.quantity, orderCount: entry.tranids.size, description: entry.description }))
+    .sort((a, b) => b.orderCount - a.orderCount || a.sku.localeCompare(b.sku));
+}
+
+/**
+ * Validate an untrusted catalog entry
+ * Returns an error message if the entry is not usable
+ */
+export function parseCatalogEntry(body: unknown): Omit<CatalogEntry, 'id'> | string {
+  if (!body || typeof body !== 'object') {
+    return 'Entry must be a JSON object';
+  }
+  const { prefix, pattern, family, size, slotWeight, personalized } = body as Record<string, unknown>;
+
+  if (typeof prefix !== 'string' || !/^[A-Za-z0-9-]+$/.test(prefix.trim())) {
+    return 'prefix is required and may only use letters, numbers and dashes';
+  }
+  if (pattern !== undefined && pattern !== null && pattern !== '') {
+    if (typeof pattern !== 'string') {
+      return 'pattern must be a string';
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      return 'pattern is not a valid regular expression';
+    }
+  }
+  if (typeof family !== 'string' || !family.trim()) {
+    return 'family is required';
+  }
+  if (size !== undefined && size !== null && typeof size !== 'string') {
+    return 'size must be a string or null';
+  }
+  if (typeof slotWeight !== 'number' || slotWeight < 0) {
+    return 'slotWeight must be a number of 0 or more';
+  }
+  if (personalized !== undefined && personalized !== null && typeof personalized !== 'boolean') {
+    return 'personalized must be true, false or null';
+  }
+
+  return {
+    prefix: prefix.trim().toUpperCase(),
+    pattern: typeof pattern === 'string' && pattern ? pattern : null,
+    family: family.trim(),
+    size: typeof size === 'string' && size.trim() ? size.trim() : null,
+    slotWeight,
+    personalized: typeof personalized === 'boolean' ? personalized : null,
+  };
+}
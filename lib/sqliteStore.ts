@@ -0,0 +1,1299 @@
+import Database from 'better-sqlite3';
+import { AppliedMigration, MigrationDriver, SQLITE_NOW } from './migrate';
+import { PRINTED_STATUSES } from './orderStatus';
+import { CachedImage, OrderStatusChange, Store, UndoClearResult, WriteBackEntry } from './store';
+import { AppUser, CatalogEntry, ImageCacheStats, NetSuiteItem, OrderConfig, OrderStatus, OrderStatusEvent, OrderStatusRecord, OrderStatusScope, OrderSyncState, OutputFormat, PackSizeVersion, PageProfile, PrintAuditAction, PrintAuditContext, PrintAuditEntry, PrintAuditLog, PrintBatch, PrintBatchDetail, PrintBatchFilters, PrintDocumentType, SerializedProcessedOrder, UserRole, WriteBackStatus } from './types';
+
+/**
+ * SQLite storage backend: the whole store in one file, for a small site or local dev
+ * Set DB_BACKEND=sqlite; the file is DB_SQLITE_PATH (default packing-slips.db in the working directory).
+ * Behaves like the Postgres backend: times are ISO 8601 text, JSON columns are text, booleans are 0/1,
+ * and lists are matched with json_each. Writes that read first take the write lock up front (IMMEDIATE).
+ */
+
+let db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!db) {
+    const path = process.env.DB_SQLITE_PATH || 'packing-slips.db';
+    console.log('Opening SQLite database:', path);
+    db = new Database(path);
+    db.pragma('journal_mode = WAL'); // Readers don't wait for a writer
+    db.pragma('busy_timeout = 5000'); // Wait for another process's write instead of failing
+    db.pragma('foreign_keys = ON'); // For print_batch_orders' ON DELETE CASCADE
+  }
+  return db;
+}
+
+function parseJson<T>(value: string | null): T | null {
+  return value === null ? null : JSON.parse(value) as T;
+}
+
+function toSqliteBoolean(value: boolean | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+// Rows as SQLite returns them: times are ISO text, JSON is text and booleans are 0/1
+
+interface CurrentStatusRow {
+  tranid: string;
+  status: OrderStatus;
+}
+
+interface OrderStatusRow extends CurrentStatusRow {
+  changed_at: string;
+  changed_by: string | null;
+}
+
+interface OrderStatusEventRow extends OrderStatusRow {
+  from_status: OrderStatus;
+  note: string | null;
+}
+
+/**
+ * Move orders to a status and record each transition, inside the caller's transaction
+ * `from` limits the move to orders currently in one of those statuses; orders already there are skipped
+ */
+function applyStatusChange(
+  db: Database.Database,
+  tranids: string[],
+  status: OrderStatus,
+  options: { from?: OrderStatus[]; changedBy?: string | null; note?: string | null } = {}
+): OrderStatusChange[] {
+  if (tranids.length === 0) return [];
+
+  const current = db.prepare(
+    'SELECT tranid, status FROM order_statuses WHERE tranid IN (SELECT value FROM json_each(?))'
+  ).all(JSON.stringify(tranids)) as CurrentStatusRow[];
+  const currentStatuses = new Map(current.map(row => [row.tranid, row.status]));
+
+  const changes: OrderStatusChange[] = [];
+  for (const tranid of Array.from(new Set(tranids))) {
+    const fromStatus = currentStatuses.get(tranid) || 'new';
+    if (fromStatus === status || (options.from && !options.from.includes(fromStatus))) continue;
+    changes.push({ tranid, fromStatus, status });
+  }
+  if (changes.length === 0) return changes;
+
+  // One statement for the statuses and one for the history, however many orders moved
+  const params = { changes: JSON.stringify(changes), status, changedBy: options.changedBy ?? null, note: options.note ?? null };
+  db.prepare(
+    `INSERT INTO order_statuses (tranid, status, changed_at, changed_by)
+     SELECT json_extract(value, '$.tranid'), @status, ${SQLITE_NOW}, @changedBy FROM json_each(@changes) WHERE true
+     ON CONFLICT (tranid) DO UPDATE SET status = excluded.status, changed_at = excluded.changed_at, changed_by = excluded.changed_by`
+  ).run(params);
+  db.prepare(
+    `INSERT INTO order_status_events (tranid, from_status, status, changed_by, note)
+     SELECT json_extract(value, '$.tranid'), json_extract(value, '$.fromStatus'), @status, @changedBy, @note FROM json_each(@changes)`
+  ).run(params);
+  return changes;
+}
+
+/**
+ * Append an entry to the print audit log, inside the caller's transaction
+ */
+function insertAuditEntry(
+  db: Database.Database,
+  action: PrintAuditAction,
+  audit: PrintAuditContext,
+  tranids: string[],
+  details: Record<string, unknown> | null = null
+): number {
+  const result = db.prepare(
+    'INSERT INTO print_audit_log (action, actor, source, tranids, details) VALUES (?, ?, ?, ?, ?)'
+  ).run(action, audit.actor, audit.source, JSON.stringify(tranids), details ? JSON.stringify(details) : null);
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Move orders to a status in a transaction, logging the orders that moved under `action`
+ */
+async function changeStatusWithAudit(
+  tranids: string[],
+  status: OrderStatus,
+  options: { from?: OrderStatus[]; changedBy?: string | null; note?: string | null },
+  action: PrintAuditAction,
+  audit: PrintAuditContext
+): Promise<OrderStatusChange[]> {
+  if (tranids.length === 0) return [];
+
+  const db = getDb();
+  try {
+    return db.transaction(() => {
+      const changes = applyStatusChange(db, tranids, status, {
+        ...options,
+        changedBy: options.changedBy ?? audit.actor,
+      });
+      if (changes.length > 0) {
+        insertAuditEntry(db, action, audit, changes.map(change => change.tranid), action === 'status' ? { status } : null);
+      }
+      return changes;
+    }).immediate();
+  } catch (error) {
+    console.error('Error setting order status:', error);
+    throw error;
+  }
+}
+
+async function setOrderStatus(
+  tranids: string[],
+  status: OrderStatus,
+  options: { from?: OrderStatus[]; changedBy?: string | null; note?: string | null },
+  audit: PrintAuditContext
+): Promise<OrderStatusChange[]> {
+  return changeStatusWithAudit(tranids, status, options, 'status', audit);
+}
+
+// Conditions limiting order_statuses to an OrderStatusScope, given toScopeParams(scope)
+const STATUS_SCOPE_CONDITIONS = `(@tranids IS NULL OR tranid IN (SELECT value FROM json_each(@tranids)))
+  AND (@since IS NULL OR changed_at >= @since)
+  AND (NOT @backlog OR tranid IN (SELECT tranid FROM order_cache))`;
+
+function toScopeParams(scope: OrderStatusScope): { tranids: string | null; since: string | null; backlog: number } {
+  return {
+    tranids: scope.tranids ? JSON.stringify(scope.tranids) : null,
+    since: scope.since ? scope.since.toISOString() : null,
+    backlog: Number(!scope.tranids && !scope.since),
+  };
+}
+
+async function getOrderStatuses(scope: OrderStatusScope = {}): Promise<Record<string, OrderStatusRecord>> {
+  try {
+    const rows = getDb().prepare(
+      `SELECT tranid, status, changed_at, changed_by FROM order_statuses WHERE status <> 'new' AND ${STATUS_SCOPE_CONDITIONS}`
+    ).all(toScopeParams(scope)) as OrderStatusRow[];
+    const statuses: Record<string, OrderStatusRecord> = {};
+    for (const row of rows) {
+      statuses[row.tranid] = {
+        status: row.status,
+        changedAt: new Date(row.changed_at).toISOString(),
+        changedBy: row.changed_by,
+      };
+    }
+    return statuses;
+  } catch (error) {
+    console.error('Error getting order statuses:', error);
+    throw error;
+  }
+}
+
+async function getOrderStatusHistory(tranid: string): Promise<OrderStatusEvent[]> {
+  try {
+    const rows = getDb().prepare(
+      `SELECT tranid, from_status, status, changed_at, changed_by, note FROM order_status_events
+       WHERE tranid = ? ORDER BY changed_at, id`
+    ).all(tranid) as OrderStatusEventRow[];
+    return rows.map(row => ({
+      tranid: row.tranid,
+      fromStatus: row.from_status,
+      status: row.status,
+      changedAt: new Date(row.changed_at).toISOString(),
+      changedBy: row.changed_by,
+      note: row.note,
+    }));
+  } catch (error) {
+    console.error('Error getting order status history:', error);
+    throw error;
+  }
+}
+
+async function getPrintedOrders(scope: OrderStatusScope = {}): Promise<string[]> {
+  try {
+    const rows = getDb().prepare(
+      `SELECT tranid FROM order_statuses
+       WHERE status IN (SELECT value FROM json_each(@statuses)) AND ${STATUS_SCOPE_CONDITIONS}
+       ORDER BY changed_at DESC`
+    ).all({ ...toScopeParams(scope), statuses: JSON.stringify(PRINTED_STATUSES) }) as Array<{ tranid: string }>;
+    return rows.map(row => row.tranid);
+  } catch (error) {
+    console.error('Error getting printed orders:', error);
+    return [];
+  }
+}
+
+async function isOrderPrinted(tranid: string): Promise<boolean> {
+  try {
+    const row = getDb().prepare(
+      'SELECT tranid FROM order_statuses WHERE tranid = ? AND status IN (SELECT value FROM json_each(?))'
+    ).get(tranid, JSON.stringify(PRINTED_STATUSES));
+    return row !== undefined;
+  } catch (error) {
+    console.error('Error checking if order is printed:', error);
+    return false;
+  }
+}
+
+async function markOrdersAsPrinted(tranids: string[], audit: PrintAuditContext): Promise<void> {
+  await changeStatusWithAudit(tranids, 'printed', { from: ['new'] }, 'mark', audit);
+}
+
+async function clearPrintedOrders(audit: PrintAuditContext): Promise<string[]> {
+  const db = getDb();
+  try {
+    return db.transaction(() => {
+      const printed = db.prepare(
+        `SELECT tranid, status, changed_at, changed_by FROM order_statuses WHERE status = 'printed'`
+      ).all() as OrderStatusRow[];
+      const changes = applyStatusChange(
+        db,
+        printed.map(row => row.tranid),
+        'new',
+        { from: ['printed'], changedBy: audit.actor, note: 'Printed status cleared' }
+      );
+      insertAuditEntry(db, 'clear', audit, changes.map(change => change.tranid), {
+        previous: printed.map(row => ({
+          tranid: row.tranid,
+          status: row.status,
+          changedAt: new Date(row.changed_at).toISOString(),
+          changedBy: row.changed_by,
+        })),
+      });
+      return changes.map(change => change.tranid);
+    }).immediate();
+  } catch (error) {
+    console.error('Error clearing printed orders:', error);
+    throw error;
+  }
+}
+
+async function unmarkOrdersAsPrinted(tranids: string[], audit: PrintAuditContext): Promise<void> {
+  await changeStatusWithAudit(tranids, 'new', { from: PRINTED_STATUSES, note: 'Printed status cleared' }, 'unmark', audit);
+}
+
+async function undoLastClear(audit: PrintAuditContext): Promise<UndoClearResult | null> {
+  const db = getDb();
+  try {
+    return db.transaction((): UndoClearResult | null => {
+      const clear = db.prepare(
+        `SELECT id, details FROM print_audit_log WHERE action = 'clear' ORDER BY id DESC LIMIT 1`
+      ).get() as { id: number; details: string | null } | undefined;
+      if (!clear) return null;
+      const clearId = clear.id;
+      const undone = db.prepare(
+        `SELECT 1 FROM print_audit_log WHERE action = 'undo-clear' AND json_extract(details, '$.undoes') = ?`
+      ).get(clearId);
+      if (undone) return null;
+
+      const previous = (parseJson<{ previous?: unknown }>(clear.details)?.previous || []) as Array<{
+        tranid: string;
+        status: OrderStatus;
+        changedAt: string;
+        changedBy: string | null;
+      }>;
+      const current = db.prepare(
+        'SELECT tranid, status FROM order_statuses WHERE tranid IN (SELECT value FROM json_each(?))'
+      ).all(JSON.stringify(previous.map(entry => entry.tranid))) as CurrentStatusRow[];
+      const currentStatuses = new Map(current.map(row => [row.tranid, row.status]));
+
+      const toRestore = previous.filter(entry => (currentStatuses.get(entry.tranid) || 'new') === 'new');
+      const skipped = previous.filter(entry => !toRestore.includes(entry)).map(entry => entry.tranid);
+      if (toRestore.length > 0) {
+        // Restore the original timestamp and user, so the order reads as printed when it really was
+        const params = { entries: JSON.stringify(toRestore), actor: audit.actor, note: `Restored by undo of clear #${clearId}` };
+        db.prepare(
+          `INSERT INTO order_statuses (tranid, status, changed_at, changed_by)
+           SELECT json_extract(value, '$.tranid'), json_extract(value, '$.status'), json_extract(value, '$.changedAt'),
+             json_extract(value, '$.changedBy')
+           FROM json_each(@entries) WHERE true
+           ON CONFLICT (tranid) DO UPDATE SET status = excluded.status, changed_at = excluded.changed_at, changed_by = excluded.changed_by`
+        ).run(params);
+        db.prepare(
+          `INSERT INTO order_status_events (tranid, from_status, status, changed_by, note)
+           SELECT json_extract(value, '$.tranid'), 'new', json_extract(value, '$.status'), @actor, @note FROM json_each(@entries)`
+        ).run(params);
+      }
+      const restored: UndoClearResult['restored'] = toRestore.map(entry => ({ tranid: entry.tranid, printedAt: entry.changedAt }));
+      insertAuditEntry(db, 'undo-clear', audit, restored.map(entry => entry.tranid), { undoes: clearId, skipped });
+      return { clearId, restored, skipped };
+    }).immediate();
+  } catch (error) {
+    console.error('Error undoing clear:', error);
+    throw error;
+  }
+}
+
+// The pre-clear snapshot is only needed to undo, so it's left out of listings
+const PRINT_AUDIT_COLUMNS = `id, created_at, action, actor, source, tranids, json_remove(details, '$.previous') AS details`;
+
+interface PrintAuditRow {
+  id: number;
+  created_at: string;
+  action: PrintAuditAction;
+  actor: string | null;
+  source: string;
+  tranids: string;
+  details: string | null;
+}
+
+/**
+ * Map a print_audit_log row to a PrintAuditEntry
+ */
+function toPrintAuditEntry(row: PrintAuditRow): PrintAuditEntry {
+  return {
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    action: row.action,
+    actor: row.actor,
+    source: row.source,
+    tranids: JSON.parse(row.tranids) as string[],
+    details: parseJson<PrintAuditEntry['details']>(row.details),
+  };
+}
+
+async function getPrintAuditLog(
+  filters: { tranid?: string | null; actor?: string | null } = {},
+  limit: number = 200
+): Promise<PrintAuditLog> {
+  try {
+    const db = getDb();
+    const entries = db.prepare(
+      `SELECT ${PRINT_AUDIT_COLUMNS} FROM print_audit_log
+       WHERE (@tranid IS NULL OR EXISTS (SELECT 1 FROM json_each(print_audit_log.tranids) WHERE value = @tranid))
+         AND (@actor IS NULL OR actor = @actor)
+       ORDER BY id DESC LIMIT @limit`
+    ).all({ tranid: filters.tranid || null, actor: filters.actor || null, limit }) as PrintAuditRow[];
+    const actors = db.prepare(
+      `SELECT DISTINCT actor FROM print_audit_log WHERE actor IS NOT NULL ORDER BY actor`
+    ).all() as Array<{ actor: string }>;
+    const undoable = db.prepare(
+      `SELECT ${PRINT_AUDIT_COLUMNS} FROM print_audit_log c
+       WHERE action = 'clear' AND json_array_length(tranids) > 0
+         AND id = (SELECT MAX(id) FROM print_audit_log WHERE action = 'clear')
+         AND NOT EXISTS (
+           SELECT 1 FROM print_audit_log u WHERE u.action = 'undo-clear' AND json_extract(u.details, '$.undoes') = c.id
+         )`
+    ).get() as PrintAuditRow | undefined;
+    return {
+      entries: entries.map(toPrintAuditEntry),
+      actors: actors.map(row => row.actor),
+      undoableClear: undoable ? toPrintAuditEntry(undoable) : null,
+    };
+  } catch (error) {
+    console.error('Error getting print audit log:', error);
+    throw error;
+  }
+}
+
+async function pruneOrderStatuses(changedBefore: Date, options: { archive: boolean }): Promise<number> {
+  const db = getDb();
+  try {
+    return db.transaction(() => {
+      const params = { changedBefore: changedBefore.toISOString() };
+      if (options.archive) {
+        db.prepare(
+          `INSERT INTO order_status_archive (tranid, status, changed_at, changed_by)
+           SELECT tranid, status, changed_at, changed_by FROM order_statuses
+           WHERE changed_at < @changedBefore AND tranid NOT IN (SELECT tranid FROM order_cache)
+           ON CONFLICT (tranid) DO UPDATE SET
+             status = excluded.status, changed_at = excluded.changed_at, changed_by = excluded.changed_by, archived_at = ${SQLITE_NOW}`
+        ).run(params);
+      }
+      return db.prepare(
+        `DELETE FROM order_statuses WHERE changed_at < @changedBefore AND tranid NOT IN (SELECT tranid FROM order_cache)`
+      ).run(params).changes;
+    }).immediate();
+  } catch (error) {
+    console.error('Error pruning order statuses:', error);
+    throw error;
+  }
+}
+
+// Columns for batch listings - the snapshot is only loaded for a single batch
+const PRINT_BATCH_COLUMNS = 'id, created_at, document_type, printed_by, order_count, filters, page_profile, pack_size_version, output_format';
+
+interface PrintBatchRow {
+  id: number;
+  created_at: string;
+  document_type: PrintDocumentType;
+  printed_by: string | null;
+  order_count: number;
+  filters: string | null;
+  page_profile: PageProfile | null;
+  pack_size_version: number | null;
+  output_format: OutputFormat | null;
+}
+
+/**
+ * Map a print_batches row to a PrintBatch
+ */
+function toPrintBatch(row: PrintBatchRow): PrintBatch {
+  return {
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    documentType: row.document_type,
+    printedBy: row.printed_by,
+    orderCount: row.order_count,
+    filters: parseJson<PrintBatchFilters>(row.filters),
+    pageProfile: row.page_profile,
+    packSizeVersion: row.pack_size_version,
+    outputFormat: row.output_format,
+  };
+}
+
+async function createPrintBatch(batch: {
+  documentType: PrintDocumentType;
+  printedBy: string | null;
+  filters: PrintBatchFilters | null;
+  pageProfile: PageProfile | null;
+  packSizeVersion: number | null;
+  outputFormat: OutputFormat | null;
+  orders: Array<{ tranid: string; orderNumber: string | null }>;
+  snapshot: SerializedProcessedOrder[] | null;
+}, source: string): Promise<PrintBatch> {
+  const db = getDb();
+  try {
+    return db.transaction(() => {
+      const row = db.prepare(
+        `INSERT INTO print_batches (document_type, printed_by, order_count, filters, orders_snapshot, page_profile, pack_size_version, output_format)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING ${PRINT_BATCH_COLUMNS}`
+      ).get(
+        batch.documentType,
+        batch.printedBy,
+        batch.orders.length,
+        batch.filters ? JSON.stringify(batch.filters) : null,
+        batch.snapshot ? JSON.stringify(batch.snapshot) : null,
+        batch.pageProfile,
+        batch.packSizeVersion,
+        batch.outputFormat
+      ) as PrintBatchRow;
+      const created = toPrintBatch(row);
+
+      // One statement for every order; an order listed twice keeps its first position
+      db.prepare(
+        `INSERT INTO print_batch_orders (batch_id, tranid, order_number, position)
+         SELECT @batchId, json_extract(value, '$.tranid'), json_extract(value, '$.orderNumber'), key + 1
+         FROM json_each(@orders) WHERE true
+         ON CONFLICT (batch_id, tranid) DO NOTHING`
+      ).run({ batchId: created.id, orders: JSON.stringify(batch.orders) });
+      const changes = applyStatusChange(db, batch.orders.map(order => order.tranid), 'printed', {
+        from: ['new'],
+        changedBy: batch.printedBy,
+        note: `Print batch #${created.id}`,
+      });
+      insertAuditEntry(
+        db,
+        'batch',
+        { actor: batch.printedBy, source },
+        changes.map(change => change.tranid),
+        { batchId: created.id }
+      );
+      return created;
+    }).immediate();
+  } catch (error) {
+    console.error('Error creating print batch:', error);
+    throw error;
+  }
+}
+
+async function getPrintBatches(limit: number = 50): Promise<PrintBatch[]> {
+  try {
+    const rows = getDb().prepare(
+      `SELECT ${PRINT_BATCH_COLUMNS} FROM print_batches ORDER BY created_at DESC, id DESC LIMIT ?`
+    ).all(limit) as PrintBatchRow[];
+    return rows.map(toPrintBatch);
+  } catch (error) {
+    console.error('Error getting print batches:', error);
+    throw error;
+  }
+}
+
+async function getPrintBatch(id: number): Promise<PrintBatchDetail | null> {
+  try {
+    const db = getDb();
+    const batchRow = db.prepare(
+      `SELECT ${PRINT_BATCH_COLUMNS}, orders_snapshot FROM print_batches WHERE id = ?`
+    ).get(id) as (PrintBatchRow & { orders_snapshot: string | null }) | undefined;
+    if (!batchRow) {
+      return null;
+    }
+
+    const orderRows = db.prepare(
+      'SELECT tranid, order_number, position FROM print_batch_orders WHERE batch_id = ? ORDER BY position'
+    ).all(id) as Array<{ tranid: string; order_number: string | null; position: number }>;
+
+    return {
+      ...toPrintBatch(batchRow),
+      orders: orderRows.map(row => ({
+        tranid: row.tranid,
+        orderNumber: row.order_number,
+        position: row.position,
+      })),
+      snapshot: parseJson<SerializedProcessedOrder[]>(batchRow.orders_snapshot),
+    };
+  } catch (error) {
+    console.error('Error getting print batch:', error);
+    throw error;
+  }
+}
+
+async function getCachedOrderLines(): Promise<NetSuiteItem[]> {
+  try {
+    const rows = getDb().prepare('SELECT lines FROM order_cache ORDER BY tranid').all() as Array<{ lines: string }>;
+    return rows.flatMap(row => JSON.parse(row.lines) as NetSuiteItem[]);
+  } catch (error) {
+    console.error('Error getting cached order lines:', error);
+    throw error;
+  }
+}
+
+async function saveSyncedOrderLines(
+  lines: NetSuiteItem[],
+  options: { full: boolean; syncedAt: Date }
+): Promise<number> {
+  const linesByTranid = new Map<string, NetSuiteItem[]>();
+  for (const line of lines) {
+    const tranid = line.values.tranid;
+    if (!linesByTranid.has(tranid)) {
+      linesByTranid.set(tranid, []);
+    }
+    linesByTranid.get(tranid)!.push(line);
+  }
+
+  const db = getDb();
+  const syncedAt = options.syncedAt.toISOString();
+  try {
+    db.transaction(() => {
+      if (options.full) {
+        db.prepare('DELETE FROM order_cache WHERE tranid NOT IN (SELECT value FROM json_each(?))').run(
+          JSON.stringify(Array.from(linesByTranid.keys()))
+        );
+      }
+
+      // One statement for every fulfillment, however many the sync returned
+      const entries = Array.from(linesByTranid.entries()).map(([tranid, tranLines]) => ({ tranid, lines: tranLines }));
+      db.prepare(
+        `INSERT INTO order_cache (tranid, lines, synced_at)
+         SELECT json_extract(value, '$.tranid'), json_extract(value, '$.lines'), @syncedAt FROM json_each(@entries) WHERE true
+         ON CONFLICT (tranid) DO UPDATE SET lines = excluded.lines, synced_at = excluded.synced_at`
+      ).run({ entries: JSON.stringify(entries), syncedAt });
+
+      db.prepare(
+        `INSERT INTO order_sync_state (id, last_synced_at, last_full_sync_at, last_error, last_error_at)
+         VALUES (1, ?, ?, NULL, NULL)
+         ON CONFLICT (id) DO UPDATE SET
+           last_synced_at = excluded.last_synced_at,
+           last_full_sync_at = COALESCE(excluded.last_full_sync_at, order_sync_state.last_full_sync_at),
+           last_error = NULL,
+           last_error_at = NULL`
+      ).run(syncedAt, options.full ? syncedAt : null);
+    }).immediate();
+    return linesByTranid.size;
+  } catch (error) {
+    console.error('Error saving synced order lines:', error);
+    throw error;
+  }
+}
+
+async function recordOrderSyncError(message: string): Promise<void> {
+  try {
+    getDb().prepare(
+      `INSERT INTO order_sync_state (id, last_error, last_error_at) VALUES (1, ?, ${SQLITE_NOW})
+       ON CONFLICT (id) DO UPDATE SET last_error = excluded.last_error, last_error_at = excluded.last_error_at`
+    ).run(message);
+  } catch (error) {
+    console.error('Error recording order sync error:', error);
+  }
+}
+
+interface OrderSyncStateRow {
+  last_synced_at: string | null;
+  last_full_sync_at: string | null;
+  last_error: string | null;
+  last_error_at: string | null;
+}
+
+async function getOrderSyncState(): Promise<OrderSyncState> {
+  try {
+    const row = getDb().prepare(
+      'SELECT last_synced_at, last_full_sync_at, last_error, last_error_at FROM order_sync_state WHERE id = 1'
+    ).get() as OrderSyncStateRow | undefined;
+    const toIso = (value: string | null | undefined) => (value ? new Date(value).toISOString() : null);
+    return {
+      lastSyncedAt: toIso(row?.last_synced_at),
+      lastFullSyncAt: toIso(row?.last_full_sync_at),
+      lastError: row?.last_error ?? null,
+      lastErrorAt: toIso(row?.last_error_at),
+    };
+  } catch (error) {
+    console.error('Error getting order sync state:', error);
+    throw error;
+  }
+}
+
+async function enqueueWriteBacks(
+  entries: Array<{ tranid: string; batchId: number | null; printedAt: Date | null }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const queued = entries.map(entry => ({
+    tranid: entry.tranid,
+    batchId: entry.batchId,
+    printedAt: entry.printedAt ? entry.printedAt.toISOString() : null,
+  }));
+  try {
+    // One statement, so the whole list is queued or none of it; an order listed twice ends up with its last entry
+    getDb().prepare(
+      `INSERT INTO netsuite_writeback_queue (tranid, batch_id, printed_at)
+       SELECT json_extract(value, '$.tranid'), json_extract(value, '$.batchId'), json_extract(value, '$.printedAt')
+       FROM json_each(?) WHERE true
+       ON CONFLICT (tranid) DO UPDATE SET
+         batch_id = excluded.batch_id,
+         printed_at = excluded.printed_at,
+         status = 'pending',
+         attempts = 0,
+         last_error = NULL,
+         queued_at = ${SQLITE_NOW},
+         next_attempt_at = ${SQLITE_NOW},
+         updated_at = ${SQLITE_NOW}`
+    ).run(JSON.stringify(queued));
+  } catch (error) {
+    console.error('Error queueing NetSuite write-backs:', error);
+    throw error;
+  }
+}
+
+interface DueWriteBackRow {
+  tranid: string;
+  batch_id: number | null;
+  printed_at: string | null;
+  attempts: number;
+  queued_at: string;
+  internal_id: string | number | null; // json_extract keeps the JSON type
+}
+
+async function getDueWriteBacks(limit: number): Promise<WriteBackEntry[]> {
+  try {
+    const rows = getDb().prepare(
+      `SELECT q.tranid, q.batch_id, q.printed_at, q.attempts, q.queued_at, json_extract(c.lines, '$[0].id') AS internal_id
+       FROM netsuite_writeback_queue q
+       LEFT JOIN order_cache c ON c.tranid = q.tranid
+       WHERE q.status = 'pending' AND q.next_attempt_at <= ${SQLITE_NOW}
+       ORDER BY q.next_attempt_at
+       LIMIT ?`
+    ).all(limit) as DueWriteBackRow[];
+    return rows.map(row => ({
+      tranid: row.tranid,
+      internalId: row.internal_id === null ? null : String(row.internal_id),
+      batchId: row.batch_id,
+      printedAt: row.printed_at ? new Date(row.printed_at).toISOString() : null,
+      attempts: row.attempts,
+      queuedAt: row.queued_at,
+    }));
+  } catch (error) {
+    console.error('Error getting due NetSuite write-backs:', error);
+    throw error;
+  }
+}
+
+async function recordWriteBackAttempt(
+  entry: WriteBackEntry,
+  outcome: { success: true } | { success: false; error: string; nextAttemptAt: Date | null }
+): Promise<void> {
+  try {
+    if (outcome.success) {
+      getDb().prepare(
+        `UPDATE netsuite_writeback_queue
+         SET status = 'written', attempts = attempts + 1, last_error = NULL, updated_at = ${SQLITE_NOW}
+         WHERE tranid = ? AND queued_at = ?`
+      ).run(entry.tranid, entry.queuedAt);
+    } else {
+      getDb().prepare(
+        `UPDATE netsuite_writeback_queue
+         SET status = ?, attempts = attempts + 1, last_error = ?,
+             next_attempt_at = COALESCE(?, next_attempt_at), updated_at = ${SQLITE_NOW}
+         WHERE tranid = ? AND queued_at = ?`
+      ).run(
+        outcome.nextAttemptAt ? 'pending' : 'failed',
+        outcome.error,
+        outcome.nextAttemptAt ? outcome.nextAttemptAt.toISOString() : null,
+        entry.tranid,
+        entry.queuedAt
+      );
+    }
+  } catch (error) {
+    console.error('Error recording NetSuite write-back attempt:', error);
+    throw error;
+  }
+}
+
+async function retryFailedWriteBacks(): Promise<number> {
+  try {
+    const result = getDb().prepare(
+      `UPDATE netsuite_writeback_queue
+       SET status = 'pending', attempts = 0, next_attempt_at = ${SQLITE_NOW}, updated_at = ${SQLITE_NOW}
+       WHERE status = 'failed'`
+    ).run();
+    return result.changes;
+  } catch (error) {
+    console.error('Error retrying failed NetSuite write-backs:', error);
+    throw error;
+  }
+}
+
+interface WriteBackStatusRow {
+  tranid: string;
+  status: WriteBackStatus['status'];
+  attempts: number;
+  last_error: string | null;
+  updated_at: string;
+}
+
+/**
+ * Get write-back status keyed by tranid, newest first, for orders still in the backlog or not yet written
+ */
+async function getWriteBackStatuses(limit: number = 2000): Promise<Record<string, WriteBackStatus>> {
+  try {
+    const rows = getDb().prepare(
+      `SELECT tranid, status, attempts, last_error, updated_at FROM netsuite_writeback_queue
+       WHERE status <> 'written' OR tranid IN (SELECT tranid FROM order_cache)
+       ORDER BY updated_at DESC LIMIT ?`
+    ).all(limit) as WriteBackStatusRow[];
+    const statuses: Record<string, WriteBackStatus> = {};
+    for (const row of rows) {
+      statuses[row.tranid] = {
+        status: row.status,
+        attempts: row.attempts,
+        lastError: row.last_error,
+        updatedAt: new Date(row.updated_at).toISOString(),
+      };
+    }
+    return statuses;
+  } catch (error) {
+    console.error('Error getting NetSuite write-back statuses:', error);
+    return {};
+  }
+}
+
+interface PackSizeVersionRow {
+  version: number;
+  config: string;
+  created_at: string;
+  created_by: string | null;
+  note: string | null;
+}
+
+/**
+ * Map a pack_size_versions row to a PackSizeVersion
+ */
+function toPackSizeVersion(row: PackSizeVersionRow): PackSizeVersion {
+  return {
+    version: row.version,
+    config: JSON.parse(row.config) as OrderConfig,
+    createdAt: new Date(row.created_at).toISOString(),
+    createdBy: row.created_by,
+    note: row.note,
+  };
+}
+
+async function getPackSizeVersion(version?: number): Promise<PackSizeVersion | null> {
+  try {
+    const db = getDb();
+    const row = version === undefined
+      ? db.prepare('SELECT * FROM pack_size_versions ORDER BY version DESC LIMIT 1').get() as PackSizeVersionRow | undefined
+      : db.prepare('SELECT * FROM pack_size_versions WHERE version = ?').get(version) as PackSizeVersionRow | undefined;
+    return row ? toPackSizeVersion(row) : null;
+  } catch (error) {
+    console.error('Error getting pack size version:', error);
+    throw error;
+  }
+}
+
+async function getPackSizeVersions(limit: number = 50): Promise<Omit<PackSizeVersion, 'config'>[]> {
+  try {
+    const rows = getDb().prepare(
+      'SELECT version, created_at, created_by, note FROM pack_size_versions ORDER BY version DESC LIMIT ?'
+    ).all(limit) as Omit<PackSizeVersionRow, 'config'>[];
+    return rows.map(row => ({
+      version: row.version,
+      createdAt: new Date(row.created_at).toISOString(),
+      createdBy: row.created_by,
+      note: row.note,
+    }));
+  } catch (error) {
+    console.error('Error getting pack size versions:', error);
+    throw error;
+  }
+}
+
+async function createPackSizeVersion(
+  config: OrderConfig,
+  meta: { createdBy: string | null; note: string | null }
+): Promise<PackSizeVersion> {
+  try {
+    const row = getDb().prepare(
+      `INSERT INTO pack_size_versions (config, created_by, note)
+       VALUES (?, ?, ?)
+       RETURNING *`
+    ).get(JSON.stringify(config), meta.createdBy, meta.note) as PackSizeVersionRow;
+    return toPackSizeVersion(row);
+  } catch (error) {
+    console.error('Error saving pack size version:', error);
+    throw error;
+  }
+}
+
+const CATALOG_COLUMNS = 'id, prefix, pattern, family, size, slot_weight, personalized';
+
+interface CatalogRow {
+  id: number;
+  prefix: string;
+  pattern: string | null;
+  family: string;
+  size: string | null;
+  slot_weight: number;
+  personalized: number | null;
+}
+
+/**
+ * Map a sku_catalog row to a CatalogEntry
+ */
+function toCatalogEntry(row: CatalogRow): CatalogEntry {
+  return {
+    id: row.id,
+    prefix: row.prefix,
+    pattern: row.pattern,
+    family: row.family,
+    size: row.size,
+    slotWeight: Number(row.slot_weight),
+    personalized: row.personalized === null ? null : Boolean(row.personalized),
+  };
+}
+
+async function getCatalogEntries(): Promise<CatalogEntry[]> {
+  try {
+    const rows = getDb().prepare(`SELECT ${CATALOG_COLUMNS} FROM sku_catalog ORDER BY id`).all() as CatalogRow[];
+    return rows.map(toCatalogEntry);
+  } catch (error) {
+    console.error('Error getting SKU catalog:', error);
+    throw error;
+  }
+}
+
+async function createCatalogEntry(entry: Omit<CatalogEntry, 'id'>): Promise<CatalogEntry> {
+  try {
+    const row = getDb().prepare(
+      `INSERT INTO sku_catalog (prefix, pattern, family, size, slot_weight, personalized)
+       VALUES (?, ?, ?, ?, ?, ?)
+       RETURNING ${CATALOG_COLUMNS}`
+    ).get(entry.prefix, entry.pattern, entry.family, entry.size, entry.slotWeight, toSqliteBoolean(entry.personalized)) as CatalogRow;
+    return toCatalogEntry(row);
+  } catch (error) {
+    console.error('Error creating SKU catalog entry:', error);
+    throw error;
+  }
+}
+
+async function updateCatalogEntry(id: number, entry: Omit<CatalogEntry, 'id'>): Promise<CatalogEntry | null> {
+  try {
+    const row = getDb().prepare(
+      `UPDATE sku_catalog
+       SET prefix = ?, pattern = ?, family = ?, size = ?, slot_weight = ?, personalized = ?
+       WHERE id = ?
+       RETURNING ${CATALOG_COLUMNS}`
+    ).get(entry.prefix, entry.pattern, entry.family, entry.size, entry.slotWeight, toSqliteBoolean(entry.personalized), id) as CatalogRow | undefined;
+    return row ? toCatalogEntry(row) : null;
+  } catch (error) {
+    console.error('Error updating SKU catalog entry:', error);
+    throw error;
+  }
+}
+
+async function deleteCatalogEntry(id: number): Promise<boolean> {
+  try {
+    const result = getDb().prepare('DELETE FROM sku_catalog WHERE id = ?').run(id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error('Error deleting SKU catalog entry:', error);
+    throw error;
+  }
+}
+
+interface CachedImageRow {
+  content_type: string | null;
+  data: Buffer | null;
+  error: string | null;
+  fetched_at: string;
+}
+
+async function getCachedImage(url: string, size: number): Promise<CachedImage | null> {
+  try {
+    const row = getDb().prepare(
+      'SELECT content_type, data, error, fetched_at FROM image_cache WHERE url = ? AND size = ?'
+    ).get(url, size) as CachedImageRow | undefined;
+    if (!row) return null;
+    return {
+      contentType: row.content_type,
+      data: row.data,
+      error: row.error,
+      fetchedAt: new Date(row.fetched_at),
+    };
+  } catch (error) {
+    console.error('Error getting cached image:', error);
+    throw error;
+  }
+}
+
+async function saveCachedImage(
+  url: string,
+  size: number,
+  image: { contentType: string; data: Buffer }
+): Promise<void> {
+  try {
+    getDb().prepare(
+      `INSERT INTO image_cache (url, size, content_type, data, fetches)
+       VALUES (?, ?, ?, ?, 1)
+       ON CONFLICT (url, size) DO UPDATE SET
+         content_type = excluded.content_type,
+         data = excluded.data,
+         error = NULL,
+         failures = 0,
+         fetches = image_cache.fetches + 1,
+         fetched_at = ${SQLITE_NOW},
+         last_used_at = ${SQLITE_NOW}`
+    ).run(url, size, image.contentType, image.data);
+  } catch (error) {
+    console.error('Error saving cached image:', error);
+    throw error;
+  }
+}
+
+async function recordImageFailure(url: string, size: number, message: string): Promise<void> {
+  try {
+    getDb().prepare(
+      `INSERT INTO image_cache (url, size, error, failures, fetches)
+       VALUES (?, ?, ?, 1, 1)
+       ON CONFLICT (url, size) DO UPDATE SET
+         error = excluded.error,
+         failures = image_cache.failures + 1,
+         fetches = image_cache.fetches + 1,
+         fetched_at = ${SQLITE_NOW},
+         last_used_at = ${SQLITE_NOW}`
+    ).run(url, size, message);
+  } catch (error) {
+    console.error('Error recording image failure:', error);
+    throw error;
+  }
+}
+
+async function recordImageCacheHit(url: string, size: number): Promise<void> {
+  try {
+    getDb().prepare(
+      `UPDATE image_cache SET hits = hits + 1, last_used_at = ${SQLITE_NOW} WHERE url = ? AND size = ?`
+    ).run(url, size);
+  } catch (error) {
+    console.error('Error recording image cache hit:', error);
+  }
+}
+
+async function deleteUnusedImages(unusedSince: Date): Promise<number> {
+  try {
+    const result = getDb().prepare('DELETE FROM image_cache WHERE last_used_at < ?').run(unusedSince.toISOString());
+    return result.changes;
+  } catch (error) {
+    console.error('Error deleting unused images:', error);
+    throw error;
+  }
+}
+
+interface ImageCacheTotalsRow {
+  image_count: number;
+  total_bytes: number;
+  hits: number;
+  fetches: number;
+  failing_count: number;
+}
+
+interface FailingImageRow {
+  url: string;
+  size: number;
+  error: string;
+  failures: number;
+  has_stale_copy: number;
+  fetched_at: string;
+}
+
+async function getImageCacheStats(failureLimit: number = 50): Promise<ImageCacheStats> {
+  try {
+    const db = getDb();
+    const totals = db.prepare(
+      `SELECT COUNT(*) FILTER (WHERE data IS NOT NULL) AS image_count,
+              COALESCE(SUM(LENGTH(data)), 0) AS total_bytes,
+              COALESCE(SUM(hits), 0) AS hits,
+              COALESCE(SUM(fetches), 0) AS fetches,
+              COUNT(*) FILTER (WHERE error IS NOT NULL) AS failing_count
+       FROM image_cache`
+    ).get() as ImageCacheTotalsRow;
+    const failing = db.prepare(
+      `SELECT url, size, error, failures, data IS NOT NULL AS has_stale_copy, fetched_at
+       FROM image_cache
+       WHERE error IS NOT NULL
+       ORDER BY fetched_at DESC
+       LIMIT ?`
+    ).all(failureLimit) as FailingImageRow[];
+
+    const hits = Number(totals.hits);
+    const fetches = Number(totals.fetches);
+    return {
+      imageCount: Number(totals.image_count),
+      totalBytes: Number(totals.total_bytes),
+      hits,
+      fetches,
+      hitRate: hits + fetches > 0 ? hits / (hits + fetches) : null,
+      failingCount: Number(totals.failing_count),
+      failing: failing.map(f => ({
+        url: f.url,
+        size: f.size,
+        error: f.error,
+        failures: f.failures,
+        hasStaleCopy: Boolean(f.has_stale_copy),
+        lastAttemptAt: new Date(f.fetched_at).toISOString(),
+      })),
+    };
+  } catch (error) {
+    console.error('Error getting image cache stats:', error);
+    throw error;
+  }
+}
+
+// Never includes the password hash; getUserCredentials loads it for sign-in only
+const USER_COLUMNS = 'id, username, display_name, role, provider, disabled, password_hash IS NOT NULL AS has_password, created_at, last_login_at';
+
+interface UserRow {
+  id: number;
+  username: string;
+  display_name: string | null;
+  role: UserRole;
+  provider: AppUser['provider'];
+  disabled: number;
+  has_password: number;
+  created_at: string;
+  last_login_at: string | null;
+}
+
+/**
+ * Map a users row to an AppUser
+ */
+function toAppUser(row: UserRow): AppUser {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    provider: row.provider,
+    disabled: Boolean(row.disabled),
+    hasPassword: Boolean(row.has_password),
+    createdAt: new Date(row.created_at).toISOString(),
+    lastLoginAt: row.last_login_at ? new Date(row.last_login_at).toISOString() : null,
+  };
+}
+
+async function getUsers(): Promise<AppUser[]> {
+  try {
+    const rows = getDb().prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY username`).all() as UserRow[];
+    return rows.map(toAppUser);
+  } catch (error) {
+    console.error('Error getting users:', error);
+    throw error;
+  }
+}
+
+async function getUserCredentials(username: string): Promise<{ user: AppUser; passwordHash: string | null } | null> {
+  try {
+    const row = getDb().prepare(
+      `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE username = ?`
+    ).get(username) as (UserRow & { password_hash: string | null }) | undefined;
+    if (!row) return null;
+    return { user: toAppUser(row), passwordHash: row.password_hash };
+  } catch (error) {
+    console.error('Error getting user credentials:', error);
+    throw error;
+  }
+}
+
+async function createUser(user: {
+  username: string;
+  displayName: string | null;
+  role: UserRole;
+  provider: AppUser['provider'];
+  passwordHash: string | null;
+}): Promise<AppUser | null> {
+  try {
+    const row = getDb().prepare(
+      `INSERT INTO users (username, display_name, role, provider, password_hash)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (username) DO NOTHING
+       RETURNING ${USER_COLUMNS}`
+    ).get(user.username, user.displayName, user.role, user.provider, user.passwordHash) as UserRow | undefined;
+    return row ? toAppUser(row) : null;
+  } catch (error) {
+    console.error('Error creating user:', error);
+    throw error;
+  }
+}
+
+async function updateUser(id: number, changes: {
+  displayName?: string | null;
+  role?: UserRole;
+  passwordHash?: string;
+  disabled?: boolean;
+}): Promise<AppUser | null> {
+  try {
+    const row = getDb().prepare(
+      `UPDATE users SET
+         display_name = CASE WHEN @setDisplayName THEN @displayName ELSE display_name END,
+         role = COALESCE(@role, role),
+         password_hash = COALESCE(@passwordHash, password_hash),
+         disabled = COALESCE(@disabled, disabled)
+       WHERE id = @id
+       RETURNING ${USER_COLUMNS}`
+    ).get({
+      id,
+      setDisplayName: Number(changes.displayName !== undefined),
+      displayName: changes.displayName ?? null,
+      role: changes.role ?? null,
+      passwordHash: changes.passwordHash ?? null,
+      disabled: toSqliteBoolean(changes.disabled ?? null),
+    }) as UserRow | undefined;
+    return row ? toAppUser(row) : null;
+  } catch (error) {
+    console.error('Error updating user:', error);
+    throw error;
+  }
+}
+
+async function recordUserLogin(id: number): Promise<void> {
+  try {
+    getDb().prepare(`UPDATE users SET last_login_at = ${SQLITE_NOW} WHERE id = ?`).run(id);
+  } catch (error) {
+    console.error('Error recording user login:', error);
+  }
+}
+
+async function saveOidcUser(user: {
+  username: string;
+  displayName: string | null;
+  role: UserRole | null;
+  defaultRole: UserRole;
+}): Promise<AppUser | null> {
+  try {
+    const row = getDb().prepare(
+      `INSERT INTO users (username, display_name, role, provider, last_login_at)
+       VALUES (?, ?, ?, 'oidc', ${SQLITE_NOW})
+       ON CONFLICT (username) DO UPDATE SET
+         display_name = COALESCE(excluded.display_name, users.display_name),
+         role = CASE WHEN ? THEN excluded.role ELSE users.role END,
+         last_login_at = excluded.last_login_at
+       WHERE users.provider = 'oidc'
+       RETURNING ${USER_COLUMNS}`
+    ).get(user.username, user.displayName, user.role ?? user.defaultRole, Number(user.role !== null)) as UserRow | undefined;
+    return row ? toAppUser(row) : null;
+  } catch (error) {
+    console.error('Error saving OIDC user:', error);
+    throw error;
+  }
+}
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+function readAppliedMigrations(db: Database.Database): Map<number, AppliedMigration> {
+  const rows = db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all() as AppliedMigrationRow[];
+  return new Map(rows.map(row => [
+    row.version,
+    { name: row.name, appliedAt: new Date(row.applied_at).toISOString() },
+  ]));
+}
+
+const migrationDriver: MigrationDriver = {
+  async getApplied() {
+    const db = getDb();
+    const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`).get();
+    return exists ? readAppliedMigrations(db) : new Map();
+  },
+
+  // Each migration holds SQLite's write lock for its transaction, which is all the locking one file needs
+  async withLock(work) {
+    const db = getDb();
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL DEFAULT (${SQLITE_NOW})
+      )
+    `);
+    return work({
+      getApplied: async () => readAppliedMigrations(db),
+      async apply(migration, direction) {
+        db.transaction(() => {
+          migration.sqlite[direction](db);
+          if (direction === 'up') {
+            db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+          } else {
+            db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+          }
+        }).immediate();
+      },
+    });
+  },
+};
+
+/**
+ * Close the database file, so a script using it can exit
+ */
+async function close(): Promise<void> {
+  if (db) {
+    db.close();
+    db = null;
+  }
+}
+
+export const sqliteStore: Store = {
+  migrations: migrationDriver,
+  close,
+  setOrderStatus,
+  getOrderStatuses,
+  getOrderStatusHistory,
+  getPrintedOrders,
+  isOrderPrinted,
+  markOrdersAsPrinted,
+  clearPrintedOrders,
+  unmarkOrdersAsPrinted,
+  undoLastClear,
+  getPrintAuditLog,
+  pruneOrderStatuses,
+  createPrintBatch,
+  getPrintBatches,
+  getPrintBatch,
+  getCachedOrderLines,
+  saveSyncedOrderLines,
+  recordOrderSyncError,
+  getOrderSyncState,
+  enqueueWriteBacks,
+  getDueWriteBacks,
+  recordWriteBackAttempt,
+  retryFailedWriteBacks,
+  getWriteBackStatuses,
+  getPackSizeVersion,
+  getPackSizeVersions,
+  createPackSizeVersion,
+  getCatalogEntries,
+  createCatalogEntry,
+  updateCatalogEntry,
+  deleteCatalogEntry,
+  getCachedImage,
+  saveCachedImage,
+  recordImageFailure,
+  recordImageCacheHit,
+  deleteUnusedImages,
+  getImageCacheStats,
+  getUsers,
+  getUserCredentials,
+  createUser,
+  updateUser,
+  recordUserLogin,
+  saveOidcUser,
+};
@@ -1,5 +1,114 @@
+import { CatalogEntry, ImageCacheStats, OrderConfig, OrderStatus, OrderStatusEvent, OrderStatusRecord, OrderSyncEvent, OutputFormat, PackSizeVersion, AppUser, PageProfile, PrintAuditLog, PrintBatch, PrintBatchDetail, PrintBatchFilters, PrintDocumentType, SerializedProcessedOrder, SessionUser, UserRole, WriteBackStatus } from './types';
+import { BoxRuleIssue } from './boxRules';
+
+/**
+ * Get the signed-in user via API, and whether sign-in is by password or OIDC
+ */
+export async function getCurrentUser(): Promise<{ user: SessionUser | null; provider: 'local' | 'oidc' }> {
+  if (typeof window === 'undefined') return { user: null, provider: 'local' };
+
+  try {
+    const response = await fetch('/api/auth/session', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch session');
+    }
+    const data = await response.json();
+    return { user: data.user || null, provider: data.provider === 'oidc' ? 'oidc' : 'local' };
+  } catch (error) {
+    console.error('Error reading session:', error);
+    return { user: null, provider: 'local' };
+  }
+}
+
 /**
- * Get set of printed order tranids from database via API
+ * Sign in with a username and password via API
+ * Returns the error message if sign-in failed
+ */
+export async function signIn(username: string, password: string): Promise<string | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username, password }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      return data.error || 'Failed to sign in';
+    }
+    return null;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return 'Failed to sign in';
+  }
+}
+
+/**
+ * Sign out via API
+ */
+export async function signOut(): Promise<void> {
+  if (typeof window === 'undefined') return;
+
+  try {
+    await fetch('/api/auth/logout', { method: 'POST' });
+  } catch (error) {
+    console.error('Error signing out:', error);
+  }
+}
+
+/**
+ * Get every user via API (admins only)
+ */
+export async function getUsers(): Promise<AppUser[]> {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const response = await fetch('/api/users', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch users');
+    }
+    const data = await response.json();
+    return data.users || [];
+  } catch (error) {
+    console.error('Error reading users:', error);
+    return [];
+  }
+}
+
+/**
+ * Add a user, or change one when id is given, via API
+ * Returns the saved user, or the error message if it was rejected
+ */
+export async function saveUser(
+  user: { username?: string; displayName?: string | null; role?: UserRole; password?: string; disabled?: boolean },
+  id?: number
+): Promise<{ user: AppUser | null; error: string | null }> {
+  if (typeof window === 'undefined') return { user: null, error: null };
+
+  try {
+    const response = await fetch(id !== undefined ? `/api/users/${id}` : '/api/users', {
+      method: id !== undefined ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(user),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      return { user: null, error: data.error || 'Failed to save user' };
+    }
+    return { user: data.user as AppUser, error: null };
+  } catch (error) {
+    console.error('Error saving user:', error);
+    return { user: null, error: 'Failed to save user' };
+  }
+}
+
+/**
+ * Get set of printed order tranids in the current backlog from database via API
  */
 export async function getPrintedOrders(): Promise<Set<string>> {
   if (typeof window === 'undefined') return new Set();
@@ -19,8 +128,9 @@ export async function getPrintedOrders(): Promise<Set<string>> {
 
 /**
  * Mark orders as printed in database via API
+ * The signed-in user and `source` (the screen) are recorded in the print audit log
  */
-export async function markOrdersAsPrinted(tranids: string[]): Promise<void> {
+export async function markOrdersAsPrinted(tranids: string[], source?: string): Promise<void> {
   if (typeof window === 'undefined') return;
   if (tranids.length === 0) return;
   
@@ -30,7 +140,7 @@ export async function markOrdersAsPrinted(tranids: string[]): Promise<void> {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ tranids }),
+      body: JSON.stringify({ tranids, source }),
     });
     
     if (!response.ok) {
@@ -43,12 +153,15 @@ export async function markOrdersAsPrinted(tranids: string[]): Promise<void> {
 
 /**
  * Clear all printed orders from database via API
+ * The clear is recorded in the print audit log, and can be undone from there
  */
-export async function clearPrintedOrders(): Promise<void> {
+export async function clearPrintedOrders(source?: string): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    const response = await fetch('/api/printed', {
+    const params = new URLSearchParams({ all: 'true' });
+    if (source) params.set('source', source);
+    const response = await fetch(`/api/printed?${params}`, {
       method: 'DELETE',
     });
     
@@ -60,3 +173,469 @@ export async function clearPrintedOrders(): Promise<void> {
   }
 }
 
+/**
+ * Get the status of every order in the current backlog that has left 'new' via API
+ */
+export async function getOrderStatuses(): Promise<Record<string, OrderStatusRecord>> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const response = await fetch('/api/orders/status', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch order statuses');
+    }
+    const data = await response.json();
+    return data.statuses || {};
+  } catch (error) {
+    console.error('Error reading order statuses from database:', error);
+    return {};
+  }
+}
+
+/**
+ * Move orders to a status via API
+ * Returns the orders that moved, or null if the change couldn't be saved
+ */
+export async function setOrderStatus(
+  tranids: string[],
+  status: OrderStatus,
+  options: { from?: OrderStatus[]; note?: string; source?: string } = {}
+): Promise<Array<{ tranid: string; fromStatus: OrderStatus; status: OrderStatus }> | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const response = await fetch('/api/orders/status', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ tranids, status, ...options }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to set order status');
+    }
+    const data = await response.json();
+    return data.changes || [];
+  } catch (error) {
+    console.error('Error saving order status to database:', error);
+    return null;
+  }
+}
+
+/**
+ * Get an order's status history via API (oldest first)
+ */
+export async function getOrderStatusHistory(tranid: string): Promise<OrderStatusEvent[]> {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const response = await fetch(`/api/orders/status?tranid=${encodeURIComponent(tranid)}`, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch order status history');
+    }
+    const data = await response.json();
+    return data.history || [];
+  } catch (error) {
+    console.error('Error reading order status history from database:', error);
+    return [];
+  }
+}
+
+/**
+ * Record a print batch (and mark its orders as printed) via API
+ * Returns the server's error (e.g. an expired session or a missing role) if the batch wasn't recorded
+ */
+export async function recordPrintBatch(batch: {
+  documentType: PrintDocumentType;
+  filters: PrintBatchFilters | null;
+  pageProfile: PageProfile;
+  packSizeVersion: number | null;
+  outputFormat: OutputFormat;
+  orders: Array<{ tranid: string; orderNumber: string }>;
+  snapshot: SerializedProcessedOrder[];
+  source?: string; // Screen the batch was printed from, for the audit log
+}): Promise<{ batch: PrintBatch | null; error: string | null }> {
+  if (typeof window === 'undefined') return { batch: null, error: null };
+  if (batch.orders.length === 0) return { batch: null, error: null };
+
+  try {
+    const response = await fetch('/api/batches', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(batch),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { batch: null, error: data.error || 'Failed to record print batch' };
+    }
+    return { batch: data.batch as PrintBatch, error: null };
+  } catch (error) {
+    console.error('Error saving print batch to database:', error);
+    return { batch: null, error: 'Failed to record print batch' };
+  }
+}
+
+/**
+ * Get the print audit log via API, optionally only entries for one order or user
+ */
+export async function getPrintAuditLog(
+  filters: { tranid?: string; actor?: string } = {}
+): Promise<PrintAuditLog | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const params = new URLSearchParams();
+    if (filters.tranid) params.set('tranid', filters.tranid);
+    if (filters.actor) params.set('actor', filters.actor);
+    const response = await fetch(`/api/printed/audit?${params}`, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch print audit log');
+    }
+    return await response.json() as PrintAuditLog;
+  } catch (error) {
+    console.error('Error reading print audit log from database:', error);
+    return null;
+  }
+}
+
+/**
+ * Undo the most recent clear of all printed orders via API
+ * Returns the orders restored and those skipped because they'd moved on, or null if it failed
+ */
+export async function undoLastClear(source?: string): Promise<{ restored: string[]; skipped: string[] } | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const response = await fetch('/api/printed/undo-clear', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ source }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to undo clear');
+    }
+    const data = await response.json();
+    return {
+      restored: (data.restored || []).map((entry: { tranid: string }) => entry.tranid),
+      skipped: data.skipped || [],
+    };
+  } catch (error) {
+    console.error('Error undoing clear in database:', error);
+    return null;
+  }
+}
+
+/**
+ * Get recent print batches from database via API
+ */
+export async function getPrintBatches(): Promise<PrintBatch[]> {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const response = await fetch('/api/batches', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch print batches');
+    }
+    const data = await response.json();
+    return data.batches || [];
+  } catch (error) {
+    console.error('Error reading print batches from database:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a single print batch with its orders from database via API
+ */
+export async function getPrintBatch(id: number): Promise<PrintBatchDetail | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const response = await fetch(`/api/batches/${id}`, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch print batch');
+    }
+    const data = await response.json();
+    return data.batch as PrintBatchDetail;
+  } catch (error) {
+    console.error('Error reading print batch from database:', error);
+    return null;
+  }
+}
+
+/**
+ * Sync the order cache from NetSuite via API, reporting progress as it streams in
+ * Resolves with the final 'done' or 'error' event
+ */
+export async function syncOrdersWithProgress(
+  onEvent: (event: OrderSyncEvent) => void,
+  options: { full?: boolean } = {}
+): Promise<OrderSyncEvent> {
+  if (typeof window === 'undefined') return { type: 'error', message: 'Not available on the server' };
+
+  try {
+    const response = await fetch('/api/orders/sync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/x-ndjson',
+      },
+      body: JSON.stringify({ full: options.full === true }),
+    });
+    if (!response.ok || !response.body) {
+      throw new Error('Failed to sync orders');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finalEvent: OrderSyncEvent | null = null;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as OrderSyncEvent;
+        if (event.type === 'done' || event.type === 'error') {
+          finalEvent = event;
+        } else {
+          onEvent(event);
+        }
+      }
+    }
+
+    return finalEvent || { type: 'error', message: 'Sync ended without a result' };
+  } catch (error) {
+    console.error('Error syncing orders:', error);
+    return { type: 'error', message: error instanceof Error ? error.message : 'Failed to sync orders' };
+  }
+}
+
+/**
+ * Get NetSuite write-back status per order via API
+ */
+export async function getWriteBackStatuses(): Promise<{ enabled: boolean; statuses: Record<string, WriteBackStatus> }> {
+  if (typeof window === 'undefined') return { enabled: false, statuses: {} };
+
+  try {
+    const response = await fetch('/api/writeback', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch write-back statuses');
+    }
+    const data = await response.json();
+    return { enabled: data.enabled === true, statuses: data.statuses || {} };
+  } catch (error) {
+    console.error('Error reading write-back statuses:', error);
+    return { enabled: false, statuses: {} };
+  }
+}
+
+/**
+ * Re-queue failed NetSuite write-backs and attempt them now via API
+ */
+export async function retryWriteBacks(): Promise<Record<string, WriteBackStatus> | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const response = await fetch('/api/writeback', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ retryFailed: true }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to retry write-backs');
+    }
+    const data = await response.json();
+    return data.statuses || {};
+  } catch (error) {
+    console.error('Error retrying write-backs:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the active pack size config (or a specific version) via API
+ */
+export async function getPackSizes(version?: number): Promise<PackSizeVersion | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const query = version !== undefined ? `?version=${version}` : '';
+    const response = await fetch(`/api/pack-sizes${query}`, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch pack sizes');
+    }
+    const data = await response.json();
+    return data.packSizes as PackSizeVersion;
+  } catch (error) {
+    console.error('Error reading pack sizes:', error);
+    return null;
+  }
+}
+
+/**
+ * List pack size versions (newest first) via API
+ */
+export async function getPackSizeVersions(): Promise<Omit<PackSizeVersion, 'config'>[]> {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const response = await fetch('/api/pack-sizes/versions', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch pack size versions');
+    }
+    const data = await response.json();
+    return data.versions || [];
+  } catch (error) {
+    console.error('Error reading pack size versions:', error);
+    return [];
+  }
+}
+
+/**
+ * Check a proposed pack size config via API
+ */
+export async function validatePackSizes(config: OrderConfig): Promise<{ issues: BoxRuleIssue[]; error: string | null }> {
+  if (typeof window === 'undefined') return { issues: [], error: null };
+
+  try {
+    const response = await fetch('/api/pack-sizes/validate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(config),
+    });
+    const data = await response.json();
+    return { issues: data.issues || [], error: response.ok ? null : data.error || 'Failed to validate pack sizes' };
+  } catch (error) {
+    console.error('Error validating pack sizes:', error);
+    return { issues: [], error: 'Failed to validate pack sizes' };
+  }
+}
+
+/**
+ * Save a pack size config as a new version via API
+ * Returns the validator's issues either way, and the error if it was rejected
+ */
+export async function savePackSizes(
+  config: OrderConfig,
+  meta: { note: string | null }
+): Promise<{ packSizes: PackSizeVersion | null; issues: BoxRuleIssue[]; error: string | null }> {
+  if (typeof window === 'undefined') return { packSizes: null, issues: [], error: null };
+
+  try {
+    const response = await fetch('/api/pack-sizes', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ config, ...meta }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      return { packSizes: null, issues: data.issues || [], error: data.error || 'Failed to save pack sizes' };
+    }
+    return { packSizes: data.packSizes as PackSizeVersion, issues: data.issues || [], error: null };
+  } catch (error) {
+    console.error('Error saving pack sizes:', error);
+    return { packSizes: null, issues: [], error: 'Failed to save pack sizes' };
+  }
+}
+
+/**
+ * Get the SKU catalog via API
+ * Returns null if it could not be loaded
+ */
+export async function getCatalog(): Promise<CatalogEntry[] | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const response = await fetch('/api/catalog', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch SKU catalog');
+    }
+    const data = await response.json();
+    return data.entries as CatalogEntry[];
+  } catch (error) {
+    console.error('Error reading SKU catalog:', error);
+    return null;
+  }
+}
+
+/**
+ * Add a SKU catalog entry, or replace one when an id is given, via API
+ */
+export async function saveCatalogEntry(
+  entry: Omit<CatalogEntry, 'id'>,
+  id?: number
+): Promise<{ entry: CatalogEntry | null; error: string | null }> {
+  if (typeof window === 'undefined') return { entry: null, error: null };
+
+  try {
+    const response = await fetch(id !== undefined ? `/api/catalog/${id}` : '/api/catalog', {
+      method: id !== undefined ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(entry),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      return { entry: null, error: data.error || 'Failed to save catalog entry' };
+    }
+    return { entry: data.entry as CatalogEntry, error: null };
+  } catch (error) {
+    console.error('Error saving SKU catalog entry:', error);
+    return { entry: null, error: 'Failed to save catalog entry' };
+  }
+}
+
+/**
+ * Remove a SKU catalog entry via API
+ */
+export async function deleteCatalogEntry(id: number): Promise<boolean> {
+  if (typeof window === 'undefined') return false;
+
+  try {
+    const response = await fetch(`/api/catalog/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error('Failed to delete catalog entry');
+    }
+    return true;
+  } catch (error) {
+    console.error('Error deleting SKU catalog entry:', error);
+    return false;
+  }
+}
+
+/**
+ * Get image cache stats via API
+ * Returns null if they could not be loaded
+ */
+export async function getImageCacheStats(): Promise<ImageCacheStats | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const response = await fetch('/api/images/stats', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error('Failed to fetch image cache stats');
+    }
+    return await response.json() as ImageCacheStats;
+  } catch (error) {
+    console.error('Error reading image cache stats:', error);
+    return null;
+  }
+}
@@ -0,0 +1,360 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { migrateDown, migrateUp } from './migrate';
+import { postgresStore } from './postgresStore';
+import { sqliteStore } from './sqliteStore';
+import { Store } from './store';
+import { canUseTestPostgres, startTestPostgres } from './testPostgres';
+import type { NetSuiteItem } from './types';
+
+/**
+ * What every storage backend must do alike: the same calls give the same results on SQLite and Postgres
+ * SQLite uses a temporary file; Postgres a throwaway database (see ./testPostgres), skipped where there's none.
+ * Each test starts from a freshly migrated, empty schema.
+ */
+
+interface Backend {
+  name: string;
+  store: Store;
+  enabled: boolean;
+  open: () => Promise<() => Promise<void>>; // Points the store at a scratch database; returns its cleanup
+}
+
+const BACKENDS: Backend[] = [
+  {
+    name: 'SQLite',
+    store: sqliteStore,
+    enabled: true,
+    async open() {
+      const dir = await mkdtemp(path.join(os.tmpdir(), 'packing-slips-sqlite-'));
+      vi.stubEnv('DB_SQLITE_PATH', path.join(dir, 'test.db'));
+      return () => rm(dir, { recursive: true, force: true });
+    },
+  },
+  {
+    name: 'Postgres',
+    store: postgresStore,
+    enabled: canUseTestPostgres,
+    async open() {
+      const database = await startTestPostgres();
+      vi.stubEnv('POSTGRES_URL', database.url);
+      vi.stubEnv('POSTGRES_URL_NON_POOLING', '');
+      vi.stubEnv('DB_SSL', 'off');
+      return database.stop;
+    },
+  },
+];
+
+const audit = { actor: 'sam', source: 'test' };
+
+function orderLine(tranid: string, id: string): NetSuiteItem {
+  return {
+    recordType: 'itemfulfillment',
+    id,
+    values: {
+      datecreated: '1/2/2026 9:00 am',
+      'createdFrom.tranid': `SO${tranid}`,
+      tranid,
+      item: [{ value: '1', text: 'DPT16-BLK' }],
+      name: [{ value: '1', text: 'Sam Jones' }],
+      quantity: '1',
+      shipaddress: '1 Main St',
+      custbody_pir_pers_order: false,
+      shipmethod: [{ value: '1', text: 'Ground' }],
+    },
+  };
+}
+
+for (const backend of BACKENDS) {
+  describe.skipIf(!backend.enabled)(`${backend.name} store`, () => {
+    const store = backend.store;
+    let cleanup: () => Promise<void>;
+
+    beforeAll(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      cleanup = await backend.open();
+    }, 120_000);
+
+    afterAll(async () => {
+      await store.close();
+      await cleanup?.();
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    }, 60_000);
+
+    beforeEach(async () => {
+      await migrateDown(store.migrations, 0);
+      await migrateUp(store.migrations);
+    });
+
+    describe('order statuses', () => {
+      it('moves orders, skipping those not in a `from` status, and records each move', async () => {
+        await store.setOrderStatus(['F1', 'F2'], 'printed', {}, audit);
+        const changes = await store.setOrderStatus(['F1', 'F3'], 'picked', { from: ['printed'] }, audit);
+
+        expect(changes).toEqual([{ tranid: 'F1', fromStatus: 'printed', status: 'picked' }]);
+        const statuses = await store.getOrderStatuses({ tranids: ['F1', 'F2', 'F3'] });
+        expect(Object.keys(statuses).sort()).toEqual(['F1', 'F2']);
+        expect(statuses.F1).toMatchObject({ status: 'picked', changedBy: 'sam' });
+        expect((await store.getOrderStatusHistory('F1')).map(event => [event.fromStatus, event.status])).toEqual([
+          ['new', 'printed'],
+          ['printed', 'picked'],
+        ]);
+      });
+
+      it('marks, lists and unmarks printed orders', async () => {
+        await store.markOrdersAsPrinted(['F1', 'F2'], audit);
+        await store.setOrderStatus(['F2'], 'packed', {}, audit);
+
+        expect((await store.getPrintedOrders({ tranids: ['F1', 'F2'] })).sort()).toEqual(['F1', 'F2']);
+        expect(await store.isOrderPrinted('F2')).toBe(true);
+        expect(await store.isOrderPrinted('F3')).toBe(false);
+
+        await store.unmarkOrdersAsPrinted(['F1', 'F2'], audit);
+        expect(await store.getPrintedOrders({ tranids: ['F1', 'F2'] })).toEqual([]);
+      });
+
+      it('clears printed orders and undoes the clear once', async () => {
+        await store.markOrdersAsPrinted(['F1', 'F2'], audit);
+        expect((await store.clearPrintedOrders(audit)).sort()).toEqual(['F1', 'F2']);
+        await store.setOrderStatus(['F2'], 'on-hold', {}, audit);
+
+        const log = await store.getPrintAuditLog();
+        expect(log.undoableClear).toMatchObject({ action: 'clear', actor: 'sam' });
+        expect(log.undoableClear?.details).not.toHaveProperty('previous');
+
+        const undone = await store.undoLastClear(audit);
+        expect(undone?.restored.map(entry => entry.tranid)).toEqual(['F1']);
+        expect(undone?.skipped).toEqual(['F2']);
+        expect(await store.undoLastClear(audit)).toBeNull();
+        expect((await store.getPrintAuditLog()).undoableClear).toBeNull();
+      });
+
+      it('filters the audit log by order and by user', async () => {
+        await store.markOrdersAsPrinted(['F1'], audit);
+        await store.markOrdersAsPrinted(['F2'], { actor: 'alex', source: 'test' });
+
+        const log = await store.getPrintAuditLog({ tranid: 'F1' });
+        expect(log.entries.map(entry => entry.tranids)).toEqual([['F1']]);
+        expect(log.actors).toEqual(['alex', 'sam']);
+        expect((await store.getPrintAuditLog({ actor: 'alex' })).entries.map(entry => entry.tranids)).toEqual([['F2']]);
+      });
+
+      it('prunes old statuses of orders no longer in the backlog, archiving them on request', async () => {
+        await store.saveSyncedOrderLines([orderLine('F1', '101')], { full: true, syncedAt: new Date() });
+        await store.markOrdersAsPrinted(['F1', 'F2', 'F3'], audit);
+
+        expect(await store.pruneOrderStatuses(new Date(Date.now() + 60_000), { archive: true })).toBe(2);
+        expect(Object.keys(await store.getOrderStatuses({ tranids: ['F1', 'F2', 'F3'] }))).toEqual(['F1']);
+      });
+    });
+
+    describe('print batches', () => {
+      it('records a batch with its orders in print order and marks them printed', async () => {
+        const batch = await store.createPrintBatch({
+          documentType: 'packing-slips',
+          printedBy: 'sam',
+          filters: null,
+          pageProfile: 'letter',
+          packSizeVersion: null,
+          outputFormat: 'zpl-printer',
+          orders: [
+            { tranid: 'F2', orderNumber: '#2' },
+            { tranid: 'F1', orderNumber: null },
+            { tranid: 'F2', orderNumber: '#2' },
+          ],
+          snapshot: null,
+        }, 'test');
+
+        expect(batch).toMatchObject({ documentType: 'packing-slips', printedBy: 'sam', orderCount: 3, pageProfile: 'letter', outputFormat: 'zpl-printer' });
+        const detail = await store.getPrintBatch(batch.id);
+        expect(detail?.orders).toEqual([
+          { tranid: 'F2', orderNumber: '#2', position: 1 },
+          { tranid: 'F1', orderNumber: null, position: 2 },
+        ]);
+        expect(detail?.snapshot).toBeNull();
+        expect((await store.getPrintedOrders({ tranids: ['F1', 'F2'] })).sort()).toEqual(['F1', 'F2']);
+        expect((await store.getPrintBatches()).map(b => b.id)).toEqual([batch.id]);
+        expect(await store.getPrintBatch(batch.id + 1)).toBeNull();
+      });
+    });
+
+    describe('order cache', () => {
+      it('replaces the cache on a full sync and merges an incremental one', async () => {
+        await store.saveSyncedOrderLines([orderLine('F1', '101'), orderLine('F2', '102')], { full: true, syncedAt: new Date() });
+        await store.saveSyncedOrderLines([orderLine('F3', '103')], { full: false, syncedAt: new Date() });
+        expect((await store.getCachedOrderLines()).map(line => line.values.tranid)).toEqual(['F1', 'F2', 'F3']);
+
+        expect(await store.saveSyncedOrderLines([orderLine('F2', '102')], { full: true, syncedAt: new Date() })).toBe(1);
+        expect((await store.getCachedOrderLines()).map(line => line.values.tranid)).toEqual(['F2']);
+      });
+
+      it('replaces each synced fulfillment\'s lines with the ones NetSuite returned', async () => {
+        await store.saveSyncedOrderLines([orderLine('F1', '101'), orderLine('F2', '102')], { full: true, syncedAt: new Date() });
+        const resynced = [orderLine('F2', '102'), orderLine('F2', '102'), orderLine('F3', '103')];
+        resynced[1].values.item = [{ value: '2', text: 'DPT26-WHT' }];
+
+        expect(await store.saveSyncedOrderLines(resynced, { full: false, syncedAt: new Date() })).toBe(2);
+        expect(await store.getCachedOrderLines()).toEqual([orderLine('F1', '101'), ...resynced]);
+      });
+
+      it('keeps the last sync error until the next successful sync', async () => {
+        const syncedAt = new Date('2026-03-01T12:00:00.000Z');
+        await store.saveSyncedOrderLines([], { full: true, syncedAt });
+        await store.recordOrderSyncError('NetSuite timed out');
+
+        expect(await store.getOrderSyncState()).toMatchObject({
+          lastSyncedAt: syncedAt.toISOString(),
+          lastFullSyncAt: syncedAt.toISOString(),
+          lastError: 'NetSuite timed out',
+        });
+
+        await store.saveSyncedOrderLines([], { full: false, syncedAt });
+        expect(await store.getOrderSyncState()).toMatchObject({ lastError: null, lastErrorAt: null });
+      });
+    });
+
+    describe('NetSuite write-back queue', () => {
+      it('queues write-backs with the internal id from the cache and records attempts', async () => {
+        await store.saveSyncedOrderLines([orderLine('F1', '101')], { full: true, syncedAt: new Date() });
+        await store.enqueueWriteBacks([
+          { tranid: 'F1', batchId: null, printedAt: new Date('2026-03-01T12:00:00.000Z') },
+          { tranid: 'F2', batchId: null, printedAt: null },
+        ]);
+
+        const due = await store.getDueWriteBacks(10);
+        expect(due.map(entry => [entry.tranid, entry.internalId, entry.printedAt])).toEqual(expect.arrayContaining([
+          ['F1', '101', '2026-03-01T12:00:00.000Z'],
+          ['F2', null, null],
+        ]));
+
+        const f1 = due.find(entry => entry.tranid === 'F1')!;
+        const f2 = due.find(entry => entry.tranid === 'F2')!;
+        await store.recordWriteBackAttempt(f1, { success: true });
+        await store.recordWriteBackAttempt(f2, { success: false, error: 'Not found', nextAttemptAt: null });
+
+        const statuses = await store.getWriteBackStatuses();
+        expect(statuses.F1).toMatchObject({ status: 'written', attempts: 1 });
+        expect(statuses.F2).toMatchObject({ status: 'failed', attempts: 1, lastError: 'Not found' });
+        expect(await store.getDueWriteBacks(10)).toEqual([]);
+
+        expect(await store.retryFailedWriteBacks()).toBe(1);
+        expect((await store.getDueWriteBacks(10)).map(entry => entry.tranid)).toEqual(['F2']);
+      });
+
+      it('requeues an order that is queued again', async () => {
+        await store.enqueueWriteBacks([{ tranid: 'F1', batchId: null, printedAt: null }]);
+        const [entry] = await store.getDueWriteBacks(10);
+        await store.recordWriteBackAttempt(entry, { success: false, error: 'Down', nextAttemptAt: null });
+
+        await store.enqueueWriteBacks([{ tranid: 'F1', batchId: null, printedAt: new Date() }]);
+        expect(await store.getDueWriteBacks(10)).toMatchObject([{ tranid: 'F1', attempts: 0 }]);
+      });
+
+      it('queues an order listed twice with its last entry', async () => {
+        await store.enqueueWriteBacks([
+          { tranid: 'F1', batchId: 1, printedAt: new Date('2026-03-01T12:00:00.000Z') },
+          { tranid: 'F2', batchId: 1, printedAt: new Date('2026-03-01T12:00:00.000Z') },
+          { tranid: 'F1', batchId: 2, printedAt: null },
+        ]);
+
+        const due = await store.getDueWriteBacks(10);
+        expect(due.find(entry => entry.tranid === 'F1')).toMatchObject({ batchId: 2, printedAt: null });
+        expect(due).toHaveLength(2);
+      });
+    });
+
+    describe('pack size versions', () => {
+      it('saves versions and returns the latest by default', async () => {
+        expect(await store.getPackSizeVersion()).toBeNull();
+        const config = { packSizes: { '2': { name: '2 Cup Box', maxItems: 2, combinations: [['DPT16', 'DPT16']] } } };
+
+        const first = await store.createPackSizeVersion(config, { createdBy: 'sam', note: 'First' });
+        const second = await store.createPackSizeVersion(config, { createdBy: null, note: null });
+
+        expect(second.version).toBeGreaterThan(first.version);
+        expect(await store.getPackSizeVersion()).toMatchObject({ version: second.version, config });
+        expect(await store.getPackSizeVersion(first.version)).toMatchObject({ createdBy: 'sam', note: 'First', config });
+        expect((await store.getPackSizeVersions()).map(v => v.version)).toEqual([second.version, first.version]);
+      });
+    });
+
+    describe('SKU catalog', () => {
+      it('creates, updates and deletes entries', async () => {
+        const entry = { prefix: 'TST20', pattern: null, family: 'Cup', size: '20oz', slotWeight: 1.5, personalized: true };
+        const created = await store.createCatalogEntry(entry);
+        expect(created).toEqual({ id: created.id, ...entry });
+
+        const updated = await store.updateCatalogEntry(created.id, { ...entry, personalized: null, size: null });
+        expect(updated).toEqual({ id: created.id, ...entry, personalized: null, size: null });
+        expect((await store.getCatalogEntries()).find(e => e.id === created.id)).toEqual(updated);
+
+        expect(await store.deleteCatalogEntry(created.id)).toBe(true);
+        expect(await store.deleteCatalogEntry(created.id)).toBe(false);
+        expect(await store.updateCatalogEntry(created.id, entry)).toBeNull();
+      });
+    });
+
+    describe('image cache', () => {
+      it('keeps the last good copy through failures and counts hits and fetches', async () => {
+        const url = 'https://images.example.com/a.png';
+        await store.saveCachedImage(url, 200, { contentType: 'image/png', data: Buffer.from('png') });
+        await store.recordImageFailure(url, 200, 'HTTP 500');
+        await store.recordImageFailure('https://images.example.com/b.png', 200, 'HTTP 404');
+        await store.recordImageCacheHit(url, 200);
+
+        const cached = await store.getCachedImage(url, 200);
+        expect(cached).toMatchObject({ contentType: 'image/png', error: 'HTTP 500' });
+        expect(cached?.data?.toString()).toBe('png');
+        expect(await store.getCachedImage(url, 400)).toBeNull();
+
+        const stats = await store.getImageCacheStats();
+        expect(stats).toMatchObject({ imageCount: 1, totalBytes: 3, hits: 1, fetches: 3, failingCount: 2 });
+        expect(stats.failing.find(f => f.url === url)).toMatchObject({ failures: 1, hasStaleCopy: true });
+
+        expect(await store.deleteUnusedImages(new Date(Date.now() + 60_000))).toBe(2);
+      });
+    });
+
+    describe('users', () => {
+      it('creates users once and updates them', async () => {
+        const user = await store.createUser({ username: 'sam', displayName: 'Sam', role: 'packer', provider: 'local', passwordHash: 'hash' });
+        expect(user).toMatchObject({ username: 'sam', role: 'packer', disabled: false, hasPassword: true, lastLoginAt: null });
+        expect(await store.createUser({ username: 'sam', displayName: null, role: 'viewer', provider: 'local', passwordHash: null })).toBeNull();
+
+        const updated = await store.updateUser(user!.id, { displayName: null, role: 'lead', disabled: true });
+        expect(updated).toMatchObject({ displayName: null, role: 'lead', disabled: true, hasPassword: true });
+        expect(await store.updateUser(user!.id + 1, { role: 'admin' })).toBeNull();
+
+        await store.recordUserLogin(user!.id);
+        const credentials = await store.getUserCredentials('sam');
+        expect(credentials?.passwordHash).toBe('hash');
+        expect(credentials?.user.lastLoginAt).not.toBeNull();
+        expect(await store.getUserCredentials('alex')).toBeNull();
+      });
+
+      it('keeps an OIDC user\'s role unless the provider sends one', async () => {
+        const created = await store.saveOidcUser({ username: 'alex', displayName: 'Alex', role: null, defaultRole: 'viewer' });
+        expect(created).toMatchObject({ provider: 'oidc', role: 'viewer', hasPassword: false });
+
+        await store.updateUser(created!.id, { role: 'packer' });
+        expect(await store.saveOidcUser({ username: 'alex', displayName: null, role: null, defaultRole: 'viewer' }))
+          .toMatchObject({ role: 'packer', displayName: 'Alex' });
+        expect(await store.saveOidcUser({ username: 'alex', displayName: 'A', role: 'lead', defaultRole: 'viewer' }))
+          .toMatchObject({ role: 'lead', displayName: 'A' });
+        expect((await store.getUsers()).map(u => u.username)).toEqual(['alex']);
+      });
+
+      it('refuses an OIDC sign-in with a password user\'s username, leaving the user as it was', async () => {
+        const local = await store.createUser({ username: 'sam', displayName: 'Sam', role: 'viewer', provider: 'local', passwordHash: 'hash' });
+
+        expect(await store.saveOidcUser({ username: 'sam', displayName: 'Imposter', role: 'admin', defaultRole: 'viewer' })).toBeNull();
+        const credentials = await store.getUserCredentials('sam');
+        expect(credentials?.user).toEqual(local);
+        expect(credentials?.passwordHash).toBe('hash');
+      });
+    });
+  });
+}
@@ -0,0 +1,138 @@
+import { MigrationDriver } from './migrate';
+import { AppUser, CatalogEntry, ImageCacheStats, NetSuiteItem, OrderConfig, OrderStatus, OrderStatusEvent, OrderStatusRecord, OrderStatusScope, OrderSyncState, OutputFormat, PackSizeVersion, PageProfile, PrintAuditContext, PrintAuditLog, PrintBatch, PrintBatchDetail, PrintBatchFilters, PrintDocumentType, SerializedProcessedOrder, UserRole, WriteBackStatus } from './types';
+
+/**
+ * What the app keeps in its database, implemented by each storage backend
+ * lib/db.ts picks the configured backend; postgresStore.ts and sqliteStore.ts are the implementations.
+ * The Postgres implementation's doc comments describe each operation.
+ */
+
+export interface OrderStatusChange {
+  tranid: string;
+  fromStatus: OrderStatus;
+  status: OrderStatus;
+}
+
+export interface UndoClearResult {
+  clearId: number;
+  restored: Array<{ tranid: string; printedAt: string }>;
+  skipped: string[]; // Cleared orders that have moved since, left as they are
+}
+
+/**
+ * A queued write-back, with the fulfillment's internal id looked up from the order cache
+ */
+export interface WriteBackEntry {
+  tranid: string;
+  internalId: string | null; // null if the fulfillment has left the order cache
+  batchId: number | null;
+  printedAt: string | null; // null clears the printed fields in NetSuite
+  attempts: number;
+  queuedAt: string; // Exact queue time as stored, to match this entry when recording the attempt
+}
+
+/**
+ * A cached image, or the record of failing to fetch one
+ */
+export interface CachedImage {
+  contentType: string | null;
+  data: Buffer | null; // null if the image has never been fetched successfully
+  error: string | null; // Error from the last fetch, cleared on success
+  fetchedAt: Date; // Time of the last fetch attempt
+}
+
+export interface Store {
+  migrations: MigrationDriver;
+  close: () => Promise<void>; // So a script using the store can exit
+
+  // Order statuses and the print audit log
+  setOrderStatus: (
+    tranids: string[],
+    status: OrderStatus,
+    options: { from?: OrderStatus[]; changedBy?: string | null; note?: string | null },
+    audit: PrintAuditContext
+  ) => Promise<OrderStatusChange[]>;
+  getOrderStatuses: (scope?: OrderStatusScope) => Promise<Record<string, OrderStatusRecord>>;
+  getOrderStatusHistory: (tranid: string) => Promise<OrderStatusEvent[]>;
+  getPrintedOrders: (scope?: OrderStatusScope) => Promise<string[]>;
+  isOrderPrinted: (tranid: string) => Promise<boolean>;
+  markOrdersAsPrinted: (tranids: string[], audit: PrintAuditContext) => Promise<void>;
+  clearPrintedOrders: (audit: PrintAuditContext) => Promise<string[]>;
+  unmarkOrdersAsPrinted: (tranids: string[], audit: PrintAuditContext) => Promise<void>;
+  undoLastClear: (audit: PrintAuditContext) => Promise<UndoClearResult | null>;
+  getPrintAuditLog: (filters?: { tranid?: string | null; actor?: string | null }, limit?: number) => Promise<PrintAuditLog>;
+  pruneOrderStatuses: (changedBefore: Date, options: { archive: boolean }) => Promise<number>;
+
+  // Print batches
+  createPrintBatch: (batch: {
+    documentType: PrintDocumentType;
+    printedBy: string | null;
+    filters: PrintBatchFilters | null;
+    pageProfile: PageProfile | null;
+    packSizeVersion: number | null;
+    outputFormat: OutputFormat | null;
+    orders: Array<{ tranid: string; orderNumber: string | null }>;
+    snapshot: SerializedProcessedOrder[] | null;
+  }, source: string) => Promise<PrintBatch>;
+  getPrintBatches: (limit?: number) => Promise<PrintBatch[]>;
+  getPrintBatch: (id: number) => Promise<PrintBatchDetail | null>;
+
+  // Order cache
+  getCachedOrderLines: () => Promise<NetSuiteItem[]>;
+  saveSyncedOrderLines: (lines: NetSuiteItem[], options: { full: boolean; syncedAt: Date }) => Promise<number>;
+  recordOrderSyncError: (message: string) => Promise<void>;
+  getOrderSyncState: () => Promise<OrderSyncState>;
+
+  // NetSuite write-back queue
+  enqueueWriteBacks: (entries: Array<{ tranid: string; batchId: number | null; printedAt: Date | null }>) => Promise<void>;
+  getDueWriteBacks: (limit: number) => Promise<WriteBackEntry[]>;
+  recordWriteBackAttempt: (
+    entry: WriteBackEntry,
+    outcome: { success: true } | { success: false; error: string; nextAttemptAt: Date | null }
+  ) => Promise<void>;
+  retryFailedWriteBacks: () => Promise<number>;
+  getWriteBackStatuses: (limit?: number) => Promise<Record<string, WriteBackStatus>>;
+
+  // Pack size versions
+  getPackSizeVersion: (version?: number) => Promise<PackSizeVersion | null>;
+  getPackSizeVersions: (limit?: number) => Promise<Omit<PackSizeVersion, 'config'>[]>;
+  createPackSizeVersion: (config: OrderConfig, meta: { createdBy: string | null; note: string | null }) => Promise<PackSizeVersion>;
+
+  // SKU catalog
+  getCatalogEntries: () => Promise<CatalogEntry[]>;
+  createCatalogEntry: (entry: Omit<CatalogEntry, 'id'>) => Promise<CatalogEntry>;
+  updateCatalogEntry: (id: number, entry: Omit<CatalogEntry, 'id'>) => Promise<CatalogEntry | null>;
+  deleteCatalogEntry: (id: number) => Promise<boolean>;
+
+  // Image cache
+  getCachedImage: (url: string, size: number) => Promise<CachedImage | null>;
+  saveCachedImage: (url: string, size: number, image: { contentType: string; data: Buffer }) => Promise<void>;
+  recordImageFailure: (url: string, size: number, message: string) => Promise<void>;
+  recordImageCacheHit: (url: string, size: number) => Promise<void>;
+  deleteUnusedImages: (unusedSince: Date) => Promise<number>;
+  getImageCacheStats: (failureLimit?: number) => Promise<ImageCacheStats>;
+
+  // Users
+  getUsers: () => Promise<AppUser[]>;
+  getUserCredentials: (username: string) => Promise<{ user: AppUser; passwordHash: string | null } | null>;
+  createUser: (user: {
+    username: string;
+    displayName: string | null;
+    role: UserRole;
+    provider: AppUser['provider'];
+    passwordHash: string | null;
+  }) => Promise<AppUser | null>;
+  updateUser: (id: number, changes: {
+    displayName?: string | null;
+    role?: UserRole;
+    passwordHash?: string;
+    disabled?: boolean;
+  }) => Promise<AppUser | null>;
+  recordUserLogin: (id: number) => Promise<void>;
+  saveOidcUser: (user: {
+    username: string;
+    displayName: string | null;
+    role: UserRole | null;
+    defaultRole: UserRole;
+  }) => Promise<AppUser | null>;
+}
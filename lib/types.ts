@@ -32,10 +32,25 @@ export interface NetSuiteItem {
   };
 }
 
+/**
+ * SKU catalog entry: how to classify the SKUs it matches
+ */
+export interface CatalogEntry {
+  id: number;
+  prefix: string; // Matches SKUs starting with it; for cups it is also the key box rules use, e.g. DPT16
+  pattern: string | null; // Regex to match SKUs instead of the prefix
+  family: string; // Product family, e.g. Cup or Accessory
+  size: string | null; // Cup size, e.g. 16oz; null for products that don't go in cup boxes
+  slotWeight: number; // Box slots one unit takes unless a rule's slotsPerCup says otherwise
+  personalized: boolean | null; // null = personalized if the SKU ends in -PERS
+}
+
 export interface OrderItem {
   sku: string;
-  skuPrefix: string | null; // First 5 chars if matches DPT## pattern
-  size: string | null; // 10oz, 16oz, 26oz, or null
+  skuPrefix: string | null; // Catalog key for cups (e.g. DPT16), null for anything that isn't boxed
+  size: string | null; // Cup size from the catalog (10oz, 16oz, 26oz...), or null
+  family: string | null; // Catalog product family, null if the SKU isn't in the catalog
+  personalized: boolean;
   quantity: number;
   color?: string;
   imageUrl?: string;
@@ -44,6 +59,15 @@ export interface OrderItem {
   pickLocation?: string; // item.custitem_pir_pick_location
 }
 
+/**
+ * Problem found in an order's NetSuite lines; errors block printing unless overridden
+ */
+export interface OrderIssue {
+  severity: 'error' | 'warning';
+  code: string; // e.g. missing-zip, zero-quantity, conflicting-header
+  message: string;
+}
+
 export interface ProcessedOrder {
   tranid: string;
   orderNumber: string; // createdFrom.otherrefnum_1 (Shopify order #) or createdFrom.tranid (fallback)
@@ -53,6 +77,7 @@ export interface ProcessedOrder {
   items: OrderItem[];
   cupSizes: Set<string>; // Set of sizes in this order (10oz, 16oz, 26oz)
   boxSize: string | null; // Matched box size (4pack, 5pack, 10pack) or null
+  boxes: BoxAssignment[]; // One entry per box; several when the order is split, empty if no packing fits
   shipmethod?: string;
   poNumber?: string;
   memo?: string;
@@ -61,12 +86,46 @@ export interface ProcessedOrder {
   shippingZone?: string; // Shipping zone number (e.g., "002", "003", "004", "005", etc.)
   shippingZoneName?: string; // Human-readable zone name (e.g., "Zone 005")
   zipCode?: string; // Zip code used for zone lookup
+  issues: OrderIssue[]; // Problems found validating the order's lines
+}
+
+/**
+ * JSON-safe form of ProcessedOrder (Sets don't survive JSON.stringify)
+ */
+export type SerializedProcessedOrder = Omit<ProcessedOrder, 'cupSizes'> & {
+  cupSizes: string[];
+};
+
+/**
+ * Capacity rule for a box: any mix of cups that fits the slots, within the limits
+ * e.g. { slots: 4, slotsPerCup: { DPT26: 2 }, minCups: 2 } for a 4-slot box where a 26oz takes two slots
+ */
+export interface BoxCapacityRule {
+  slots: number; // Total slots in the box
+  slotsPerCup?: { [prefix: string]: number }; // Slots one cup of a size takes (default: its catalog slot weight, or 1 in a one-cup box)
+  minCups?: number; // Fewest cups the box ships with (default 1)
+  minSlots?: number; // Fewest slots that must be filled (default 0)
+  maxPerSize?: { [prefix: string]: number }; // Most cups of one size, e.g. { DPT26: 2 }
+  maxSizes?: number; // Most distinct cup sizes mixed in one box
+  sizes?: string[]; // Cup prefixes the rule accepts (default any)
 }
 
 export interface BoxSizeConfig {
   name: string;
   maxItems: number;
-  combinations: string[][];
+  combinations?: string[][]; // Enumerated cup prefix combinations (matched exactly)
+  rules?: BoxCapacityRule[]; // Capacity rules, checked alongside combinations
+  cost?: number; // Relative cost when splitting orders across boxes (default 1 = fewest boxes wins)
+  retired?: boolean; // Kept for history and names, but never matched
+}
+
+/**
+ * What goes in one box of an order
+ */
+export interface BoxAssignment {
+  boxSize: string; // packSizes key
+  name: string; // Box name when the order was processed, so old batches keep it
+  contents: Array<{ sku: string; quantity: number }>;
 }
 
 export interface OrderConfig {
@@ -75,3 +134,203 @@ export interface OrderConfig {
   };
 }
 
+/**
+ * A saved version of the pack size config
+ * Version 0 is the built-in order-config.json, used until a version is saved
+ */
+export interface PackSizeVersion {
+  version: number;
+  config: OrderConfig;
+  createdAt: string | null;
+  createdBy: string | null;
+  note: string | null;
+}
+
+
+export type PrintDocumentType = 'packing-slips' | 'picklist-and-packing-slips';
+
+// Packing slip page layout: letter (1 per page), letter with small orders 2-up, or 4x6 thermal labels
+export type PageProfile = 'letter' | 'letter-2up' | 'thermal-4x6';
+
+// Where print jobs go: a PDF in a new tab, a .zpl download, or raw ZPL straight to the Zebra printer
+export type OutputFormat = 'pdf' | 'zpl-file' | 'zpl-printer';
+
+// Where an order is in fulfillment; orders with no recorded status are 'new'
+export type OrderStatus = 'new' | 'printed' | 'picked' | 'packed' | 'shipped' | 'on-hold' | 'cancelled';
+
+export interface OrderStatusRecord {
+  status: OrderStatus;
+  changedAt: string;
+  changedBy: string | null;
+}
+
+/**
+ * Which orders' statuses to read: `tranids`, or statuses changed since `since`, or both
+ * With neither, only the orders in the order cache (the current backlog)
+ */
+export interface OrderStatusScope {
+  tranids?: string[];
+  since?: Date;
+}
+
+/**
+ * One status transition, kept so the history of an order can be shown
+ */
+export interface OrderStatusEvent {
+  tranid: string;
+  fromStatus: OrderStatus;
+  status: OrderStatus;
+  changedAt: string;
+  changedBy: string | null;
+  note: string | null;
+}
+
+// Changes to printed status that are recorded in the audit log
+export type PrintAuditAction = 'mark' | 'unmark' | 'clear' | 'undo-clear' | 'batch' | 'status';
+
+/**
+ * Who changed printed status and from where (a screen like 'orders' or 'pack-station', or 'api')
+ */
+export interface PrintAuditContext {
+  actor: string | null;
+  source: string;
+}
+
+export interface PrintAuditEntry extends PrintAuditContext {
+  id: number;
+  createdAt: string;
+  action: PrintAuditAction;
+  tranids: string[]; // Orders the change affected
+  details: {
+    status?: OrderStatus; // status: the status orders were moved to
+    batchId?: number; // batch: the print batch recorded
+    undoes?: number; // undo-clear: the clear it reverted
+    skipped?: string[]; // undo-clear: cleared orders that had moved on and were left alone
+  } | null;
+}
+
+/**
+ * A page of the audit log, plus what the viewer needs for its filters and undo button
+ */
+export interface PrintAuditLog {
+  entries: PrintAuditEntry[];
+  actors: string[]; // Everyone who appears in the log, for the user filter
+  undoableClear: PrintAuditEntry | null; // The most recent clear, unless it's already been undone
+}
+
+/**
+ * Filter state captured when a batch is printed, so a lead can see why
+ * these particular orders went out together
+ */
+export interface PrintBatchFilters {
+  personalized: boolean | null;
+  cupSizes: string[];
+  boxSize: string | null;
+  dateFrom: string | null; // YYYY-MM-DD from the date input
+  dateTo: string | null;
+  statuses?: OrderStatus[]; // Empty = all statuses
+  printed?: boolean | null; // Batches recorded before statuses: null = all, true = printed, false = not printed
+  shippingZones: string[];
+  selection: 'selected' | 'filtered'; // Whether the user hand-picked orders or printed everything filtered
+}
+
+export interface PrintBatch {
+  id: number;
+  createdAt: string;
+  documentType: PrintDocumentType;
+  printedBy: string | null;
+  orderCount: number;
+  filters: PrintBatchFilters | null;
+  pageProfile: PageProfile | null; // Layout the slips were printed with (null for batches before profiles)
+  packSizeVersion: number | null; // Pack size config the boxes were matched with (null for older batches)
+  outputFormat: OutputFormat | null; // How it was output (null for older batches, reprinted as PDF)
+}
+
+export interface PrintBatchOrder {
+  tranid: string;
+  orderNumber: string | null;
+  position: number; // Order of the slip within the printed PDF
+}
+
+export interface PrintBatchDetail extends PrintBatch {
+  orders: PrintBatchOrder[];
+  snapshot: SerializedProcessedOrder[] | null; // Orders exactly as they were printed, for reprints
+}
+
+/**
+ * State of the local NetSuite order cache
+ */
+export interface OrderSyncState {
+  lastSyncedAt: string | null; // Watermark: start of the last successful sync
+  lastFullSyncAt: string | null;
+  lastError: string | null; // Message from the last failed sync, cleared on success
+  lastErrorAt: string | null;
+}
+
+/**
+ * Progress events streamed to the UI while the order cache syncs (one JSON object per line)
+ */
+export type OrderSyncEvent =
+  | { type: 'progress'; pagesFetched: number; pageCount: number; linesFetched: number; totalCount: number | null }
+  | { type: 'retry'; message: string; retryAt: string }
+  | { type: 'done'; mode: 'full' | 'incremental'; orderCount: number; syncedAt: string }
+  | { type: 'error'; message: string };
+
+/**
+ * Status of writing an order's printed state back to its NetSuite item fulfillment
+ */
+export interface WriteBackStatus {
+  status: 'pending' | 'written' | 'failed'; // failed = gave up retrying automatically
+  attempts: number;
+  lastError: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Image cache totals, for the cache stats view
+ * Hits are requests served from the cache; fetches are trips to the image host (misses, refreshes and prefetches)
+ */
+export interface ImageCacheStats {
+  imageCount: number;
+  totalBytes: number;
+  hits: number;
+  fetches: number;
+  hitRate: number | null; // hits / (hits + fetches), null before any request
+  failingCount: number;
+  failing: Array<{
+    url: string;
+    size: number;
+    error: string;
+    failures: number; // Consecutive failed fetches
+    hasStaleCopy: boolean; // An older good copy is still served
+    lastAttemptAt: string;
+  }>;
+}
+
+// Each role can do everything the roles before it can
+export type UserRole = 'viewer' | 'packer' | 'lead' | 'admin';
+
+// How a user signs in: a password kept in the users table, the configured OIDC provider, or an API token
+export type AuthProvider = 'local' | 'oidc' | 'token';
+
+/**
+ * The signed-in user, as carried in the session cookie
+ */
+export interface SessionUser {
+  username: string;
+  displayName: string | null;
+  role: UserRole;
+  provider: AuthProvider;
+}
+
+export interface AppUser {
+  id: number;
+  username: string;
+  displayName: string | null;
+  role: UserRole;
+  provider: Exclude<AuthProvider, 'token'>;
+  disabled: boolean;
+  hasPassword: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
@@ -0,0 +1,102 @@
+import { UserRole } from './types';
+import { isUserRole, USER_ROLES } from './roles';
+
+/**
+ * Validation for creating and editing app users
+ * Usernames are case-insensitive and stored lowercase; OIDC users are keyed by their email
+ */
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+const USERNAME_PATTERN = /^[a-z0-9._@+-]{2,100}$/;
+
+export function normalizeUsername(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export interface NewUserRequest {
+  username: string;
+  displayName: string | null;
+  role: UserRole;
+  password: string | null; // Null for users who sign in through OIDC
+}
+
+export interface UserUpdateRequest {
+  displayName?: string | null;
+  role?: UserRole;
+  password?: string;
+  disabled?: boolean;
+}
+
+function toDisplayName(value: unknown): string | null {
+  return typeof value === 'string' ? value.trim().slice(0, 100) || null : null;
+}
+
+function checkPassword(value: unknown): string | null {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+    return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Validate an untrusted request body into a new user
+ * Returns an error message if the body is not usable
+ */
+export function parseNewUser(body: unknown): NewUserRequest | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+
+  const { username, displayName, role, password } = body as Record<string, unknown>;
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(normalizeUsername(username))) {
+    return 'username must be 2-100 letters, numbers or . _ @ + -';
+  }
+  if (!isUserRole(role)) {
+    return `role must be one of: ${USER_ROLES.join(', ')}`;
+  }
+  if (displayName !== undefined && displayName !== null && typeof displayName !== 'string') {
+    return 'displayName must be a string';
+  }
+  if (password !== undefined && password !== null) {
+    const passwordError = checkPassword(password);
+    if (passwordError) return passwordError;
+  }
+
+  return {
+    username: normalizeUsername(username),
+    displayName: toDisplayName(displayName),
+    role,
+    password: typeof password === 'string' ? password : null,
+  };
+}
+
+/**
+ * Validate an untrusted request body into changes to a user; fields left out are unchanged
+ */
+export function parseUserUpdate(body: unknown): UserUpdateRequest | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+
+  const { displayName, role, password, disabled } = body as Record<string, unknown>;
+  const update: UserUpdateRequest = {};
+  if (displayName !== undefined) {
+    if (displayName !== null && typeof displayName !== 'string') return 'displayName must be a string';
+    update.displayName = toDisplayName(displayName);
+  }
+  if (role !== undefined) {
+    if (!isUserRole(role)) return `role must be one of: ${USER_ROLES.join(', ')}`;
+    update.role = role;
+  }
+  if (password !== undefined) {
+    const passwordError = checkPassword(password);
+    if (passwordError) return passwordError;
+    update.password = password as string;
+  }
+  if (disabled !== undefined) {
+    if (typeof disabled !== 'boolean') return 'disabled must be a boolean';
+    update.disabled = disabled;
+  }
+  return update;
+}
@@ -0,0 +1,44 @@
+import net from 'net';
+
+/**
+ * Raw TCP printing to Zebra printers (JetDirect / port 9100)
+ * Server-side only
+ */
+
+const ZEBRA_PRINTER_HOST = process.env.ZEBRA_PRINTER_HOST || '';
+const ZEBRA_PRINTER_PORT = parseInt(process.env.ZEBRA_PRINTER_PORT || '9100');
+const SEND_TIMEOUT_MS = 10000;
+
+export function isZebraPrinterConfigured(): boolean {
+  return !!ZEBRA_PRINTER_HOST;
+}
+
+/**
+ * Send a ZPL job to the printer; resolves once the socket has flushed and closed
+ */
+export async function sendToZebraPrinter(
+  zpl: string,
+  target: { host?: string; port?: number } = {}
+): Promise<void> {
+  const host = target.host || ZEBRA_PRINTER_HOST;
+  const port = target.port || ZEBRA_PRINTER_PORT;
+  if (!host) {
+    throw new Error('Zebra printer not configured. Please set ZEBRA_PRINTER_HOST in .env.local');
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(SEND_TIMEOUT_MS);
+
+    socket.on('connect', () => {
+      socket.end(zpl, 'utf8');
+    });
+    socket.on('timeout', () => {
+      socket.destroy(new Error(`Timed out sending to printer at ${host}:${port}`));
+    });
+    socket.on('error', reject);
+    socket.on('close', hadError => {
+      if (!hadError) resolve();
+    });
+  });
+}
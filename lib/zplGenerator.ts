@@ -0,0 +1,428 @@
+import { ProcessedOrder, OrderItem } from './types';
+import { getShipStationBarcodeValue, loadImageAsDataUrl } from './pdfGenerator';
+
+/**
+ * ZPL II output for Zebra printers (4x6 labels)
+ * Barcodes use native ^BC Code 128 so the printer renders them at full resolution
+ */
+
+export interface ZplOptions {
+  textOnly?: boolean; // Drop artwork/product thumbnails entirely
+  dpi?: 203 | 300; // Printer resolution (dots per inch)
+  pageRange?: { from: number; to: number }; // Labels to keep, 1-based and inclusive, like the PDF page range
+}
+
+const LABEL = {
+  width: 4,
+  height: 6,
+  margin: 0.15,
+  headerHeight: 1.45,
+  footerHeight: 0.55,
+  rowHeight: 0.42,
+  maxAddressLines: 5,
+};
+
+const PICKLIST_ROW_HEIGHT = 0.22;
+
+/**
+ * Escape a value for ^FD using ^FH hex escapes
+ * ShipStation IDs contain ^ which would otherwise start a new ZPL command
+ */
+function fieldData(value: string): string {
+  const escaped = value.replace(/[_^~]/g, ch => `_${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `^FH_^FD${escaped}^FS`;
+}
+
+/**
+ * Label drawing helpers bound to a printer resolution
+ */
+function createLabelWriter(dpi: number) {
+  const dots = (inches: number) => Math.round(inches * dpi);
+  const commands: string[] = [];
+
+  return {
+    dots,
+    commands,
+    text(value: string, x: number, y: number, fontHeight: number, options: { bold?: boolean; maxWidth?: number; align?: 'L' | 'R' | 'C' } = {}) {
+      const height = dots(fontHeight);
+      // Font 0 is scalable; a wider glyph width stands in for bold
+      const width = options.bold ? Math.round(height * 1.1) : Math.round(height * 0.9);
+      let fitted = value;
+      if (options.maxWidth) {
+        const maxChars = Math.max(1, Math.floor(dots(options.maxWidth) / (width * 0.6)));
+        // Plain dots: the resident font has no ellipsis glyph
+        if (fitted.length > maxChars) fitted = fitted.substring(0, Math.max(1, maxChars - 3)) + '...';
+      }
+      if (options.align && options.align !== 'L' && options.maxWidth) {
+        // Field block so the printer does the alignment
+        commands.push(`^FO${dots(x)},${dots(y)}^A0N,${height},${width}^FB${dots(options.maxWidth)},1,0,${options.align},0${fieldData(fitted)}`);
+      } else {
+        commands.push(`^FO${dots(x)},${dots(y)}^A0N,${height},${width}${fieldData(fitted)}`);
+      }
+    },
+    line(x: number, y: number, width: number, thickness: number = 0.01) {
+      const t = Math.max(1, dots(thickness));
+      commands.push(`^FO${dots(x)},${dots(y)}^GB${dots(width)},${t},${t}^FS`);
+    },
+    barcode(value: string, x: number, y: number, maxWidth: number, height: number) {
+      // Code 128 is ~11 modules per character plus start/stop/check and quiet zones
+      const modules = value.length * 11 + 35;
+      const moduleWidth = Math.max(1, Math.min(3, Math.floor(dots(maxWidth) / modules)));
+      const textHeight = dots(0.08);
+      commands.push(`^FO${dots(x)},${dots(y)}^BY${moduleWidth},3^BCN,${dots(height) - textHeight},Y,N,N${fieldData(value)}`);
+    },
+    graphic(x: number, y: number, graphic: ZplGraphic) {
+      commands.push(`^FO${dots(x)},${dots(y)}^GFA,${graphic.totalBytes},${graphic.totalBytes},${graphic.bytesPerRow},${graphic.hex}^FS`);
+    },
+    toLabel(): string {
+      return ['^XA', '^CI28', `^PW${dots(LABEL.width)}`, `^LL${dots(LABEL.height)}`, ...commands, '^XZ'].join('\n');
+    },
+  };
+}
+
+interface ZplGraphic {
+  bytesPerRow: number;
+  totalBytes: number;
+  hex: string;
+}
+
+/**
+ * Downsample an image to a 1-bit ^GF graphic
+ * Needs a canvas, so this only works in the browser; on the server images are dropped
+ */
+async function rasterizeImage(url: string, maxWidthDots: number, maxHeightDots: number): Promise<ZplGraphic | null> {
+  if (typeof document === 'undefined') return null;
+
+  const imgData = await loadImageAsDataUrl(url, 150, 150);
+  if (!imgData) return null;
+
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(maxWidthDots / img.width, maxHeightDots / img.height, 1);
+      const width = Math.max(1, Math.round(img.width * scale));
+      const height = Math.max(1, Math.round(img.height * scale));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(null);
+        return;
+      }
+      // Transparent pixels should print as paper, not ink
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      context.drawImage(img, 0, 0, width, height);
+      const pixels = context.getImageData(0, 0, width, height).data;
+
+      const bytesPerRow = Math.ceil(width / 8);
+      let hex = '';
+      for (let row = 0; row < height; row++) {
+        for (let byteIndex = 0; byteIndex < bytesPerRow; byteIndex++) {
+          let byte = 0;
+          for (let bit = 0; bit < 8; bit++) {
+            const col = byteIndex * 8 + bit;
+            if (col >= width) continue;
+            const offset = (row * width + col) * 4;
+            const luminance = 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+            if (luminance < 128) byte |= 0x80 >> bit;
+          }
+          hex += byte.toString(16).padStart(2, '0').toUpperCase();
+        }
+      }
+
+      resolve({ bytesPerRow, totalBytes: bytesPerRow * height, hex });
+    };
+    img.onerror = () => resolve(null);
+    img.src = imgData.dataUrl;
+  });
+}
+
+/**
+ * Build the ZPL labels for one order, continuing onto extra labels for long orders
+ */
+async function buildOrderLabels(order: ProcessedOrder, options: ZplOptions): Promise<string[]> {
+  const dpi = options.dpi || 203;
+  const { width, height, margin, headerHeight, footerHeight, rowHeight, maxAddressLines } = LABEL;
+  const contentWidth = width - (margin * 2);
+  const tableTop = margin + headerHeight + 0.1;
+  const tableHeaderHeight = 0.16;
+  const rowsPerLabel = Math.max(1, Math.floor((height - tableTop - tableHeaderHeight - footerHeight) / rowHeight));
+  const labelCount = Math.max(1, Math.ceil(order.items.length / rowsPerLabel));
+
+  const imageCache = new Map<string, ZplGraphic | null>();
+  const getGraphic = async (url: string) => {
+    if (!imageCache.has(url)) {
+      const maxDots = Math.round(0.36 * dpi);
+      imageCache.set(url, await rasterizeImage(url, maxDots, maxDots));
+    }
+    return imageCache.get(url) || null;
+  };
+
+  const labels: string[] = [];
+  for (let i = 0; i < labelCount; i++) {
+    const label = createLabelWriter(dpi);
+    const x = margin;
+
+    // Header: title and label marker
+    label.text('PACKING SLIP', x, margin, 0.16, { bold: true });
+    label.text(`${i + 1} of ${labelCount}`, x, margin, 0.13, { bold: true, maxWidth: contentWidth, align: 'R' });
+
+    // Ship To (left)
+    const shipToWidth = contentWidth * 0.55;
+    let currentY = margin + 0.25;
+    label.text('SHIP TO', x, currentY, 0.09, { bold: true });
+    currentY += 0.13;
+    const addressLines = order.shipaddress.split('\r\n').filter(line => line.trim()).slice(0, maxAddressLines);
+    for (const line of addressLines) {
+      label.text(line, x, currentY, 0.09, { maxWidth: shipToWidth - 0.05 });
+      currentY += 0.12;
+    }
+
+    // Order details (right)
+    const detailX = x + shipToWidth + 0.1;
+    const detailWidth = contentWidth - shipToWidth - 0.1;
+    const details = [
+      { label: 'Order #', value: order.orderNumber },
+      { label: 'IF', value: order.tranid },
+      { label: 'PO', value: order.poNumber || '' },
+      { label: 'Date', value: order.datecreated ? order.datecreated.split(' ')[0] : '' },
+    ];
+    let detailY = margin + 0.25;
+    for (const detail of details) {
+      label.text(`${detail.label}:`, detailX, detailY, 0.08, { bold: true });
+      label.text(detail.value || 'N/A', detailX, detailY, 0.08, { maxWidth: detailWidth, align: 'R' });
+      detailY += 0.15;
+    }
+
+    if (order.memo) {
+      label.text(`Notes: ${order.memo}`, x, margin + headerHeight - 0.2, 0.08, { maxWidth: contentWidth });
+    }
+    label.line(x, margin + headerHeight, contentWidth, 0.01);
+
+    // Items table
+    const colWidths = [0.45, 1.45, 1.3, 0.5].map(w => w * (contentWidth / 3.7));
+    currentY = tableTop;
+    label.text('ITEM', x + colWidths[0], currentY, 0.08, { bold: true });
+    label.text('BARCODE', x + colWidths[0] + colWidths[1], currentY, 0.08, { bold: true, maxWidth: colWidths[2], align: 'C' });
+    label.text('QTY', x, currentY, 0.08, { bold: true, maxWidth: contentWidth, align: 'R' });
+    currentY += tableHeaderHeight;
+    label.line(x, currentY - 0.04, contentWidth, 0.01);
+
+    const labelItems = order.items.slice(i * rowsPerLabel, (i + 1) * rowsPerLabel);
+    for (const item of labelItems) {
+      await drawItemRow(label, item, x, currentY, colWidths, options.textOnly ? null : getGraphic);
+      currentY += rowHeight;
+      label.line(x, currentY - 0.02, contentWidth, 0.005);
+    }
+
+    // Footer: ShipStation barcode and label marker
+    const barcodeValue = getShipStationBarcodeValue(order);
+    if (barcodeValue) {
+      label.barcode(barcodeValue, x, height - margin - 0.45, 1.8, 0.42);
+    }
+    label.text(`Label ${i + 1} of ${labelCount}`, x, height - margin - 0.1, 0.09, { maxWidth: contentWidth, align: 'R' });
+
+    labels.push(label.toLabel());
+  }
+
+  return labels;
+}
+
+/**
+ * Draw one item row: thumbnail, SKU with attributes, barcode, quantity
+ */
+async function drawItemRow(
+  label: ReturnType<typeof createLabelWriter>,
+  item: OrderItem,
+  x: number,
+  y: number,
+  colWidths: number[],
+  getGraphic: ((url: string) => Promise<ZplGraphic | null>) | null
+): Promise<void> {
+  let xPos = x;
+
+  if (item.imageUrl && getGraphic) {
+    const graphic = await getGraphic(item.imageUrl);
+    if (graphic) {
+      label.graphic(xPos, y + 0.02, graphic);
+    }
+  }
+  xPos += colWidths[0];
+
+  const textWidth = colWidths[1] - 0.05;
+  label.text(item.sku, xPos, y + 0.03, 0.1, { bold: true, maxWidth: textWidth });
+  const attributes = [item.color, item.size, item.pickLocation ? `BIN ${item.pickLocation}` : '']
+    .filter(Boolean)
+    .join(' / ');
+  if (attributes) {
+    label.text(attributes, xPos, y + 0.16, 0.075, { maxWidth: textWidth });
+  }
+  if (item.description) {
+    label.text(item.description, xPos, y + 0.26, 0.075, { maxWidth: textWidth });
+  }
+  xPos += colWidths[1];
+
+  if (item.barcode) {
+    label.barcode(item.barcode, xPos + 0.05, y + 0.03, colWidths[2] - 0.1, 0.34);
+  }
+  xPos += colWidths[2];
+
+  label.text(item.quantity.toString(), xPos, y + 0.1, 0.14, { bold: true, maxWidth: colWidths[3], align: 'R' });
+}
+
+/**
+ * Join a job's labels, keeping only those in the page range if one is given
+ */
+function toZplJob(labels: string[], pageRange?: { from: number; to: number }): string {
+  if (!pageRange) return labels.join('\n');
+
+  const from = Math.max(1, pageRange.from);
+  const to = Math.min(labels.length, pageRange.to);
+  if (from > to) {
+    throw new Error(`Page range ${pageRange.from}-${pageRange.to} is outside the job (1-${labels.length})`);
+  }
+  return labels.slice(from - 1, to).join('\n');
+}
+
+/**
+ * Build the packing slip labels for the given orders, one job entry per label
+ */
+async function buildPackingSlipLabels(orders: ProcessedOrder[], options: ZplOptions): Promise<string[]> {
+  if (!orders || orders.length === 0) {
+    throw new Error('No orders provided');
+  }
+
+  const labels: string[] = [];
+  for (const order of orders) {
+    labels.push(...await buildOrderLabels(order, options));
+  }
+  return labels;
+}
+
+/**
+ * Generate ZPL packing slip labels for the given orders
+ */
+export async function generatePackingSlipsZPL(orders: ProcessedOrder[], options: ZplOptions = {}): Promise<string> {
+  return toZplJob(await buildPackingSlipLabels(orders, options), options.pageRange);
+}
+
+/**
+ * Generate a ZPL picklist (LOCATION / QTY / ITEM), continuing across as many labels as needed
+ */
+export async function generatePicklistZPL(orders: ProcessedOrder[], options: ZplOptions = {}): Promise<string> {
+  return toZplJob(buildPicklistLabels(orders, options), options.pageRange);
+}
+
+/**
+ * Build the picklist labels for the given orders
+ */
+function buildPicklistLabels(orders: ProcessedOrder[], options: ZplOptions): string[] {
+  if (!orders || orders.length === 0) {
+    throw new Error('No orders provided');
+  }
+
+  // Aggregate by pick location + SKU, same key as the PDF picklist
+  const rowsByKey = new Map<string, { pickLocation: string; sku: string; quantity: number }>();
+  for (const order of orders) {
+    for (const item of order.items) {
+      const pickLocation = item.pickLocation || '-';
+      const key = `${pickLocation}|${item.sku}`;
+      const row = rowsByKey.get(key) || { pickLocation, sku: item.sku, quantity: 0 };
+      row.quantity += item.quantity;
+      rowsByKey.set(key, row);
+    }
+  }
+
+  // Unlocated items last, then by location and SKU
+  const rows = Array.from(rowsByKey.values()).sort((a, b) => {
+    if (a.pickLocation === '-' && b.pickLocation !== '-') return 1;
+    if (b.pickLocation === '-' && a.pickLocation !== '-') return -1;
+    return a.pickLocation.localeCompare(b.pickLocation) || a.sku.localeCompare(b.sku);
+  });
+
+  const totalPersonalizedCups = rows
+    .filter(row => row.sku.endsWith('-PERS'))
+    .reduce((sum, row) => sum + row.quantity, 0);
+
+  const dpi = options.dpi || 203;
+  const { width, height, margin } = LABEL;
+  const contentWidth = width - (margin * 2);
+  const tableTop = margin + 0.75;
+  const rowsPerLabel = Math.max(1, Math.floor((height - margin - tableTop) / PICKLIST_ROW_HEIGHT));
+  const labelCount = Math.max(1, Math.ceil(rows.length / rowsPerLabel));
+
+  const labels: string[] = [];
+  for (let i = 0; i < labelCount; i++) {
+    const label = createLabelWriter(dpi);
+    const x = margin;
+
+    label.text('PICKLIST', x, margin, 0.16, { bold: true });
+    label.text(`${i + 1} of ${labelCount}`, x, margin, 0.13, { bold: true, maxWidth: contentWidth, align: 'R' });
+    label.text(`Generated: ${new Date().toLocaleString()}`, x, margin + 0.24, 0.08);
+    label.text(`Total Orders: ${orders.length}   Personalized Cups: ${totalPersonalizedCups}`, x, margin + 0.37, 0.08, { bold: true });
+    label.line(x, margin + 0.52, contentWidth, 0.01);
+
+    const colWidths = [0.9, 0.5, contentWidth - 1.4];
+    let currentY = margin + 0.58;
+    label.text('LOCATION', x, currentY, 0.08, { bold: true });
+    label.text('QTY', x + colWidths[0], currentY, 0.08, { bold: true });
+    label.text('ITEM', x + colWidths[0] + colWidths[1], currentY, 0.08, { bold: true });
+
+    currentY = tableTop;
+    for (const row of rows.slice(i * rowsPerLabel, (i + 1) * rowsPerLabel)) {
+      label.text(row.pickLocation, x, currentY, 0.1, { bold: true, maxWidth: colWidths[0] - 0.05 });
+      label.text(row.quantity.toString(), x + colWidths[0], currentY, 0.1, { bold: true });
+      label.text(row.sku, x + colWidths[0] + colWidths[1], currentY, 0.1, { maxWidth: colWidths[2] });
+      currentY += PICKLIST_ROW_HEIGHT;
+      label.line(x, currentY - 0.05, contentWidth, 0.005);
+    }
+
+    labels.push(label.toLabel());
+  }
+
+  return labels;
+}
+
+/**
+ * Generate a picklist followed by packing slips, as one ZPL job
+ * A page range counts labels across the whole job, picklist first
+ */
+export async function generateCombinedZPL(orders: ProcessedOrder[], options: ZplOptions = {}): Promise<string> {
+  const picklist = buildPicklistLabels(orders, options);
+  const packingSlips = await buildPackingSlipLabels(orders, options);
+  return toZplJob([...picklist, ...packingSlips], options.pageRange);
+}
+
+/**
+ * Save ZPL as a .zpl file (browser only), e.g. for offline testing with a label viewer
+ */
+export function downloadZpl(zpl: string, filename: string): void {
+  const blob = new Blob([zpl], { type: 'application/zpl' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 100);
+}
+
+/**
+ * Send ZPL to the configured Zebra printer via the server (browser only)
+ */
+export async function sendZplToPrinter(zpl: string): Promise<void> {
+  const response = await fetch('/api/zpl/print', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ zpl }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.message || data.error || 'Failed to send to printer');
+  }
+}
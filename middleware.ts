@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, requiredRole } from '@/lib/auth';
+import { hasRole, USER_ROLE_LABELS } from '@/lib/roles';
+
+/**
+ * Require a signed-in user with the right role for every page and API route
+ * Pages redirect to the login page; API routes get a 401 or 403
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const role = requiredRole(request.method, pathname);
+  if (!role) return NextResponse.next();
+
+  const isApi = pathname.startsWith('/api/');
+  let user;
+  try {
+    user = await getSession(request);
+  } catch (error) {
+    // Without AUTH_SECRET nothing can be verified, so nothing is served
+    console.error('Error checking session:', error);
+    return NextResponse.json(
+      { error: 'Sign-in is not configured', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!hasRole(user, role)) {
+    const message = `This needs the ${USER_ROLE_LABELS[role]} role`;
+    return isApi
+      ? NextResponse.json({ error: message }, { status: 403 })
+      : NextResponse.redirect(new URL('/', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Everything except Next's own static files
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
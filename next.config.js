@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    instrumentationHook: true, // Runs instrumentation.ts at startup, for DB_MIGRATE_ON_BOOT
+    serverComponentsExternalPackages: ['better-sqlite3'], // Native module, loaded from node_modules rather than bundled
+  },
+}
 
 module.exports = nextConfig
-
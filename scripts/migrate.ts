@@ -0,0 +1,63 @@
+import { config } from 'dotenv';
+import { closeStore, getStore } from '../lib/db';
+import { getLatestVersion, getMigrationStatus, migrateDown, migrateUp } from '../lib/migrate';
+
+/**
+ * Schema migrations from the command line
+ *   npm run db:migrate                      apply every pending migration
+ *   npm run db:migrate -- up --to 7         apply pending migrations up to version 7
+ *   npm run db:migrate -- down              revert the latest migration
+ *   npm run db:migrate -- down --to 7       revert every migration after version 7
+ *   npm run db:migrate -- status            list migrations and when each was applied
+ * Reads DB_BACKEND and the connection settings from .env.local or .env, like the app
+ */
+
+const USAGE = 'Usage: npm run db:migrate -- [up [--to <version>] | down [--to <version>] | status]';
+
+function parseTarget(args: string[]): number | undefined {
+  const index = args.indexOf('--to');
+  if (index === -1) return undefined;
+  const target = Number(args[index + 1]);
+  if (!Number.isInteger(target) || target < 0) {
+    throw new Error(`--to needs a version number\n${USAGE}`);
+  }
+  return target;
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command = 'up', ...rest] = args;
+  const migrations = (await getStore()).migrations;
+
+  if (command === 'up') {
+    const applied = await migrateUp(migrations, parseTarget(rest));
+    applied.forEach(m => console.log(`Applied ${m.version} ${m.name}`));
+    console.log(applied.length > 0 ? `Done, ${applied.length} applied` : 'Already up to date');
+  } else if (command === 'down') {
+    let target = parseTarget(rest);
+    if (target === undefined) {
+      const applied = (await getMigrationStatus(migrations)).filter(m => m.appliedAt);
+      target = applied.length > 1 ? applied[applied.length - 2].version : 0;
+    }
+    const reverted = await migrateDown(migrations, target);
+    reverted.forEach(m => console.log(`Reverted ${m.version} ${m.name}`));
+    console.log(reverted.length > 0 ? `Done, now at version ${target}` : 'Nothing to revert');
+  } else if (command === 'status') {
+    const statuses = await getMigrationStatus(migrations);
+    statuses.forEach(m => {
+      const state = m.appliedAt ? `applied ${m.appliedAt}` : 'pending';
+      console.log(`${String(m.version).padStart(4)}  ${m.name.padEnd(24)} ${state}${m.known ? '' : ' (not in this version of the app)'}`);
+    });
+    console.log(`Latest version: ${getLatestVersion()}`);
+  } else {
+    throw new Error(`Unknown command: ${command}\n${USAGE}`);
+  }
+}
+
+config({ path: ['.env.local', '.env'], quiet: true });
+
+main(process.argv.slice(2))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(closeStore);